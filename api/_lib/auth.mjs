@@ -0,0 +1,158 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { supabase } from "./supabase.mjs";
+import { allowMethods } from "./http.mjs";
+import { createRateLimiterFromEnv } from "./rateLimit.mjs";
+import { logApiRequest } from "./requestLog.mjs";
+import { hasScope, isApiKeyExpired } from "../../src/lib/apiScopes.js";
+
+// Keys are stored as a visible prefix plus sha256(`${salt}:${token}`); see
+// src/lib/apiKeys.ts, which generates them.
+const API_KEY_PREFIX_LENGTH = 12;
+
+const hashApiKey = (token, salt) =>
+  createHash("sha256").update(`${salt}:${token}`).digest("hex");
+
+const matchesHash = (token, row) => {
+  const expected = Buffer.from(row.token_hash, "hex");
+  const actual = Buffer.from(hashApiKey(token, row.token_salt), "hex");
+  return (
+    expected.length === actual.length && timingSafeEqual(expected, actual)
+  );
+};
+
+const findApiKey = async (token) => {
+  const { data, error } = await supabase
+    .from("api_keys")
+    .select("id, user_id, scopes, expires_at, token_salt, token_hash")
+    .eq("token_prefix", token.slice(0, API_KEY_PREFIX_LENGTH));
+
+  if (error || !data) {
+    return null;
+  }
+
+  const match = data.find((row) => matchesHash(token, row));
+  if (!match) {
+    return null;
+  }
+
+  const { token_salt, token_hash, ...apiKey } = match;
+  return apiKey;
+};
+
+// Resolve the API key sent in the x-api-key header and check that it has not
+// expired. Sends the 401 response and returns null when it is not usable;
+// otherwise returns the key row ({ id, user_id, scopes }).
+const authenticate = async (req, res) => {
+  const authHeader = req.headers["x-api-key"];
+
+  if (!authHeader) {
+    res.status(401).json({ error: "Missing API key" });
+    return null;
+  }
+
+  const apiKey = await findApiKey(String(authHeader));
+
+  if (!apiKey) {
+    res.status(401).json({ error: "Invalid API key" });
+    return null;
+  }
+
+  if (isApiKeyExpired(apiKey.expires_at)) {
+    res.status(401).json({ error: "API key has expired" });
+    return null;
+  }
+
+  const { error: touchError } = await supabase
+    .from("api_keys")
+    .update({ last_used_at: new Date().toISOString() })
+    .eq("id", apiKey.id);
+
+  if (touchError) {
+    console.error("Failed to record API key usage:", touchError);
+  }
+
+  return apiKey;
+};
+
+const defaultRateLimiter = createRateLimiterFromEnv();
+
+const applyRateLimit = async (limiter, apiKey, res) => {
+  let result;
+  try {
+    result = await limiter.check(apiKey.id);
+  } catch (err) {
+    // Fail open: a broken limiter store should not take the API down
+    console.error("Rate limiter unavailable:", err);
+    return true;
+  }
+
+  res.setHeader("X-RateLimit-Limit", String(result.limit));
+  res.setHeader("X-RateLimit-Remaining", String(result.remaining));
+  res.setHeader("X-RateLimit-Reset", String(Math.ceil(result.resetAt / 1000)));
+
+  if (!result.allowed) {
+    res.setHeader("Retry-After", String(result.retryAfter));
+    res.status(429).json({ error: "Rate limit exceeded" });
+    return false;
+  }
+  return true;
+};
+
+// Wrap an API handler with method checks, API key authentication, scope
+// checks, per-key rate limiting and request logging. `scopes` maps each
+// allowed HTTP method to the scope it requires; the handler receives the
+// authenticated key row as its third argument.
+export const withApiKey =
+  (scopes, handler, { rateLimiter = defaultRateLimiter } = {}) =>
+  async (req, res) => {
+    if (!allowMethods(req, res, Object.keys(scopes))) return;
+
+    const apiKey = await authenticate(req, res);
+    if (!apiKey) return;
+
+    try {
+      const scope = scopes[req.method];
+      if (!hasScope(apiKey.scopes, scope)) {
+        res.status(403).json({
+          error: `API key is missing the required scope: ${scope}`,
+        });
+        return;
+      }
+
+      if (!(await applyRateLimit(rateLimiter, apiKey, res))) return;
+
+      await handler(req, res, apiKey);
+    } catch (err) {
+      console.error("Unhandled API error:", err);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Internal server error" });
+      }
+    } finally {
+      await logApiRequest(apiKey, req, res.statusCode);
+    }
+  };
+
+// Scheduled jobs (/api/webhooks, /api/rollover, /api/trash) accept either
+// `Authorization: Bearer $CRON_SECRET`, to run for every user, or a user's
+// Supabase access token, to run for that user only. Returns `{ userId }`
+// (undefined for the scheduler), or null after sending a 401.
+export const authenticateCronOrUser = async (req, res) => {
+  const authHeader = req.headers.authorization || "";
+  const token = authHeader.startsWith("Bearer ") ? authHeader.slice(7) : "";
+
+  if (!token) {
+    res.status(401).json({ error: "Missing authorization" });
+    return null;
+  }
+
+  if (process.env.CRON_SECRET && token === process.env.CRON_SECRET) {
+    return { userId: undefined };
+  }
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) {
+    res.status(401).json({ error: "Invalid authorization" });
+    return null;
+  }
+  return { userId: data.user.id };
+};
@@ -0,0 +1,35 @@
+import { formatValidationIssues } from "../../src/lib/taskSchema.js";
+
+// Read and parse a JSON request body. Returns { data, error } instead of
+// throwing so handlers can answer malformed bodies with a 400.
+export const readJsonBody = async (req) => {
+  let body = "";
+  for await (const chunk of req) {
+    body += chunk;
+  }
+
+  if (!body) {
+    return { data: {}, error: null };
+  }
+
+  try {
+    return { data: JSON.parse(body), error: null };
+  } catch {
+    return { data: null, error: "Request body must be valid JSON" };
+  }
+};
+
+export const allowMethods = (req, res, methods) => {
+  if (methods.includes(req.method)) {
+    return true;
+  }
+  res.setHeader("Allow", methods.join(", "));
+  res.status(405).json({ error: "Method not allowed" });
+  return false;
+};
+
+// Body for a 400 response describing which fields failed validation
+export const validationErrorBody = (zodError) => ({
+  error: "Validation failed",
+  details: formatValidationIssues(zodError),
+});
@@ -0,0 +1,142 @@
+import { createHash } from "node:crypto";
+import { supabase } from "./supabase.mjs";
+
+const UNIQUE_VIOLATION = "23505";
+
+// A claim with no response stored this long after it was made belongs to a
+// request that died without releasing it (e.g. the function timed out), and
+// is free to be claimed again
+export const IDEMPOTENCY_LEASE_MS = 60 * 1000;
+
+// Keys are kept this long, then removed by purgeExpiredIdempotencyKeys; a
+// retry after that is treated as a new request
+export const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Fingerprint of a parsed request body, stored with the key so it can't be
+// reused for a different request
+export const hashRequestBody = (body) =>
+  createHash("sha256")
+    .update(JSON.stringify(body ?? null))
+    .digest("hex");
+
+// Claim an Idempotency-Key for this user and endpoint. Returns
+// { mismatch: true } when the key was used with a different request body,
+// { replay: { status, body } } when it was already used and its response is
+// stored, { inProgress: true } when another request holding the key has not
+// finished yet, and { claimed: true, claimedAt } otherwise. `claimedAt`
+// identifies the claim when the response is stored or the key released.
+export const claimIdempotencyKey = async (
+  userId,
+  endpoint,
+  key,
+  requestHash
+) => {
+  const claimedAt = new Date().toISOString();
+  const { error } = await supabase.from("api_idempotency_keys").insert([
+    {
+      user_id: userId,
+      endpoint,
+      idempotency_key: key,
+      request_hash: requestHash,
+      claimed_at: claimedAt,
+    },
+  ]);
+
+  if (!error) {
+    return { claimed: true, claimedAt };
+  }
+  if (error.code !== UNIQUE_VIOLATION) {
+    return { error };
+  }
+
+  const { data, error: fetchError } = await supabase
+    .from("api_idempotency_keys")
+    .select("request_hash, response_status, response_body, claimed_at")
+    .eq("user_id", userId)
+    .eq("endpoint", endpoint)
+    .eq("idempotency_key", key)
+    .single();
+
+  if (fetchError) {
+    return { error: fetchError };
+  }
+  // Keys claimed before request_hash was added have none to compare
+  if (data.request_hash && data.request_hash !== requestHash) {
+    return { mismatch: true };
+  }
+  if (data.response_status !== null) {
+    return {
+      replay: { status: data.response_status, body: data.response_body },
+    };
+  }
+  const leaseEnd = new Date(data.claimed_at).getTime() + IDEMPOTENCY_LEASE_MS;
+  if (leaseEnd > Date.parse(claimedAt)) {
+    return { inProgress: true };
+  }
+
+  // Take the stale claim over. Matching the claimed_at read above means only
+  // one of several retries racing for it gets it.
+  const { data: taken, error: takeError } = await supabase
+    .from("api_idempotency_keys")
+    .update({ claimed_at: claimedAt, request_hash: requestHash })
+    .eq("user_id", userId)
+    .eq("endpoint", endpoint)
+    .eq("idempotency_key", key)
+    .eq("claimed_at", data.claimed_at)
+    .is("response_status", null)
+    .select("id");
+
+  if (takeError) {
+    return { error: takeError };
+  }
+  return taken.length > 0 ? { claimed: true, claimedAt } : { inProgress: true };
+};
+
+// Save the response for replays. Only a request that still holds its claim
+// stores one: once a slow request's lease has been taken over by a retry,
+// the retry's response is the one kept.
+export const storeIdempotentResponse = (
+  userId,
+  endpoint,
+  key,
+  claimedAt,
+  status,
+  body
+) =>
+  supabase
+    .from("api_idempotency_keys")
+    .update({ response_status: status, response_body: body })
+    .eq("user_id", userId)
+    .eq("endpoint", endpoint)
+    .eq("idempotency_key", key)
+    .eq("claimed_at", claimedAt);
+
+// Free the key again when the request failed before producing a result, so
+// the client can retry it. Like storing, only the claim's holder can.
+export const releaseIdempotencyKey = (userId, endpoint, key, claimedAt) =>
+  supabase
+    .from("api_idempotency_keys")
+    .delete()
+    .eq("user_id", userId)
+    .eq("endpoint", endpoint)
+    .eq("idempotency_key", key)
+    .eq("claimed_at", claimedAt)
+    .is("response_status", null);
+
+// Delete keys older than IDEMPOTENCY_KEY_TTL_MS, or only `userId`'s
+export const purgeExpiredIdempotencyKeys = async ({ userId } = {}) => {
+  const cutoff = new Date(Date.now() - IDEMPOTENCY_KEY_TTL_MS).toISOString();
+  let query = supabase
+    .from("api_idempotency_keys")
+    .delete()
+    .lt("created_at", cutoff);
+  if (userId) {
+    query = query.eq("user_id", userId);
+  }
+
+  const { data, error } = await query.select("id");
+  if (error) {
+    return { data: null, error };
+  }
+  return { data: { purgedKeys: data.length }, error: null };
+};
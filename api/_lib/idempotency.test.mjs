@@ -0,0 +1,189 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// An in-memory api_idempotency_keys table behind the few query builder calls
+// idempotency.mjs makes
+const { rows, supabase } = vi.hoisted(() => {
+  const rows = [];
+
+  const from = () => {
+    const filters = [];
+    let action = "select";
+    let payload = null;
+    let isSingle = false;
+
+    const run = () => {
+      const matched = rows.filter((row) =>
+        filters.every((matches) => matches(row))
+      );
+
+      if (action === "insert") {
+        const [item] = payload;
+        const isTaken = rows.some(
+          (row) =>
+            row.user_id === item.user_id &&
+            row.endpoint === item.endpoint &&
+            row.idempotency_key === item.idempotency_key
+        );
+        if (isTaken) return { data: null, error: { code: "23505" } };
+        rows.push({
+          id: String(rows.length + 1),
+          response_status: null,
+          response_body: null,
+          created_at: new Date().toISOString(),
+          ...item,
+        });
+        return { data: null, error: null };
+      }
+      if (action === "update") {
+        matched.forEach((row) => Object.assign(row, payload));
+      }
+      if (action === "delete") {
+        matched.forEach((row) => rows.splice(rows.indexOf(row), 1));
+      }
+      if (isSingle) {
+        return matched.length === 1
+          ? { data: { ...matched[0] }, error: null }
+          : { data: null, error: { message: "Row not found" } };
+      }
+      return { data: matched.map((row) => ({ ...row })), error: null };
+    };
+
+    const builder = {
+      insert(items) {
+        action = "insert";
+        payload = items;
+        return builder;
+      },
+      update(changes) {
+        action = "update";
+        payload = changes;
+        return builder;
+      },
+      delete() {
+        action = "delete";
+        return builder;
+      },
+      select: () => builder,
+      eq(column, value) {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      lt(column, value) {
+        filters.push((row) => row[column] < value);
+        return builder;
+      },
+      single() {
+        isSingle = true;
+        return builder;
+      },
+      then: (resolve, reject) => Promise.resolve(run()).then(resolve, reject),
+    };
+    builder.is = builder.eq;
+    return builder;
+  };
+
+  return { rows, supabase: { from } };
+});
+
+vi.mock("./supabase.mjs", () => ({ supabase }));
+
+const {
+  IDEMPOTENCY_KEY_TTL_MS,
+  IDEMPOTENCY_LEASE_MS,
+  claimIdempotencyKey,
+  hashRequestBody,
+  purgeExpiredIdempotencyKeys,
+  releaseIdempotencyKey,
+  storeIdempotentResponse,
+} = await import("./idempotency.mjs");
+
+const BODY_HASH = hashRequestBody({ sub_task: "Write report" });
+
+const claim = (requestHash = BODY_HASH) =>
+  claimIdempotencyKey("user-1", "new_tasks", "key-1", requestHash);
+
+const store = (claimedAt, body) =>
+  storeIdempotentResponse("user-1", "new_tasks", "key-1", claimedAt, 201, body);
+
+const CLAIMED = { claimed: true, claimedAt: expect.any(String) };
+
+beforeEach(() => {
+  rows.length = 0;
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date("2024-05-01T09:00:00Z"));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("claimIdempotencyKey", () => {
+  it("reports a key held by a running request as in progress", async () => {
+    expect(await claim()).toEqual(CLAIMED);
+
+    vi.advanceTimersByTime(IDEMPOTENCY_LEASE_MS - 1000);
+    expect(await claim()).toEqual({ inProgress: true });
+  });
+
+  it("lets a retry take over a claim whose request died", async () => {
+    await claim();
+
+    vi.advanceTimersByTime(IDEMPOTENCY_LEASE_MS + 1000);
+    expect(await claim()).toEqual(CLAIMED);
+    // The retry now holds a fresh lease of its own
+    expect(await claim()).toEqual({ inProgress: true });
+    expect(rows).toHaveLength(1);
+  });
+
+  it("replays a stored response however old the claim is", async () => {
+    const { claimedAt } = await claim();
+    await store(claimedAt, { ok: true });
+
+    vi.advanceTimersByTime(IDEMPOTENCY_LEASE_MS * 10);
+    expect(await claim()).toEqual({
+      replay: { status: 201, body: { ok: true } },
+    });
+  });
+
+  it("rejects a key reused with a different request body", async () => {
+    const { claimedAt } = await claim();
+    const otherHash = hashRequestBody({ sub_task: "Something else" });
+    expect(await claim(otherHash)).toEqual({ mismatch: true });
+
+    // Also once the first request has finished
+    await store(claimedAt, { ok: true });
+    expect(await claim(otherHash)).toEqual({ mismatch: true });
+  });
+});
+
+describe("storeIdempotentResponse", () => {
+  it("keeps the response of the retry that took a claim over", async () => {
+    const { claimedAt: slowClaim } = await claim();
+    vi.advanceTimersByTime(IDEMPOTENCY_LEASE_MS + 1000);
+    const { claimedAt: retryClaim } = await claim();
+
+    await store(retryClaim, { from: "retry" });
+    // The slow request finishes after all, holding a claim it lost
+    await store(slowClaim, { from: "slow" });
+    await releaseIdempotencyKey("user-1", "new_tasks", "key-1", slowClaim);
+
+    expect(await claim()).toEqual({
+      replay: { status: 201, body: { from: "retry" } },
+    });
+  });
+});
+
+describe("purgeExpiredIdempotencyKeys", () => {
+  it("deletes keys older than a day", async () => {
+    await claim();
+    vi.advanceTimersByTime(IDEMPOTENCY_KEY_TTL_MS - 1000);
+    await claimIdempotencyKey("user-1", "new_tasks", "key-2", BODY_HASH);
+    vi.advanceTimersByTime(2000);
+
+    expect(await purgeExpiredIdempotencyKeys()).toEqual({
+      data: { purgedKeys: 1 },
+      error: null,
+    });
+    expect(rows.map((row) => row.idempotency_key)).toEqual(["key-2"]);
+  });
+});
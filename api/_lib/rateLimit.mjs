@@ -0,0 +1,70 @@
+import { supabase } from "./supabase.mjs";
+
+// Fixed-window rate limiting per API key. A store only has to count requests
+// per key and window: `increment(keyId, windowStart)` resolves to the number
+// of requests seen in that window, including this one.
+
+// Keeps counters in process memory. Only suitable for tests and single
+// instance setups, since serverless instances do not share memory.
+export const createMemoryRateLimitStore = () => {
+  const windows = new Map();
+
+  return {
+    async increment(keyId, windowStart) {
+      const current = windows.get(keyId);
+      const count =
+        current && current.windowStart === windowStart ? current.count + 1 : 1;
+      windows.set(keyId, { windowStart, count });
+      return count;
+    },
+  };
+};
+
+// Counts requests in the api_rate_limits table through an atomic upsert
+export const createSupabaseRateLimitStore = (client = supabase) => ({
+  async increment(keyId, windowStart) {
+    const { data, error } = await client.rpc("increment_api_rate_limit", {
+      p_api_key_id: keyId,
+      p_window_start: new Date(windowStart).toISOString(),
+    });
+    if (error) {
+      throw error;
+    }
+    return data;
+  },
+});
+
+export const createRateLimiter = ({ store, limit, windowSeconds }) => ({
+  async check(keyId, now = Date.now()) {
+    const windowMs = windowSeconds * 1000;
+    const windowStart = Math.floor(now / windowMs) * windowMs;
+    const resetAt = windowStart + windowMs;
+    const count = await store.increment(keyId, windowStart);
+
+    return {
+      allowed: count <= limit,
+      limit,
+      remaining: Math.max(limit - count, 0),
+      resetAt,
+      retryAfter: Math.max(Math.ceil((resetAt - now) / 1000), 1),
+    };
+  },
+});
+
+const readPositiveInt = (value, fallback) => {
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// Limiter configured from API_RATE_LIMIT (requests per window, default 60),
+// API_RATE_LIMIT_WINDOW_SECONDS (default 60) and API_RATE_LIMIT_STORE
+// ("supabase" or "memory", default "supabase").
+export const createRateLimiterFromEnv = (env = process.env) =>
+  createRateLimiter({
+    store:
+      env.API_RATE_LIMIT_STORE === "memory"
+        ? createMemoryRateLimitStore()
+        : createSupabaseRateLimitStore(),
+    limit: readPositiveInt(env.API_RATE_LIMIT, 60),
+    windowSeconds: readPositiveInt(env.API_RATE_LIMIT_WINDOW_SECONDS, 60),
+  });
@@ -0,0 +1,82 @@
+import { describe, expect, it, vi } from "vitest";
+
+// Only the Supabase store talks to the database; these tests use memory
+vi.mock("./supabase.mjs", () => ({ supabase: {} }));
+
+const { createMemoryRateLimitStore, createRateLimiter } = await import(
+  "./rateLimit.mjs"
+);
+
+// Windows of a minute starting on the hour
+const WINDOW_START = Date.parse("2024-05-01T09:00:00Z");
+
+const createLimiter = (limit = 3) =>
+  createRateLimiter({
+    store: createMemoryRateLimitStore(),
+    limit,
+    windowSeconds: 60,
+  });
+
+describe("createRateLimiter", () => {
+  it("allows requests up to the limit and refuses the rest", async () => {
+    const limiter = createLimiter();
+    const results = [];
+    for (let i = 0; i < 4; i += 1) {
+      results.push(await limiter.check("key-1", WINDOW_START + i * 1000));
+    }
+
+    expect(results.map((result) => result.allowed)).toEqual([
+      true,
+      true,
+      true,
+      false,
+    ]);
+  });
+
+  it("counts down the remaining requests, never below zero", async () => {
+    const limiter = createLimiter();
+    const remaining = [];
+    for (let i = 0; i < 5; i += 1) {
+      remaining.push((await limiter.check("key-1", WINDOW_START)).remaining);
+    }
+
+    expect(remaining).toEqual([2, 1, 0, 0, 0]);
+  });
+
+  it("starts counting again in the next window", async () => {
+    const limiter = createLimiter(1);
+    await limiter.check("key-1", WINDOW_START);
+    expect((await limiter.check("key-1", WINDOW_START + 59_000)).allowed).toBe(
+      false
+    );
+
+    const result = await limiter.check("key-1", WINDOW_START + 60_000);
+    expect(result).toMatchObject({ allowed: true, remaining: 0 });
+  });
+
+  it("keeps a separate count for each key", async () => {
+    const limiter = createLimiter(1);
+    await limiter.check("key-1", WINDOW_START);
+
+    expect((await limiter.check("key-2", WINDOW_START)).allowed).toBe(true);
+    expect((await limiter.check("key-1", WINDOW_START)).allowed).toBe(false);
+  });
+
+  it("gives the Retry-After and X-RateLimit header values", async () => {
+    const limiter = createLimiter(1);
+    await limiter.check("key-1", WINDOW_START);
+
+    const result = await limiter.check("key-1", WINDOW_START + 45_500);
+    expect(result).toMatchObject({
+      allowed: false,
+      limit: 1,
+      remaining: 0,
+      resetAt: WINDOW_START + 60_000,
+      retryAfter: 15, // Rounded up to whole seconds
+    });
+
+    // Right at the end of the window there is still a second to wait
+    const last = await limiter.check("key-1", WINDOW_START + 59_999);
+    expect(last.retryAfter).toBe(1);
+  });
+});
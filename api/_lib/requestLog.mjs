@@ -0,0 +1,19 @@
+import { supabase } from "./supabase.mjs";
+
+// Record one API request against the key that made it. Failures are only
+// logged so they never change the response.
+export const logApiRequest = async (apiKey, req, status) => {
+  const { error } = await supabase.from("api_request_logs").insert([
+    {
+      api_key_id: apiKey.id,
+      user_id: apiKey.user_id,
+      method: req.method,
+      endpoint: (req.url || "").split("?")[0],
+      status,
+    },
+  ]);
+
+  if (error) {
+    console.error("Failed to log API request:", error);
+  }
+};
@@ -0,0 +1,126 @@
+import { supabase } from "./supabase.mjs";
+import { toTask } from "./tasks.mjs";
+import { toDateKeyInTimeZone } from "../../src/lib/recurrence.js";
+import { describeRollover, planRollover } from "../../src/lib/rollover.js";
+
+const getTodayKey = (timeZone, now) => {
+  try {
+    return toDateKeyInTimeZone(now, timeZone);
+  } catch {
+    // Unknown zone names fall back to UTC
+    return toDateKeyInTimeZone(now, "UTC");
+  }
+};
+
+// Mirrors claimRolloverDate in src/lib/preferences.ts
+const claimRolloverDate = async (userId, dateKey) => {
+  const { data, error } = await supabase
+    .from("user_preferences")
+    .update({ last_rollover_date: dateKey, rollover_summary: null })
+    .eq("user_id", userId)
+    .or(`last_rollover_date.is.null,last_rollover_date.lt.${dateKey}`)
+    .select("user_id");
+
+  return { claimed: !error && (data?.length ?? 0) > 0, error };
+};
+
+const rollOverUser = async (preferences, now) => {
+  const todayKey = getTodayKey(preferences.timezone, now);
+  const { claimed, error: claimError } = await claimRolloverDate(
+    preferences.user_id,
+    todayKey
+  );
+  if (claimError || !claimed) {
+    return { moves: [], error: claimError };
+  }
+
+  const { data, error } = await supabase
+    .from("tasks")
+    .select("*")
+    .eq("user_id", preferences.user_id)
+    .eq("is_archived", false)
+    .is("deleted_at", null);
+  if (error) {
+    return { moves: [], error };
+  }
+
+  const moves = planRollover(data.map(toTask), {
+    todayKey,
+    unfinishedToday: preferences.unfinished_today_action,
+    timeZone: preferences.timezone,
+  });
+
+  for (const move of moves) {
+    const { error: updateError } = await supabase
+      .from("tasks")
+      .update({
+        bucket: move.bucket,
+        sort_order: move.sort_order,
+      })
+      .eq("id", move.id)
+      .eq("user_id", preferences.user_id);
+    if (updateError) {
+      return { moves, error: updateError };
+    }
+  }
+
+  // Left for the app to show on its next load (see takeRolloverSummary in
+  // src/lib/preferences.ts)
+  if (moves.length > 0) {
+    const { error: summaryError } = await supabase
+      .from("user_preferences")
+      .update({ rollover_summary: describeRollover(moves) })
+      .eq("user_id", preferences.user_id);
+    if (summaryError) {
+      return { moves, error: summaryError };
+    }
+  }
+
+  return { moves, error: null };
+};
+
+// Roll the buckets over for every user whose local day has changed since
+// their last rollover, or only for `userId`. Users who have never opened the
+// app since preferences were added have no row and are skipped.
+export const runDueRollovers = async ({ userId, now = new Date() } = {}) => {
+  let request = supabase
+    .from("user_preferences")
+    .select("user_id, unfinished_today_action, timezone, last_rollover_date");
+
+  if (userId) {
+    request = request.eq("user_id", userId);
+  }
+
+  const { data, error } = await request;
+  if (error) {
+    return { data: null, error };
+  }
+
+  const summary = { users: 0, rolledOver: 0, moved: 0, failed: 0, results: [] };
+
+  for (const preferences of data) {
+    summary.users += 1;
+    const { moves, error: userError } = await rollOverUser(preferences, now);
+
+    if (userError) {
+      console.error(
+        `Rollover failed for user ${preferences.user_id}:`,
+        userError
+      );
+      summary.failed += 1;
+    } else if (moves.length > 0) {
+      summary.rolledOver += 1;
+      summary.moved += moves.length;
+    }
+
+    if (userId) {
+      summary.results.push({
+        user_id: preferences.user_id,
+        moved: moves.length,
+        summary: describeRollover(moves),
+      });
+    }
+  }
+
+  return { data: summary, error: null };
+};
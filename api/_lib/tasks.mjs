@@ -0,0 +1,465 @@
+import { supabase } from "./supabase.mjs";
+import {
+  buildNextOccurrence,
+  startRecurrence,
+} from "../../src/lib/recurrence.js";
+import {
+  getBucketNames,
+  LEGACY_ON_HOLD_BUCKETS,
+  normalizeBucket,
+} from "../../src/lib/buckets.js";
+import {
+  describeCycle,
+  findDependencyCycle,
+} from "../../src/lib/dependencies.js";
+import {
+  DEFAULT_PROJECT_COLOR,
+  findProjectByName,
+} from "../../src/lib/projects.js";
+
+export { normalizeBucket };
+
+// Stored values that normalize to "On Hold"
+const ON_HOLD_BUCKET_VALUES = ["On Hold", ...LEGACY_ON_HOLD_BUCKETS];
+
+const filterByBucket = (request, bucket) =>
+  normalizeBucket(bucket) === "On Hold"
+    ? request.in("bucket", ON_HOLD_BUCKET_VALUES)
+    : request.eq("bucket", bucket);
+
+export const listBuckets = async (userId) => {
+  const { data, error } = await supabase
+    .from("task_buckets")
+    .select("id, name, color, position")
+    .eq("user_id", userId)
+    .order("position", { ascending: true });
+
+  return { data: data || [], error };
+};
+
+// Built-in and custom bucket names the user can file tasks under
+export const getUserBucketNames = async (userId) => {
+  const { data, error } = await listBuckets(userId);
+  return { data: error ? null : getBucketNames(data), error };
+};
+
+export const unknownBucketDetails = (bucket) => [
+  { field: "bucket", message: `Unknown bucket "${bucket}"` },
+];
+
+// Validation details when `bucket` isn't one of the user's buckets, or null
+// when it is (or wasn't given)
+export const checkBucket = async (userId, bucket) => {
+  if (bucket === undefined) {
+    return { details: null, error: null };
+  }
+
+  const { data, error } = await getUserBucketNames(userId);
+  if (error) {
+    return { details: null, error };
+  }
+  return {
+    details: data.includes(bucket) ? null : unknownBucketDetails(bucket),
+    error: null,
+  };
+};
+
+export const listProjects = async (userId) => {
+  const { data, error } = await supabase
+    .from("projects")
+    .select("id, name, color, description, is_archived, created_at, updated_at")
+    .eq("user_id", userId)
+    .order("name", { ascending: true });
+
+  return { data: data || [], error };
+};
+
+// The project columns for a task that names its project by `project_id` or
+// by name in `main_task`, mirroring TaskContext.ensureProject: an unknown
+// name creates the project and an archived one is restored. `fields` is
+// empty when neither was given.
+export const resolveProject = async (userId, input) => {
+  if (input.project_id === undefined && input.main_task === undefined) {
+    return { fields: {}, details: null, error: null };
+  }
+  if (input.project_id === null) {
+    return {
+      fields: { project_id: null, main_task: null },
+      details: null,
+      error: null,
+    };
+  }
+
+  const { data: projects, error } = await listProjects(userId);
+  if (error) {
+    return { fields: null, details: null, error };
+  }
+
+  if (input.project_id) {
+    const project = projects.find((p) => p.id === input.project_id);
+    return project
+      ? {
+          fields: { project_id: project.id, main_task: project.name },
+          details: null,
+          error: null,
+        }
+      : {
+          fields: null,
+          details: [
+            {
+              field: "project_id",
+              message: `Unknown project "${input.project_id}"`,
+            },
+          ],
+          error: null,
+        };
+  }
+
+  let project = findProjectByName(projects, input.main_task);
+  if (project?.is_archived) {
+    const { error: restoreError } = await supabase
+      .from("projects")
+      .update({ is_archived: false })
+      .eq("id", project.id)
+      .eq("user_id", userId);
+    if (restoreError) {
+      return { fields: null, details: null, error: restoreError };
+    }
+  }
+  if (!project) {
+    const { data: created, error: createError } = await supabase
+      .from("projects")
+      .insert([
+        {
+          user_id: userId,
+          name: input.main_task,
+          color: DEFAULT_PROJECT_COLOR,
+        },
+      ])
+      .select("id, name")
+      .single();
+    if (createError) {
+      return { fields: null, details: null, error: createError };
+    }
+    project = created;
+  }
+
+  return {
+    fields: { project_id: project.id, main_task: project.name },
+    details: null,
+    error: null,
+  };
+};
+
+export const toTask = (row) => ({
+  ...row,
+  bucket: normalizeBucket(row.bucket),
+});
+
+const parseBoolean = (value) => {
+  if (value === "true") return true;
+  if (value === "false") return false;
+  return undefined;
+};
+
+export const listTasks = async (userId, query) => {
+  let request = supabase
+    .from("tasks")
+    .select("*")
+    .eq("user_id", userId)
+    .is("deleted_at", null);
+
+  const archived = parseBoolean(query.archived);
+  request = request.eq("is_archived", archived ?? false);
+
+  const completed = parseBoolean(query.completed);
+  if (completed !== undefined) {
+    request = request.eq("completed", completed);
+  }
+  if (query.bucket) {
+    request = filterByBucket(request, query.bucket);
+  }
+  if (query.category) {
+    request = request.eq("category", query.category);
+  }
+  if (query.project_id) {
+    request = request.eq("project_id", query.project_id);
+  }
+  if (query.main_task) {
+    request = request.eq("main_task", query.main_task);
+  }
+  if (query.importance) {
+    request = request.eq("importance", query.importance);
+  }
+
+  const limit = Math.min(Number.parseInt(query.limit, 10) || 100, 500);
+  const offset = Math.max(Number.parseInt(query.offset, 10) || 0, 0);
+
+  const { data, error } = await request
+    .order("created_at", { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  return { data: (data || []).map(toTask), error };
+};
+
+export const getTask = async (userId, id) => {
+  const { data, error } = await supabase
+    .from("tasks")
+    .select("*")
+    .eq("id", id)
+    .eq("user_id", userId)
+    .is("deleted_at", null)
+    .maybeSingle();
+
+  return { data: data ? toTask(data) : null, error };
+};
+
+// Stamps updated_at so queued edits from an offline app that were made
+// earlier don't overwrite this one (see src/lib/taskSync.ts)
+export const updateTask = async (userId, id, changes) => {
+  const { data, error } = await supabase
+    .from("tasks")
+    .update({ updated_at: new Date().toISOString(), ...changes })
+    .eq("id", id)
+    .eq("user_id", userId)
+    .is("deleted_at", null)
+    .select()
+    .maybeSingle();
+
+  return { data: data ? toTask(data) : null, error };
+};
+
+// Next sort_order at the bottom of a bucket, mirroring moveToBucket in
+// TaskContext.
+export const getNextSortOrder = async (userId, bucket, excludeId) => {
+  let request = filterByBucket(
+    supabase
+      .from("tasks")
+      .select("sort_order")
+      .eq("user_id", userId)
+      .eq("is_archived", false)
+      .is("deleted_at", null),
+    bucket
+  );
+
+  if (excludeId) {
+    request = request.neq("id", excludeId);
+  }
+
+  const { data, error } = await request
+    .order("sort_order", { ascending: false, nullsFirst: false })
+    .limit(1);
+
+  if (error) {
+    return { data: null, error };
+  }
+  return { data: (data?.[0]?.sort_order ?? 0) + 1, error: null };
+};
+
+export const createTask = async (userId, input) => {
+  const { data: sortOrder, error: sortOrderError } = await getNextSortOrder(
+    userId,
+    input.bucket
+  );
+  if (sortOrderError) {
+    return { data: null, error: sortOrderError };
+  }
+
+  const { data, error } = await supabase
+    .from("tasks")
+    .insert([
+      {
+        user_id: userId,
+        project_id: input.project_id ?? null,
+        main_task: input.main_task ?? null,
+        sub_task: input.sub_task,
+        category: input.category,
+        importance: input.importance,
+        bucket: input.bucket,
+        time_estimate: input.time_estimate,
+        due_at: input.due_at ?? null,
+        blocked_by: input.blocked_by ?? [],
+        ...(input.recurrence_rule
+          ? startRecurrence(input.recurrence_rule, input.bucket)
+          : {}),
+        sort_order: sortOrder,
+        is_archived: false,
+        completed: false,
+      },
+    ])
+    .select()
+    .single();
+
+  return { data: data ? toTask(data) : null, error };
+};
+
+// Validation details when `blockedBy` lists tasks that aren't the user's
+// active tasks, or would make `taskId` part of a dependency cycle. Pass no
+// `taskId` for a task that doesn't exist yet.
+export const checkDependencies = async (userId, taskId, blockedBy) => {
+  if (!blockedBy || blockedBy.length === 0) {
+    return { details: null, error: null };
+  }
+
+  const { data, error } = await supabase
+    .from("tasks")
+    .select("id, sub_task, blocked_by")
+    .eq("user_id", userId)
+    .eq("is_archived", false)
+    .is("deleted_at", null);
+  if (error) {
+    return { details: null, error };
+  }
+
+  const activeIds = new Set(data.map((task) => task.id));
+  const unknown = blockedBy.filter((id) => !activeIds.has(id));
+  if (unknown.length > 0) {
+    return {
+      details: [
+        {
+          field: "blocked_by",
+          message: `Not an active task: ${unknown.join(", ")}`,
+        },
+      ],
+      error: null,
+    };
+  }
+
+  const cycle = taskId ? findDependencyCycle(data, taskId, blockedBy) : null;
+  return {
+    details: cycle
+      ? [
+          {
+            field: "blocked_by",
+            message: `Dependency cycle: ${describeCycle(cycle, data)}`,
+          },
+        ]
+      : null,
+    error: null,
+  };
+};
+
+// Remove `taskId` from the blocked_by list of every task it blocks, once it
+// is completed or deleted. Mirrors TaskContext.releaseDependents.
+const releaseDependents = async (userId, taskId) => {
+  const { data, error } = await supabase
+    .from("tasks")
+    .select("id, blocked_by")
+    .eq("user_id", userId)
+    .contains("blocked_by", [taskId]);
+  if (error) {
+    return { error };
+  }
+
+  for (const task of data) {
+    const { error: updateError } = await supabase
+      .from("tasks")
+      .update({ blocked_by: task.blocked_by.filter((id) => id !== taskId) })
+      .eq("id", task.id)
+      .eq("user_id", userId);
+    if (updateError) {
+      return { error: updateError };
+    }
+  }
+  return { error: null };
+};
+
+// Move a task to the trash, like deleting it in the app. It can be restored
+// from the Trash page until purge_expired_trash removes it for good.
+export const deleteTask = async (userId, id) => {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from("tasks")
+    .update({ deleted_at: now, updated_at: now })
+    .eq("id", id)
+    .eq("user_id", userId)
+    .is("deleted_at", null)
+    .select("id");
+
+  if (error || !data?.length) {
+    return { data: null, error };
+  }
+
+  const { error: releaseError } = await releaseDependents(userId, id);
+  return { data: data[0], error: releaseError };
+};
+
+// Mirrors TaskContext.scheduleNextOccurrence
+const createNextOccurrence = async (userId, task) => {
+  const nextOccurrence = buildNextOccurrence(task);
+  if (!nextOccurrence) {
+    return { data: null, error: null };
+  }
+
+  const { data: sortOrder, error: sortOrderError } = await getNextSortOrder(
+    userId,
+    nextOccurrence.bucket
+  );
+  if (sortOrderError) {
+    return { data: null, error: sortOrderError };
+  }
+
+  const { data, error } = await supabase
+    .from("tasks")
+    .insert([
+      {
+        ...nextOccurrence,
+        user_id: userId,
+        sort_order: sortOrder,
+      },
+    ])
+    .select()
+    .single();
+
+  return { data: data ? toTask(data) : null, error };
+};
+
+// Mirrors TaskContext.archiveTask: completion always archives the task,
+// unblocks the tasks waiting on it, and schedules the next occurrence of a
+// recurring task. An already archived task is returned as it is, keeping
+// the time it was completed.
+export const archiveTask = async (userId, id) => {
+  const { data: existing, error: fetchError } = await getTask(userId, id);
+  if (fetchError || !existing) {
+    return { data: null, nextOccurrence: null, error: fetchError };
+  }
+  if (existing.is_archived) {
+    return { data: existing, nextOccurrence: null, error: null };
+  }
+
+  const completedAt = new Date().toISOString();
+  const { data, error } = await updateTask(userId, id, {
+    is_archived: true,
+    completed: true,
+    completed_at: completedAt,
+    updated_at: completedAt,
+  });
+  if (error || !data) {
+    return { data, nextOccurrence: null, error };
+  }
+
+  const { error: releaseError } = await releaseDependents(userId, id);
+  if (releaseError) {
+    return { data, nextOccurrence: null, error: releaseError };
+  }
+
+  const { data: nextOccurrence, error: nextError } =
+    await createNextOccurrence(userId, data);
+  return { data, nextOccurrence, error: nextError };
+};
+
+export const unarchiveTask = (userId, id) =>
+  updateTask(userId, id, {
+    is_archived: false,
+    completed: false,
+    completed_at: null,
+    updated_at: new Date().toISOString(),
+  });
+
+export const moveTask = async (userId, id, bucket) => {
+  const { data: sortOrder, error } = await getNextSortOrder(userId, bucket, id);
+  if (error) {
+    return { data: null, error };
+  }
+  return updateTask(userId, id, { bucket, sort_order: sortOrder });
+};
@@ -0,0 +1,21 @@
+import { supabase } from "./supabase.mjs";
+
+// Delete trashed tasks and notes past each user's trash_retention_days, or
+// only `userId`'s. Mirrors purgeExpiredTrash in src/lib/trash.ts.
+export const purgeExpiredTrash = async ({ userId } = {}) => {
+  const { data, error } = await supabase.rpc("purge_expired_trash", {
+    p_user: userId ?? null,
+  });
+  if (error) {
+    return { data: null, error };
+  }
+
+  const [counts] = data || [];
+  return {
+    data: {
+      purgedTasks: counts?.purged_tasks ?? 0,
+      purgedNotes: counts?.purged_notes ?? 0,
+    },
+    error: null,
+  };
+};
@@ -0,0 +1,232 @@
+import { createHmac } from "node:crypto";
+import { lookup } from "node:dns/promises";
+import { request } from "node:https";
+import { supabase } from "./supabase.mjs";
+import { normalizeBucket, toTask } from "./tasks.mjs";
+import {
+  PRIVATE_ADDRESS_ERROR,
+  getWebhookUrlError,
+  isPrivateAddress,
+} from "../../src/lib/webhookUrls.js";
+
+// Deliveries are attempted up to MAX_ATTEMPTS times. After a failed attempt
+// the next one waits RETRY_DELAYS_MINUTES[attempts - 1] minutes.
+const MAX_ATTEMPTS = 6;
+const RETRY_DELAYS_MINUTES = [1, 5, 30, 120, 720];
+const DELIVERY_TIMEOUT_MS = 10000;
+
+// Signature header value: `t=<unix seconds>,v1=<hex HMAC-SHA256>` where the
+// HMAC covers `${t}.${body}` and is keyed with the subscription secret.
+export const signPayload = (secret, body, timestamp) => {
+  const signature = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+};
+
+export const getNextAttemptAt = (attempts, now = Date.now()) => {
+  if (attempts >= MAX_ATTEMPTS) {
+    return null;
+  }
+  const delay =
+    RETRY_DELAYS_MINUTES[Math.min(attempts, RETRY_DELAYS_MINUTES.length) - 1];
+  return new Date(now + delay * 60 * 1000).toISOString();
+};
+
+const buildBody = (delivery) => {
+  const data = { task: toTask(delivery.payload.task) };
+  if (delivery.payload.previous_bucket) {
+    data.previous_bucket = normalizeBucket(delivery.payload.previous_bucket);
+  }
+  return JSON.stringify({
+    id: delivery.id,
+    event: delivery.event,
+    created_at: delivery.created_at,
+    data,
+  });
+};
+
+// The address to deliver to, or why `url` can't be sent to. Checked before
+// every delivery, with the host resolved, since subscriptions saved earlier or
+// host names that point at private addresses get past the check on save.
+const resolveDeliveryUrl = async (url) => {
+  const urlError = getWebhookUrlError(url);
+  if (urlError) return { error: urlError };
+
+  try {
+    const host = new URL(url).hostname.replace(/^\[|\]$/g, "");
+    const addresses = await lookup(host, { all: true });
+    return addresses.some(({ address }) => isPrivateAddress(address))
+      ? { error: PRIVATE_ADDRESS_ERROR }
+      : { address: addresses[0] };
+  } catch (err) {
+    return {
+      error: `Could not resolve the webhook host: ${err.message || err}`,
+    };
+  }
+};
+
+// POST `body` to `url` and resolve with the response status. The connection
+// goes to the address that was checked rather than resolving the host again,
+// so a host name that changes to a private address between the check and
+// the request (DNS rebinding) can't send it there. TLS and the Host header
+// still use the host name. Redirects aren't followed.
+const postToAddress = (url, address, headers, body) =>
+  new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+        lookup: (_hostname, options, callback) =>
+          options.all
+            ? callback(null, [address])
+            : callback(null, address.address, address.family),
+      },
+      (response) => {
+        // The body isn't used, but is read so the connection can close
+        response.resume();
+        response.on("error", reject);
+        response.on("end", () => {
+          clearTimeout(timeout);
+          resolve(response.statusCode);
+        });
+      }
+    );
+    const timeout = setTimeout(
+      () => req.destroy(new Error("Endpoint didn't respond in time")),
+      DELIVERY_TIMEOUT_MS
+    );
+    req.on("error", (err) => {
+      clearTimeout(timeout);
+      reject(err);
+    });
+    req.end(body);
+  });
+
+const sendDelivery = async (delivery, subscription) => {
+  const { address, error: urlError } = await resolveDeliveryUrl(
+    subscription.url
+  );
+  if (urlError) {
+    // Retrying won't help, so the delivery fails straight away
+    return { ok: false, status: null, error: urlError, isFinal: true };
+  }
+
+  const body = buildBody(delivery);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  try {
+    // A redirect isn't followed, so a public URL can't hand the request on
+    // to a private one; it counts as a failed attempt
+    const status = await postToAddress(
+      subscription.url,
+      address,
+      {
+        "Content-Type": "application/json",
+        "User-Agent": "TaskOrganizer-Webhooks/1.0",
+        "X-Webhook-Id": delivery.id,
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Signature": signPayload(subscription.secret, body, timestamp),
+      },
+      body
+    );
+    const ok = status >= 200 && status < 300;
+
+    return {
+      ok,
+      status,
+      error: ok ? null : `Endpoint responded with ${status}`,
+    };
+  } catch (err) {
+    return { ok: false, status: null, error: err.message || String(err) };
+  }
+};
+
+const recordAttempt = (delivery, result) => {
+  const attempts = delivery.attempts + 1;
+  const now = new Date().toISOString();
+
+  if (result.ok) {
+    return supabase
+      .from("webhook_deliveries")
+      .update({
+        status: "succeeded",
+        attempts,
+        response_status: result.status,
+        last_error: null,
+        delivered_at: now,
+      })
+      .eq("id", delivery.id);
+  }
+
+  const nextAttemptAt = result.isFinal ? null : getNextAttemptAt(attempts);
+  return supabase
+    .from("webhook_deliveries")
+    .update({
+      status: nextAttemptAt ? "pending" : "failed",
+      attempts,
+      response_status: result.status,
+      last_error: result.error,
+      next_attempt_at: nextAttemptAt ?? now,
+    })
+    .eq("id", delivery.id);
+};
+
+// Send every pending delivery that is due, optionally only for one user.
+// Returns counts of the outcomes.
+export const processDueDeliveries = async ({ userId, limit = 50 } = {}) => {
+  // Claiming marks the deliveries as sending in one statement, so runs that
+  // overlap (the schedule and the app's own calls) never send one twice.
+  // Claims left by a run that died are taken over after a few minutes (see
+  // add_webhook_delivery_claims.sql).
+  const { data, error } = await supabase.rpc("claim_webhook_deliveries", {
+    p_user: userId ?? null,
+    p_limit: limit,
+  });
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  const subscriptionIds = [...new Set(data.map((row) => row.subscription_id))];
+  const { data: subscriptions, error: subscriptionsError } =
+    subscriptionIds.length > 0
+      ? await supabase
+          .from("webhook_subscriptions")
+          .select("id, url, secret, active")
+          .in("id", subscriptionIds)
+      : { data: [], error: null };
+
+  if (subscriptionsError) {
+    return { data: null, error: subscriptionsError };
+  }
+
+  const summary = { processed: 0, succeeded: 0, retrying: 0, failed: 0 };
+
+  for (const delivery of data) {
+    const subscription = subscriptions.find(
+      (row) => row.id === delivery.subscription_id
+    );
+    const result =
+      subscription && subscription.active
+        ? await sendDelivery(delivery, subscription)
+        : { ok: false, status: null, error: "Subscription is disabled" };
+
+    const { error: updateError } = await recordAttempt(delivery, result);
+    if (updateError) {
+      console.error("Failed to record webhook delivery:", updateError);
+    }
+
+    summary.processed += 1;
+    if (result.ok) {
+      summary.succeeded += 1;
+    } else if (!result.isFinal && getNextAttemptAt(delivery.attempts + 1)) {
+      summary.retrying += 1;
+    } else {
+      summary.failed += 1;
+    }
+  }
+
+  return { data: summary, error: null };
+};
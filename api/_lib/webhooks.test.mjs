@@ -0,0 +1,144 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// The claimed deliveries, their subscriptions and the attempts recorded,
+// behind the few Supabase calls processDueDeliveries makes
+const db = vi.hoisted(() => ({
+  deliveries: [],
+  subscriptions: [],
+  updates: [],
+}));
+
+// Requests made through node:https, answered straight away with `status`
+const https = vi.hoisted(() => ({ requests: [], status: 204 }));
+
+vi.mock("./supabase.mjs", () => ({
+  supabase: {
+    rpc: async () => ({ data: db.deliveries, error: null }),
+    from: () => ({
+      select: () => ({
+        in: async () => ({ data: db.subscriptions, error: null }),
+      }),
+      update: (changes) => ({
+        eq: async (_column, id) => {
+          db.updates.push({ id, ...changes });
+          return { error: null };
+        },
+      }),
+    }),
+  },
+}));
+
+vi.mock("node:dns/promises", () => ({ lookup: vi.fn() }));
+
+vi.mock("node:https", async () => {
+  const { EventEmitter } = await import("node:events");
+  return {
+    request: (url, options, onResponse) => {
+      const req = new EventEmitter();
+      req.destroy = vi.fn();
+      req.end = (body) => {
+        https.requests.push({ url, options, body });
+        const response = new EventEmitter();
+        response.statusCode = https.status;
+        response.resume = () => {};
+        onResponse(response);
+        response.emit("end");
+      };
+      return req;
+    },
+  };
+});
+
+const { lookup } = await import("node:dns/promises");
+const { processDueDeliveries } = await import("./webhooks.mjs");
+const { PRIVATE_ADDRESS_ERROR } = await import("../../src/lib/webhookUrls.js");
+
+const PUBLIC_ADDRESS = { address: "93.184.216.34", family: 4 };
+
+// Resolve the host name the way a connection would, through `lookup`
+const resolveWith = (lookupOption, options) =>
+  new Promise((resolve) =>
+    lookupOption("hooks.example.com", options, (err, address, family) =>
+      resolve(options.all ? address : { address, family })
+    )
+  );
+
+beforeEach(() => {
+  db.deliveries = [
+    {
+      id: "delivery-1",
+      subscription_id: "subscription-1",
+      event: "task.created",
+      attempts: 0,
+      created_at: "2024-05-01T09:00:00.000Z",
+      payload: { task: { id: "task-1", bucket: "Today" } },
+    },
+  ];
+  db.subscriptions = [
+    {
+      id: "subscription-1",
+      url: "https://hooks.example.com/tasks",
+      secret: "secret",
+      active: true,
+    },
+  ];
+  db.updates = [];
+  https.requests = [];
+  https.status = 204;
+  vi.mocked(lookup).mockReset();
+});
+
+describe("processDueDeliveries", () => {
+  it("connects to the address it checked", async () => {
+    // The host name points somewhere private once it has been checked
+    vi.mocked(lookup)
+      .mockResolvedValueOnce([PUBLIC_ADDRESS])
+      .mockResolvedValue([{ address: "127.0.0.1", family: 4 }]);
+
+    const { data } = await processDueDeliveries();
+
+    expect(data).toMatchObject({ processed: 1, succeeded: 1 });
+    expect(lookup).toHaveBeenCalledTimes(1);
+    const [{ url, options }] = https.requests;
+    expect(url).toBe("https://hooks.example.com/tasks");
+    expect(await resolveWith(options.lookup, {})).toEqual(PUBLIC_ADDRESS);
+    expect(await resolveWith(options.lookup, { all: true })).toEqual([
+      PUBLIC_ADDRESS,
+    ]);
+  });
+
+  it("fails a delivery to a private address straight away", async () => {
+    vi.mocked(lookup).mockResolvedValue([
+      PUBLIC_ADDRESS,
+      { address: "10.0.0.8", family: 4 },
+    ]);
+
+    const { data } = await processDueDeliveries();
+
+    expect(data).toMatchObject({ processed: 1, failed: 1 });
+    expect(https.requests).toEqual([]);
+    expect(db.updates).toEqual([
+      expect.objectContaining({
+        id: "delivery-1",
+        status: "failed",
+        last_error: PRIVATE_ADDRESS_ERROR,
+      }),
+    ]);
+  });
+
+  it("retries a delivery the endpoint didn't accept", async () => {
+    vi.mocked(lookup).mockResolvedValue([PUBLIC_ADDRESS]);
+    https.status = 302;
+
+    const { data } = await processDueDeliveries();
+
+    expect(data).toMatchObject({ processed: 1, retrying: 1 });
+    expect(db.updates).toEqual([
+      expect.objectContaining({
+        status: "pending",
+        response_status: 302,
+        last_error: "Endpoint responded with 302",
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,22 @@
+import { allowMethods } from "../_lib/http.mjs";
+import { authenticateCronOrUser } from "../_lib/auth.mjs";
+import { purgeExpiredIdempotencyKeys } from "../_lib/idempotency.mjs";
+
+// GET|POST /api/idempotency/purge - remove Idempotency-Keys older than a
+// day. Called daily by the scheduled job with `Authorization: Bearer
+// $CRON_SECRET`, or with a user's Supabase access token to purge that
+// user's keys only.
+export default async function handler(req, res) {
+  if (!allowMethods(req, res, ["GET", "POST"])) return;
+
+  const auth = await authenticateCronOrUser(req, res);
+  if (!auth) return;
+
+  const { data, error } = await purgeExpiredIdempotencyKeys({
+    userId: auth.userId,
+  });
+  if (error) {
+    return res.status(500).json({ error: error.message });
+  }
+  return res.status(200).json(data);
+}
@@ -1,65 +1,243 @@
-import { createClient } from "@supabase/supabase-js";
+import { withApiKey } from "./_lib/auth.mjs";
+import { readJsonBody, validationErrorBody } from "./_lib/http.mjs";
+import {
+  checkDependencies,
+  createTask,
+  getUserBucketNames,
+  resolveProject,
+  unknownBucketDetails,
+} from "./_lib/tasks.mjs";
+import {
+  formatValidationIssues,
+  taskInputSchema,
+} from "../src/lib/taskSchema.js";
+import {
+  claimIdempotencyKey,
+  hashRequestBody,
+  releaseIdempotencyKey,
+  storeIdempotentResponse,
+} from "./_lib/idempotency.mjs";
 
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL,
-  process.env.SUPABASE_SERVICE_ROLE_KEY // Keep this secret
-);
+const ENDPOINT = "new_tasks";
+const MAX_BATCH_SIZE = 100;
 
-export default async function handler(req, res) {
-  if (req.method !== "POST") {
-    res.status(405).json({ error: "Method not allowed" });
-    return;
-  }
+// Insert one task per item. Items are processed in order so each one lands
+// below the previous in its bucket, and a failing item does not stop the rest.
+const createTasks = async (userId, bucketNames, items) => {
+  const results = [];
+  for (const [index, item] of items.entries()) {
+    const parsed = taskInputSchema.safeParse(item);
+    if (!parsed.success) {
+      results.push({
+        index,
+        status: "error",
+        error: "Validation failed",
+        details: formatValidationIssues(parsed.error),
+      });
+      continue;
+    }
+    if (!bucketNames.includes(parsed.data.bucket)) {
+      results.push({
+        index,
+        status: "error",
+        error: "Validation failed",
+        details: unknownBucketDetails(parsed.data.bucket),
+      });
+      continue;
+    }
+    const { details, error: dependencyError } = await checkDependencies(
+      userId,
+      undefined,
+      parsed.data.blocked_by
+    );
+    if (dependencyError || details) {
+      results.push(
+        dependencyError
+          ? { index, status: "error", error: dependencyError.message }
+          : { index, status: "error", error: "Validation failed", details }
+      );
+      continue;
+    }
+    const project = await resolveProject(userId, parsed.data);
+    if (project.error || project.details) {
+      results.push(
+        project.error
+          ? { index, status: "error", error: project.error.message }
+          : {
+              index,
+              status: "error",
+              error: "Validation failed",
+              details: project.details,
+            }
+      );
+      continue;
+    }
 
-  const authHeader = req.headers["x-api-key"];
+    const { data: task, error } = await createTask(userId, {
+      ...parsed.data,
+      ...project.fields,
+    });
+    results.push(
+      error
+        ? { index, status: "error", error: error.message }
+        : { index, status: "created", task }
+    );
+  }
+  return results;
+};
 
-  if (!authHeader) {
-    return res.status(401).json({ error: "Missing API key" });
+const buildResponse = async (userId, data) => {
+  const { data: bucketNames, error: bucketError } =
+    await getUserBucketNames(userId);
+  if (bucketError) {
+    return { status: 500, body: { error: bucketError.message } };
   }
 
-  const { data: userData, error } = await supabase
-    .from("api_keys")
-    .select("user_id")
-    .eq("token", authHeader)
-    .single();
+  // A single task keeps the original response shape
+  if (!Array.isArray(data)) {
+    const parsed = taskInputSchema.safeParse(data);
+    if (!parsed.success) {
+      return { status: 400, body: validationErrorBody(parsed.error) };
+    }
+    if (!bucketNames.includes(parsed.data.bucket)) {
+      return {
+        status: 400,
+        body: {
+          error: "Validation failed",
+          details: unknownBucketDetails(parsed.data.bucket),
+        },
+      };
+    }
+    const { details, error: dependencyError } = await checkDependencies(
+      userId,
+      undefined,
+      parsed.data.blocked_by
+    );
+    if (dependencyError) {
+      return { status: 500, body: { error: dependencyError.message } };
+    }
+    if (details) {
+      return { status: 400, body: { error: "Validation failed", details } };
+    }
+    const project = await resolveProject(userId, parsed.data);
+    if (project.error) {
+      return { status: 500, body: { error: project.error.message } };
+    }
+    if (project.details) {
+      return {
+        status: 400,
+        body: { error: "Validation failed", details: project.details },
+      };
+    }
 
-  if (error || !userData) {
-    return res.status(401).json({ error: "Invalid API key" });
+    const { data: task, error } = await createTask(userId, {
+      ...parsed.data,
+      ...project.fields,
+    });
+    if (error) {
+      return { status: 500, body: { error: error.message } };
+    }
+    return {
+      status: 200,
+      body: { message: "Task created successfully", task },
+    };
   }
 
-  let body = "";
-  for await (const chunk of req) {
-    body += chunk;
+  if (data.length === 0 || data.length > MAX_BATCH_SIZE) {
+    return {
+      status: 400,
+      body: {
+        error: `A batch must contain between 1 and ${MAX_BATCH_SIZE} tasks`,
+      },
+    };
   }
 
-  const data = JSON.parse(body);
-  const { main_task, sub_task, category, importance, bucket, time_estimate } =
-    data;
-
-  const serializeBucket = (value) => {
-    if (value === "Today" || value === "Tomorrow") {
-      return value;
-    }
-    return "Short-Term";
+  const results = await createTasks(userId, bucketNames, data);
+  const created = results.filter((result) => result.status === "created");
+  return {
+    status: created.length === results.length ? 200 : 207,
+    body: {
+      created: created.length,
+      failed: results.length - created.length,
+      results,
+    },
   };
+};
 
-  const normalizedBucket = serializeBucket(bucket);
+async function handler(req, res, apiKey) {
+  const userId = apiKey.user_id;
+  const idempotencyKey = req.headers["idempotency-key"];
 
-  const { error: insertError } = await supabase.from("tasks").insert([
-    {
-      user_id: userData.user_id,
-      main_task,
-      sub_task,
-      category,
-      importance,
-      bucket: normalizedBucket,
-      time_estimate,
-    },
-  ]);
+  // The body is read first so a reused key can be checked against it
+  const { data, error: bodyError } = await readJsonBody(req);
+  if (bodyError) {
+    return res.status(400).json({ error: bodyError });
+  }
+
+  let claim;
+  if (idempotencyKey) {
+    claim = await claimIdempotencyKey(
+      userId,
+      ENDPOINT,
+      idempotencyKey,
+      hashRequestBody(data)
+    );
+    if (claim.error) {
+      return res.status(500).json({ error: claim.error.message });
+    }
+    if (claim.mismatch) {
+      return res.status(422).json({
+        error:
+          "This Idempotency-Key was already used with a different request body",
+      });
+    }
+    if (claim.inProgress) {
+      return res.status(409).json({
+        error: "A request with this Idempotency-Key is still being processed",
+      });
+    }
+    if (claim.replay) {
+      res.setHeader("Idempotent-Replayed", "true");
+      return res.status(claim.replay.status).json(claim.replay.body);
+    }
+  }
 
-  if (insertError) {
-    return res.status(500).json({ error: insertError.message });
+  let response;
+  try {
+    response = await buildResponse(userId, data);
+  } catch (err) {
+    if (idempotencyKey) {
+      await releaseIdempotencyKey(
+        userId,
+        ENDPOINT,
+        idempotencyKey,
+        claim.claimedAt
+      );
+    }
+    throw err;
   }
 
-  return res.status(200).json({ message: "Task created successfully" });
+  if (idempotencyKey) {
+    if (response.status >= 500) {
+      await releaseIdempotencyKey(
+        userId,
+        ENDPOINT,
+        idempotencyKey,
+        claim.claimedAt
+      );
+    } else {
+      await storeIdempotentResponse(
+        userId,
+        ENDPOINT,
+        idempotencyKey,
+        claim.claimedAt,
+        response.status,
+        response.body
+      );
+    }
+  }
+
+  return res.status(response.status).json(response.body);
 }
+
+export default withApiKey({ POST: "tasks:create" }, handler);
@@ -0,0 +1,20 @@
+import { allowMethods } from "../_lib/http.mjs";
+import { authenticateCronOrUser } from "../_lib/auth.mjs";
+import { runDueRollovers } from "../_lib/rollover.mjs";
+
+// GET|POST /api/rollover/run - roll Today/Tomorrow over to the new day.
+// Called hourly by the scheduled job with `Authorization: Bearer
+// $CRON_SECRET` so every user is rolled over shortly after their local
+// midnight, or with a user's Supabase access token to run for that user.
+export default async function handler(req, res) {
+  if (!allowMethods(req, res, ["GET", "POST"])) return;
+
+  const auth = await authenticateCronOrUser(req, res);
+  if (!auth) return;
+
+  const { data, error } = await runDueRollovers({ userId: auth.userId });
+  if (error) {
+    return res.status(500).json({ error: error.message });
+  }
+  return res.status(200).json(data);
+}
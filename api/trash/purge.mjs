@@ -0,0 +1,20 @@
+import { allowMethods } from "../_lib/http.mjs";
+import { authenticateCronOrUser } from "../_lib/auth.mjs";
+import { purgeExpiredTrash } from "../_lib/trash.mjs";
+
+// GET|POST /api/trash/purge - remove trashed tasks and notes older than
+// their owner's retention period. Called daily by the scheduled job with
+// `Authorization: Bearer $CRON_SECRET`, or with a user's Supabase access
+// token to purge that user's trash only.
+export default async function handler(req, res) {
+  if (!allowMethods(req, res, ["GET", "POST"])) return;
+
+  const auth = await authenticateCronOrUser(req, res);
+  if (!auth) return;
+
+  const { data, error } = await purgeExpiredTrash({ userId: auth.userId });
+  if (error) {
+    return res.status(500).json({ error: error.message });
+  }
+  return res.status(200).json(data);
+}
@@ -0,0 +1,22 @@
+import { withApiKey } from "../../_lib/auth.mjs";
+import { listBuckets } from "../../_lib/tasks.mjs";
+import { getBucketNames } from "../../../src/lib/buckets.js";
+
+// GET /api/v1/buckets - list the buckets tasks can be filed under: the
+// built-in ones plus the user's custom buckets, in display order
+async function handler(req, res, apiKey) {
+  const { data, error } = await listBuckets(apiKey.user_id);
+  if (error) {
+    return res.status(500).json({ error: error.message });
+  }
+
+  const custom = new Map(data.map((bucket) => [bucket.name, bucket]));
+  const buckets = getBucketNames(data).map((name) =>
+    custom.has(name)
+      ? { name, color: custom.get(name).color, built_in: false }
+      : { name, color: null, built_in: true }
+  );
+  return res.status(200).json({ buckets });
+}
+
+export default withApiKey({ GET: "tasks:read" }, handler);
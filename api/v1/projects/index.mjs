@@ -0,0 +1,13 @@
+import { withApiKey } from "../../_lib/auth.mjs";
+import { listProjects } from "../../_lib/tasks.mjs";
+
+// GET /api/v1/projects - list the user's projects, archived ones included
+async function handler(req, res, apiKey) {
+  const { data, error } = await listProjects(apiKey.user_id);
+  if (error) {
+    return res.status(500).json({ error: error.message });
+  }
+  return res.status(200).json({ projects: data });
+}
+
+export default withApiKey({ GET: "tasks:read" }, handler);
@@ -0,0 +1,24 @@
+import { withApiKey } from "../../../_lib/auth.mjs";
+import { archiveTask } from "../../../_lib/tasks.mjs";
+
+// POST /api/v1/tasks/:id/archive - mark a task completed and archive it
+async function handler(req, res, apiKey) {
+  const userId = apiKey.user_id;
+
+  const { data, nextOccurrence, error } = await archiveTask(
+    userId,
+    req.query.id
+  );
+  if (error) {
+    return res.status(500).json({ error: error.message });
+  }
+  if (!data) {
+    return res.status(404).json({ error: "Task not found" });
+  }
+  return res.status(200).json({
+    task: data,
+    ...(nextOccurrence ? { next_occurrence: nextOccurrence } : {}),
+  });
+}
+
+export default withApiKey({ POST: "tasks:write" }, handler);
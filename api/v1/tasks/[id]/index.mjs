@@ -0,0 +1,117 @@
+import { withApiKey } from "../../../_lib/auth.mjs";
+import { readJsonBody, validationErrorBody } from "../../../_lib/http.mjs";
+import {
+  checkBucket,
+  checkDependencies,
+  deleteTask,
+  getTask,
+  resolveProject,
+  updateTask,
+} from "../../../_lib/tasks.mjs";
+import { taskUpdateSchema } from "../../../../src/lib/taskSchema.js";
+
+const REQUIRED_SCOPES = {
+  GET: "tasks:read",
+  PATCH: "tasks:write",
+  DELETE: "tasks:delete",
+};
+
+// GET    /api/v1/tasks/:id  - fetch a single task
+// PATCH  /api/v1/tasks/:id  - update editable fields
+// DELETE /api/v1/tasks/:id  - move a task to the trash
+async function handler(req, res, apiKey) {
+  const userId = apiKey.user_id;
+
+  const { id } = req.query;
+
+  if (req.method === "GET") {
+    const { data, error } = await getTask(userId, id);
+    if (error) {
+      return res.status(500).json({ error: error.message });
+    }
+    if (!data) {
+      return res.status(404).json({ error: "Task not found" });
+    }
+    return res.status(200).json({ task: data });
+  }
+
+  if (req.method === "PATCH") {
+    const { data: body, error: bodyError } = await readJsonBody(req);
+    if (bodyError) {
+      return res.status(400).json({ error: bodyError });
+    }
+
+    const parsed = taskUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      return res.status(400).json(validationErrorBody(parsed.error));
+    }
+
+    const changes = parsed.data;
+    if (Object.keys(changes).length === 0) {
+      return res.status(400).json({
+        error: `Nothing to update. Editable fields: ${Object.keys(
+          taskUpdateSchema.shape
+        ).join(", ")}`,
+      });
+    }
+
+    const { details, error: bucketError } = await checkBucket(
+      userId,
+      changes.bucket
+    );
+    if (bucketError) {
+      return res.status(500).json({ error: bucketError.message });
+    }
+    if (details) {
+      return res.status(400).json({ error: "Validation failed", details });
+    }
+
+    const { details: dependencyDetails, error: dependencyError } =
+      await checkDependencies(userId, id, changes.blocked_by);
+    if (dependencyError) {
+      return res.status(500).json({ error: dependencyError.message });
+    }
+    if (dependencyDetails) {
+      return res
+        .status(400)
+        .json({ error: "Validation failed", details: dependencyDetails });
+    }
+
+    const {
+      fields: projectFields,
+      details: projectDetails,
+      error: projectError,
+    } = await resolveProject(userId, changes);
+    if (projectError) {
+      return res.status(500).json({ error: projectError.message });
+    }
+    if (projectDetails) {
+      return res
+        .status(400)
+        .json({ error: "Validation failed", details: projectDetails });
+    }
+
+    const { data, error } = await updateTask(userId, id, {
+      ...changes,
+      ...projectFields,
+    });
+    if (error) {
+      return res.status(500).json({ error: error.message });
+    }
+    if (!data) {
+      return res.status(404).json({ error: "Task not found" });
+    }
+    return res.status(200).json({ task: data });
+  }
+
+  const { data, error } = await deleteTask(userId, id);
+  if (error) {
+    return res.status(500).json({ error: error.message });
+  }
+  if (!data) {
+    return res.status(404).json({ error: "Task not found" });
+  }
+  return res.status(204).end();
+}
+
+export default withApiKey(REQUIRED_SCOPES, handler);
@@ -0,0 +1,48 @@
+import { withApiKey } from "../../../_lib/auth.mjs";
+import { readJsonBody, validationErrorBody } from "../../../_lib/http.mjs";
+import { checkBucket, moveTask } from "../../../_lib/tasks.mjs";
+import { taskFieldsSchema } from "../../../../src/lib/taskSchema.js";
+
+const moveSchema = taskFieldsSchema.pick({ bucket: true });
+
+// POST /api/v1/tasks/:id/move - move a task to the bottom of another bucket
+// Body: { "bucket": "Today" }, any built-in or custom bucket name
+async function handler(req, res, apiKey) {
+  const userId = apiKey.user_id;
+
+  const { data: body, error: bodyError } = await readJsonBody(req);
+  if (bodyError) {
+    return res.status(400).json({ error: bodyError });
+  }
+
+  const parsed = moveSchema.safeParse(body);
+  if (!parsed.success) {
+    return res.status(400).json(validationErrorBody(parsed.error));
+  }
+
+  const { details, error: bucketError } = await checkBucket(
+    userId,
+    parsed.data.bucket
+  );
+  if (bucketError) {
+    return res.status(500).json({ error: bucketError.message });
+  }
+  if (details) {
+    return res.status(400).json({ error: "Validation failed", details });
+  }
+
+  const { data, error } = await moveTask(
+    userId,
+    req.query.id,
+    parsed.data.bucket
+  );
+  if (error) {
+    return res.status(500).json({ error: error.message });
+  }
+  if (!data) {
+    return res.status(404).json({ error: "Task not found" });
+  }
+  return res.status(200).json({ task: data });
+}
+
+export default withApiKey({ POST: "tasks:write" }, handler);
@@ -0,0 +1,18 @@
+import { withApiKey } from "../../../_lib/auth.mjs";
+import { unarchiveTask } from "../../../_lib/tasks.mjs";
+
+// POST /api/v1/tasks/:id/unarchive - restore an archived task
+async function handler(req, res, apiKey) {
+  const userId = apiKey.user_id;
+
+  const { data, error } = await unarchiveTask(userId, req.query.id);
+  if (error) {
+    return res.status(500).json({ error: error.message });
+  }
+  if (!data) {
+    return res.status(404).json({ error: "Task not found" });
+  }
+  return res.status(200).json({ task: data });
+}
+
+export default withApiKey({ POST: "tasks:write" }, handler);
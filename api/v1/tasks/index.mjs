@@ -0,0 +1,83 @@
+import { withApiKey } from "../../_lib/auth.mjs";
+import { readJsonBody, validationErrorBody } from "../../_lib/http.mjs";
+import {
+  checkBucket,
+  checkDependencies,
+  createTask,
+  listTasks,
+  resolveProject,
+} from "../../_lib/tasks.mjs";
+import { taskInputSchema } from "../../../src/lib/taskSchema.js";
+
+// GET  /api/v1/tasks  - list tasks (filters: bucket, category, project_id,
+//                       main_task, importance, archived, completed, limit,
+//                       offset)
+// POST /api/v1/tasks  - create a task
+async function handler(req, res, apiKey) {
+  const userId = apiKey.user_id;
+
+  if (req.method === "GET") {
+    const { data, error } = await listTasks(userId, req.query || {});
+    if (error) {
+      return res.status(500).json({ error: error.message });
+    }
+    return res.status(200).json({ tasks: data });
+  }
+
+  const { data: body, error: bodyError } = await readJsonBody(req);
+  if (bodyError) {
+    return res.status(400).json({ error: bodyError });
+  }
+
+  const parsed = taskInputSchema.safeParse(body);
+  if (!parsed.success) {
+    return res.status(400).json(validationErrorBody(parsed.error));
+  }
+
+  const { details, error: bucketError } = await checkBucket(
+    userId,
+    parsed.data.bucket
+  );
+  if (bucketError) {
+    return res.status(500).json({ error: bucketError.message });
+  }
+  if (details) {
+    return res.status(400).json({ error: "Validation failed", details });
+  }
+
+  const { details: dependencyDetails, error: dependencyError } =
+    await checkDependencies(userId, undefined, parsed.data.blocked_by);
+  if (dependencyError) {
+    return res.status(500).json({ error: dependencyError.message });
+  }
+  if (dependencyDetails) {
+    return res
+      .status(400)
+      .json({ error: "Validation failed", details: dependencyDetails });
+  }
+
+  const {
+    fields: projectFields,
+    details: projectDetails,
+    error: projectError,
+  } = await resolveProject(userId, parsed.data);
+  if (projectError) {
+    return res.status(500).json({ error: projectError.message });
+  }
+  if (projectDetails) {
+    return res
+      .status(400)
+      .json({ error: "Validation failed", details: projectDetails });
+  }
+
+  const { data, error } = await createTask(userId, {
+    ...parsed.data,
+    ...projectFields,
+  });
+  if (error) {
+    return res.status(500).json({ error: error.message });
+  }
+  return res.status(201).json({ task: data });
+}
+
+export default withApiKey({ GET: "tasks:read", POST: "tasks:create" }, handler);
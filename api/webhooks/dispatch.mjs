@@ -0,0 +1,20 @@
+import { allowMethods } from "../_lib/http.mjs";
+import { authenticateCronOrUser } from "../_lib/auth.mjs";
+import { processDueDeliveries } from "../_lib/webhooks.mjs";
+
+// GET|POST /api/webhooks/dispatch - send due webhook deliveries.
+// Called by the scheduled job with `Authorization: Bearer $CRON_SECRET` to
+// process every user, and by the app with the user's Supabase access token
+// to flush that user's deliveries right after a task changes.
+export default async function handler(req, res) {
+  if (!allowMethods(req, res, ["GET", "POST"])) return;
+
+  const auth = await authenticateCronOrUser(req, res);
+  if (!auth) return;
+
+  const { data, error } = await processDueDeliveries({ userId: auth.userId });
+  if (error) {
+    return res.status(500).json({ error: error.message });
+  }
+  return res.status(200).json(data);
+}
@@ -6,6 +6,7 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { TaskProvider } from "@/context/TaskContext";
 import { useEffect } from "react";
 import { initializeDatabase } from "@/lib/supabase";
+import { restoreTimer } from "@/lib/timer";
 import Index from "./pages/Index";
 import SignIn from "./pages/SignIn";
 import SignUp from "./pages/SignUp";
@@ -14,6 +15,10 @@ import ProtectedRoute from "./components/auth/ProtectedRoute";
 import CompletedTasksPage from "./components/pages/CompletedTasksPage";
 import Notes from "./pages/Notes";
 import ApiKeysPage from "./pages/ApiKeysPage";
+import WebhooksPage from "./pages/WebhooksPage";
+import SettingsPage from "./pages/SettingsPage";
+import ProjectsPage from "./pages/ProjectsPage";
+import TrashPage from "./pages/TrashPage";
 
 const queryClient = new QueryClient();
 
@@ -27,6 +32,9 @@ const App = () => {
     init();
   }, []);
 
+  // Carry on with a task timer left running before the page was reloaded
+  useEffect(() => restoreTimer(), []);
+
   return (
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
@@ -56,6 +64,16 @@ const App = () => {
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/projects"
+              element={
+                <ProtectedRoute>
+                  <TaskProvider>
+                    <ProjectsPage />
+                  </TaskProvider>
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/notes"
               element={
@@ -66,6 +84,16 @@ const App = () => {
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/trash"
+              element={
+                <ProtectedRoute>
+                  <TaskProvider>
+                    <TrashPage />
+                  </TaskProvider>
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/api-keys"
               element={
@@ -74,6 +102,24 @@ const App = () => {
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/webhooks"
+              element={
+                <ProtectedRoute>
+                  <WebhooksPage />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/settings"
+              element={
+                <ProtectedRoute>
+                  <TaskProvider>
+                    <SettingsPage />
+                  </TaskProvider>
+                </ProtectedRoute>
+              }
+            />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
@@ -1,7 +1,7 @@
 
 import { useEffect, useState } from 'react';
 import { Navigate } from 'react-router-dom';
-import { supabase } from '@/lib/supabase';
+import { checkAuthStatus, onSessionChange } from '@/lib/supabase';
 import { Loader2 } from 'lucide-react';
 
 export default function ProtectedRoute({ children }: { children: React.ReactNode }) {
@@ -10,28 +10,18 @@ export default function ProtectedRoute({ children }: { children: React.ReactNode
 
   useEffect(() => {
     const checkAuth = async () => {
-      const { data, error } = await supabase.auth.getSession();
-      
-      if (error) {
-        console.error('Error checking auth status:', error);
-        setAuthenticated(false);
-      } else {
-        setAuthenticated(!!data.session);
-      }
-      
+      // Logs and resolves to null if the session couldn't be checked
+      const session = await checkAuthStatus();
+      setAuthenticated(!!session);
       setLoading(false);
     };
 
     checkAuth();
 
     // Set up listener for auth changes
-    const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+    return onSessionChange((session) => {
       setAuthenticated(!!session);
     });
-
-    return () => {
-      data.subscription.unsubscribe();
-    };
   }, []);
 
   if (loading) {
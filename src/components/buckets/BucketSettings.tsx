@@ -0,0 +1,215 @@
+import { useState } from "react";
+import { useTaskContext } from "@/context/TaskContext";
+import { BucketColor, BucketConfig } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ArrowDown, ArrowUp, Lock, Plus, Trash2 } from "lucide-react";
+import ColorSelect from "@/components/forms/ColorSelect";
+import {
+  BUILT_IN_BUCKETS,
+  DEFAULT_BUCKET_COLOR,
+  bucketConfigSchema,
+} from "@/lib/buckets";
+
+const BucketSettings = () => {
+  const {
+    customBuckets,
+    tasks,
+    addBucket,
+    updateBucket,
+    deleteBucket,
+    moveBucket,
+  } = useTaskContext();
+  const [newName, setNewName] = useState("");
+  const [newColor, setNewColor] = useState<BucketColor>(DEFAULT_BUCKET_COLOR);
+  const [editedNames, setEditedNames] = useState<Record<string, string>>({});
+  const [nameError, setNameError] = useState<string | null>(null);
+  const [bucketToDelete, setBucketToDelete] = useState<BucketConfig | null>(
+    null
+  );
+
+  const orderedBuckets = [...customBuckets].sort(
+    (a, b) => a.position - b.position
+  );
+
+  const validateName = (name: string) => {
+    const parsed = bucketConfigSchema.shape.name.safeParse(name);
+    return parsed.success ? null : parsed.error.issues[0].message;
+  };
+
+  const handleAdd = async () => {
+    const error = validateName(newName);
+    setNameError(error);
+    if (error) return;
+
+    await addBucket(newName, newColor);
+    setNewName("");
+    setNewColor(DEFAULT_BUCKET_COLOR);
+  };
+
+  const handleRename = async (bucket: BucketConfig) => {
+    const name = editedNames[bucket.id];
+    if (name === undefined || name.trim() === bucket.name) return;
+
+    const error = validateName(name);
+    setNameError(error);
+    if (error) {
+      setEditedNames((prev) => ({ ...prev, [bucket.id]: bucket.name }));
+      return;
+    }
+    await updateBucket(bucket.id, { name });
+  };
+
+  const taskCount = (bucket: BucketConfig) =>
+    tasks.filter((task) => task.bucket === bucket.name).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Buckets</CardTitle>
+        <CardDescription>
+          Add your own buckets next to On Hold, Today and Tomorrow. Custom
+          buckets appear below On Hold on the board, in this order.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {BUILT_IN_BUCKETS.map((name) => (
+          <div
+            key={name}
+            className="flex items-center gap-2 text-sm text-muted-foreground"
+          >
+            <Lock className="h-3.5 w-3.5" />
+            {name}
+          </div>
+        ))}
+
+        {orderedBuckets.map((bucket, index) => (
+          <div key={bucket.id} className="flex items-center gap-2">
+            <Input
+              className="h-9 flex-1"
+              value={editedNames[bucket.id] ?? bucket.name}
+              onChange={(e) =>
+                setEditedNames((prev) => ({
+                  ...prev,
+                  [bucket.id]: e.target.value,
+                }))
+              }
+              onBlur={() => handleRename(bucket)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.currentTarget.blur();
+                }
+              }}
+            />
+            <ColorSelect
+              value={bucket.color}
+              onChange={(color) => updateBucket(bucket.id, { color })}
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              disabled={index === 0}
+              onClick={() => moveBucket(bucket.id, -1)}
+              title="Move up"
+            >
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              disabled={index === orderedBuckets.length - 1}
+              onClick={() => moveBucket(bucket.id, 1)}
+              title="Move down"
+            >
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="text-destructive hover:text-destructive"
+              onClick={() => setBucketToDelete(bucket)}
+              title="Delete bucket"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+
+        <div className="flex items-center gap-2 pt-3 border-t">
+          <Input
+            className="h-9 flex-1"
+            placeholder="New bucket, e.g. Waiting on others"
+            value={newName}
+            onChange={(e) => {
+              setNewName(e.target.value);
+              setNameError(null);
+            }}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                handleAdd();
+              }
+            }}
+          />
+          <ColorSelect value={newColor} onChange={setNewColor} />
+          <Button onClick={handleAdd} disabled={!newName.trim()}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add
+          </Button>
+        </div>
+        {nameError && (
+          <p className="text-sm font-medium text-destructive">{nameError}</p>
+        )}
+      </CardContent>
+
+      <AlertDialog
+        open={!!bucketToDelete}
+        onOpenChange={(open) => !open && setBucketToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Delete "{bucketToDelete?.name}"?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {bucketToDelete && taskCount(bucketToDelete) > 0
+                ? `Its ${taskCount(bucketToDelete)} active task(s) will be moved to On Hold.`
+                : "This bucket has no active tasks."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (bucketToDelete) {
+                  deleteBucket(bucketToDelete.id);
+                }
+                setBucketToDelete(null);
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default BucketSettings;
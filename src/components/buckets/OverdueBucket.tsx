@@ -0,0 +1,78 @@
+import { Task, ImportanceLevel } from "@/types";
+import TaskCard from "@/components/task/TaskCard";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle } from "lucide-react";
+import {
+  SortableContext,
+  verticalListSortingStrategy,
+} from "@dnd-kit/sortable";
+
+interface OverdueBucketProps {
+  tasks: Task[];
+  onDelete: (id: string) => void;
+  onArchive: (id: string) => void;
+  onUpdateTimeEstimate: (id: string, estimate: number) => void;
+  onToggleCompletion: (id: string) => void;
+  onUpdateImportance: (id: string, importance: ImportanceLevel) => void;
+  onUpdateSubTask: (id: string, newSubTask: string) => void;
+}
+
+// Overdue tasks from every bucket, oldest deadline first. Cards can still be
+// dragged into a bucket; they stay here until completed or re-dated.
+const OverdueBucket = ({
+  tasks,
+  onDelete,
+  onArchive,
+  onUpdateTimeEstimate,
+  onToggleCompletion,
+  onUpdateImportance,
+  onUpdateSubTask,
+}: OverdueBucketProps) => {
+  const overdueTasks = [...tasks].sort(
+    (a, b) => new Date(a.due_at).getTime() - new Date(b.due_at).getTime()
+  );
+
+  return (
+    <Card className="task-bucket border border-rose-200/70 w-full min-w-[320px] max-w-full">
+      <CardHeader className="pb-1.5 pt-4 px-3 sm:px-4">
+        <div className="flex justify-between items-center">
+          <CardTitle className="text-base font-medium flex items-center gap-1.5 text-rose-700">
+            <AlertTriangle className="h-4 w-4" />
+            Overdue
+          </CardTitle>
+          <Badge
+            variant="outline"
+            className="ml-2 bg-rose-50 text-rose-700 border-rose-200 px-2.5"
+          >
+            {overdueTasks.length}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3 pt-2 px-3 sm:px-4">
+        <SortableContext
+          items={overdueTasks.map((task) => task.id)}
+          strategy={verticalListSortingStrategy}
+        >
+          {overdueTasks.map((task) => (
+            <TaskCard
+              key={task.id}
+              task={task}
+              onDelete={onDelete}
+              onArchive={onArchive}
+              onUpdateTimeEstimate={onUpdateTimeEstimate}
+              onToggleCompletion={onToggleCompletion}
+              onUpdateImportance={onUpdateImportance}
+              onUpdateSubTask={onUpdateSubTask}
+              allowTimeEstimate={
+                task.bucket === "Today" || task.bucket === "Tomorrow"
+              }
+            />
+          ))}
+        </SortableContext>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OverdueBucket;
@@ -1,4 +1,4 @@
-import { Task, TaskBucketType, ImportanceLevel } from "@/types";
+import { Task, TaskBucketType, ImportanceLevel, BucketColor } from "@/types";
 import TaskCard from "@/components/task/TaskCard";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -23,6 +23,8 @@ import {
   sortTasksByOrder,
   UNGROUPED_TASK_KEY,
 } from "@/lib/taskOrder";
+import { BUCKET_COLOR_CLASSES } from "@/lib/bucketColors";
+import { useTaskContext } from "@/context/TaskContext";
 
 interface TaskBucketProps {
   title: string;
@@ -36,6 +38,7 @@ interface TaskBucketProps {
   onUpdateSubTask: (id: string, newSubTask: string) => void;
   allowTimeEstimate?: boolean;
   showSubtasksOnly?: boolean;
+  color?: BucketColor;
 }
 
 const buildGroupId = (bucket: TaskBucketType, groupKey: string) =>
@@ -71,6 +74,9 @@ const SortableGroup = ({
   onUpdateSubTask,
 }: SortableGroupProps) => {
   const groupId = buildGroupId(bucketType, groupKey);
+  const { projects } = useTaskContext();
+  // Group keys are project ids
+  const project = projects.find((p) => p.id === groupKey);
   const {
     attributes,
     listeners,
@@ -114,7 +120,7 @@ const SortableGroup = ({
             ref={setActivatorNodeRef}
             {...listeners}
             className="p-1 text-muted-foreground/70 hover:text-foreground transition-colors cursor-grab"
-            aria-label="Reorder main task"
+            aria-label="Reorder project"
           >
             <GripVertical className="h-4 w-4" />
           </button>
@@ -126,7 +132,17 @@ const SortableGroup = ({
               className="flex items-center justify-between w-full text-left"
             >
               <div className="flex items-center gap-2">
-                <div className="font-medium text-sm">{groupKey}</div>
+                {project && (
+                  <span
+                    className={cn(
+                      "h-2.5 w-2.5 rounded-full",
+                      BUCKET_COLOR_CLASSES[project.color].swatch
+                    )}
+                  />
+                )}
+                <div className="font-medium text-sm">
+                  {project?.name ?? tasks[0]?.main_task ?? groupKey}
+                </div>
               </div>
               <div className="flex items-center gap-2">
                 {groupTime > 0 && (
@@ -195,6 +211,7 @@ const TaskBucket = ({
   onUpdateSubTask,
   allowTimeEstimate = false,
   showSubtasksOnly = false,
+  color,
 }: TaskBucketProps) => {
   const [openGroups, setOpenGroups] = useState<{ [key: string]: boolean }>({});
 
@@ -230,6 +247,7 @@ const TaskBucket = ({
       ref={setNodeRef} // Apply the ref from useDroppable
       className={cn(
         "task-bucket transition-all duration-150 min-h-[16rem] border w-full min-w-[320px] max-w-full",
+        color && BUCKET_COLOR_CLASSES[color].accent,
         // Add visual indication when a draggable is hovering over:
         isOver ? "border-primary border-dashed bg-primary/5" : "border-transparent"
       )}
@@ -308,14 +326,14 @@ const TaskBucket = ({
                   )}
                   strategy={verticalListSortingStrategy}
                 >
-                  {groupOrder.map((mainTask) => (
+                  {groupOrder.map((projectId) => (
                     <SortableGroup
-                      key={buildGroupId(type, mainTask)}
+                      key={buildGroupId(type, projectId)}
                       bucketType={type}
-                      groupKey={mainTask}
-                      tasks={groupedTasks.get(mainTask) ?? []}
-                      isOpen={isGroupOpen(mainTask)}
-                      onToggle={() => toggleGroup(mainTask)}
+                      groupKey={projectId}
+                      tasks={groupedTasks.get(projectId) ?? []}
+                      isOpen={isGroupOpen(projectId)}
+                      onToggle={() => toggleGroup(projectId)}
                       allowTimeEstimate={allowTimeEstimate}
                       onDelete={onDelete}
                       onArchive={onArchive}
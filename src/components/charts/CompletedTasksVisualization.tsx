@@ -14,6 +14,9 @@ import { useState } from "react";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
+import { useTaskContext } from "@/context/TaskContext";
+import { getTaskGroupKey } from "@/lib/taskOrder";
+import { getProjectName } from "@/lib/projects";
 import {
   format,
   parseISO,
@@ -47,6 +50,15 @@ const CompletedTasksVisualization = ({
 }: CompletedTasksVisualizationProps) => {
   const [showSubTasks, setShowSubTasks] = useState(false);
   const [useFixedScale, setUseFixedScale] = useState(true);
+  // Estimates alone assume they were right, so plot tracked time once there
+  // is some
+  const [showTracked, setShowTracked] = useState(() =>
+    tasks.some((task) => task.tracked_minutes > 0)
+  );
+  const { projects } = useTaskContext();
+
+  const getMinutes = (task: Task) =>
+    (showTracked ? task.tracked_minutes : task.time_estimate) || 0;
 
   // Filter out tasks without updated_at
   const filteredTasks = tasks.filter((task) => task.updated_at);
@@ -83,16 +95,21 @@ const CompletedTasksVisualization = ({
 
   // Group tasks by main task or subtask and by date
   const groupTasks = () => {
-    const taskGroups = new Map<string, { key: string; mainTask?: string }>();
+    const taskGroups = new Map<
+      string,
+      { key: string; label: string; mainTask?: string }
+    >();
 
     // First identify all unique task groups
     filteredTasks.forEach((task) => {
-      const key = showSubTasks ? task.sub_task : task.main_task || "Ungrouped";
+      const projectName = getProjectName(task.project_id, projects);
+      const key = showSubTasks ? task.sub_task : getTaskGroupKey(task);
 
       if (!taskGroups.has(key)) {
         taskGroups.set(key, {
           key,
-          mainTask: task.main_task,
+          label: showSubTasks ? task.sub_task : projectName,
+          mainTask: task.project_id ? projectName : undefined,
         });
       }
     });
@@ -122,13 +139,13 @@ const CompletedTasksVisualization = ({
         const matchesDate = differenceInDays(taskDate, date) === 0;
         const matchesGroup = showSubTasks
           ? task.sub_task === group.key
-          : (task.main_task || "Ungrouped") === group.key;
+          : getTaskGroupKey(task) === group.key;
 
         return matchesDate && matchesGroup;
       });
 
       const totalTime = tasksOnDay.reduce(
-        (sum, task) => sum + (task.time_estimate || 0),
+        (sum, task) => sum + getMinutes(task),
         0
       );
       dateObj[group.key] = totalTime;
@@ -157,7 +174,7 @@ const CompletedTasksVisualization = ({
           {nonZeroPayload.map((entry: any, index: number) => {
             const taskName = entry.name;
             const mainTask = groupedTasks.find(
-              (g) => g.key === taskName
+              (g) => g.label === taskName
             )?.mainTask;
             const displayName =
               showSubTasks && mainTask ? `${taskName} (${mainTask})` : taskName;
@@ -190,6 +207,7 @@ const CompletedTasksVisualization = ({
 
   // Determine bar keys (what to stack)
   const barKeys = groupedTasks.map((g) => g.key);
+  const barLabels = new Map(groupedTasks.map((g) => [g.key, g.label]));
 
   // If no filtered data, show message
   if (filteredChartData.length === 0) {
@@ -217,26 +235,54 @@ const CompletedTasksVisualization = ({
             Time Spent on Completed Tasks
           </CardTitle>
 
-          <div className="flex items-center space-x-2">
-            <Label
-              htmlFor="view-mode-completed"
-              className={showSubTasks ? "text-muted-foreground" : "font-medium"}
-            >
-              Main Tasks
-            </Label>
-            <Switch
-              id="view-mode-completed"
-              checked={showSubTasks}
-              onCheckedChange={setShowSubTasks}
-            />
-            <Label
-              htmlFor="view-mode-completed"
-              className={
-                !showSubTasks ? "text-muted-foreground" : "font-medium"
-              }
-            >
-              Subtasks
-            </Label>
+          <div className="flex flex-wrap items-center gap-x-6 gap-y-2">
+            <div className="flex items-center space-x-2">
+              <Label
+                htmlFor="time-mode-completed"
+                className={
+                  showTracked ? "text-muted-foreground" : "font-medium"
+                }
+              >
+                Estimated
+              </Label>
+              <Switch
+                id="time-mode-completed"
+                checked={showTracked}
+                onCheckedChange={setShowTracked}
+              />
+              <Label
+                htmlFor="time-mode-completed"
+                className={
+                  !showTracked ? "text-muted-foreground" : "font-medium"
+                }
+              >
+                Tracked
+              </Label>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Label
+                htmlFor="view-mode-completed"
+                className={
+                  showSubTasks ? "text-muted-foreground" : "font-medium"
+                }
+              >
+                Main Tasks
+              </Label>
+              <Switch
+                id="view-mode-completed"
+                checked={showSubTasks}
+                onCheckedChange={setShowSubTasks}
+              />
+              <Label
+                htmlFor="view-mode-completed"
+                className={
+                  !showSubTasks ? "text-muted-foreground" : "font-medium"
+                }
+              >
+                Subtasks
+              </Label>
+            </div>
           </div>
         </div>
       </CardHeader>
@@ -292,6 +338,7 @@ const CompletedTasksVisualization = ({
               <Bar
                 key={key}
                 dataKey={key}
+                name={barLabels.get(key)}
                 stackId="stack"
                 fill={COLORS[index % COLORS.length]}
                 radius={[index === 0 ? 4 : 0, index === 0 ? 4 : 0, 0, 0]}
@@ -0,0 +1,232 @@
+import { useState } from "react";
+import { Task } from "@/types";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+  CartesianGrid,
+  ReferenceLine,
+} from "recharts";
+import { useTaskContext } from "@/context/TaskContext";
+import { getProjectName } from "@/lib/projects";
+import { UNGROUPED_TASK_KEY } from "@/lib/taskOrder";
+import { formatMinutes } from "@/lib/timeEntries";
+import {
+  AccuracyDimension,
+  MIN_TASKS_FOR_MULTIPLIER,
+  getEstimateAccuracy,
+  getRunningBias,
+} from "@/lib/estimateAccuracy";
+import { cn } from "@/lib/utils";
+import { format, parseISO } from "date-fns";
+
+interface EstimateAccuracyVisualizationProps {
+  tasks: Task[];
+}
+
+// Same palette as the completed tasks chart
+const COLORS = [
+  "#4285F4",
+  "#EA4335",
+  "#FBBC05",
+  "#34A853",
+  "#8429F6",
+  "#FF6D01",
+];
+
+// How many groups the running bias chart shows
+const MAX_CHART_GROUPS = 5;
+
+const formatPercent = (value: number) =>
+  `${value > 0 ? "+" : ""}${Math.round(value * 100)}%`;
+
+const describeBias = (bias: number) => {
+  if (Math.abs(bias) < 0.1) return "About right";
+  return bias > 0 ? "Underestimated" : "Overestimated";
+};
+
+// How far tracked time on completed tasks is from their estimates, per
+// category, project or importance, and how that has moved over time
+const EstimateAccuracyVisualization = ({
+  tasks,
+}: EstimateAccuracyVisualizationProps) => {
+  const [dimension, setDimension] = useState<AccuracyDimension>("category");
+  const { projects } = useTaskContext();
+
+  const getLabel = (key: string) =>
+    dimension === "project"
+      ? getProjectName(key === UNGROUPED_TASK_KEY ? null : key, projects)
+      : key;
+
+  const accuracy = getEstimateAccuracy(tasks, dimension);
+  const chartKeys = accuracy.slice(0, MAX_CHART_GROUPS).map((row) => row.key);
+  const runningBias = getRunningBias(tasks, dimension, chartKeys);
+
+  return (
+    <Card className="animate-fade-in bg-background shadow-sm">
+      <CardHeader className="pb-2">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2">
+          <div>
+            <CardTitle className="text-lg">Estimate Accuracy</CardTitle>
+            <CardDescription>
+              Tracked time against the estimate, for completed tasks that have
+              both
+            </CardDescription>
+          </div>
+          <Tabs
+            value={dimension}
+            onValueChange={(value) => setDimension(value as AccuracyDimension)}
+          >
+            <TabsList>
+              <TabsTrigger value="category">Category</TabsTrigger>
+              <TabsTrigger value="project">Project</TabsTrigger>
+              <TabsTrigger value="importance">Importance</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-4 space-y-6">
+        {accuracy.length === 0 ? (
+          <p className="text-muted-foreground text-center py-16">
+            No completed tasks with both an estimate and tracked time yet
+          </p>
+        ) : (
+          <>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart
+                  data={runningBias}
+                  margin={{ top: 10, right: 30, left: 10, bottom: 10 }}
+                >
+                  <CartesianGrid
+                    strokeDasharray="3 3"
+                    vertical={false}
+                    opacity={0.2}
+                  />
+                  <XAxis
+                    dataKey="date"
+                    tickFormatter={(date) => format(parseISO(date), "MMM d")}
+                    tick={{ fontSize: 12 }}
+                    axisLine={{ stroke: "#e2e8f0", strokeWidth: 1 }}
+                  />
+                  <YAxis
+                    tickFormatter={formatPercent}
+                    tick={{ fontSize: 12, fill: "#64748b" }}
+                    axisLine={{ stroke: "#e2e8f0", strokeWidth: 1 }}
+                  />
+                  <Tooltip
+                    labelFormatter={(date) => format(parseISO(date), "PPP")}
+                    formatter={(value: number, key: string) => [
+                      formatPercent(value),
+                      getLabel(key),
+                    ]}
+                  />
+                  <ReferenceLine y={0} stroke="#94a3b8" strokeDasharray="3 3" />
+                  {chartKeys.map((key, index) => (
+                    <Line
+                      key={key}
+                      dataKey={key}
+                      name={key}
+                      stroke={COLORS[index % COLORS.length]}
+                      strokeWidth={2}
+                      dot={false}
+                      connectNulls
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <p className="text-xs text-muted-foreground -mt-4">
+              Running bias: above 0 means tasks took longer than estimated so
+              far.
+            </p>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>
+                    {dimension === "category"
+                      ? "Category"
+                      : dimension === "project"
+                      ? "Project"
+                      : "Importance"}
+                  </TableHead>
+                  <TableHead className="text-right">Tasks</TableHead>
+                  <TableHead className="text-right">Estimated</TableHead>
+                  <TableHead className="text-right">Tracked</TableHead>
+                  <TableHead className="text-right">Bias</TableHead>
+                  <TableHead className="text-right">Average miss</TableHead>
+                  <TableHead className="text-right">
+                    Suggested multiplier
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {accuracy.map((row) => (
+                  <TableRow key={row.key}>
+                    <TableCell className="font-medium">
+                      {getLabel(row.key)}
+                    </TableCell>
+                    <TableCell className="text-right">{row.tasks}</TableCell>
+                    <TableCell className="text-right">
+                      {formatMinutes(row.estimatedMinutes)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatMinutes(row.actualMinutes)}
+                    </TableCell>
+                    <TableCell
+                      className={cn(
+                        "text-right",
+                        row.bias >= 0.1 && "text-amber-600",
+                        row.bias <= -0.1 && "text-blue-600"
+                      )}
+                      title={describeBias(row.bias)}
+                    >
+                      {formatPercent(row.bias)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {Math.round(row.averageMiss * 100)}%
+                    </TableCell>
+                    <TableCell
+                      className="text-right"
+                      title={
+                        row.suggestedMultiplier === null
+                          ? `Needs at least ${MIN_TASKS_FOR_MULTIPLIER} tasks`
+                          : `Multiply estimates by ${row.suggestedMultiplier}`
+                      }
+                    >
+                      {row.suggestedMultiplier === null
+                        ? "–"
+                        : `×${row.suggestedMultiplier.toFixed(2)}`}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EstimateAccuracyVisualization;
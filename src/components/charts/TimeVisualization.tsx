@@ -14,6 +14,9 @@ import { useState } from "react";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
+import { useTaskContext } from "@/context/TaskContext";
+import { getTaskGroupKey } from "@/lib/taskOrder";
+import { getProjectName } from "@/lib/projects";
 
 interface TimeVisualizationProps {
   tasks: Task[];
@@ -36,6 +39,7 @@ const COLORS = [
 const TimeVisualization = ({ tasks }: TimeVisualizationProps) => {
   const [showSubTasks, setShowSubTasks] = useState(false);
   const [useFixedScale, setUseFixedScale] = useState(true);
+  const { projects } = useTaskContext();
 
   // Filter out any tasks without a bucket (Today/Tomorrow)
   const filteredTasks = tasks.filter(
@@ -66,6 +70,7 @@ const TimeVisualization = ({ tasks }: TimeVisualizationProps) => {
       string,
       {
         key: string;
+        label: string;
         todayTime: number;
         tomorrowTime: number;
         mainTask?: string;
@@ -73,14 +78,16 @@ const TimeVisualization = ({ tasks }: TimeVisualizationProps) => {
     >();
 
     filteredTasks.forEach((task) => {
-      const key = showSubTasks ? task.sub_task : task.main_task || "Ungrouped";
+      const projectName = getProjectName(task.project_id, projects);
+      const key = showSubTasks ? task.sub_task : getTaskGroupKey(task);
 
       if (!taskGroups.has(key)) {
         taskGroups.set(key, {
           key,
+          label: showSubTasks ? task.sub_task : projectName,
           todayTime: 0,
           tomorrowTime: 0,
-          mainTask: task.main_task,
+          mainTask: task.project_id ? projectName : undefined,
         });
       }
 
@@ -137,7 +144,7 @@ const TimeVisualization = ({ tasks }: TimeVisualizationProps) => {
           {nonZeroPayload.map((entry: any, index: number) => {
             const taskName = entry.name;
             const mainTask = groupedTasks.find(
-              (g) => g.key === taskName
+              (g) => g.label === taskName
             )?.mainTask;
             const displayName =
               showSubTasks && mainTask ? `${taskName} (${mainTask})` : taskName;
@@ -170,6 +177,7 @@ const TimeVisualization = ({ tasks }: TimeVisualizationProps) => {
 
   // Determine bar keys (what to stack)
   const barKeys = groupedTasks.map((g) => g.key);
+  const barLabels = new Map(groupedTasks.map((g) => [g.key, g.label]));
 
   return (
     <Card className="animate-fade-in bg-background shadow-sm">
@@ -254,6 +262,7 @@ const TimeVisualization = ({ tasks }: TimeVisualizationProps) => {
               <Bar
                 key={key}
                 dataKey={key}
+                name={barLabels.get(key)}
                 stackId="stack"
                 fill={COLORS[index % COLORS.length]}
                 radius={[index === 0 ? 4 : 0, index === 0 ? 4 : 0, 0, 0]}
@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Task } from "@/types";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -15,7 +15,12 @@ import {
   CartesianGrid,
 } from "recharts";
 import { isSameDay, parseISO, startOfDay } from "date-fns";
-import { supabase, handleSupabaseError } from "@/lib/supabase";
+import { handleSupabaseError } from "@/lib/supabase";
+import { useTaskContext } from "@/context/TaskContext";
+import { getTaskGroupKey } from "@/lib/taskOrder";
+import { getProjectName } from "@/lib/projects";
+import { publishRowChange, subscribeToRowChanges } from "@/lib/realtime";
+import { GoalRecord, goalRepository } from "@/lib/repositories";
 
 interface TodayProgressVisualizationProps {
   tasks: Task[];
@@ -35,6 +40,11 @@ const TodayProgressVisualization = ({
     {}
   );
   const goalType = showSubtasks ? "subtask" : "main";
+  const { projects } = useTaskContext();
+  // Goal keys by row id, since deletes made elsewhere only carry the id
+  const goalKeysRef = useRef(new Map<string, string>());
+  // Goals being typed in, which changes made elsewhere mustn't overwrite
+  const editingGoalsRef = useRef(new Set<string>());
 
   useEffect(() => {
     if (!userId) {
@@ -44,11 +54,7 @@ const TodayProgressVisualization = ({
 
     let isActive = true;
     const loadGoals = async () => {
-      const { data, error } = await supabase
-        .from("task_goals")
-        .select("goal_key, goal_minutes")
-        .eq("user_id", userId)
-        .eq("goal_type", goalType);
+      const { data, error } = await goalRepository.list(userId, goalType);
 
       if (error) {
         handleSupabaseError(error);
@@ -57,8 +63,10 @@ const TodayProgressVisualization = ({
 
       if (!isActive) return;
       const nextGoals: Record<string, number> = {};
+      goalKeysRef.current = new Map();
       (data || []).forEach((row) => {
         nextGoals[row.goal_key] = row.goal_minutes ?? 0;
+        goalKeysRef.current.set(row.id, row.goal_key);
       });
       setGoalOverrides(nextGoals);
     };
@@ -69,6 +77,45 @@ const TodayProgressVisualization = ({
     };
   }, [goalType, userId]);
 
+  // Pick up goals changed in other tabs and on other devices
+  useEffect(() => {
+    if (!userId) return;
+
+    return subscribeToRowChanges<GoalRecord>(userId, "task_goals", (change) => {
+      if (change.row && change.row.goal_type !== goalType) return;
+      const key = change.row?.goal_key ?? goalKeysRef.current.get(change.id);
+      if (key === undefined || editingGoalsRef.current.has(key)) return;
+
+      if (change.type === "DELETE") {
+        goalKeysRef.current.delete(change.id);
+        setGoalOverrides((prev) => {
+          const next = { ...prev };
+          delete next[key];
+          return next;
+        });
+      } else if (change.row) {
+        goalKeysRef.current.set(change.id, key);
+        setGoalOverrides((prev) => ({
+          ...prev,
+          [key]: change.row.goal_minutes ?? 0,
+        }));
+      }
+    });
+  }, [goalType, userId]);
+
+  const publishGoalDeletes = (rows: { id: string }[] | null) => {
+    if (!userId) return;
+    (rows || []).forEach((row) => {
+      goalKeysRef.current.delete(row.id);
+      publishRowChange(userId, {
+        table: "task_goals",
+        type: "DELETE",
+        id: row.id,
+        row: null,
+      });
+    });
+  };
+
   const plannedToday = [
     ...tasks.filter((task) => task.bucket === "Today"),
     ...completedTasks.filter(
@@ -92,8 +139,17 @@ const TodayProgressVisualization = ({
     ),
   ];
 
+  // Project goals are keyed by project id, so they survive renames
   const getGroupKey = (task: Task) =>
-    showSubtasks ? task.sub_task : task.main_task || "Ungrouped";
+    showSubtasks ? task.sub_task : getTaskGroupKey(task);
+
+  const groupLabels = new Map<string, string>();
+  [...plannedToday, ...completedToday].forEach((task) =>
+    groupLabels.set(
+      getGroupKey(task),
+      showSubtasks ? task.sub_task : getProjectName(task.project_id, projects)
+    )
+  );
 
   const plannedByGroup = new Map<string, number>();
   const completedByGroup = new Map<string, number>();
@@ -130,7 +186,8 @@ const TodayProgressVisualization = ({
       const overMinutes = Math.max(completedMinutes - goalMinutes, 0);
 
       return {
-        name: key,
+        key,
+        name: groupLabels.get(key) ?? key,
         plannedMinutes,
         goalMinutes,
         completedMinutes,
@@ -147,29 +204,28 @@ const TodayProgressVisualization = ({
 
   const deleteGoal = async (key: string) => {
     if (!userId) return;
-    const { error } = await supabase
-      .from("task_goals")
-      .delete()
-      .eq("user_id", userId)
-      .eq("goal_type", goalType)
-      .eq("goal_key", key);
+    const { data, error } = await goalRepository.remove(userId, goalType, key);
     if (handleSupabaseError(error)) return;
+    publishGoalDeletes(data);
   };
 
   const saveGoal = async (key: string, minutes: number) => {
     if (!userId) return;
-    const { error } = await supabase.from("task_goals").upsert(
-      [
-        {
-          user_id: userId,
-          goal_type: goalType,
-          goal_key: key,
-          goal_minutes: minutes,
-        },
-      ],
-      { onConflict: "user_id,goal_type,goal_key" }
+    const { data, error } = await goalRepository.save(
+      userId,
+      goalType,
+      key,
+      minutes
     );
-    if (handleSupabaseError(error)) return;
+    if (handleSupabaseError(error) || !data) return;
+
+    goalKeysRef.current.set(data.id, data.goal_key);
+    publishRowChange(userId, {
+      table: "task_goals",
+      type: "UPDATE",
+      id: data.id,
+      row: data,
+    });
   };
 
   const handleGoalChange = (key: string, value: string) => {
@@ -185,6 +241,7 @@ const TodayProgressVisualization = ({
 
     const parsed = Number.parseInt(value, 10);
     const minutes = Number.isNaN(parsed) ? 0 : Math.max(parsed, 0);
+    editingGoalsRef.current.add(key);
     setGoalOverrides((prev) => ({
       ...prev,
       [key]: minutes,
@@ -195,21 +252,19 @@ const TodayProgressVisualization = ({
     const minutes = goalOverrides[key];
     if (minutes === undefined) return;
     await saveGoal(key, minutes);
+    editingGoalsRef.current.delete(key);
   };
 
   const handleResetGoals = () => {
     setGoalOverrides({});
     if (!userId) return;
-    supabase
-      .from("task_goals")
-      .delete()
-      .eq("user_id", userId)
-      .eq("goal_type", goalType)
-      .then(({ error }) => {
-        if (error) {
-          handleSupabaseError(error);
-        }
-      });
+    goalRepository.remove(userId, goalType).then(({ data, error }) => {
+      if (error) {
+        handleSupabaseError(error);
+        return;
+      }
+      publishGoalDeletes(data);
+    });
   };
 
   const titleSuffix = showSubtasks ? "Subtasks" : "Main Tasks";
@@ -309,7 +364,7 @@ const TodayProgressVisualization = ({
                 <div className="grid gap-2 sm:grid-cols-2">
                   {data.map((item) => (
                     <div
-                      key={item.name}
+                      key={item.key}
                       className="flex items-center justify-between gap-2"
                     >
                       <div className="text-sm font-medium truncate">
@@ -321,12 +376,12 @@ const TodayProgressVisualization = ({
                         min={0}
                         className="h-8 w-20 text-xs text-right"
                         value={
-                          goalOverrides[item.name] ?? item.plannedMinutes ?? 0
+                          goalOverrides[item.key] ?? item.plannedMinutes ?? 0
                         }
                         onChange={(event) =>
-                          handleGoalChange(item.name, event.target.value)
+                          handleGoalChange(item.key, event.target.value)
                         }
-                        onBlur={() => handleGoalCommit(item.name)}
+                        onBlur={() => handleGoalCommit(item.key)}
                         onKeyDown={(event) => {
                           if (event.key === "Enter") {
                             event.currentTarget.blur();
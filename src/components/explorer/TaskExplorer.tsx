@@ -13,8 +13,10 @@ import { Filter, Eye } from "lucide-react";
 import TaskExplorerModal from "@/components/explorer/TaskExplorerModal";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
+import { useTaskContext } from "@/context/TaskContext";
+import { getProjectName } from "@/lib/projects";
 
-type FilterType = "main_task" | "category";
+type FilterType = "project" | "category";
 type ExplorerMode = "type" | "importance";
 
 interface TaskExplorerProps {
@@ -32,7 +34,8 @@ const TaskExplorer = ({
   const [explorerMode, setExplorerMode] = useState<ExplorerMode>("type");
 
   // Original states for Type mode
-  const [filterType, setFilterType] = useState<FilterType>("main_task");
+  const [filterType, setFilterType] = useState<FilterType>("project");
+  const { projects } = useTaskContext();
   const [selectedValue, setSelectedValue] = useState<string>("");
 
   // New state for Importance mode
@@ -51,25 +54,32 @@ const TaskExplorer = ({
     Set<string>
   >(new Set());
 
-  // Get unique main tasks and categories from tasks
+  // Projects (by id) and categories that have tasks, as select options
   const uniqueOptions = useMemo(() => {
-    const mainTasks = new Set<string>();
+    const projectIds = new Set<string>();
     const categories = new Set<string>();
 
     tasks.forEach((task) => {
-      if (task.main_task) {
-        mainTasks.add(task.main_task);
+      if (task.project_id) {
+        projectIds.add(task.project_id);
       }
       if (task.category) {
         categories.add(task.category);
       }
     });
 
+    const byLabel = (a: { label: string }, b: { label: string }) =>
+      a.label.localeCompare(b.label);
+
     return {
-      main_task: Array.from(mainTasks).sort(),
-      category: Array.from(categories).sort(),
+      project: Array.from(projectIds)
+        .map((id) => ({ value: id, label: getProjectName(id, projects) }))
+        .sort(byLabel),
+      category: Array.from(categories)
+        .map((category) => ({ value: category, label: category }))
+        .sort(byLabel),
     };
-  }, [tasks]);
+  }, [tasks, projects]);
 
   // Filter tasks based on selected mode, filter type and value
   const filteredTasks = useMemo(() => {
@@ -78,8 +88,8 @@ const TaskExplorer = ({
       if (!selectedValue) return [];
 
       const filtered = tasks.filter((task) => {
-        if (filterType === "main_task") {
-          return task.main_task === selectedValue;
+        if (filterType === "project") {
+          return task.project_id === selectedValue;
         } else {
           return task.category === selectedValue;
         }
@@ -209,9 +219,9 @@ const TaskExplorer = ({
 
   const getModalTitle = () => {
     if (explorerMode === "type") {
-      return `${
-        filterType === "main_task" ? "Main Task" : "Category"
-      }: ${selectedValue}`;
+      return filterType === "project"
+        ? `Project: ${getProjectName(selectedValue, projects)}`
+        : `Category: ${selectedValue}`;
     } else {
       return `Importance: ${selectedImportance}`;
     }
@@ -256,7 +266,7 @@ const TaskExplorer = ({
                       <SelectValue placeholder="Filter by..." />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="main_task">Main Task</SelectItem>
+                      <SelectItem value="project">Project</SelectItem>
                       <SelectItem value="category">Category</SelectItem>
                     </SelectContent>
                   </Select>
@@ -274,14 +284,14 @@ const TaskExplorer = ({
                     <SelectTrigger className="w-full">
                       <SelectValue
                         placeholder={`Select ${
-                          filterType === "main_task" ? "Main Task" : "Category"
+                          filterType === "project" ? "Project" : "Category"
                         }`}
                       />
                     </SelectTrigger>
                     <SelectContent>
                       {uniqueOptions[filterType]?.map((option) => (
-                        <SelectItem key={option} value={option}>
-                          {option}
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
                         </SelectItem>
                       ))}
                     </SelectContent>
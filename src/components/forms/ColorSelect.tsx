@@ -0,0 +1,42 @@
+import { BucketColor } from "@/types";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { BUCKET_COLOR_CLASSES } from "@/lib/bucketColors";
+import { BUCKET_COLORS } from "@/lib/buckets";
+
+interface ColorSelectProps {
+  value: BucketColor;
+  onChange: (color: BucketColor) => void;
+}
+
+// Picker for the bucket/project color palette
+const ColorSelect = ({ value, onChange }: ColorSelectProps) => (
+  <Select value={value} onValueChange={(color) => onChange(color as BucketColor)}>
+    <SelectTrigger className="w-32 h-9">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {BUCKET_COLORS.map((color) => (
+        <SelectItem key={color} value={color}>
+          <span className="flex items-center gap-2">
+            <span
+              className={cn(
+                "h-3 w-3 rounded-full",
+                BUCKET_COLOR_CLASSES[color].swatch
+              )}
+            />
+            {BUCKET_COLOR_CLASSES[color].label}
+          </span>
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+export default ColorSelect;
@@ -2,7 +2,13 @@ import { useState, useEffect, useRef } from "react";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { TaskFormInput, TaskBucketType, ImportanceLevel } from "@/types";
+import {
+  TaskFormInput,
+  TaskBucketType,
+  ImportanceLevel,
+  RecurrenceFrequency,
+  RecurrenceRule,
+} from "@/types";
 import { Button } from "@/components/ui/button";
 import {
   Form,
@@ -30,9 +36,14 @@ import {
   AlertCircle,
   Clock,
   Timer,
+  Repeat,
+  CalendarClock,
 } from "lucide-react";
 import { useTaskContext } from "@/context/TaskContext";
 import { cn } from "@/lib/utils";
+import { taskFieldsSchema } from "@/lib/taskSchema";
+import { projectNameSchema } from "@/lib/projects";
+import { getDueDateKey, toDueAt } from "@/lib/dueDates";
 import {
   Dialog,
   DialogContent,
@@ -42,21 +53,32 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog";
 
-const formSchema = z.object({
-  main_task: z.string().min(1, { message: "Project/Main task is required" }),
-  sub_task: z.string().min(1, { message: "Subtask is required" }),
-  category: z.string().min(1, { message: "Category is required" }),
-  importance: z.enum(["Low", "Medium", "High"]),
-  bucket: z.enum([
-    "On Hold",
-    "Today",
-    "Tomorrow",
-  ]),
-  // Make time_estimate truly optional with no validation errors when empty
-  time_estimate: z
-    .union([z.number().min(0).optional(), z.literal(undefined)])
-    .optional(),
-});
+// The form always names a project; picking an unknown name creates it
+const formSchema = taskFieldsSchema.extend({ main_task: projectNameSchema });
+
+const WEEKDAY_LABELS = ["S", "M", "T", "W", "T", "F", "S"];
+
+// Rule for a newly picked frequency, keeping the days/interval already chosen
+const getRuleForFrequency = (
+  frequency: RecurrenceFrequency | "none",
+  current?: RecurrenceRule | null
+): RecurrenceRule | null => {
+  switch (frequency) {
+    case "none":
+      return null;
+    case "weekly":
+      return {
+        frequency,
+        days_of_week: current?.days_of_week?.length
+          ? current.days_of_week
+          : [new Date().getDay()],
+      };
+    case "interval":
+      return { frequency, interval_days: current?.interval_days ?? 2 };
+    default:
+      return { frequency };
+  }
+};
 
 interface CreateTaskFormProps {
   onSubmit: (task: TaskFormInput) => Promise<void>;
@@ -77,7 +99,7 @@ const CreateTaskForm = ({ onSubmit }: CreateTaskFormProps) => {
   const categoryRef = useRef<HTMLInputElement>(null);
   const timeInputRef = useRef<HTMLInputElement>(null);
 
-  const { tasks } = useTaskContext();
+  const { tasks, bucketNames, projects } = useTaskContext();
 
   // Reset all states when modal opens/closes
   useEffect(() => {
@@ -100,6 +122,8 @@ const CreateTaskForm = ({ onSubmit }: CreateTaskFormProps) => {
       importance: "Medium" as ImportanceLevel,
       bucket: "On Hold" as TaskBucketType,
       time_estimate: undefined,
+      recurrence_rule: null,
+      due_at: null,
     },
     mode: "onSubmit", // Only validate on submit, not on change
   });
@@ -126,19 +150,18 @@ const CreateTaskForm = ({ onSubmit }: CreateTaskFormProps) => {
     );
   }, [timeEstimate, form]);
 
-  // Extract unique main tasks and categories from existing tasks
+  // Suggest the active projects
   useEffect(() => {
-    if (tasks && tasks.length > 0) {
-      // Extract main tasks
-      const uniqueMainTasks = Array.from(
-        new Set(
-          tasks
-            .map((task) => task.main_task)
-            .filter((mainTask): mainTask is string => !!mainTask)
-        )
-      );
-      setMainTaskOptions(uniqueMainTasks);
+    setMainTaskOptions(
+      projects
+        .filter((project) => !project.is_archived)
+        .map((project) => project.name)
+    );
+  }, [projects]);
 
+  // Extract unique categories from existing tasks
+  useEffect(() => {
+    if (tasks && tasks.length > 0) {
       // Extract categories
       const uniqueCategories = Array.from(
         new Set(
@@ -169,6 +192,8 @@ const CreateTaskForm = ({ onSubmit }: CreateTaskFormProps) => {
       importance: values.importance,
       bucket: values.bucket,
       time_estimate: values.time_estimate,
+      recurrence_rule: values.recurrence_rule as RecurrenceRule | null,
+      due_at: values.due_at ?? null,
     };
 
     await onSubmit(taskInput);
@@ -251,13 +276,13 @@ const CreateTaskForm = ({ onSubmit }: CreateTaskFormProps) => {
                 <FormItem>
                   <FormLabel className="flex items-center gap-1.5 text-sm font-medium">
                     <Briefcase className="h-4 w-4 text-primary/80" />
-                    Project / Main Task
+                    Project
                   </FormLabel>
                   <div className="relative">
                     <FormControl>
                       <Input
                         ref={mainTaskRef}
-                        placeholder="What is the overall task or project?"
+                        placeholder="Pick a project or type a new one"
                         autoComplete="off"
                         className="h-10 rounded-lg focus-visible:ring-primary/30"
                         {...field}
@@ -447,6 +472,35 @@ const CreateTaskForm = ({ onSubmit }: CreateTaskFormProps) => {
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="due_at"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="flex items-center gap-1.5 text-sm font-medium">
+                    <CalendarClock className="h-4 w-4 text-primary/80" />
+                    Due Date{" "}
+                    <span className="text-muted-foreground text-xs ml-1">
+                      (Optional)
+                    </span>
+                  </FormLabel>
+                  <FormControl>
+                    <Input
+                      type="date"
+                      className="h-10 rounded-lg focus-visible:ring-primary/30"
+                      value={getDueDateKey(field.value)}
+                      onChange={(e) =>
+                        field.onChange(
+                          e.target.value ? toDueAt(e.target.value) : null
+                        )
+                      }
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <div className="grid grid-cols-2 gap-5">
               <FormField
                 control={form.control}
@@ -508,9 +562,11 @@ const CreateTaskForm = ({ onSubmit }: CreateTaskFormProps) => {
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent className="rounded-lg">
-                        <SelectItem value="On Hold">On Hold</SelectItem>
-                        <SelectItem value="Today">Today</SelectItem>
-                        <SelectItem value="Tomorrow">Tomorrow</SelectItem>
+                        {bucketNames.map((bucket) => (
+                          <SelectItem key={bucket} value={bucket}>
+                            {bucket}
+                          </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -519,6 +575,113 @@ const CreateTaskForm = ({ onSubmit }: CreateTaskFormProps) => {
               />
             </div>
 
+            <FormField
+              control={form.control}
+              name="recurrence_rule"
+              render={({ field }) => {
+                const rule = field.value as RecurrenceRule | null | undefined;
+                return (
+                  <FormItem>
+                    <FormLabel className="flex items-center gap-1.5 text-sm font-medium">
+                      <Repeat className="h-4 w-4 text-primary/80" />
+                      Repeat{" "}
+                      <span className="text-muted-foreground text-xs ml-1">
+                        (Optional)
+                      </span>
+                    </FormLabel>
+                    <Select
+                      value={rule?.frequency ?? "none"}
+                      onValueChange={(value) =>
+                        field.onChange(
+                          getRuleForFrequency(
+                            value as RecurrenceFrequency | "none",
+                            rule
+                          )
+                        )
+                      }
+                    >
+                      <FormControl>
+                        <SelectTrigger className="h-10 rounded-lg">
+                          <SelectValue placeholder="Does not repeat" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent className="rounded-lg">
+                        <SelectItem value="none">Does not repeat</SelectItem>
+                        <SelectItem value="daily">Every day</SelectItem>
+                        <SelectItem value="weekdays">Every weekday</SelectItem>
+                        <SelectItem value="weekly">
+                          Weekly on specific days
+                        </SelectItem>
+                        <SelectItem value="monthly">Monthly</SelectItem>
+                        <SelectItem value="interval">Every N days</SelectItem>
+                      </SelectContent>
+                    </Select>
+
+                    {rule?.frequency === "weekly" && (
+                      <div className="flex gap-1.5 pt-1">
+                        {WEEKDAY_LABELS.map((label, day) => {
+                          const days = rule.days_of_week || [];
+                          const isSelected = days.includes(day);
+                          return (
+                            <Button
+                              key={day}
+                              type="button"
+                              size="sm"
+                              variant={isSelected ? "default" : "outline"}
+                              className="h-8 w-8 p-0 rounded-full"
+                              onClick={() => {
+                                // Keep at least one day selected
+                                if (isSelected && days.length === 1) return;
+                                field.onChange({
+                                  ...rule,
+                                  days_of_week: isSelected
+                                    ? days.filter((d) => d !== day)
+                                    : [...days, day].sort((a, b) => a - b),
+                                });
+                              }}
+                            >
+                              {label}
+                            </Button>
+                          );
+                        })}
+                      </div>
+                    )}
+
+                    {rule?.frequency === "interval" && (
+                      <div className="flex items-center gap-2 pt-1 text-sm text-muted-foreground">
+                        Every
+                        <Input
+                          type="number"
+                          min={1}
+                          max={365}
+                          className="w-16 h-9 text-xs text-center rounded-md"
+                          value={rule.interval_days ?? 1}
+                          onChange={(e) =>
+                            field.onChange({
+                              ...rule,
+                              interval_days: Math.min(
+                                Math.max(parseInt(e.target.value) || 1, 1),
+                                365
+                              ),
+                            })
+                          }
+                        />
+                        days
+                      </div>
+                    )}
+
+                    {rule?.frequency === "monthly" && (
+                      <p className="text-xs text-muted-foreground pt-1">
+                        Repeats on the same day of the month as the first
+                        occurrence.
+                      </p>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                );
+              }}
+            />
+
             <DialogFooter className="pt-4">
               <Button
                 type="button"
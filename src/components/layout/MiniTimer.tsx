@@ -0,0 +1,105 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Coffee, Pause, Play, Square, Timer } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  formatTimer,
+  getPhaseLabel,
+  getTimerState,
+  isTimerRunning,
+  onTimerEvent,
+  pauseTimer,
+  resumeTimer,
+  stopTimer,
+} from "@/lib/timer";
+import { alertTimer } from "@/lib/timerAlerts";
+
+// The running task timer, on every page, so it can be paused or stopped
+// after its dialog is closed. Also announces the end of each phase, with the
+// alerts chosen in Settings.
+export function MiniTimer() {
+  const [timer, setTimer] = useState(getTimerState);
+
+  useEffect(
+    () =>
+      onTimerEvent((event) => {
+        switch (event.type) {
+          case "state":
+            setTimer(event.state);
+            break;
+          case "phase-ended": {
+            const title =
+              event.phase === "work"
+                ? `Focus session done. ${getPhaseLabel(event.state.phase)}!`
+                : "Break over, back to work";
+            // The task's cycle count is shown in its timer dialog
+            const description = event.state.taskName;
+            toast.info(title, { description });
+            alertTimer(title, description);
+            break;
+          }
+          case "countdown-ended":
+            // TimerCompletePrompt asks what to do next
+            alertTimer("Time's up!", event.state.taskName);
+            break;
+        }
+      }),
+    []
+  );
+
+  if (!timer) return null;
+
+  const isRunning = isTimerRunning(timer);
+  const isBreak = timer.phase !== "work";
+  const label =
+    timer.mode === "pomodoro"
+      ? `${getPhaseLabel(timer.phase)} · ${timer.taskName}`
+      : timer.taskName;
+
+  return (
+    <div
+      className={cn(
+        "flex items-center gap-1 rounded-full border px-2 py-0.5 text-sm",
+        isBreak
+          ? "border-emerald-200 bg-emerald-50/80 text-emerald-700"
+          : "border-border bg-muted/30",
+        timer.isComplete && "border-destructive/30 text-destructive"
+      )}
+      title={label}
+    >
+      {isBreak ? (
+        <Coffee className="h-3.5 w-3.5" />
+      ) : (
+        <Timer className="h-3.5 w-3.5" />
+      )}
+      <span className="hidden md:inline max-w-[8rem] truncate">
+        {timer.taskName}
+      </span>
+      <span className="font-medium tabular-nums">
+        {formatTimer(timer.secondsLeft)}
+      </span>
+      {!timer.isComplete && (
+        <button
+          className="p-0.5 text-muted-foreground hover:text-foreground"
+          onClick={isRunning ? pauseTimer : resumeTimer}
+          aria-label={isRunning ? "Pause timer" : "Resume timer"}
+          title={isRunning ? "Pause" : "Resume"}
+        >
+          {isRunning ? (
+            <Pause className="h-3.5 w-3.5" />
+          ) : (
+            <Play className="h-3.5 w-3.5" />
+          )}
+        </button>
+      )}
+      <button
+        className="p-0.5 text-muted-foreground hover:text-foreground"
+        onClick={() => stopTimer()}
+        aria-label="Stop timer"
+        title="Stop"
+      >
+        <Square className="h-3.5 w-3.5" />
+      </button>
+    </div>
+  );
+}
@@ -20,8 +20,16 @@ import {
   X,
   User,
   KeyRound,
+  Webhook,
+  Settings,
+  FolderKanban,
+  Trash2,
 } from "lucide-react";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
+import { SyncIndicator } from "@/components/layout/SyncIndicator";
+import { MiniTimer } from "@/components/layout/MiniTimer";
+import { TimerCompletePrompt } from "@/components/layout/TimerCompletePrompt";
+import { stopTimer } from "@/lib/timer";
 
 export function Navbar() {
   const navigate = useNavigate();
@@ -31,6 +39,8 @@ export function Navbar() {
 
   const handleSignOut = async () => {
     setIsSigningOut(true);
+    // Save what the timer has run while still signed in
+    await stopTimer();
     const success = await signOut();
     if (success) {
       navigate("/sign-in");
@@ -66,6 +76,15 @@ export function Navbar() {
               <CheckSquare className="h-4 w-4 mr-2" />
               Completed
             </Link>
+            <Link
+              to="/projects"
+              className={`px-3 py-2 rounded-md hover:bg-muted flex items-center ${
+                isActive("/projects") ? "bg-muted font-medium" : ""
+              }`}
+            >
+              <FolderKanban className="h-4 w-4 mr-2" />
+              Projects
+            </Link>
             <Link
               to="/notes"
               className={`px-3 py-2 rounded-md hover:bg-muted flex items-center ${
@@ -75,10 +94,23 @@ export function Navbar() {
               <FileText className="h-4 w-4 mr-2" />
               Notes
             </Link>
+            <Link
+              to="/trash"
+              className={`px-3 py-2 rounded-md hover:bg-muted flex items-center ${
+                isActive("/trash") ? "bg-muted font-medium" : ""
+              }`}
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Trash
+            </Link>
           </div>
         </div>
 
         <div className="flex items-center space-x-2">
+          <MiniTimer />
+          <TimerCompletePrompt />
+          <SyncIndicator />
+
           {/* User Dropdown Menu (Desktop) */}
           <div className="hidden md:block">
             <DropdownMenu>
@@ -99,6 +131,24 @@ export function Navbar() {
                     <span>API Keys</span>
                   </Link>
                 </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link
+                    to="/webhooks"
+                    className="cursor-pointer w-full flex items-center"
+                  >
+                    <Webhook className="mr-2 h-4 w-4" />
+                    <span>Webhooks</span>
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link
+                    to="/settings"
+                    className="cursor-pointer w-full flex items-center"
+                  >
+                    <Settings className="mr-2 h-4 w-4" />
+                    <span>Settings</span>
+                  </Link>
+                </DropdownMenuItem>
                 <DropdownMenuSeparator />
                 <DropdownMenuItem
                   onClick={handleSignOut}
@@ -148,6 +198,16 @@ export function Navbar() {
                       <CheckSquare className="h-5 w-5 mr-3" />
                       Completed Tasks
                     </Link>
+                    <Link
+                      to="/projects"
+                      className={`px-3 py-2 rounded-md hover:bg-muted flex items-center ${
+                        isActive("/projects") ? "bg-muted font-medium" : ""
+                      }`}
+                      onClick={() => setIsMenuOpen(false)}
+                    >
+                      <FolderKanban className="h-5 w-5 mr-3" />
+                      Projects
+                    </Link>
                     <Link
                       to="/notes"
                       className={`px-3 py-2 rounded-md hover:bg-muted flex items-center ${
@@ -158,6 +218,16 @@ export function Navbar() {
                       <FileText className="h-5 w-5 mr-3" />
                       Notes
                     </Link>
+                    <Link
+                      to="/trash"
+                      className={`px-3 py-2 rounded-md hover:bg-muted flex items-center ${
+                        isActive("/trash") ? "bg-muted font-medium" : ""
+                      }`}
+                      onClick={() => setIsMenuOpen(false)}
+                    >
+                      <Trash2 className="h-5 w-5 mr-3" />
+                      Trash
+                    </Link>
                     <Link
                       to="/api-keys"
                       className={`px-3 py-2 rounded-md hover:bg-muted flex items-center ${
@@ -168,6 +238,26 @@ export function Navbar() {
                       <KeyRound className="h-5 w-5 mr-3" />
                       API Keys
                     </Link>
+                    <Link
+                      to="/webhooks"
+                      className={`px-3 py-2 rounded-md hover:bg-muted flex items-center ${
+                        isActive("/webhooks") ? "bg-muted font-medium" : ""
+                      }`}
+                      onClick={() => setIsMenuOpen(false)}
+                    >
+                      <Webhook className="h-5 w-5 mr-3" />
+                      Webhooks
+                    </Link>
+                    <Link
+                      to="/settings"
+                      className={`px-3 py-2 rounded-md hover:bg-muted flex items-center ${
+                        isActive("/settings") ? "bg-muted font-medium" : ""
+                      }`}
+                      onClick={() => setIsMenuOpen(false)}
+                    >
+                      <Settings className="h-5 w-5 mr-3" />
+                      Settings
+                    </Link>
                   </div>
                 </div>
                 <div className="py-4 border-t">
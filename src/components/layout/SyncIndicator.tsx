@@ -0,0 +1,62 @@
+import { useEffect, useState } from "react";
+import { CloudOff, Cloud, Loader2, CheckCircle2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { getSyncStatus, onSyncEvent } from "@/lib/taskSync";
+
+// Shows whether task changes are saved, waiting to sync, or stuck offline
+export function SyncIndicator() {
+  const [status, setStatus] = useState(getSyncStatus);
+
+  useEffect(
+    () =>
+      onSyncEvent((event) => {
+        if (event.type === "status") setStatus(event.status);
+      }),
+    []
+  );
+
+  const { isOnline, isSyncing, pending, lastSyncedAt } = status;
+  const lastSynced = lastSyncedAt
+    ? `Last synced ${formatDistanceToNow(new Date(lastSyncedAt), {
+        addSuffix: true,
+      })}`
+    : "Not synced yet";
+
+  if (!isOnline) {
+    return (
+      <div
+        className="flex items-center px-2 text-sm text-amber-600"
+        title={`Changes are saved on this device and will sync when you're back online. ${lastSynced}.`}
+      >
+        <CloudOff className="h-4 w-4 mr-1.5" />
+        Offline{pending > 0 && ` · ${pending} pending`}
+      </div>
+    );
+  }
+
+  if (isSyncing || pending > 0) {
+    return (
+      <div
+        className="flex items-center px-2 text-sm text-muted-foreground"
+        title={lastSynced}
+      >
+        {isSyncing ? (
+          <Loader2 className="h-4 w-4 mr-1.5 animate-spin" />
+        ) : (
+          <Cloud className="h-4 w-4 mr-1.5" />
+        )}
+        {pending > 0 ? `${pending} pending` : "Syncing"}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="flex items-center px-2 text-sm text-muted-foreground"
+      title={lastSynced}
+    >
+      <CheckCircle2 className="h-4 w-4 mr-1.5 text-green-600" />
+      <span className="hidden sm:inline">Synced</span>
+    </div>
+  );
+}
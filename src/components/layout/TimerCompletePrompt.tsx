@@ -0,0 +1,109 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { CheckCircle2, Clock, Square } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useTaskContext } from "@/context/TaskContext";
+import { formatMinutes } from "@/lib/timeEntries";
+import { TimerState, extendTimer, onTimerEvent, stopTimer } from "@/lib/timer";
+
+const DEFAULT_EXTEND_MINUTES = 5;
+
+// Asks what to do once a task's countdown runs out: complete the task, keep
+// going for a few more minutes, or stop with the time logged
+export function TimerCompletePrompt() {
+  const taskContext = useTaskContext({ optional: true });
+  const [ended, setEnded] = useState<TimerState | null>(null);
+  const [extendMinutes, setExtendMinutes] = useState(DEFAULT_EXTEND_MINUTES);
+  const [isCompleting, setIsCompleting] = useState(false);
+
+  useEffect(
+    () =>
+      onTimerEvent((event) => {
+        if (event.type === "countdown-ended") {
+          setEnded(event.state);
+        } else if (event.type === "state" && !event.state?.isComplete) {
+          // Extended, stopped or replaced somewhere else
+          setEnded(null);
+        }
+      }),
+    []
+  );
+
+  // Tasks can only be completed where the task context is loaded
+  const canComplete =
+    !!ended && !!taskContext?.tasks.some((task) => task.id === ended.taskId);
+
+  const handleComplete = async () => {
+    if (!ended || !taskContext) return;
+    setIsCompleting(true);
+    await taskContext.archiveTask(ended.taskId);
+    setIsCompleting(false);
+    setEnded(null);
+  };
+
+  const handleExtend = () => {
+    extendTimer(extendMinutes);
+    setEnded(null);
+  };
+
+  const handleStop = async () => {
+    await stopTimer();
+    toast.success("Time logged", { description: ended?.taskName });
+    setEnded(null);
+  };
+
+  return (
+    <Dialog open={!!ended} onOpenChange={(open) => !open && setEnded(null)}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Time's up</DialogTitle>
+          <DialogDescription>
+            {ended &&
+              `"${ended.taskName}" has run for ${formatMinutes(
+                Math.round(ended.phaseSeconds / 60)
+              )}. The time is logged to the task.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            min={1}
+            className="w-20"
+            value={extendMinutes}
+            onChange={(e) =>
+              setExtendMinutes(Math.max(1, parseInt(e.target.value) || 1))
+            }
+            aria-label="Minutes to extend by"
+          />
+          <Button variant="outline" onClick={handleExtend}>
+            <Clock className="h-4 w-4 mr-2" />
+            Extend by {extendMinutes} min
+          </Button>
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={handleStop}>
+            <Square className="h-4 w-4 mr-2" />
+            Log time and stop
+          </Button>
+          {canComplete && (
+            <Button onClick={handleComplete} disabled={isCompleting}>
+              <CheckCircle2 className="h-4 w-4 mr-2" />
+              Mark complete
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
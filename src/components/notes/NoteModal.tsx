@@ -249,8 +249,8 @@ const NoteModal: React.FC<NoteModalProps> = ({
               Delete Note
             </AlertDialogTitle>
             <AlertDialogDescription className="text-sm text-muted-foreground">
-              Are you sure you want to delete "{note.title}"? This action cannot
-              be undone.
+              Move "{note.title}" to the trash? You can restore it from the
+              Trash page until it is purged.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter className="flex gap-2 mt-6">
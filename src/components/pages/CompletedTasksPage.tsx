@@ -14,6 +14,9 @@ import { Button } from "@/components/ui/button";
 import TaskCard from "@/components/task/TaskCard";
 import { Navbar } from "@/components/layout/Navbar";
 import CompletedTasksVisualization from "../charts/CompletedTasksVisualization";
+import EstimateAccuracyVisualization from "../charts/EstimateAccuracyVisualization";
+import { getTaskGroupKey } from "@/lib/taskOrder";
+import { getProjectName } from "@/lib/projects";
 
 export default function CompletedTasksPage() {
   const {
@@ -22,6 +25,7 @@ export default function CompletedTasksPage() {
     fetchCompletedTasks,
     deleteTask,
     unarchiveTask,
+    projects,
   } = useTaskContext();
 
   const [isRefreshing, setIsRefreshing] = useState(false);
@@ -49,13 +53,13 @@ export default function CompletedTasksPage() {
     setIsRefreshing(false);
   };
 
-  // Group tasks by main_task
+  // Group tasks by project
   const groupedTasks = completedTasks.reduce((acc, task) => {
-    const mainTask = task.main_task || "Ungrouped";
-    if (!acc[mainTask]) {
-      acc[mainTask] = [];
+    const projectKey = getTaskGroupKey(task);
+    if (!acc[projectKey]) {
+      acc[projectKey] = [];
     }
-    acc[mainTask].push(task);
+    acc[projectKey].push(task);
     return acc;
   }, {} as Record<string, typeof completedTasks>);
 
@@ -70,6 +74,12 @@ export default function CompletedTasksPage() {
           </div>
         )}
 
+        {!isLoadingCompleted && !error && completedTasks.length > 0 && (
+          <div className="mb-8">
+            <EstimateAccuracyVisualization tasks={completedTasks} />
+          </div>
+        )}
+
         <Card className="w-full">
           <CardHeader>
             <div className="flex items-center justify-between">
@@ -131,10 +141,12 @@ export default function CompletedTasksPage() {
 
             {!isLoadingCompleted && !error && completedTasks.length > 0 && (
               <div className="space-y-8">
-                {Object.entries(groupedTasks).map(([mainTask, tasks]) => (
-                  <div key={mainTask} className="space-y-4">
+                {Object.entries(groupedTasks).map(([projectKey, tasks]) => (
+                  <div key={projectKey} className="space-y-4">
                     <div className="flex items-center justify-between">
-                      <h3 className="text-xl font-semibold">{mainTask}</h3>
+                      <h3 className="text-xl font-semibold">
+                        {getProjectName(tasks[0].project_id, projects)}
+                      </h3>
                       <Badge variant="outline" className="text-sm">
                         {tasks.length} {tasks.length === 1 ? "task" : "tasks"}
                       </Badge>
@@ -0,0 +1,315 @@
+import { useCallback, useEffect, useState } from "react";
+import { useTaskContext } from "@/context/TaskContext";
+import { BulkEdit, BulkEditKind } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Eye, GitMerge, Loader2, Undo2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import {
+  BulkEditPreview,
+  BulkEditUsage,
+  fetchBulkEditUsage,
+  fetchRecentBulkEdits,
+  previewBulkEdit,
+} from "@/lib/bulkEdits";
+import { projectNameSchema } from "@/lib/projects";
+import { taskFieldsSchema } from "@/lib/taskSchema";
+
+// Values that only differ in case or surrounding spaces, e.g. "Marketing"
+// and "marketing "
+const normalizeLabel = (label: string) => label.trim().toLowerCase();
+
+// Rename a project or category everywhere, or merge several spellings into
+// one, with a preview of what changes and undo for recent edits
+const RenameMergeCard = () => {
+  const { userId, projects, mergeGroups, undoMerge } = useTaskContext();
+  const [kind, setKind] = useState<BulkEditKind>("project");
+  const [usage, setUsage] = useState<BulkEditUsage[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [target, setTarget] = useState("");
+  const [targetError, setTargetError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<BulkEditPreview | null>(null);
+  const [recentEdits, setRecentEdits] = useState<BulkEdit[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const loadUsage = useCallback(async () => {
+    if (!userId) return;
+
+    const [{ data, error }, { data: edits, error: editsError }] =
+      await Promise.all([
+        fetchBulkEditUsage(userId, kind),
+        fetchRecentBulkEdits(userId),
+      ]);
+    if (error || editsError) {
+      console.error("Error loading rename data:", error || editsError);
+      toast.error("Failed to load projects and categories");
+      return;
+    }
+    setUsage(data);
+    setRecentEdits(edits);
+  }, [userId, kind]);
+
+  useEffect(() => {
+    setSelected([]);
+    setTarget("");
+    setPreview(null);
+    loadUsage();
+  }, [loadUsage]);
+
+  const getLabel = (value: string) =>
+    kind === "project"
+      ? projects.find((project) => project.id === value)?.name ?? value
+      : value;
+
+  // Every active project is listed, even without tasks; archived projects and
+  // categories only while tasks use them
+  const options =
+    kind === "project"
+      ? [
+          ...projects
+            .filter((project) => !project.is_archived)
+            .map(
+              (project) =>
+                usage.find((entry) => entry.value === project.id) ?? {
+                  value: project.id,
+                  active: 0,
+                  archived: 0,
+                }
+            ),
+          ...usage.filter((entry) =>
+            projects.some(
+              (project) => project.id === entry.value && project.is_archived
+            )
+          ),
+        ]
+      : [...usage].sort((a, b) => a.value.localeCompare(b.value));
+
+  const labelCounts = new Map<string, number>();
+  options.forEach((option) => {
+    const key = normalizeLabel(getLabel(option.value));
+    labelCounts.set(key, (labelCounts.get(key) || 0) + 1);
+  });
+  const hasSimilar = (value: string) =>
+    (labelCounts.get(normalizeLabel(getLabel(value))) || 0) > 1;
+
+  const toggle = (value: string, checked: boolean) => {
+    setPreview(null);
+    setSelected((prev) =>
+      checked ? [...prev, value] : prev.filter((v) => v !== value)
+    );
+    if (checked && !target) {
+      setTarget(getLabel(value));
+    }
+  };
+
+  const validateTarget = () => {
+    const schema =
+      kind === "project" ? projectNameSchema : taskFieldsSchema.shape.category;
+    const parsed = schema.safeParse(target);
+    const error = parsed.success ? null : parsed.error.issues[0].message;
+    setTargetError(error);
+    return !error;
+  };
+
+  const handlePreview = async () => {
+    if (!userId || !validateTarget()) return;
+
+    setIsBusy(true);
+    const { data, error } = await previewBulkEdit(userId, kind, selected);
+    setIsBusy(false);
+    if (error) {
+      console.error("Error previewing change:", error);
+      toast.error(error.message || "Failed to preview the change");
+      return;
+    }
+    setPreview(data);
+  };
+
+  const handleApply = async () => {
+    if (!validateTarget()) return;
+
+    setIsBusy(true);
+    const editId = await mergeGroups(kind, selected, target);
+    setIsBusy(false);
+    if (editId) {
+      setSelected([]);
+      setTarget("");
+      setPreview(null);
+      loadUsage();
+    }
+  };
+
+  const handleUndo = async (editId: string) => {
+    setIsBusy(true);
+    await undoMerge(editId);
+    setIsBusy(false);
+    loadUsage();
+  };
+
+  const noun = kind === "project" ? "project" : "category";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Rename &amp; Merge</CardTitle>
+        <CardDescription>
+          Pick one {noun} to rename it everywhere, or several to merge them
+          into one. Active and completed tasks are updated together, and the
+          change can be undone.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Tabs
+          value={kind}
+          onValueChange={(value) => setKind(value as BulkEditKind)}
+        >
+          <TabsList>
+            <TabsTrigger value="project">Projects</TabsTrigger>
+            <TabsTrigger value="category">Categories</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {options.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Nothing to rename yet.
+          </p>
+        ) : (
+          <div className="max-h-64 overflow-y-auto space-y-1.5 rounded-lg border p-3">
+            {options.map((option) => (
+              <label
+                key={option.value}
+                className="flex items-center gap-2 text-sm cursor-pointer"
+              >
+                <Checkbox
+                  checked={selected.includes(option.value)}
+                  onCheckedChange={(checked) =>
+                    toggle(option.value, checked === true)
+                  }
+                />
+                <span className="truncate">{getLabel(option.value)}</span>
+                {hasSimilar(option.value) && (
+                  <Badge
+                    variant="outline"
+                    className="bg-amber-50 text-amber-700 border-amber-200"
+                  >
+                    Similar
+                  </Badge>
+                )}
+                <span className="ml-auto text-xs text-muted-foreground whitespace-nowrap">
+                  {option.active} active · {option.archived} completed
+                </span>
+              </label>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <Input
+            className="h-9 flex-1"
+            placeholder={`New ${noun} name`}
+            value={target}
+            onChange={(e) => {
+              setTarget(e.target.value);
+              setTargetError(null);
+              setPreview(null);
+            }}
+          />
+          <Button
+            variant="outline"
+            onClick={handlePreview}
+            disabled={isBusy || selected.length === 0 || !target.trim()}
+          >
+            <Eye className="mr-2 h-4 w-4" />
+            Preview
+          </Button>
+          <Button
+            onClick={handleApply}
+            disabled={isBusy || !preview || selected.length === 0}
+          >
+            {isBusy ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <GitMerge className="mr-2 h-4 w-4" />
+            )}
+            {selected.length > 1 ? "Merge" : "Rename"}
+          </Button>
+        </div>
+        {targetError && (
+          <p className="text-sm font-medium text-destructive">{targetError}</p>
+        )}
+
+        {preview && (
+          <Alert>
+            <AlertTitle>
+              {selected.length > 1
+                ? `Merge ${selected.map(getLabel).join(", ")} into "${target.trim()}"`
+                : `Rename "${getLabel(selected[0])}" to "${target.trim()}"`}
+            </AlertTitle>
+            <AlertDescription className="space-y-1">
+              <p>
+                {preview.active} active and {preview.archived} completed tasks
+                will change
+                {kind === "project" &&
+                  `, along with ${preview.goals} Today progress goal(s)`}
+                .
+              </p>
+              {preview.samples.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  e.g. {preview.samples.join(", ")}
+                </p>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {recentEdits.length > 0 && (
+          <div className="space-y-2 pt-3 border-t">
+            <h4 className="text-sm font-medium">Recent changes</h4>
+            {recentEdits.map((edit) => (
+              <div
+                key={edit.id}
+                className="flex items-center gap-2 text-sm text-muted-foreground"
+              >
+                <span className="truncate flex-1">
+                  {edit.from_values.join(", ")} → {edit.to_value} (
+                  {edit.affected_tasks} tasks,{" "}
+                  {formatDistanceToNow(new Date(edit.created_at), {
+                    addSuffix: true,
+                  })}
+                  )
+                </span>
+                {edit.undone_at ? (
+                  <Badge variant="outline">Undone</Badge>
+                ) : (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleUndo(edit.id)}
+                    disabled={isBusy}
+                  >
+                    <Undo2 className="mr-1 h-3.5 w-3.5" />
+                    Undo
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RenameMergeCard;
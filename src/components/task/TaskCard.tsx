@@ -18,11 +18,19 @@ import {
   Timer,
   Save,
   GripVertical,
+  Repeat,
+  CalendarClock,
 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
 import TaskCountdown from "./TaskCountdown";
+import TaskDependencies from "./TaskDependencies";
+import TaskTimeEntries from "./TaskTimeEntries";
 import { cn } from "@/lib/utils";
+import { describeRecurrence, parseDateKey } from "@/lib/recurrence";
+import { getDueStatus } from "@/lib/dueDates";
+import { getTaskGroupKey } from "@/lib/taskOrder";
+import { format, isToday, isTomorrow } from "date-fns";
 import { useSortable } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
 
@@ -158,7 +166,7 @@ const TaskCard = ({
     data: {
       type: "task",
       bucket: task.bucket,
-      group: task.main_task || "__ungrouped__",
+      group: getTaskGroupKey(task),
     },
     disabled: isDisabled,
   });
@@ -239,6 +247,16 @@ const TaskCard = ({
 
   const importanceClass = `importance-${task.importance.toLowerCase()}`;
 
+  const dueStatus = isCompleted ? null : getDueStatus(task);
+
+  const getDueLabel = () => {
+    const dueDate = new Date(task.due_at);
+    if (dueStatus === "overdue") return `Overdue · ${format(dueDate, "MMM d")}`;
+    if (isToday(dueDate)) return "Due today";
+    if (isTomorrow(dueDate)) return "Due tomorrow";
+    return `Due ${format(dueDate, "MMM d")}`;
+  };
+
   // Get the appropriate icon for importance level
   const getImportanceIcon = () => {
     switch (task.importance) {
@@ -323,6 +341,8 @@ const TaskCard = ({
         className={cn(
           "task-card relative", // Removed group as handle is always visible
           importanceClass,
+          dueStatus === "overdue" && "task-overdue",
+          dueStatus === "due-soon" && "task-due-soon",
           "mb-3 rounded-md border hover:shadow-sm transition-shadow", 
           (task.completed || isCompleted) && "opacity-70 bg-muted/30",
           isDragging && "shadow-xl z-50 opacity-90", // Added slight opacity when dragging
@@ -430,7 +450,7 @@ const TaskCard = ({
                       >
                         {task.sub_task}
                       </h3>
-                      {/* Only show main_task if not in a group view */}
+                      {/* Only show the project if not in a group view */}
                       {task.main_task && !inGroupView && (
                         <p className="text-xs text-muted-foreground mt-0.5 leading-tight">
                           {task.main_task}
@@ -532,6 +552,40 @@ const TaskCard = ({
                       </Badge>
                     )}
 
+                    {/* Due date badge */}
+                    {task.due_at && (
+                      <Badge
+                        variant="outline"
+                        className={cn(
+                          "inline-flex items-center h-5 text-xs px-1.5 py-0 rounded-full flex-shrink-0",
+                          `due-badge-${dueStatus ?? "upcoming"}`
+                        )}
+                        title={`Due ${format(new Date(task.due_at), "PPP")}`}
+                      >
+                        <CalendarClock className="h-2.5 w-2.5 mr-0.5" />
+                        {isCompleted
+                          ? format(new Date(task.due_at), "MMM d")
+                          : getDueLabel()}
+                      </Badge>
+                    )}
+
+                    {/* Recurrence badge; completed occurrences show their date */}
+                    {task.recurrence_rule && (
+                      <Badge
+                        variant="outline"
+                        className="inline-flex items-center h-5 text-xs px-1.5 py-0 rounded-full bg-emerald-50/80 text-emerald-600 border-emerald-100 flex-shrink-0"
+                        title={describeRecurrence(task.recurrence_rule)}
+                      >
+                        <Repeat className="h-2.5 w-2.5 mr-0.5" />
+                        {isCompleted && task.occurrence_date
+                          ? format(parseDateKey(task.occurrence_date), "MMM d")
+                          : describeRecurrence(task.recurrence_rule)}
+                      </Badge>
+                    )}
+
+                    {/* Blocked badge and dependency picker */}
+                    {!isCompleted && <TaskDependencies task={task} />}
+
                     {/* Time estimate badge with countdown button */}
                     {task.time_estimate > 0 && !isEditingTime && (
                       <div className="flex items-center gap-1 flex-shrink-0">
@@ -577,6 +631,11 @@ const TaskCard = ({
                       </div>
                     )}
 
+                    {/* Estimated vs tracked time, with the time entries */}
+                    {!isEditingTime && (
+                      <TaskTimeEntries task={task} isCompleted={isCompleted} />
+                    )}
+
                     {/* Add time button */}
                     {!task.time_estimate &&
                       allowTimeEstimate &&
@@ -610,6 +669,8 @@ const TaskCard = ({
       <TaskCountdown
         isOpen={showCountdown}
         onClose={() => setShowCountdown(false)}
+        userId={task.user_id}
+        taskId={task.id}
         taskName={task.sub_task}
         totalMinutes={task.time_estimate || 0}
       />
@@ -1,97 +1,117 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent } from "@/components/ui/dialog";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import {
   PlayCircle,
   PauseCircle,
   RotateCcw,
   X,
   AlertCircle,
+  Square,
+  SkipForward,
+  Settings2,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { useTaskContext } from "@/context/TaskContext";
+import { getCompletedCycles } from "@/lib/timeEntries";
+import {
+  PomodoroSettings,
+  TimerMode,
+  formatTimer,
+  getPhaseLabel,
+  getTimerState,
+  isTimerRunning,
+  loadPomodoroSettings,
+  onTimerEvent,
+  pauseTimer,
+  resetTimer,
+  resumeTimer,
+  savePomodoroSettings,
+  skipPhase,
+  startTimer,
+  stopTimer,
+} from "@/lib/timer";
 
 interface TaskCountdownProps {
   isOpen: boolean;
   onClose: () => void;
+  userId: string | null;
+  taskId: string;
   taskName: string;
   totalMinutes: number;
 }
 
+type NumericSetting = Exclude<keyof PomodoroSettings, "autoAdvance">;
+
+const SETTING_FIELDS: { key: NumericSetting; label: string }[] = [
+  { key: "workMinutes", label: "Focus (min)" },
+  { key: "shortBreakMinutes", label: "Break (min)" },
+  { key: "longBreakMinutes", label: "Long break (min)" },
+  { key: "longBreakEvery", label: "Long break every" },
+];
+
 const TaskCountdown = ({
   isOpen,
   onClose,
+  userId,
+  taskId,
   taskName,
   totalMinutes,
 }: TaskCountdownProps) => {
-  const [secondsLeft, setSecondsLeft] = useState(totalMinutes * 60);
-  const [isPaused, setIsPaused] = useState(true);
-  const [isComplete, setIsComplete] = useState(false);
-  const totalSeconds = useRef(totalMinutes * 60);
-  const timerRef = useRef<NodeJS.Timeout | null>(null);
-
-  // Format time as MM:SS
-  const formatTime = (seconds: number): string => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins.toString().padStart(2, "0")}:${secs
-      .toString()
-      .padStart(2, "0")}`;
-  };
+  const [timer, setTimer] = useState(getTimerState);
+  const [mode, setMode] = useState<TimerMode>("countdown");
+  const [settings, setSettings] = useState(loadPomodoroSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const { timeEntries } = useTaskContext();
 
-  // Start/reset timer when opening modal
-  useEffect(() => {
-    if (isOpen) {
-      setSecondsLeft(totalMinutes * 60);
-      totalSeconds.current = totalMinutes * 60;
-      setIsPaused(true);
-      setIsComplete(false);
-    }
+  useEffect(
+    () =>
+      onTimerEvent((event) => {
+        if (event.type === "state") setTimer(event.state);
+      }),
+    []
+  );
 
-    return () => {
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-      }
-    };
-  }, [isOpen, totalMinutes]);
-
-  // Handle timer logic
-  useEffect(() => {
-    if (!isPaused && secondsLeft > 0) {
-      timerRef.current = setInterval(() => {
-        setSecondsLeft((prev) => {
-          if (prev <= 1) {
-            setIsComplete(true);
-            setIsPaused(true);
-            if (timerRef.current) clearInterval(timerRef.current);
-            return 0;
-          }
-          return prev - 1;
-        });
-      }, 1000);
-    } else if (timerRef.current) {
-      clearInterval(timerRef.current);
-    }
+  // The timer runs in @/lib/timer, so closing the dialog leaves it going.
+  // Only a timer for this task is shown; starting one replaces any other.
+  const session = timer?.taskId === taskId ? timer : null;
+  const activeMode = session?.mode ?? mode;
+  // Cycles completed on this task over all its sessions
+  const completedCycles = getCompletedCycles(timeEntries, taskId);
+  const idleSeconds =
+    (mode === "pomodoro" ? settings.workMinutes : totalMinutes) * 60;
 
-    return () => {
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-      }
-    };
-  }, [isPaused, secondsLeft]);
+  const secondsLeft = session ? session.secondsLeft : idleSeconds;
+  const totalSeconds = session ? session.phaseSeconds : idleSeconds;
+  const isPaused = !isTimerRunning(session);
+  const isComplete = !!session?.isComplete;
+  const isBreak = !!session && session.phase !== "work";
 
   const togglePause = () => {
-    setIsPaused(!isPaused);
+    if (!session) {
+      if (!userId) return;
+      startTimer({ userId, taskId, taskName, mode, minutes: totalMinutes });
+    } else if (isPaused) {
+      resumeTimer();
+    } else {
+      pauseTimer();
+    }
   };
 
-  const resetTimer = () => {
-    setSecondsLeft(totalMinutes * 60);
-    setIsPaused(true);
-    setIsComplete(false);
+  const updateSettings = (changes: Partial<PomodoroSettings>) => {
+    const updated = { ...settings, ...changes };
+    setSettings(updated);
+    savePomodoroSettings(updated);
   };
 
   // Get color based on time remaining
   const getTimerColor = () => {
-    const percentageLeft = (secondsLeft / totalSeconds.current) * 100;
+    if (isBreak) return "text-emerald-600";
+    const percentageLeft = (secondsLeft / totalSeconds) * 100;
     if (percentageLeft <= 20) return "text-destructive";
     if (percentageLeft <= 50) return "text-amber-500";
     return "text-primary";
@@ -100,17 +120,18 @@ const TaskCountdown = ({
   // Calculate progress directly
   const calculateProgress = () => {
     // If paused at initial state, return 0
-    if (isPaused && secondsLeft === totalSeconds.current) {
+    if (isPaused && secondsLeft === totalSeconds) {
       return 0;
     }
 
     // Calculate elapsed time as percentage
-    const elapsed = totalSeconds.current - secondsLeft;
-    return Math.min(100, Math.max(0, (elapsed / totalSeconds.current) * 100));
+    const elapsed = totalSeconds - secondsLeft;
+    return Math.min(100, Math.max(0, (elapsed / totalSeconds) * 100));
   };
 
   // Get progress color
   const getProgressColor = () => {
+    if (isBreak) return "bg-emerald-500";
     const progress = calculateProgress();
     if (progress >= 80) return "bg-destructive";
     if (progress >= 50) return "bg-amber-500";
@@ -124,7 +145,8 @@ const TaskCountdown = ({
 
   // Get timer ring color class
   const getTimerRingColorClass = () => {
-    const percentageLeft = (secondsLeft / totalSeconds.current) * 100;
+    if (isBreak) return "border-emerald-500/30";
+    const percentageLeft = (secondsLeft / totalSeconds) * 100;
     if (percentageLeft <= 20) return "border-destructive/30";
     if (percentageLeft <= 50) return "border-amber-500/30";
     return "border-primary/20";
@@ -138,10 +160,36 @@ const TaskCountdown = ({
         onInteractOutside={(e) => e.preventDefault()}
       >
         <div className="flex flex-col items-center py-7">
-          <h3 className="font-medium text-lg mb-8 text-center max-w-[80%]">
+          <h3 className="font-medium text-lg mb-4 text-center max-w-[80%]">
             {taskName}
           </h3>
 
+          <Tabs
+            value={activeMode}
+            onValueChange={(value) => setMode(value as TimerMode)}
+            className="mb-6"
+          >
+            <TabsList>
+              <TabsTrigger value="countdown" disabled={!!session}>
+                Countdown
+              </TabsTrigger>
+              <TabsTrigger value="pomodoro" disabled={!!session}>
+                Pomodoro
+              </TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          {activeMode === "pomodoro" && (
+            <div className="text-sm text-muted-foreground mb-6 text-center">
+              <span className="font-medium text-foreground">
+                {getPhaseLabel(session?.phase ?? "work")}
+              </span>
+              {" · "}
+              {completedCycles} {completedCycles === 1 ? "cycle" : "cycles"}
+              {" done"}
+            </div>
+          )}
+
           <div className="relative w-44 h-44 flex items-center justify-center mb-8">
             {/* Circular background with more distinct border */}
             <div
@@ -169,7 +217,7 @@ const TaskCountdown = ({
                 getTimerColor()
               )}
             >
-              {formatTime(secondsLeft)}
+              {formatTimer(secondsLeft)}
             </div>
 
             {/* Time finished alert */}
@@ -193,7 +241,9 @@ const TaskCountdown = ({
           </div>
 
           <div className="text-xs text-muted-foreground/80 mt-1.5 mb-8">
-            Initial time: {totalMinutes} min
+            {activeMode === "pomodoro"
+              ? `Focus ${settings.workMinutes} min · Break ${settings.shortBreakMinutes} min · Long break ${settings.longBreakMinutes} min every ${settings.longBreakEvery} cycles`
+              : `Initial time: ${totalMinutes} min`}
           </div>
 
           <div className="flex gap-5">
@@ -202,6 +252,7 @@ const TaskCountdown = ({
               size="icon"
               className="h-11 w-11 rounded-full border-border/60 bg-muted/20 hover:bg-muted/40 shadow-sm transition-colors"
               onClick={resetTimer}
+              disabled={!session}
               title="Reset timer"
             >
               <RotateCcw className="h-5 w-5" />
@@ -218,7 +269,7 @@ const TaskCountdown = ({
                 !isComplete && !isPaused && "animate-subtle-pulse"
               )}
               onClick={togglePause}
-              disabled={isComplete}
+              disabled={isComplete || (!session && (!userId || !idleSeconds))}
               title={isPaused ? "Start timer" : "Pause timer"}
             >
               {isPaused ? (
@@ -233,11 +284,88 @@ const TaskCountdown = ({
               size="icon"
               className="h-11 w-11 rounded-full border-border/60 bg-muted/20 hover:bg-muted/40 shadow-sm transition-colors"
               onClick={onClose}
-              title="Close timer"
+              title="Close (the timer keeps running)"
             >
               <X className="h-5 w-5" />
             </Button>
           </div>
+
+          {session && (
+            <div className="flex gap-2 mt-6">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-xs"
+                onClick={() => stopTimer()}
+              >
+                <Square className="h-3.5 w-3.5 mr-1.5" />
+                Stop
+              </Button>
+              {session.mode === "pomodoro" && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-xs"
+                  onClick={skipPhase}
+                >
+                  <SkipForward className="h-3.5 w-3.5 mr-1.5" />
+                  Skip {session.phase === "work" ? "to break" : "break"}
+                </Button>
+              )}
+            </div>
+          )}
+
+          {activeMode === "pomodoro" && (
+            <div className="w-full mt-6">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-xs text-muted-foreground mx-auto flex"
+                onClick={() => setShowSettings(!showSettings)}
+              >
+                <Settings2 className="h-3.5 w-3.5 mr-1.5" />
+                Pomodoro settings
+              </Button>
+              {showSettings && (
+                <div className="grid grid-cols-2 gap-3 mt-3">
+                  {SETTING_FIELDS.map(({ key, label }) => (
+                    <div key={key} className="space-y-1">
+                      <Label htmlFor={`pomodoro-${key}`} className="text-xs">
+                        {label}
+                      </Label>
+                      <Input
+                        id={`pomodoro-${key}`}
+                        type="number"
+                        min={1}
+                        className="h-8 text-xs"
+                        value={settings[key]}
+                        onChange={(e) =>
+                          updateSettings({
+                            [key]: Math.max(1, parseInt(e.target.value) || 1),
+                          })
+                        }
+                      />
+                    </div>
+                  ))}
+                  <div className="col-span-2 flex items-center space-x-2">
+                    <Switch
+                      id="pomodoro-auto-advance"
+                      checked={settings.autoAdvance}
+                      onCheckedChange={(autoAdvance) =>
+                        updateSettings({ autoAdvance })
+                      }
+                    />
+                    <Label htmlFor="pomodoro-auto-advance" className="text-xs">
+                      Start the next phase automatically
+                    </Label>
+                  </div>
+                  <p className="col-span-2 text-xs text-muted-foreground">
+                    Changes apply from the next phase.
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
         </div>
       </DialogContent>
     </Dialog>
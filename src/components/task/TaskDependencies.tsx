@@ -0,0 +1,98 @@
+import { Task } from "@/types";
+import { useTaskContext } from "@/context/TaskContext";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Link2, Lock } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getBlockers } from "@/lib/dependencies";
+
+interface TaskDependenciesProps {
+  task: Task;
+}
+
+// Blocked badge for a task card. Clicking it (or the link icon on unblocked
+// tasks) lets the user pick which tasks in the same project block this one.
+const TaskDependencies = ({ task }: TaskDependenciesProps) => {
+  const { tasks, updateBlockedBy } = useTaskContext();
+
+  const blockers = getBlockers(task, tasks);
+  const blockedBy = task.blocked_by || [];
+  const candidates = tasks.filter(
+    (candidate) =>
+      candidate.id !== task.id &&
+      (candidate.project_id || null) === (task.project_id || null)
+  );
+
+  if (blockers.length === 0 && candidates.length === 0) return null;
+
+  const toggleBlocker = (blockerId: string, checked: boolean) => {
+    updateBlockedBy(
+      task.id,
+      checked
+        ? [...blockedBy, blockerId]
+        : blockedBy.filter((id) => id !== blockerId)
+    );
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Badge
+          variant="outline"
+          className={cn(
+            "inline-flex items-center h-5 text-xs px-1.5 py-0 rounded-full cursor-pointer flex-shrink-0",
+            blockers.length > 0
+              ? "bg-amber-50/80 text-amber-700 border-amber-200 hover:bg-amber-100/70"
+              : "text-muted-foreground/60 border-transparent hover:text-foreground"
+          )}
+          title={
+            blockers.length > 0
+              ? `Blocked by ${blockers.map((b) => b.sub_task).join(", ")}`
+              : "Set blocking tasks"
+          }
+        >
+          {blockers.length > 0 ? (
+            <>
+              <Lock className="h-2.5 w-2.5 mr-0.5" />
+              Blocked
+            </>
+          ) : (
+            <Link2 className="h-3 w-3" />
+          )}
+        </Badge>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-3" align="start">
+        <h4 className="text-xs font-medium mb-2">Blocked by</h4>
+        {candidates.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            No other tasks in this project
+          </p>
+        ) : (
+          <div className="space-y-1.5 max-h-60 overflow-y-auto">
+            {candidates.map((candidate) => (
+              <label
+                key={candidate.id}
+                className="flex items-center gap-2 text-xs cursor-pointer"
+              >
+                <Checkbox
+                  checked={blockedBy.includes(candidate.id)}
+                  onCheckedChange={(checked) =>
+                    toggleBlocker(candidate.id, checked === true)
+                  }
+                />
+                <span className="truncate">{candidate.sub_task}</span>
+              </label>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default TaskDependencies;
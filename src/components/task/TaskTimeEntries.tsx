@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { Task, TimeEntry } from "@/types";
+import { useTaskContext } from "@/context/TaskContext";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Edit2, History, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatMinutes, getActualMinutes } from "@/lib/timeEntries";
+import { format } from "date-fns";
+
+const INPUT_DATE_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+interface EntryFormProps {
+  entry?: TimeEntry;
+  submitLabel: string;
+  onSubmit: (startedAt: Date, durationSeconds: number) => void;
+  onCancel?: () => void;
+}
+
+// Start time and minutes of a time entry, for adding or editing one by hand
+const EntryForm = ({
+  entry,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: EntryFormProps) => {
+  const [startedAt, setStartedAt] = useState(() =>
+    format(entry ? new Date(entry.started_at) : new Date(), INPUT_DATE_FORMAT)
+  );
+  const [minutes, setMinutes] = useState(
+    entry ? Math.max(1, Math.round(entry.duration_seconds / 60)) : 15
+  );
+
+  const start = new Date(startedAt);
+  const isValid = minutes > 0 && !Number.isNaN(start.getTime());
+
+  return (
+    <div className="flex items-center gap-1.5">
+      <Input
+        type="datetime-local"
+        className="h-7 text-xs px-1.5"
+        value={startedAt}
+        onChange={(e) => setStartedAt(e.target.value)}
+        aria-label="Started at"
+      />
+      <Input
+        type="number"
+        min={1}
+        className="w-14 h-7 text-xs text-center px-1"
+        value={minutes}
+        onChange={(e) => setMinutes(parseInt(e.target.value) || 0)}
+        aria-label="Minutes"
+      />
+      <Button
+        size="sm"
+        className="h-7 text-xs px-2"
+        disabled={!isValid}
+        onClick={() => onSubmit(start, minutes * 60)}
+      >
+        {submitLabel}
+      </Button>
+      {onCancel && (
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-7 text-xs px-2"
+          onClick={onCancel}
+        >
+          Cancel
+        </Button>
+      )}
+    </div>
+  );
+};
+
+interface TaskTimeEntriesProps {
+  task: Task;
+  isCompleted?: boolean;
+}
+
+// Estimated vs tracked minutes for a task card. On the board, clicking it
+// lists the time entries so they can be corrected, removed or added by hand.
+const TaskTimeEntries = ({
+  task,
+  isCompleted = false,
+}: TaskTimeEntriesProps) => {
+  const { timeEntries, logTimeEntry, updateTimeEntry, deleteTimeEntry } =
+    useTaskContext();
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const actualMinutes = getActualMinutes(task, timeEntries);
+  const estimate = task.time_estimate || 0;
+  const isOverEstimate = estimate > 0 && actualMinutes > estimate;
+
+  if (isCompleted && actualMinutes === 0) return null;
+
+  const title = estimate
+    ? `Estimated ${formatMinutes(estimate)}, tracked ${formatMinutes(
+        actualMinutes
+      )}`
+    : `Tracked ${formatMinutes(actualMinutes)}`;
+
+  const badge = (
+    <Badge
+      variant="outline"
+      className={cn(
+        "inline-flex items-center h-5 text-xs px-1.5 py-0 rounded-full flex-shrink-0",
+        actualMinutes === 0
+          ? "text-muted-foreground/60 border-transparent hover:text-foreground"
+          : isOverEstimate
+          ? "bg-amber-50/80 text-amber-700 border-amber-200"
+          : "bg-violet-50/80 text-violet-600 border-violet-100",
+        !isCompleted && "cursor-pointer"
+      )}
+      title={actualMinutes === 0 ? "Log time" : title}
+    >
+      <History className={cn("h-2.5 w-2.5", actualMinutes > 0 && "mr-0.5")} />
+      {actualMinutes > 0 &&
+        (estimate
+          ? `${actualMinutes} / ${estimate} min`
+          : formatMinutes(actualMinutes))}
+    </Badge>
+  );
+
+  if (isCompleted) return badge;
+
+  const entries = timeEntries
+    .filter((entry) => entry.task_id === task.id)
+    .reverse();
+
+  return (
+    <Popover onOpenChange={(open) => !open && setEditingId(null)}>
+      <PopoverTrigger asChild>{badge}</PopoverTrigger>
+      <PopoverContent className="w-80 p-3" align="start">
+        <h4 className="text-xs font-medium mb-2">Time tracked</h4>
+        {entries.length === 0 ? (
+          <p className="text-xs text-muted-foreground mb-3">
+            Nothing yet. Time runs up while the countdown is going, or add it
+            below.
+          </p>
+        ) : (
+          <div className="space-y-1.5 max-h-60 overflow-y-auto mb-3">
+            {entries.map((entry) =>
+              editingId === entry.id ? (
+                <EntryForm
+                  key={entry.id}
+                  entry={entry}
+                  submitLabel="Save"
+                  onSubmit={async (startedAt, durationSeconds) => {
+                    await updateTimeEntry(entry.id, startedAt, durationSeconds);
+                    setEditingId(null);
+                  }}
+                  onCancel={() => setEditingId(null)}
+                />
+              ) : (
+                <div key={entry.id} className="flex items-center gap-2 text-xs">
+                  <span className="flex-grow text-muted-foreground">
+                    {format(new Date(entry.started_at), "MMM d, HH:mm")}
+                  </span>
+                  <span className="font-medium">
+                    {formatMinutes(Math.round(entry.duration_seconds / 60))}
+                  </span>
+                  <button
+                    className="text-muted-foreground/60 hover:text-foreground p-0.5"
+                    onClick={() => setEditingId(entry.id)}
+                    aria-label="Edit time entry"
+                    title="Edit"
+                  >
+                    <Edit2 className="h-3 w-3" />
+                  </button>
+                  <button
+                    className="text-muted-foreground/60 hover:text-destructive p-0.5"
+                    onClick={() => deleteTimeEntry(entry.id)}
+                    aria-label="Delete time entry"
+                    title="Delete"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                </div>
+              )
+            )}
+          </div>
+        )}
+        <h4 className="text-xs font-medium mb-1.5">Add time</h4>
+        <EntryForm
+          submitLabel="Add"
+          onSubmit={(startedAt, durationSeconds) =>
+            logTimeEntry(task.id, startedAt, durationSeconds)
+          }
+        />
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default TaskTimeEntries;
@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { Volume2 } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  TIMER_SOUNDS,
+  TimerAlertSettings as AlertSettings,
+  TimerSound,
+  getNotificationPermission,
+  loadTimerAlertSettings,
+  playTimerSound,
+  requestNotificationPermission,
+  saveTimerAlertSettings,
+} from "@/lib/timerAlerts";
+
+// How this device announces the end of a countdown or pomodoro phase
+const TimerAlertSettings = () => {
+  const [settings, setSettings] = useState(loadTimerAlertSettings);
+  const [permission, setPermission] = useState(getNotificationPermission);
+
+  const updateSettings = (changes: Partial<AlertSettings>) => {
+    const updated = { ...settings, ...changes };
+    setSettings(updated);
+    saveTimerAlertSettings(updated);
+  };
+
+  const toggleNotifications = async (enabled: boolean) => {
+    if (!enabled) {
+      updateSettings({ notifications: false });
+      return;
+    }
+
+    const result = await requestNotificationPermission();
+    setPermission(result);
+    if (result === "granted") {
+      updateSettings({ notifications: true });
+    } else {
+      toast.error(
+        result === "unsupported"
+          ? "This browser doesn't support notifications"
+          : "Notifications are blocked for this site in the browser settings"
+      );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Timer Alerts</CardTitle>
+        <CardDescription>
+          How this device lets you know a countdown or pomodoro phase has
+          ended, even from another tab.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="timer-notifications">Browser notifications</Label>
+            <p className="text-sm text-muted-foreground">
+              {permission === "denied"
+                ? "Blocked in the browser's site settings."
+                : permission === "unsupported"
+                ? "Not supported by this browser."
+                : "Shown when the app isn't the active tab."}
+            </p>
+          </div>
+          <Switch
+            id="timer-notifications"
+            checked={settings.notifications && permission === "granted"}
+            onCheckedChange={toggleNotifications}
+            disabled={permission === "denied" || permission === "unsupported"}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="timer-sound">Sound</Label>
+          <div className="flex items-center gap-2">
+            <Select
+              value={settings.sound}
+              onValueChange={(value) =>
+                updateSettings({ sound: value as TimerSound })
+              }
+            >
+              <SelectTrigger id="timer-sound" className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TIMER_SOUNDS.map(({ value, label }) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => playTimerSound(settings.sound)}
+              disabled={settings.sound === "none"}
+              title="Play sound"
+            >
+              <Volume2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="timer-flash-title">Flash the tab title</Label>
+            <p className="text-sm text-muted-foreground">
+              Until you come back to the tab.
+            </p>
+          </div>
+          <Switch
+            id="timer-flash-title"
+            checked={settings.flashTitle}
+            onCheckedChange={(flashTitle) => updateSettings({ flashTitle })}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TimerAlertSettings;
@@ -3,11 +3,84 @@ import {
   useContext,
   useState,
   useEffect,
+  useRef,
   ReactNode,
 } from "react";
-import { supabase, handleSupabaseError } from "@/lib/supabase";
-import { Task, TaskFormInput, TaskBucketType, ImportanceLevel } from "@/types";
+import {
+  checkAuthStatus,
+  handleSupabaseError,
+  onSessionChange,
+} from "@/lib/supabase";
+import {
+  Task,
+  TaskFormInput,
+  TaskBucketType,
+  ImportanceLevel,
+  BucketConfig,
+  BucketColor,
+  Project,
+  BulkEditKind,
+  TimeEntry,
+} from "@/types";
 import { toast } from "sonner";
+import { emitTaskEvent, onTaskEvent } from "@/lib/taskEvents";
+import { requestWebhookDispatch } from "@/lib/webhooks";
+import {
+  buildNextOccurrence,
+  parseDateKey,
+  startRecurrence,
+  toDateKey,
+} from "@/lib/recurrence";
+import { describeRollover, planRollover } from "@/lib/rollover";
+import {
+  claimRolloverDate,
+  fetchUserPreferences,
+  takeRolloverSummary,
+} from "@/lib/preferences";
+import {
+  getBucketNames,
+  normalizeBucket as normalizeBucketName,
+} from "@/lib/buckets";
+import {
+  describeCycle,
+  findDependencyCycle,
+  getDependents,
+} from "@/lib/dependencies";
+import { DEFAULT_PROJECT_COLOR, findProjectByName } from "@/lib/projects";
+import { applyBulkEdit, undoBulkEdit } from "@/lib/bulkEdits";
+import { createUndoHistory, getHistoryShortcut } from "@/lib/undoHistory";
+import { purgeExpiredTrash } from "@/lib/trash";
+import { subscribeToRowChanges } from "@/lib/realtime";
+import {
+  RepositoryError,
+  bucketRepository,
+  isOfflineError,
+  projectRepository,
+  taskRepository,
+  timeEntryRepository,
+} from "@/lib/repositories";
+import {
+  flushOutbox,
+  getSyncStatus,
+  hasPendingChange,
+  loadLocalTasks,
+  mergePendingTasks,
+  onSyncEvent,
+  rememberServerVersion,
+  queueTaskDelete,
+  queueTaskInsert,
+  queueTaskUpdate,
+  saveLocalTasks,
+  startTaskSync,
+} from "@/lib/taskSync";
+import {
+  MIN_ENTRY_SECONDS,
+  buildEntryTimes,
+  getTrackedSeconds,
+  toTrackedMinutes,
+} from "@/lib/timeEntries";
+import { getTimerState, onTimerEvent, stopTimer } from "@/lib/timer";
+import { format } from "date-fns";
 
 interface TaskContextType {
   tasks: Task[];
@@ -27,15 +100,86 @@ interface TaskContextType {
     importance: ImportanceLevel
   ) => Promise<void>;
   updateSubTask: (taskId: string, newSubTask: string) => Promise<void>;
+  updateBlockedBy: (taskId: string, blockedBy: string[]) => Promise<void>;
+  timeEntries: TimeEntry[];
+  logTimeEntry: (
+    taskId: string,
+    startedAt: Date,
+    durationSeconds: number
+  ) => Promise<void>;
+  updateTimeEntry: (
+    id: string,
+    startedAt: Date,
+    durationSeconds: number
+  ) => Promise<void>;
+  deleteTimeEntry: (id: string) => Promise<void>;
   reorderTasks: (
     updates: { id: string; bucket: TaskBucketType; sort_order: number }[]
   ) => Promise<void>;
+  undo: () => void;
+  redo: () => void;
   fetchCompletedTasks: () => Promise<void>;
+  customBuckets: BucketConfig[];
+  bucketNames: TaskBucketType[];
+  addBucket: (name: string, color: BucketColor) => Promise<void>;
+  updateBucket: (
+    id: string,
+    changes: { name?: string; color?: BucketColor }
+  ) => Promise<void>;
+  deleteBucket: (id: string) => Promise<void>;
+  moveBucket: (id: string, direction: -1 | 1) => Promise<void>;
+  projects: Project[];
+  addProject: (
+    input: Pick<Project, "name" | "color"> & { description?: string | null }
+  ) => Promise<Project | null>;
+  updateProject: (
+    id: string,
+    changes: Partial<
+      Pick<Project, "name" | "color" | "description" | "is_archived">
+    >
+  ) => Promise<void>;
+  mergeGroups: (
+    kind: BulkEditKind,
+    from: string[],
+    to: string
+  ) => Promise<string | null>;
+  undoMerge: (editId: string) => Promise<void>;
   userId: string | null;
 }
 
 const TaskContext = createContext<TaskContextType | undefined>(undefined);
 
+const getMsUntilTomorrow = () => {
+  const now = new Date();
+  const tomorrow = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+  return tomorrow.getTime() - now.getTime();
+};
+
+const withoutTask = (id: string) => (list: Task[]) =>
+  list.filter((task) => task.id !== id);
+
+// Replace a task in `list`, adding it if it isn't there
+const withTask = (task: Task) => (list: Task[]) =>
+  list.some((t) => t.id === task.id)
+    ? list.map((t) => (t.id === task.id ? task : t))
+    : [...list, task];
+
+// How often to retry changes left in the outbox while online
+const SYNC_RETRY_MS = 30 * 1000;
+
+const isActiveTask = (task: Task) => !task.is_archived && !task.deleted_at;
+
+const isRecentlyCompleted = (task: Task, since: string) =>
+  task.is_archived &&
+  task.completed &&
+  !task.deleted_at &&
+  !!task.completed_at &&
+  task.completed_at >= since;
+
+// Whether a failed read failed because there's no connection
+const isOffline = (error: RepositoryError | null) =>
+  isOfflineError(error) || (!!error && !getSyncStatus().isOnline);
+
 export const TaskProvider = ({ children }: { children: ReactNode }) => {
   const [tasks, setTasks] = useState<Task[]>([]);
   const [completedTasks, setCompletedTasks] = useState<Task[]>([]);
@@ -45,39 +189,36 @@ export const TaskProvider = ({ children }: { children: ReactNode }) => {
   const [supportsSortOrder, setSupportsSortOrder] = useState<boolean | null>(
     null
   );
+  const [currentDateKey, setCurrentDateKey] = useState(() =>
+    toDateKey(new Date())
+  );
 
-  const normalizeBucket = (bucket: string): TaskBucketType => {
-    if (
-      bucket === "Short-Term" ||
-      bucket === "Mid-Term" ||
-      bucket === "Long-Term" ||
-      bucket === "This Week"
-    ) {
-      return "On Hold";
-    }
-    if (bucket !== "On Hold" && bucket !== "Today" && bucket !== "Tomorrow") {
-      return "On Hold";
-    }
-    return bucket as TaskBucketType;
-  };
+  const [customBuckets, setCustomBuckets] = useState<BucketConfig[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [timeEntries, setTimeEntries] = useState<TimeEntry[]>([]);
 
-  const serializeBucket = (bucket: TaskBucketType) => {
-    if (bucket === "On Hold") {
-      return "Short-Term";
-    }
-    return bucket;
-  };
+  // Undo/redo stacks for task deletes, completions, moves and edits
+  const historyRef = useRef(createUndoHistory());
+
+  const bucketNames = getBucketNames(customBuckets);
+
+  // Legacy values map to "On Hold"; with `knownBuckets`, so do buckets that
+  // have since been deleted
+  const normalizeBucket = (
+    bucket: string,
+    knownBuckets?: string[]
+  ): TaskBucketType => normalizeBucketName(bucket, knownBuckets);
 
   // Check for authentication and fetch tasks on component mount
   useEffect(() => {
     const checkAuthAndFetchTasks = async () => {
-      const { data } = await supabase.auth.getSession();
+      const session = await checkAuthStatus();
 
-      if (data.session) {
-        setUserId(data.session.user.id);
-        fetchTasks(data.session.user.id);
+      if (session) {
+        setUserId(session.user.id);
+        fetchTasks(session.user.id);
         // Also fetch completed tasks on initial load
-        fetchCompletedTasks(data.session.user.id);
+        fetchCompletedTasks(session.user.id);
       } else {
         setIsLoading(false);
       }
@@ -86,7 +227,7 @@ export const TaskProvider = ({ children }: { children: ReactNode }) => {
     checkAuthAndFetchTasks();
 
     // Set up listener for auth changes
-    const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+    return onSessionChange((session) => {
       const newUserId = session?.user.id || null;
       setUserId(newUserId);
 
@@ -97,46 +238,192 @@ export const TaskProvider = ({ children }: { children: ReactNode }) => {
       } else {
         setTasks([]);
         setCompletedTasks([]);
+        setTimeEntries([]);
+        historyRef.current.clear();
         setIsLoading(false);
       }
     });
+  }, []);
 
-    return () => {
-      data.subscription.unsubscribe();
+  // Flush queued webhook deliveries whenever a task lifecycle event happens
+  useEffect(() => onTaskEvent(() => requestWebhookDispatch()), []);
+
+  // The task timer logs its own time entries, wherever it is stopped
+  useEffect(
+    () =>
+      onTimerEvent((event) => {
+        if (event.type === "entry-logged") {
+          setTimeEntries((prev) => [...prev, event.entry]);
+        }
+      }),
+    []
+  );
+
+  // Undo/redo keyboard shortcuts, wherever the task context is mounted
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const direction = getHistoryShortcut(event);
+      if (!direction) return;
+
+      event.preventDefault();
+      historyRef.current[direction]();
     };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
   }, []);
 
-  // Fetch all active tasks from Supabase for the current user
+  // Send queued task changes whenever the connection allows, and pick up
+  // changes made in other tabs and on other devices
+  useEffect(() => {
+    if (!userId) return;
+
+    // Show a task the way Supabase has it, in whichever list it belongs to
+    const showServerTask = (serverTask: Task) => {
+      const task = {
+        ...serverTask,
+        bucket: normalizeBucketName(serverTask.bucket),
+      };
+      setTasks(isActiveTask(task) ? withTask(task) : withoutTask(task.id));
+      setCompletedTasks(
+        task.is_archived && !task.deleted_at
+          ? withTask(task)
+          : withoutTask(task.id)
+      );
+    };
+
+    const stopSync = startTaskSync(userId);
+    const unsubscribe = onSyncEvent(async (event) => {
+      if (event.type === "conflict") {
+        showServerTask(event.task);
+        toast.info(
+          `"${event.task.sub_task}" was changed elsewhere, so that version was kept`
+        );
+      } else if (event.type === "rejected") {
+        console.error("Error syncing a queued change:", event.error);
+        toast.error(event.error.message || "Failed to sync a change");
+
+        // Undo the change locally
+        const { data, error } = await taskRepository.get(
+          userId,
+          event.entry.task_id
+        );
+        if (error) return;
+        if (data) {
+          showServerTask(data);
+        } else {
+          setTasks(withoutTask(event.entry.task_id));
+          setCompletedTasks(withoutTask(event.entry.task_id));
+        }
+      }
+    });
+    const retry = setInterval(() => {
+      const { isOnline, isSyncing, pending } = getSyncStatus();
+      if (isOnline && !isSyncing && pending > 0) flushOutbox(userId);
+    }, SYNC_RETRY_MS);
+
+    // Changes to tasks with edits of their own still on the way are left
+    // out; the outbox settles those with updated_at once they are sent
+    const unsubscribeRealtime = subscribeToRowChanges<Task>(
+      userId,
+      "tasks",
+      (change) => {
+        if (change.row) rememberServerVersion(change.row);
+        if (hasPendingChange(change.id)) return;
+        if (change.type === "DELETE") {
+          setTasks(withoutTask(change.id));
+          setCompletedTasks(withoutTask(change.id));
+        } else if (change.row) {
+          showServerTask(change.row);
+        }
+      }
+    );
+
+    return () => {
+      stopSync();
+      unsubscribe();
+      clearInterval(retry);
+      unsubscribeRealtime();
+    };
+  }, [userId]);
+
+  // Keep the on-device copy of the task lists up to date
+  useEffect(() => {
+    if (!userId || isLoading || isLoadingCompleted) return;
+    saveLocalTasks(userId, [...tasks, ...completedTasks]);
+  }, [userId, isLoading, isLoadingCompleted, tasks, completedTasks]);
+
+  // Fetch the user's custom buckets. Returns null if they can't be loaded,
+  // e.g. before add_custom_buckets.sql has been run.
+  const fetchBuckets = async (currentUserId: string) => {
+    const { data, error } = await bucketRepository.list(currentUserId);
+
+    if (error) {
+      console.error("Error fetching buckets:", error);
+      return null;
+    }
+    setCustomBuckets(data);
+    return data;
+  };
+
+  // Fetch the user's projects, archived ones included so their tasks still
+  // show a name. Before add_projects.sql has been run this leaves the list
+  // empty.
+  const fetchProjects = async (currentUserId: string) => {
+    const { data, error } = await projectRepository.list(currentUserId);
+
+    if (error) {
+      console.error("Error fetching projects:", error);
+      return;
+    }
+    setProjects(data);
+  };
+
+  // Fetch all active tasks for the current user
   const fetchTasks = async (currentUserId: string) => {
     setIsLoading(true);
     try {
-      const buildQuery = () =>
-        supabase
-          .from("tasks")
-          .select("*")
-          .eq("user_id", currentUserId)
-          .eq("is_archived", false);
-      let { data, error } = await buildQuery().order("created_at", {
-        ascending: false,
-      });
+      // Show the tasks saved on this device straight away; they are all
+      // there is while offline
+      const localTasks = await loadLocalTasks(currentUserId);
+      if (localTasks.length > 0) {
+        setTasks(
+          localTasks.filter(isActiveTask).map((task) => ({
+            ...task,
+            bucket: normalizeBucket(task.bucket),
+          }))
+        );
+      }
+
+      const [buckets] = await Promise.all([
+        fetchBuckets(currentUserId),
+        fetchProjects(currentUserId),
+        purgeTrash(currentUserId),
+      ]);
 
+      const { data, error } = await taskRepository.listActive(currentUserId);
       if (error) {
-        console.error("Error fetching tasks with ordering:", error);
-        const fallback = await buildQuery();
-        if (fallback.error) {
-          handleSupabaseError(fallback.error);
-          return;
-        }
-        data = fallback.data;
+        if (!isOffline(error)) handleSupabaseError(error);
+        return;
       }
 
-      // Double-check to ensure no archived tasks appear in the main view
-      const filteredData = data ? data.filter((task) => !task.is_archived) : [];
+      // Keep the local copies of tasks with changes still in the outbox.
+      // Double-check to ensure no archived tasks appear in the main view.
+      const merged = await mergePendingTasks(
+        currentUserId,
+        data || [],
+        localTasks
+      );
+      const filteredData = merged.filter(isActiveTask);
       const normalizedData = filteredData.map((task) => ({
         ...task,
-        bucket: normalizeBucket(task.bucket),
+        bucket: normalizeBucket(
+          task.bucket,
+          buckets ? getBucketNames(buckets) : undefined
+        ),
       }));
       setTasks(normalizedData);
+      fetchTimeEntries(currentUserId, normalizedData.map((task) => task.id));
 
       if (supportsSortOrder !== true) {
         const hasSortOrder = normalizedData.some(
@@ -154,6 +441,22 @@ export const TaskProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  // Fetch the time tracked against the tasks on the board. Leaves the
+  // entries empty if they can't be loaded, e.g. before add_time_entries.sql
+  // has been run.
+  const fetchTimeEntries = async (currentUserId: string, taskIds: string[]) => {
+    const { data, error } = await timeEntryRepository.listForTasks(
+      currentUserId,
+      taskIds
+    );
+
+    if (error) {
+      console.error("Error fetching time entries:", error);
+      return;
+    }
+    setTimeEntries(data || []);
+  };
+
   // Fetch completed tasks from Supabase
   const fetchCompletedTasks = async (currentUserIdParam?: string) => {
     const userIdToUse = currentUserIdParam || userId;
@@ -169,23 +472,38 @@ export const TaskProvider = ({ children }: { children: ReactNode }) => {
       thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
       const thirtyDaysAgoISO = thirtyDaysAgo.toISOString();
 
+      const localTasks = await loadLocalTasks(userIdToUse);
+      const localCompleted = localTasks.filter((task) =>
+        isRecentlyCompleted(task, thirtyDaysAgoISO)
+      );
+
       // Make sure to explicitly get tasks that are both archived and completed within the past 30 days
-      const { data, error } = await supabase
-        .from("tasks")
-        .select("*")
-        .eq("user_id", userIdToUse)
-        .eq("is_archived", true)
-        .eq("completed", true)
-        .gte("completed_at", thirtyDaysAgoISO)
-        .order("updated_at", { ascending: false });
+      const result = await taskRepository.listCompletedSince(
+        userIdToUse,
+        thirtyDaysAgoISO
+      );
 
-      if (error) {
-        console.error("Error fetching completed tasks:", error);
-        toast.error(error.message || "Failed to load completed tasks");
+      // Offline, fall back to the completed tasks saved on this device
+      if (isOffline(result.error)) {
+        setCompletedTasks(
+          localCompleted.map((task) => ({
+            ...task,
+            bucket: normalizeBucket(task.bucket),
+          }))
+        );
+        return;
+      }
+
+      if (result.error) {
+        console.error("Error fetching completed tasks:", result.error);
+        toast.error(result.error.message || "Failed to load completed tasks");
         return;
       }
 
-      console.log(`Fetched ${data?.length || 0} completed tasks`);
+      const data = (
+        await mergePendingTasks(userIdToUse, result.data || [], localTasks)
+      ).filter((task) => isRecentlyCompleted(task, thirtyDaysAgoISO));
+      console.log(`Fetched ${data.length} completed tasks`);
 
       // Ensure we only set completed tasks when we have valid data
       if (data) {
@@ -221,9 +539,14 @@ export const TaskProvider = ({ children }: { children: ReactNode }) => {
         0
       );
 
+      const project = await ensureProject(taskInput.main_task);
+
       const newTask = {
         ...taskInput,
-        bucket: serializeBucket(taskInput.bucket),
+        ...(project ? { project_id: project.id, main_task: project.name } : {}),
+        ...(taskInput.recurrence_rule
+          ? startRecurrence(taskInput.recurrence_rule, taskInput.bucket)
+          : {}),
         user_id: userId,
         is_archived: false,
         completed: false,
@@ -233,18 +556,20 @@ export const TaskProvider = ({ children }: { children: ReactNode }) => {
         newTask.sort_order = maxSortOrder + 1;
       }
 
-      const { data, error } = await supabase
-        .from("tasks")
-        .insert([newTask])
-        .select();
+      const { data: inserted, error } = await queueTaskInsert(userId, newTask);
 
       if (handleSupabaseError(error)) return;
 
+      const data = inserted ? [inserted] : [];
+
       const normalizedInserted = (data || []).map((task) => ({
         ...task,
         bucket: normalizeBucket(task.bucket),
       }));
       setTasks((prevTasks) => [...prevTasks, ...normalizedInserted]);
+      normalizedInserted.forEach((task) =>
+        emitTaskEvent({ type: "task.created", task })
+      );
       if (supportsSortOrder !== true) {
         const hasSortOrder = (data || []).some(
           (task) => task.sort_order !== undefined
@@ -274,12 +599,7 @@ export const TaskProvider = ({ children }: { children: ReactNode }) => {
         return;
       }
 
-      const dbPayload = { ...task, bucket: serializeBucket(task.bucket) };
-      const { error } = await supabase
-        .from("tasks")
-        .update(dbPayload)
-        .eq("id", task.id)
-        .eq("user_id", userId);
+      const { error } = await queueTaskUpdate(userId, task.id, task);
 
       if (handleSupabaseError(error)) return;
 
@@ -292,7 +612,86 @@ export const TaskProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
-  // Delete a task
+  // Save field changes to active tasks without recording history, to undo
+  // and redo edits. Resolves to false if an update failed.
+  const saveTaskFields = async (
+    changes: { id: string; fields: Partial<Task> }[]
+  ) => {
+    if (!userId) return false;
+    if (changes.length === 0) return true;
+
+    const results = await Promise.all(
+      changes.map(({ id, fields }) => {
+        const { sort_order, ...rest } = fields;
+        return queueTaskUpdate(
+          userId,
+          id,
+          supportsSortOrder === true && sort_order !== undefined
+            ? { ...rest, sort_order }
+            : rest
+        );
+      })
+    );
+    const firstError = results.find((result) => result.error)?.error;
+    if (handleSupabaseError(firstError || null)) {
+      fetchTasks(userId);
+      return false;
+    }
+
+    setTasks((prevTasks) =>
+      prevTasks.map((task) => {
+        const change = changes.find((c) => c.id === task.id);
+        return change ? { ...task, ...change.fields } : task;
+      })
+    );
+    return true;
+  };
+
+  // Move a task to the trash, or take it back out
+  const setTaskDeleted = async (task: Task, deleted: boolean) => {
+    if (!userId) return false;
+
+    // A task purged from the trash in the meantime comes back as an error
+    const { error } = await queueTaskUpdate(userId, task.id, {
+      deleted_at: deleted ? new Date().toISOString() : null,
+    });
+    if (handleSupabaseError(error)) return false;
+
+    if (deleted) {
+      setTasks(withoutTask(task.id));
+      setCompletedTasks(withoutTask(task.id));
+    } else {
+      const restore = (prevTasks: Task[]) => [
+        { ...task, deleted_at: null },
+        ...withoutTask(task.id)(prevTasks),
+      ];
+      if (task.is_archived) {
+        setCompletedTasks(restore);
+      } else {
+        setTasks(restore);
+      }
+    }
+    return true;
+  };
+
+  // Remove trashed tasks and notes past the user's retention period
+  const purgeTrash = async (currentUserId: string) => {
+    const { error } = await purgeExpiredTrash(currentUserId);
+    if (error) {
+      console.error("Error purging trash:", error);
+    }
+  };
+
+  // Snapshot of the blocked_by lists of the tasks waiting on `taskId`, to put
+  // back when completing or deleting it is undone
+  const getBlockedByFields = (taskId: string) =>
+    getDependents(taskId, tasks).map((task) => ({
+      id: task.id,
+      fields: { blocked_by: task.blocked_by },
+    }));
+
+  // Delete a task. It goes to the trash, so the delete can be undone or the
+  // task restored from the Trash page.
   const deleteTask = async (id: string) => {
     if (!userId) {
       toast.error("You must be signed in to delete tasks");
@@ -300,19 +699,34 @@ export const TaskProvider = ({ children }: { children: ReactNode }) => {
     }
 
     try {
-      const { error } = await supabase
-        .from("tasks")
-        .delete()
-        .eq("id", id)
-        .eq("user_id", userId);
-
-      if (handleSupabaseError(error)) return;
+      const task =
+        tasks.find((t) => t.id === id) ||
+        completedTasks.find((t) => t.id === id);
+      if (!task) {
+        console.error("Task not found for deleting:", id);
+        return;
+      }
 
-      setTasks((prevTasks) => prevTasks.filter((task) => task.id !== id));
-      setCompletedTasks((prevTasks) =>
-        prevTasks.filter((task) => task.id !== id)
+      const blockedBy = getBlockedByFields(id);
+      if (!(await setTaskDeleted(task, true))) return;
+
+      const released = await releaseDependents(id);
+      historyRef.current.record(
+        {
+          label: `Delete "${task.sub_task}"`,
+          undo: async () =>
+            (await setTaskDeleted(task, false)) && saveTaskFields(blockedBy),
+          redo: async () =>
+            (await setTaskDeleted(task, true)) &&
+            saveTaskFields(
+              released.map((dependent) => ({
+                id: dependent.id,
+                fields: { blocked_by: dependent.blocked_by },
+              }))
+            ),
+        },
+        "Task moved to trash"
       );
-      toast.success("Task deleted");
     } catch (err) {
       console.error("Error deleting task:", err);
       toast.error("Failed to delete task");
@@ -335,18 +749,26 @@ export const TaskProvider = ({ children }: { children: ReactNode }) => {
 
       console.log("Archiving task:", id);
 
-      // First update the database
+      // A timer still running on the task is stopped, so its time counts
+      const runningEntry =
+        getTimerState()?.taskId === id ? await stopTimer() : null;
+
+      // First update the database. The time tracked is kept on the task so
+      // it can be compared with the estimate once the entries are gone from
+      // the board; tasks without any leave the column alone.
       const completedAt = new Date().toISOString();
-      const { error } = await supabase
-        .from("tasks")
-        .update({
-          is_archived: true,
-          completed: true,
-          completed_at: completedAt,
-          updated_at: completedAt,
-        })
-        .eq("id", id)
-        .eq("user_id", userId);
+      const trackedMinutes = toTrackedMinutes(
+        getTrackedSeconds(timeEntries, id) +
+          (runningEntry?.duration_seconds ?? 0)
+      );
+      const completionFields: Partial<Task> = {
+        is_archived: true,
+        completed: true,
+        completed_at: completedAt,
+        updated_at: completedAt,
+        ...(trackedMinutes > 0 && { tracked_minutes: trackedMinutes }),
+      };
+      const { error } = await queueTaskUpdate(userId, id, completionFields);
 
       if (error) {
         console.error("Error archiving task:", error);
@@ -355,21 +777,65 @@ export const TaskProvider = ({ children }: { children: ReactNode }) => {
       }
 
       // Create the completed task object with updated fields
-      const completedTask = {
-        ...task,
-        is_archived: true,
-        completed: true,
-        completed_at: completedAt,
-        updated_at: completedAt,
-      };
+      const completedTask = { ...task, ...completionFields };
 
       // Remove from active tasks list
       setTasks((prevTasks) => prevTasks.filter((t) => t.id !== id));
 
       // Add to completed tasks list
       setCompletedTasks((prev) => [completedTask, ...prev]);
+      emitTaskEvent({ type: "task.completed", task: completedTask });
+
+      const blockedBy = getBlockedByFields(id);
+      let released: Task[] = [];
+      let nextOccurrence: Task | null = null;
+      historyRef.current.record(
+        {
+          label: `Complete "${task.sub_task}"`,
+          undo: async () => {
+            if (!(await setTaskArchived(completedTask, false))) return false;
+            if (nextOccurrence) {
+              const { error } = await queueTaskDelete(
+                userId,
+                nextOccurrence.id
+              );
+              if (handleSupabaseError(error)) return false;
+
+              setTasks(withoutTask(nextOccurrence.id));
+              nextOccurrence = null;
+            }
+            return saveTaskFields(blockedBy);
+          },
+          redo: async () => {
+            if (!(await setTaskArchived(task, true))) return false;
+            nextOccurrence = await scheduleNextOccurrence(task);
+            return saveTaskFields(
+              released.map((dependent) => ({
+                id: dependent.id,
+                fields: { blocked_by: dependent.blocked_by },
+              }))
+            );
+          },
+        },
+        "Task marked as completed"
+      );
 
-      toast.success("Task marked as completed");
+      released = await releaseDependents(id);
+      const unblocked = released.filter(
+        (dependent) =>
+          !dependent.blocked_by.some((blockerId) =>
+            tasks.some((t) => t.id === blockerId)
+          )
+      );
+      if (unblocked.length > 0) {
+        toast.info(
+          unblocked.length === 1
+            ? `"${unblocked[0].sub_task}" is no longer blocked`
+            : `${unblocked.length} tasks are no longer blocked`
+        );
+      }
+
+      nextOccurrence = await scheduleNextOccurrence(completedTask);
 
       // Refresh both task lists to ensure consistency
       if (userId) {
@@ -381,6 +847,112 @@ export const TaskProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  // Remove a completed or deleted task from the blocked_by list of the tasks
+  // waiting on it. Returns the dependents with their updated lists.
+  const releaseDependents = async (taskId: string) => {
+    const dependents = getDependents(taskId, tasks).map((task) => ({
+      ...task,
+      blocked_by: task.blocked_by.filter((id) => id !== taskId),
+    }));
+    if (dependents.length === 0) return [];
+
+    setTasks((prevTasks) =>
+      prevTasks.map(
+        (t) => dependents.find((dependent) => dependent.id === t.id) || t
+      )
+    );
+
+    const results = await Promise.all(
+      dependents.map((dependent) =>
+        queueTaskUpdate(userId, dependent.id, {
+          blocked_by: dependent.blocked_by,
+        })
+      )
+    );
+    const failed = results.find((result) => result.error);
+    if (failed) {
+      console.error("Error unblocking dependent tasks:", failed.error);
+      toast.error("Failed to unblock dependent tasks");
+    }
+    return dependents;
+  };
+
+  // Complete or restore a task without archiveTask's side effects, to undo
+  // and redo a completion
+  const setTaskArchived = async (task: Task, archived: boolean) => {
+    if (!userId) return false;
+
+    const updatedAt = new Date().toISOString();
+    const fields = {
+      is_archived: archived,
+      completed: archived,
+      completed_at: archived ? updatedAt : null,
+      updated_at: updatedAt,
+    };
+    const { error } = await queueTaskUpdate(userId, task.id, fields);
+
+    if (handleSupabaseError(error)) return false;
+
+    const updatedTask = { ...task, ...fields };
+    setTasks((prevTasks) =>
+      archived
+        ? withoutTask(task.id)(prevTasks)
+        : [updatedTask, ...withoutTask(task.id)(prevTasks)]
+    );
+    setCompletedTasks((prevTasks) =>
+      archived
+        ? [updatedTask, ...withoutTask(task.id)(prevTasks)]
+        : withoutTask(task.id)(prevTasks)
+    );
+    emitTaskEvent({
+      type: archived ? "task.completed" : "task.restored",
+      task: updatedTask,
+    });
+    return true;
+  };
+
+  // Create the next occurrence of a recurring task that was just completed.
+  // Returns the new task, if one was created.
+  const scheduleNextOccurrence = async (task: Task) => {
+    const nextOccurrence = buildNextOccurrence(task);
+    if (!nextOccurrence) return null;
+
+    const bucketTasks = tasks.filter(
+      (t) => t.bucket === nextOccurrence.bucket && t.id !== task.id
+    );
+    const maxSortOrder = bucketTasks.reduce(
+      (max, t) => Math.max(max, t.sort_order ?? 0),
+      0
+    );
+
+    const { data, error } = await queueTaskInsert(userId, {
+      ...nextOccurrence,
+      ...(supportsSortOrder ? { sort_order: maxSortOrder + 1 } : {}),
+    });
+
+    if (error) {
+      console.error("Error scheduling next occurrence:", error);
+      toast.error(error.message || "Failed to schedule the next occurrence");
+      return null;
+    }
+
+    const normalizedInserted = (data ? [data] : []).map((t) => ({
+      ...t,
+      bucket: normalizeBucket(t.bucket),
+    }));
+    setTasks((prevTasks) => [...prevTasks, ...normalizedInserted]);
+    normalizedInserted.forEach((t) =>
+      emitTaskEvent({ type: "task.created", task: t })
+    );
+    toast.success(
+      `Next occurrence scheduled for ${format(
+        parseDateKey(nextOccurrence.occurrence_date),
+        "EEE, MMM d"
+      )}`
+    );
+    return normalizedInserted[0] ?? null;
+  };
+
   // Unarchive a task (mark as incomplete and restore to active tasks)
   const unarchiveTask = async (id: string) => {
     if (!userId) {
@@ -399,16 +971,12 @@ export const TaskProvider = ({ children }: { children: ReactNode }) => {
 
       // Update the database
       const restoredAt = new Date().toISOString();
-      const { error } = await supabase
-        .from("tasks")
-        .update({
-          is_archived: false,
-          completed: false,
-          completed_at: null,
-          updated_at: restoredAt,
-        })
-        .eq("id", id)
-        .eq("user_id", userId);
+      const { error } = await queueTaskUpdate(userId, id, {
+        is_archived: false,
+        completed: false,
+        completed_at: null,
+        updated_at: restoredAt,
+      });
 
       if (error) {
         console.error("Error unarchiving task:", error);
@@ -430,6 +998,7 @@ export const TaskProvider = ({ children }: { children: ReactNode }) => {
 
       // Add to active tasks list
       setTasks((prev) => [restoredTask, ...prev]);
+      emitTaskEvent({ type: "task.restored", task: restoredTask });
 
       toast.success("Task restored to active tasks");
 
@@ -471,14 +1040,11 @@ export const TaskProvider = ({ children }: { children: ReactNode }) => {
         return;
       }
 
-      const serializedBucket = serializeBucket(bucket);
-
       if (supportsSortOrder === true) {
-        const { error } = await supabase
-          .from("tasks")
-          .update({ bucket: serializedBucket, sort_order: nextSortOrder })
-          .eq("id", taskId)
-          .eq("user_id", userId);
+        const { error } = await queueTaskUpdate(userId, taskId, {
+          bucket,
+          sort_order: nextSortOrder,
+        });
 
         if (error && String(error.message || "").includes("sort_order")) {
           setSupportsSortOrder(false);
@@ -489,11 +1055,7 @@ export const TaskProvider = ({ children }: { children: ReactNode }) => {
       }
 
       if (shouldFallbackToBucketOnly) {
-        const { error } = await supabase
-          .from("tasks")
-          .update({ bucket: serializedBucket })
-          .eq("id", taskId)
-          .eq("user_id", userId);
+        const { error } = await queueTaskUpdate(userId, taskId, { bucket });
 
         if (handleSupabaseError(error)) return;
       }
@@ -505,6 +1067,30 @@ export const TaskProvider = ({ children }: { children: ReactNode }) => {
             : t
         )
       );
+      if (task.bucket !== bucket) {
+        emitTaskEvent({
+          type: "task.moved",
+          task: { ...task, bucket, sort_order: nextSortOrder },
+          previousBucket: task.bucket,
+        });
+      }
+      historyRef.current.record(
+        {
+          label: `Move "${task.sub_task}" to ${bucket}`,
+          undo: () =>
+            saveTaskFields([
+              {
+                id: taskId,
+                fields: { bucket: task.bucket, sort_order: task.sort_order },
+              },
+            ]),
+          redo: () =>
+            saveTaskFields([
+              { id: taskId, fields: { bucket, sort_order: nextSortOrder } },
+            ]),
+        },
+        `Moved to ${bucket}`
+      );
     } catch (err) {
       console.error("Error moving task:", err);
       toast.error("Failed to move task");
@@ -519,11 +1105,9 @@ export const TaskProvider = ({ children }: { children: ReactNode }) => {
     }
 
     try {
-      const { error } = await supabase
-        .from("tasks")
-        .update({ time_estimate: estimate })
-        .eq("id", taskId)
-        .eq("user_id", userId);
+      const { error } = await queueTaskUpdate(userId, taskId, {
+        time_estimate: estimate,
+      });
 
       if (handleSupabaseError(error)) return;
 
@@ -565,15 +1149,11 @@ export const TaskProvider = ({ children }: { children: ReactNode }) => {
       }
 
       const updatedAt = new Date().toISOString();
-      const { error } = await supabase
-        .from("tasks")
-        .update({
-          completed: newCompletedStatus,
-          completed_at: newCompletedStatus ? updatedAt : null,
-          updated_at: updatedAt,
-        })
-        .eq("id", taskId)
-        .eq("user_id", userId);
+      const { error } = await queueTaskUpdate(userId, taskId, {
+        completed: newCompletedStatus,
+        completed_at: newCompletedStatus ? updatedAt : null,
+        updated_at: updatedAt,
+      });
 
       if (handleSupabaseError(error)) return;
 
@@ -622,11 +1202,9 @@ export const TaskProvider = ({ children }: { children: ReactNode }) => {
       );
 
       // Then update the database
-      const { error } = await supabase
-        .from("tasks")
-        .update({ importance: importance })
-        .eq("id", taskId)
-        .eq("user_id", userId);
+      const { error } = await queueTaskUpdate(userId, taskId, {
+        importance: importance,
+      });
 
       if (handleSupabaseError(error)) {
         // Rollback UI changes on error
@@ -637,6 +1215,21 @@ export const TaskProvider = ({ children }: { children: ReactNode }) => {
         );
         return;
       }
+
+      if (task.importance !== importance) {
+        historyRef.current.record(
+          {
+            label: `Set "${task.sub_task}" to ${importance} importance`,
+            undo: () =>
+              saveTaskFields([
+                { id: taskId, fields: { importance: task.importance } },
+              ]),
+            redo: () =>
+              saveTaskFields([{ id: taskId, fields: { importance } }]),
+          },
+          `Importance set to ${importance}`
+        );
+      }
     } catch (err) {
       console.error("Error updating task importance:", err);
       toast.error("Failed to update task importance");
@@ -665,11 +1258,9 @@ export const TaskProvider = ({ children }: { children: ReactNode }) => {
       );
 
       // Then update the database
-      const { error } = await supabase
-        .from("tasks")
-        .update({ sub_task: newSubTask })
-        .eq("id", taskId)
-        .eq("user_id", userId);
+      const { error } = await queueTaskUpdate(userId, taskId, {
+        sub_task: newSubTask,
+      });
 
       if (handleSupabaseError(error)) {
         // Rollback UI changes on error
@@ -680,14 +1271,32 @@ export const TaskProvider = ({ children }: { children: ReactNode }) => {
         );
         return;
       }
+
+      if (task.sub_task !== newSubTask) {
+        historyRef.current.record(
+          {
+            label: `Rename "${task.sub_task}"`,
+            undo: () =>
+              saveTaskFields([
+                { id: taskId, fields: { sub_task: task.sub_task } },
+              ]),
+            redo: () =>
+              saveTaskFields([{ id: taskId, fields: { sub_task: newSubTask } }]),
+          },
+          "Task renamed"
+        );
+      }
     } catch (err) {
       console.error("Error updating task title:", err);
       toast.error("Failed to update task title");
     }
   };
 
+  // Save new buckets and positions, e.g. after a drag. Silent reorders (the
+  // daily rollover) aren't added to the undo history.
   const reorderTasks = async (
-    updates: { id: string; bucket: TaskBucketType; sort_order: number }[]
+    updates: { id: string; bucket: TaskBucketType; sort_order: number }[],
+    options: { silent?: boolean } = {}
   ) => {
     if (!userId) {
       toast.error("You must be signed in to reorder tasks");
@@ -700,6 +1309,52 @@ export const TaskProvider = ({ children }: { children: ReactNode }) => {
       updates.map((update) => [update.id, update])
     );
 
+    // Tasks that change bucket as part of this reorder
+    const movedTasks = tasks.flatMap((task) => {
+      const update = updatesMap.get(task.id);
+      return update && update.bucket !== task.bucket
+        ? [{ task: { ...task, ...update }, previousBucket: task.bucket }]
+        : [];
+    });
+    const previousPositions = tasks.flatMap((task) =>
+      updatesMap.has(task.id)
+        ? [
+            {
+              id: task.id,
+              fields: { bucket: task.bucket, sort_order: task.sort_order },
+            },
+          ]
+        : []
+    );
+
+    const onSaved = () => {
+      movedTasks.forEach(({ task, previousBucket }) =>
+        emitTaskEvent({ type: "task.moved", task, previousBucket })
+      );
+      if (options.silent) return;
+
+      const [moved] = movedTasks;
+      historyRef.current.record(
+        {
+          label:
+            movedTasks.length === 1
+              ? `Move "${moved.task.sub_task}" to ${moved.task.bucket}`
+              : "Reorder tasks",
+          undo: () => saveTaskFields(previousPositions),
+          redo: () =>
+            saveTaskFields(
+              updates.map(({ id, bucket, sort_order }) => ({
+                id,
+                fields: { bucket, sort_order },
+              }))
+            ),
+        },
+        movedTasks.length === 1
+          ? `Moved "${moved.task.sub_task}" to ${moved.task.bucket}`
+          : "Tasks reordered"
+      );
+    };
+
     setTasks((prevTasks) =>
       prevTasks.map((task) => {
         const update = updatesMap.get(task.id);
@@ -711,17 +1366,10 @@ export const TaskProvider = ({ children }: { children: ReactNode }) => {
       const results = await Promise.all(
         updates.map((update) => {
           const payload = includeSortOrder
-            ? {
-                bucket: serializeBucket(update.bucket),
-                sort_order: update.sort_order,
-              }
-            : { bucket: serializeBucket(update.bucket) };
+            ? { bucket: update.bucket, sort_order: update.sort_order }
+            : { bucket: update.bucket };
 
-          return supabase
-            .from("tasks")
-            .update(payload)
-            .eq("id", update.id)
-            .eq("user_id", userId);
+          return queueTaskUpdate(userId, update.id, payload);
         })
       );
 
@@ -733,6 +1381,8 @@ export const TaskProvider = ({ children }: { children: ReactNode }) => {
       const firstError = results.find((result) => result.error)?.error;
       if (handleSupabaseError(firstError || null)) {
         fetchTasks(userId);
+      } else {
+        onSaved();
       }
       return;
     }
@@ -750,6 +1400,8 @@ export const TaskProvider = ({ children }: { children: ReactNode }) => {
       const fallbackError = fallback.find((result) => result.error)?.error;
       if (handleSupabaseError(fallbackError || null)) {
         fetchTasks(userId);
+      } else {
+        onSaved();
       }
       return;
     }
@@ -757,9 +1409,521 @@ export const TaskProvider = ({ children }: { children: ReactNode }) => {
     const firstError = results.find((result) => result.error)?.error;
     if (handleSupabaseError(firstError || null)) {
       fetchTasks(userId);
+    } else {
+      onSaved();
     }
   };
 
+  // Roll the buckets over to `dateKey`: Tomorrow moves to Today, tasks due
+  // today are promoted and, if the user prefers, unfinished Today tasks go
+  // back to On Hold. Runs at most once per day across tabs and the
+  // scheduled job in /api/rollover.
+  const runDailyRollover = async (dateKey: string) => {
+    if (!userId) return;
+
+    const { data: preferences, error } = await fetchUserPreferences(userId);
+    if (error || !preferences) {
+      console.error("Error loading preferences for rollover:", error);
+      return;
+    }
+
+    const { claimed, error: claimError } = await claimRolloverDate(
+      userId,
+      dateKey
+    );
+    if (claimError) {
+      console.error("Error recording rollover:", claimError);
+    }
+    if (!claimed) {
+      showScheduledRolloverSummary();
+      return;
+    }
+
+    const moves = planRollover(tasks, {
+      todayKey: dateKey,
+      unfinishedToday: preferences.unfinished_today_action,
+    });
+    if (moves.length === 0) return;
+
+    await reorderTasks(
+      moves.map(({ id, bucket, sort_order }) => ({ id, bucket, sort_order })),
+      { silent: true }
+    );
+    toast.info("New day, buckets rolled over", {
+      description: describeRollover(moves),
+    });
+  };
+
+  // The scheduled job usually rolls the day over before the board is opened;
+  // show what it moved on the first load after
+  const showScheduledRolloverSummary = async () => {
+    if (!userId) return;
+
+    const { data: summary, error } = await takeRolloverSummary(userId);
+    if (error) {
+      console.error("Error loading rollover summary:", error);
+      return;
+    }
+    if (summary) {
+      toast.info("New day, buckets rolled over", { description: summary });
+    }
+  };
+
+  // Pick up the new day when the app stays open past midnight
+  useEffect(() => {
+    const timeout = setTimeout(
+      () => setCurrentDateKey(toDateKey(new Date())),
+      getMsUntilTomorrow() + 1000
+    );
+    return () => clearTimeout(timeout);
+  }, [currentDateKey]);
+
+  // runDailyRollover changes with every render, but the rollover should only
+  // be checked when the day, the user or the loading state changes, so the
+  // effect below calls the latest one through a ref
+  const runDailyRolloverRef = useRef(runDailyRollover);
+  runDailyRolloverRef.current = runDailyRollover;
+
+  // Check for a pending rollover once tasks have loaded and whenever the
+  // date changes
+  useEffect(() => {
+    if (!userId || isLoading) return;
+    runDailyRolloverRef.current(currentDateKey);
+  }, [userId, isLoading, currentDateKey]);
+
+  const addBucket = async (name: string, color: BucketColor) => {
+    if (!userId) {
+      toast.error("You must be signed in to add buckets");
+      return;
+    }
+
+    const trimmedName = name.trim();
+    if (bucketNames.includes(trimmedName)) {
+      toast.error(`A bucket named "${trimmedName}" already exists`);
+      return;
+    }
+
+    const position =
+      customBuckets.reduce((max, bucket) => Math.max(max, bucket.position), 0) +
+      1;
+    const { data, error } = await bucketRepository.insert({
+      user_id: userId,
+      name: trimmedName,
+      color,
+      position,
+    });
+
+    if (error) {
+      console.error("Error adding bucket:", error);
+      toast.error(error.message || "Failed to add bucket");
+      return;
+    }
+
+    setCustomBuckets((prev) => [...prev, data]);
+    toast.success(`Bucket "${trimmedName}" added`);
+  };
+
+  // Update a bucket's name or color. Renaming also moves its tasks along.
+  const updateBucket = async (
+    id: string,
+    changes: { name?: string; color?: BucketColor }
+  ) => {
+    if (!userId) {
+      toast.error("You must be signed in to edit buckets");
+      return;
+    }
+
+    const bucket = customBuckets.find((b) => b.id === id);
+    if (!bucket) return;
+
+    const newName = changes.name?.trim();
+    const isRename = newName !== undefined && newName !== bucket.name;
+    if (isRename && bucketNames.includes(newName)) {
+      toast.error(`A bucket named "${newName}" already exists`);
+      return;
+    }
+
+    const { data, error } = await bucketRepository.update(userId, id, {
+      ...changes,
+      ...(newName !== undefined ? { name: newName } : {}),
+    });
+
+    if (error) {
+      console.error("Error updating bucket:", error);
+      toast.error(error.message || "Failed to update bucket");
+      return;
+    }
+
+    if (isRename) {
+      const { error: tasksError } = await taskRepository.updateWhere(
+        userId,
+        { bucket: bucket.name },
+        { bucket: newName }
+      );
+
+      if (handleSupabaseError(tasksError)) {
+        fetchTasks(userId);
+        return;
+      }
+      setTasks((prev) =>
+        prev.map((task) =>
+          task.bucket === bucket.name ? { ...task, bucket: newName } : task
+        )
+      );
+    }
+
+    setCustomBuckets((prev) => prev.map((b) => (b.id === id ? data : b)));
+  };
+
+  // Delete a bucket, moving its active tasks to the bottom of On Hold.
+  // Archived and trashed tasks move to On Hold too, so none are left in a
+  // bucket that no longer exists.
+  const deleteBucket = async (id: string) => {
+    if (!userId) {
+      toast.error("You must be signed in to delete buckets");
+      return;
+    }
+
+    const bucket = customBuckets.find((b) => b.id === id);
+    if (!bucket) return;
+
+    const bucketTasks = tasks.filter((task) => task.bucket === bucket.name);
+    if (bucketTasks.length > 0) {
+      const maxSortOrder = tasks
+        .filter((task) => task.bucket === "On Hold")
+        .reduce((max, task) => Math.max(max, task.sort_order ?? 0), 0);
+      await reorderTasks(
+        bucketTasks.map((task, index) => ({
+          id: task.id,
+          bucket: "On Hold",
+          sort_order: maxSortOrder + index + 1,
+        }))
+      );
+    }
+
+    const { error: tasksError } = await taskRepository.updateWhere(
+      userId,
+      { bucket: bucket.name },
+      { bucket: "On Hold" }
+    );
+
+    if (handleSupabaseError(tasksError)) return;
+    setCompletedTasks((prev) =>
+      prev.map((task) =>
+        task.bucket === bucket.name ? { ...task, bucket: "On Hold" } : task
+      )
+    );
+
+    const { error } = await bucketRepository.delete(userId, id);
+
+    if (handleSupabaseError(error)) return;
+
+    setCustomBuckets((prev) => prev.filter((b) => b.id !== id));
+    toast.success(
+      bucketTasks.length > 0
+        ? `Bucket "${bucket.name}" deleted; its tasks moved to On Hold`
+        : `Bucket "${bucket.name}" deleted`
+    );
+  };
+
+  // Swap a bucket with its neighbour in the display order
+  const moveBucket = async (id: string, direction: -1 | 1) => {
+    if (!userId) return;
+
+    const ordered = [...customBuckets].sort((a, b) => a.position - b.position);
+    const index = ordered.findIndex((b) => b.id === id);
+    const neighbour = ordered[index + direction];
+    if (index === -1 || !neighbour) return;
+
+    const current = ordered[index];
+    const updates = [
+      { id: current.id, position: neighbour.position },
+      { id: neighbour.id, position: current.position },
+    ];
+    // Buckets created in the same batch may share a position
+    if (current.position === neighbour.position) {
+      updates[0].position = neighbour.position + direction;
+    }
+
+    setCustomBuckets((prev) =>
+      prev.map((b) => {
+        const update = updates.find((u) => u.id === b.id);
+        return update ? { ...b, position: update.position } : b;
+      })
+    );
+
+    const results = await Promise.all(
+      updates.map((update) =>
+        bucketRepository.update(userId, update.id, {
+          position: update.position,
+        })
+      )
+    );
+    const firstError = results.find((result) => result.error)?.error;
+    if (handleSupabaseError(firstError || null)) {
+      fetchBuckets(userId);
+    }
+  };
+
+  // Replace the list of tasks that block a task, refusing changes that would
+  // create a dependency cycle
+  const updateBlockedBy = async (taskId: string, blockedBy: string[]) => {
+    if (!userId) {
+      toast.error("You must be signed in to update task dependencies");
+      return;
+    }
+
+    const task = tasks.find((t) => t.id === taskId);
+    if (!task) {
+      console.error("Task not found for dependency update:", taskId);
+      return;
+    }
+
+    const cycle = findDependencyCycle(tasks, taskId, blockedBy);
+    if (cycle) {
+      toast.error("That would create a dependency cycle", {
+        description: describeCycle(cycle, tasks),
+      });
+      return;
+    }
+
+    setTasks((prevTasks) =>
+      prevTasks.map((t) =>
+        t.id === taskId ? { ...t, blocked_by: blockedBy } : t
+      )
+    );
+
+    const { error } = await queueTaskUpdate(userId, taskId, {
+      blocked_by: blockedBy,
+    });
+
+    if (handleSupabaseError(error)) {
+      setTasks((prevTasks) =>
+        prevTasks.map((t) =>
+          t.id === taskId ? { ...t, blocked_by: task.blocked_by } : t
+        )
+      );
+    }
+  };
+
+  // Record time spent on a task; stretches too short to matter are dropped
+  const logTimeEntry = async (
+    taskId: string,
+    startedAt: Date,
+    durationSeconds: number
+  ) => {
+    if (!userId) {
+      toast.error("You must be signed in to track time");
+      return;
+    }
+    if (durationSeconds < MIN_ENTRY_SECONDS) return;
+
+    const { data, error } = await timeEntryRepository.insert({
+      user_id: userId,
+      task_id: taskId,
+      ...buildEntryTimes(startedAt, durationSeconds),
+    });
+
+    if (handleSupabaseError(error)) return;
+    setTimeEntries((prev) => [...prev, data]);
+  };
+
+  const updateTimeEntry = async (
+    id: string,
+    startedAt: Date,
+    durationSeconds: number
+  ) => {
+    if (!userId) {
+      toast.error("You must be signed in to track time");
+      return;
+    }
+
+    const { data, error } = await timeEntryRepository.update(
+      userId,
+      id,
+      buildEntryTimes(startedAt, durationSeconds)
+    );
+
+    if (handleSupabaseError(error)) return;
+    setTimeEntries((prev) =>
+      prev.map((entry) => (entry.id === id ? data : entry))
+    );
+  };
+
+  const deleteTimeEntry = async (id: string) => {
+    if (!userId) {
+      toast.error("You must be signed in to track time");
+      return;
+    }
+
+    const { error } = await timeEntryRepository.delete(userId, id);
+
+    if (handleSupabaseError(error)) return;
+    setTimeEntries((prev) => prev.filter((entry) => entry.id !== id));
+  };
+
+  // The project called `name`, matched regardless of case, creating it if
+  // needed. Returns null if the projects table can't be used.
+  const ensureProject = async (name: string) => {
+    const existing = findProjectByName(projects, name);
+    if (existing) {
+      if (existing.is_archived) {
+        await updateProject(existing.id, { is_archived: false });
+      }
+      return existing;
+    }
+    return addProject({ name, color: DEFAULT_PROJECT_COLOR }, { silent: true });
+  };
+
+  const addProject = async (
+    input: Pick<Project, "name" | "color"> & { description?: string | null },
+    { silent = false }: { silent?: boolean } = {}
+  ) => {
+    if (!userId) {
+      toast.error("You must be signed in to add projects");
+      return null;
+    }
+
+    const name = input.name.trim();
+    if (findProjectByName(projects, name)) {
+      toast.error(`A project named "${name}" already exists`);
+      return null;
+    }
+
+    const { data, error } = await projectRepository.insert({
+      user_id: userId,
+      name,
+      color: input.color,
+      description: input.description?.trim() || null,
+    });
+
+    if (error) {
+      console.error("Error adding project:", error);
+      if (!silent) {
+        toast.error(error.message || "Failed to add project");
+      }
+      return null;
+    }
+
+    setProjects((prev) =>
+      [...prev, data].sort((a, b) => a.name.localeCompare(b.name))
+    );
+    if (!silent) {
+      toast.success(`Project "${name}" added`);
+    }
+    return data;
+  };
+
+  // Update a project. Renaming also rewrites the main_task copy on its tasks.
+  const updateProject = async (
+    id: string,
+    changes: Partial<
+      Pick<Project, "name" | "color" | "description" | "is_archived">
+    >
+  ) => {
+    if (!userId) {
+      toast.error("You must be signed in to edit projects");
+      return;
+    }
+
+    const project = projects.find((p) => p.id === id);
+    if (!project) return;
+
+    const newName = changes.name?.trim();
+    const isRename = newName !== undefined && newName !== project.name;
+    const duplicate = isRename && findProjectByName(projects, newName);
+    if (duplicate && duplicate.id !== id) {
+      toast.error(`A project named "${newName}" already exists`);
+      return;
+    }
+
+    const { data, error } = await projectRepository.update(userId, id, {
+      ...changes,
+      ...(newName !== undefined ? { name: newName } : {}),
+    });
+
+    if (error) {
+      console.error("Error updating project:", error);
+      toast.error(error.message || "Failed to update project");
+      return;
+    }
+
+    if (isRename) {
+      const { error: tasksError } = await taskRepository.updateWhere(
+        userId,
+        { project_id: id },
+        { main_task: newName }
+      );
+
+      if (handleSupabaseError(tasksError)) {
+        fetchTasks(userId);
+      } else {
+        const rename = (task: Task) =>
+          task.project_id === id ? { ...task, main_task: newName } : task;
+        setTasks((prev) => prev.map(rename));
+        setCompletedTasks((prev) => prev.map(rename));
+      }
+    }
+
+    setProjects((prev) =>
+      prev
+        .map((p) => (p.id === id ? data : p))
+        .sort((a, b) => a.name.localeCompare(b.name))
+    );
+  };
+
+  // Rename or merge projects (by id) or categories into `to`, across active
+  // and archived tasks. Returns the id of the recorded edit.
+  const mergeGroups = async (
+    kind: BulkEditKind,
+    from: string[],
+    to: string
+  ) => {
+    if (!userId) {
+      toast.error("You must be signed in to rename or merge");
+      return null;
+    }
+
+    const { data: editId, error } = await applyBulkEdit(
+      userId,
+      kind,
+      from,
+      to
+    );
+    if (error) {
+      console.error("Error merging:", error);
+      toast.error(error.message || "Failed to apply the change");
+      return null;
+    }
+
+    await Promise.all([fetchTasks(userId), fetchCompletedTasks(userId)]);
+    toast.success(
+      from.length > 1
+        ? `Merged ${from.length} ${kind === "project" ? "projects" : "categories"} into "${to.trim()}"`
+        : `Renamed to "${to.trim()}"`,
+      {
+        action: editId
+          ? { label: "Undo", onClick: () => undoMerge(editId) }
+          : undefined,
+      }
+    );
+    return editId;
+  };
+
+  const undoMerge = async (editId: string) => {
+    if (!userId) return;
+
+    const { error } = await undoBulkEdit(userId, editId);
+    if (error) {
+      console.error("Error undoing merge:", error);
+      toast.error(error.message || "Failed to undo the change");
+      return;
+    }
+
+    await Promise.all([fetchTasks(userId), fetchCompletedTasks(userId)]);
+    toast.success("Change undone");
+  };
+
   const value = {
     tasks,
     completedTasks,
@@ -775,18 +1939,42 @@ export const TaskProvider = ({ children }: { children: ReactNode }) => {
     toggleTaskCompletion,
     updateTaskImportance,
     updateSubTask,
+    updateBlockedBy,
+    timeEntries,
+    logTimeEntry,
+    updateTimeEntry,
+    deleteTimeEntry,
     reorderTasks,
+    undo: () => historyRef.current.undo(),
+    redo: () => historyRef.current.redo(),
     fetchCompletedTasks,
+    customBuckets,
+    bucketNames,
+    addBucket,
+    updateBucket,
+    deleteBucket,
+    moveBucket,
+    projects,
+    addProject,
+    updateProject,
+    mergeGroups,
+    undoMerge,
     userId,
   };
 
   return <TaskContext.Provider value={value}>{children}</TaskContext.Provider>;
 };
 
-export const useTaskContext = () => {
+// Components shown on pages both with and without a TaskProvider, such as
+// those in the navigation bar, pass `optional` to get undefined outside one
+export function useTaskContext(): TaskContextType;
+export function useTaskContext(options: {
+  optional: true;
+}): TaskContextType | undefined;
+export function useTaskContext({ optional = false } = {}) {
   const context = useContext(TaskContext);
-  if (context === undefined) {
+  if (context === undefined && !optional) {
     throw new Error("useTaskContext must be used within a TaskProvider");
   }
   return context;
-};
+}
@@ -0,0 +1,39 @@
+// API keys are only shown once, at creation. The database keeps a visible
+// prefix plus a salted SHA-256 hash, computed as
+// sha256(`${salt}:${token}`) in hex. api/_lib/auth.mjs verifies incoming keys
+// with the same formula, so both sides must change together.
+
+const TOKEN_PREFIX = "tdo_";
+
+// Number of leading characters stored in plaintext to look a key up
+export const API_KEY_PREFIX_LENGTH = 12;
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+const randomHex = (byteLength: number) =>
+  toHex(self.crypto.getRandomValues(new Uint8Array(byteLength)));
+
+export const getApiKeyPrefix = (token: string) =>
+  token.slice(0, API_KEY_PREFIX_LENGTH);
+
+export const hashApiKey = async (token: string, salt: string) => {
+  const digest = await self.crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(`${salt}:${token}`)
+  );
+  return toHex(new Uint8Array(digest));
+};
+
+// Create a new key and the values to persist for it
+export const generateApiKey = async () => {
+  const token = `${TOKEN_PREFIX}${randomHex(4)}_${randomHex(16)}`;
+  const salt = randomHex(16);
+
+  return {
+    token,
+    token_prefix: getApiKeyPrefix(token),
+    token_salt: salt,
+    token_hash: await hashApiKey(token, salt),
+  };
+};
@@ -0,0 +1,20 @@
+// Permission scopes an API key can carry, shared by ApiKeysPage and the API
+// handlers in /api.
+
+export const API_SCOPES = [
+  { value: "tasks:read", label: "Read tasks" },
+  { value: "tasks:create", label: "Create tasks" },
+  { value: "tasks:write", label: "Update, move and complete tasks" },
+  { value: "tasks:delete", label: "Delete tasks" },
+  { value: "notes:read", label: "Read notes" },
+  { value: "notes:write", label: "Create and edit notes" },
+];
+
+// Preselected when generating a new key
+export const DEFAULT_API_SCOPES = ["tasks:read", "tasks:create"];
+
+export const hasScope = (scopes, scope) =>
+  Array.isArray(scopes) && scopes.includes(scope);
+
+export const isApiKeyExpired = (expiresAt, now = new Date()) =>
+  !!expiresAt && new Date(expiresAt).getTime() <= now.getTime();
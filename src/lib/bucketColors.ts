@@ -0,0 +1,45 @@
+import { BucketColor } from "@/types";
+
+// Tailwind classes for each custom bucket color. Kept as full class names so
+// Tailwind picks them up.
+export const BUCKET_COLOR_CLASSES: Record<
+  BucketColor,
+  { label: string; swatch: string; accent: string; badge: string }
+> = {
+  slate: {
+    label: "Slate",
+    swatch: "bg-slate-400",
+    accent: "border-t-4 border-t-slate-300",
+    badge: "bg-slate-50 text-slate-700 border-slate-200",
+  },
+  blue: {
+    label: "Blue",
+    swatch: "bg-blue-400",
+    accent: "border-t-4 border-t-blue-300",
+    badge: "bg-blue-50 text-blue-700 border-blue-200",
+  },
+  violet: {
+    label: "Violet",
+    swatch: "bg-violet-400",
+    accent: "border-t-4 border-t-violet-300",
+    badge: "bg-violet-50 text-violet-700 border-violet-200",
+  },
+  emerald: {
+    label: "Emerald",
+    swatch: "bg-emerald-400",
+    accent: "border-t-4 border-t-emerald-300",
+    badge: "bg-emerald-50 text-emerald-700 border-emerald-200",
+  },
+  amber: {
+    label: "Amber",
+    swatch: "bg-amber-400",
+    accent: "border-t-4 border-t-amber-300",
+    badge: "bg-amber-50 text-amber-700 border-amber-200",
+  },
+  rose: {
+    label: "Rose",
+    swatch: "bg-rose-400",
+    accent: "border-t-4 border-t-rose-300",
+    badge: "bg-rose-50 text-rose-700 border-rose-200",
+  },
+};
@@ -0,0 +1,70 @@
+// Bucket configuration shared by TaskContext, the task UI and the API handlers
+// in /api. Every user has the three built-in buckets; custom buckets are
+// stored per user in the task_buckets table and referenced by name from
+// tasks.bucket.
+import { z } from "zod";
+
+export const BUILT_IN_BUCKETS = /** @type {const} */ ([
+  "On Hold",
+  "Today",
+  "Tomorrow",
+]);
+
+// Values written by older versions of the app; they all mean "On Hold"
+export const LEGACY_ON_HOLD_BUCKETS = ["Short-Term", "Mid-Term", "Long-Term"];
+
+export const BUCKET_COLORS = /** @type {const} */ ([
+  "slate",
+  "blue",
+  "violet",
+  "emerald",
+  "amber",
+  "rose",
+]);
+
+export const DEFAULT_BUCKET_COLOR = "slate";
+
+export const MAX_BUCKET_NAME_LENGTH = 50;
+
+export const bucketNameSchema = z
+  .string()
+  .trim()
+  .min(1, { message: "Bucket is required" })
+  .max(MAX_BUCKET_NAME_LENGTH, {
+    message: `Bucket names can be at most ${MAX_BUCKET_NAME_LENGTH} characters`,
+  });
+
+export const bucketConfigSchema = z.object({
+  name: bucketNameSchema.refine(
+    (name) =>
+      !BUILT_IN_BUCKETS.includes(name) && !LEGACY_ON_HOLD_BUCKETS.includes(name),
+    { message: "That name is reserved" }
+  ),
+  color: z.enum(BUCKET_COLORS),
+});
+
+export const isBuiltInBucket = (bucket) => BUILT_IN_BUCKETS.includes(bucket);
+
+// Every bucket name a user can file tasks under, in display order: On Hold,
+// the custom buckets by position, then Today and Tomorrow
+export const getBucketNames = (customBuckets = []) => [
+  "On Hold",
+  ...[...customBuckets]
+    .sort((a, b) => a.position - b.position)
+    .map((bucket) => bucket.name),
+  "Today",
+  "Tomorrow",
+];
+
+// Map a stored bucket value onto a bucket the user has. Legacy values become
+// "On Hold"; when `knownBuckets` is given, so do names that are no longer
+// configured, so their tasks don't disappear from the board.
+export const normalizeBucket = (bucket, knownBuckets) => {
+  if (!bucket || LEGACY_ON_HOLD_BUCKETS.includes(bucket)) {
+    return "On Hold";
+  }
+  if (knownBuckets && !knownBuckets.includes(bucket)) {
+    return "On Hold";
+  }
+  return bucket;
+};
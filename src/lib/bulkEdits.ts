@@ -0,0 +1,101 @@
+import { BulkEditKind } from "@/types";
+import { bulkEditRepository } from "@/lib/repositories";
+
+export interface BulkEditUsage {
+  value: string; // Project id or category
+  active: number;
+  archived: number;
+}
+
+export interface BulkEditPreview {
+  active: number;
+  archived: number;
+  goals: number;
+  samples: string[]; // A few affected sub_task names
+}
+
+const SAMPLE_SIZE = 5;
+
+// How many active and archived tasks use each project or category, archived
+// tasks of any age included
+export const fetchBulkEditUsage = async (
+  userId: string,
+  kind: BulkEditKind
+) => {
+  const { data, error } = await bulkEditRepository.listTaskGroups(
+    userId,
+    kind
+  );
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  const usage = new Map<string, BulkEditUsage>();
+  data.forEach((row) => {
+    const entry = usage.get(row.value) ?? {
+      value: row.value,
+      active: 0,
+      archived: 0,
+    };
+    if (row.is_archived) {
+      entry.archived += 1;
+    } else {
+      entry.active += 1;
+    }
+    usage.set(row.value, entry);
+  });
+  return { data: Array.from(usage.values()), error: null };
+};
+
+// What merging `from` would touch: tasks (active and archived) and, for
+// projects, the Today progress goals keyed by them
+export const previewBulkEdit = async (
+  userId: string,
+  kind: BulkEditKind,
+  from: string[]
+) => {
+  const { data: tasks, error } = await bulkEditRepository.listTaskGroups(
+    userId,
+    kind,
+    from
+  );
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  let goals = 0;
+  if (kind === "project") {
+    const { data: count, error: goalsError } =
+      await bulkEditRepository.countProjectGoals(userId, from);
+
+    if (goalsError) {
+      return { data: null, error: goalsError };
+    }
+    goals = count;
+  }
+
+  const preview: BulkEditPreview = {
+    active: tasks.filter((task) => !task.is_archived).length,
+    archived: tasks.filter((task) => task.is_archived).length,
+    goals,
+    samples: tasks.slice(0, SAMPLE_SIZE).map((task) => task.sub_task),
+  };
+  return { data: preview, error: null };
+};
+
+// Merge categories or projects into `to` in one database call (see
+// add_bulk_edits.sql). Returns the id of the recorded edit for undo.
+export const applyBulkEdit = (
+  userId: string,
+  kind: BulkEditKind,
+  from: string[],
+  to: string
+) => bulkEditRepository.apply(userId, kind, from, to);
+
+export const undoBulkEdit = (userId: string, id: string) =>
+  bulkEditRepository.undo(userId, id);
+
+export const fetchRecentBulkEdits = (userId: string, limit = 5) =>
+  bulkEditRepository.listRecent(userId, limit);
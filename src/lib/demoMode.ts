@@ -0,0 +1,24 @@
+import { Session } from "@supabase/supabase-js";
+
+// With VITE_DATA_BACKEND=memory the app runs without a Supabase project:
+// tasks, notes, goals and API keys live in memory (see
+// src/lib/repositories) and everyone is signed in as the demo user.
+// Nothing is kept after a reload.
+export const isDemoMode = import.meta.env.VITE_DATA_BACKEND === "memory";
+
+export const DEMO_USER_ID = "00000000-0000-4000-8000-000000000000";
+
+export const DEMO_SESSION = {
+  access_token: "demo",
+  refresh_token: "demo",
+  expires_in: 3600,
+  token_type: "bearer",
+  user: {
+    id: DEMO_USER_ID,
+    email: "demo@example.com",
+    app_metadata: {},
+    user_metadata: {},
+    aud: "authenticated",
+    created_at: new Date(0).toISOString(),
+  },
+} as Session;
@@ -0,0 +1,64 @@
+// Task dependencies, shared by TaskContext, the task UI and the API handlers
+// in /api. A task lists the ids of the tasks that block it in `blocked_by`;
+// completing a blocker removes it from its dependents' lists.
+import { z } from "zod";
+
+export const MAX_BLOCKERS = 20;
+
+export const blockedBySchema = z
+  .array(z.string().uuid({ message: "Blocking tasks must be task ids" }))
+  .max(MAX_BLOCKERS, {
+    message: `A task can be blocked by at most ${MAX_BLOCKERS} tasks`,
+  });
+
+// Active tasks in `tasks` that still block `task`
+export const getBlockers = (task, tasks) => {
+  const blockedBy = task.blocked_by || [];
+  if (blockedBy.length === 0) return [];
+  return tasks.filter(
+    (candidate) =>
+      blockedBy.includes(candidate.id) &&
+      !candidate.completed &&
+      !candidate.is_archived
+  );
+};
+
+export const isTaskBlocked = (task, tasks) =>
+  getBlockers(task, tasks).length > 0;
+
+// Tasks whose `blocked_by` lists `taskId`
+export const getDependents = (taskId, tasks) =>
+  tasks.filter((task) => (task.blocked_by || []).includes(taskId));
+
+// The dependency cycle that giving `taskId` the blockers `blockedBy` would
+// create, as a list of task ids starting and ending with `taskId`, or null
+// when there is none.
+export const findDependencyCycle = (tasks, taskId, blockedBy) => {
+  const edges = new Map(tasks.map((task) => [task.id, task.blocked_by || []]));
+  edges.set(taskId, blockedBy);
+
+  const visited = new Set();
+  const search = (id, path) => {
+    if (id === taskId) return [...path, id];
+    if (visited.has(id)) return null;
+    visited.add(id);
+
+    for (const next of edges.get(id) || []) {
+      const cycle = search(next, [...path, id]);
+      if (cycle) return cycle;
+    }
+    return null;
+  };
+
+  for (const blockerId of blockedBy) {
+    const cycle = search(blockerId, [taskId]);
+    if (cycle) return cycle;
+  }
+  return null;
+};
+
+// "A → B → A" using sub_task names, for error messages
+export const describeCycle = (cycle, tasks) => {
+  const names = new Map(tasks.map((task) => [task.id, task.sub_task]));
+  return cycle.map((id) => names.get(id) || id).join(" → ");
+};
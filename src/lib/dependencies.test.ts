@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { Task } from "@/types";
+import {
+  describeCycle,
+  findDependencyCycle,
+  getBlockers,
+  getDependents,
+  isTaskBlocked,
+} from "@/lib/dependencies";
+
+const makeTask = (id: string, fields: Partial<Task> = {}): Task => ({
+  id,
+  user_id: "user-1",
+  sub_task: `Task ${id}`,
+  main_task: "Website",
+  project_id: null,
+  category: "Work",
+  importance: "Medium",
+  bucket: "Today",
+  is_archived: false,
+  completed: false,
+  blocked_by: [],
+  created_at: "2024-03-01T09:00:00.000Z",
+  updated_at: "2024-03-01T09:00:00.000Z",
+  ...fields,
+});
+
+describe("findDependencyCycle", () => {
+  it("finds a direct cycle", () => {
+    const tasks = [makeTask("a"), makeTask("b", { blocked_by: ["a"] })];
+
+    const cycle = findDependencyCycle(tasks, "a", ["b"]);
+    expect(cycle).toEqual(["a", "b", "a"]);
+    expect(describeCycle(cycle, tasks)).toBe("Task a → Task b → Task a");
+  });
+
+  it("finds an indirect cycle", () => {
+    const tasks = [
+      makeTask("a"),
+      makeTask("b", { blocked_by: ["c"] }),
+      makeTask("c", { blocked_by: ["a"] }),
+    ];
+
+    expect(findDependencyCycle(tasks, "a", ["b"])).toEqual([
+      "a",
+      "b",
+      "c",
+      "a",
+    ]);
+  });
+
+  it("treats a task blocking itself as a cycle", () => {
+    const tasks = [makeTask("a")];
+
+    expect(findDependencyCycle(tasks, "a", ["a"])).toEqual(["a", "a"]);
+  });
+
+  it("allows chains and shared blockers that don't loop back", () => {
+    const tasks = [
+      makeTask("a"),
+      makeTask("b", { blocked_by: ["c"] }),
+      makeTask("c"),
+      makeTask("d", { blocked_by: ["c"] }),
+    ];
+
+    expect(findDependencyCycle(tasks, "a", ["b", "d"])).toBeNull();
+  });
+
+  it("uses the new blockers instead of the task's saved ones", () => {
+    // a is saved as blocked by b, but is being changed to depend on nothing
+    const tasks = [
+      makeTask("a", { blocked_by: ["b"] }),
+      makeTask("b", { blocked_by: ["a"] }),
+    ];
+
+    expect(findDependencyCycle(tasks, "a", [])).toBeNull();
+  });
+});
+
+describe("blocked tasks", () => {
+  const tasks = [
+    makeTask("open"),
+    makeTask("done", { completed: true }),
+    makeTask("archived", { completed: true, is_archived: true }),
+    makeTask("waiting", { blocked_by: ["open", "done", "missing"] }),
+    makeTask("unblocked", { blocked_by: ["done", "archived"] }),
+  ];
+
+  it("is blocked only by blockers that are still open", () => {
+    const [, , , waiting, unblocked] = tasks;
+
+    expect(getBlockers(waiting, tasks).map((task) => task.id)).toEqual([
+      "open",
+    ]);
+    expect(isTaskBlocked(waiting, tasks)).toBe(true);
+    expect(getBlockers(unblocked, tasks)).toEqual([]);
+    expect(isTaskBlocked(unblocked, tasks)).toBe(false);
+  });
+
+  it("isn't blocked without blockers", () => {
+    expect(
+      isTaskBlocked(makeTask("free", { blocked_by: undefined }), tasks)
+    ).toBe(false);
+  });
+
+  it("lists the tasks waiting on a blocker", () => {
+    expect(getDependents("done", tasks).map((task) => task.id)).toEqual([
+      "waiting",
+      "unblocked",
+    ]);
+    expect(getDependents("waiting", tasks)).toEqual([]);
+  });
+});
@@ -0,0 +1,53 @@
+// Due date helpers shared by TaskContext, the task UI and the API handlers in
+// /api. `due_at` is stored as a timestamp; picking a date in the form sets it
+// to the end of that local day, so a task is overdue once its day has passed.
+import {
+  parseDateKey,
+  toDateKey,
+  toDateKeyInTimeZone,
+} from "./recurrence.js";
+
+// Tasks due within this many hours are flagged as due soon
+export const DUE_SOON_HOURS = 24;
+
+// End of the local day for a "yyyy-MM-dd" key, as an ISO timestamp
+export const toDueAt = (dateKey) => {
+  const date = parseDateKey(dateKey);
+  date.setHours(23, 59, 59, 999);
+  return date.toISOString();
+};
+
+// "yyyy-MM-dd" key of a `due_at` timestamp, in the local zone unless a
+// `timeZone` is given
+export const getDueDateKey = (dueAt, timeZone) => {
+  if (!dueAt) return "";
+  return timeZone
+    ? toDateKeyInTimeZone(new Date(dueAt), timeZone)
+    : toDateKey(new Date(dueAt));
+};
+
+/** @returns {"overdue" | "due-soon" | "upcoming" | null} */
+export const getDueStatus = (task, now = new Date()) => {
+  if (!task.due_at || task.completed) {
+    return null;
+  }
+
+  const msUntilDue = new Date(task.due_at).getTime() - now.getTime();
+  if (msUntilDue < 0) return "overdue";
+  if (msUntilDue <= DUE_SOON_HOURS * 60 * 60 * 1000) return "due-soon";
+  return "upcoming";
+};
+
+export const isTaskOverdue = (task, now = new Date()) =>
+  getDueStatus(task, now) === "overdue";
+
+// Whether the task is due on the day `dateKey` or was due before it, so days
+// nobody opened the app aren't skipped over. Recurring occurrences scheduled
+// for those days count as due too.
+export const isTaskDueBy = (task, dateKey, timeZone) => {
+  const dueDateKey = getDueDateKey(task.due_at, timeZone);
+  return (
+    (!!dueDateKey && dueDateKey <= dateKey) ||
+    (!!task.occurrence_date && task.occurrence_date <= dateKey)
+  );
+};
@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import { Task } from "@/types";
+import {
+  getEstimateAccuracy,
+  getRunningBias,
+  isMeasuredTask,
+} from "@/lib/estimateAccuracy";
+import { UNGROUPED_TASK_KEY } from "@/lib/taskOrder";
+
+const makeTask = (id: string, fields: Partial<Task> = {}): Task => ({
+  id,
+  user_id: "user-1",
+  sub_task: `Task ${id}`,
+  project_id: null,
+  category: "Work",
+  importance: "Medium",
+  bucket: "Today",
+  is_archived: true,
+  completed: true,
+  completed_at: "2024-01-01T12:00:00.000Z",
+  created_at: "2024-01-01T00:00:00.000Z",
+  updated_at: "2024-01-01T00:00:00.000Z",
+  time_estimate: 30,
+  tracked_minutes: 30,
+  ...fields,
+});
+
+describe("isMeasuredTask", () => {
+  it("needs a completed task with an estimate and tracked time", () => {
+    expect(isMeasuredTask(makeTask("a"))).toBe(true);
+    expect(isMeasuredTask(makeTask("b", { time_estimate: 0 }))).toBe(false);
+    expect(isMeasuredTask(makeTask("c", { tracked_minutes: null }))).toBe(
+      false
+    );
+    expect(isMeasuredTask(makeTask("d", { completed: false }))).toBe(false);
+  });
+});
+
+describe("getEstimateAccuracy", () => {
+  const tasks = [
+    makeTask("a1", {
+      category: "Admin",
+      time_estimate: 10,
+      tracked_minutes: 20,
+    }),
+    makeTask("a2", {
+      category: "Admin",
+      time_estimate: 20,
+      tracked_minutes: 30,
+    }),
+    makeTask("a3", {
+      category: "Admin",
+      time_estimate: 30,
+      tracked_minutes: 40,
+    }),
+    makeTask("w1", {
+      category: "Work",
+      time_estimate: 60,
+      tracked_minutes: 30,
+    }),
+    makeTask("skip", { category: "Work", tracked_minutes: null }),
+  ];
+
+  it("sums estimated and tracked minutes per group, most tasks first", () => {
+    const [admin, work] = getEstimateAccuracy(tasks, "category");
+
+    expect(admin).toMatchObject({
+      key: "Admin",
+      tasks: 3,
+      estimatedMinutes: 60,
+      actualMinutes: 90,
+      bias: 0.5,
+    });
+    expect(work).toMatchObject({
+      key: "Work",
+      tasks: 1,
+      estimatedMinutes: 60,
+      actualMinutes: 30,
+      bias: -0.5,
+    });
+  });
+
+  it("averages each task's miss", () => {
+    const [admin] = getEstimateAccuracy(tasks, "category");
+
+    expect(admin.averageMiss).toBeCloseTo((1 + 0.5 + 1 / 3) / 3);
+  });
+
+  it("only suggests a multiplier with enough tasks, rounded to 0.05", () => {
+    const [admin, work] = getEstimateAccuracy(tasks, "category");
+
+    expect(admin.suggestedMultiplier).toBe(1.5);
+    expect(work.suggestedMultiplier).toBeNull();
+  });
+
+  it("groups by project and importance", () => {
+    const grouped = [
+      makeTask("p", { project_id: "project-1", importance: "High" }),
+      makeTask("q", { importance: "High" }),
+    ];
+
+    expect(
+      getEstimateAccuracy(grouped, "project").map((row) => row.key)
+    ).toEqual([UNGROUPED_TASK_KEY, "project-1"]);
+    expect(
+      getEstimateAccuracy(grouped, "importance").map((row) => row.key)
+    ).toEqual(["High"]);
+  });
+});
+
+describe("getRunningBias", () => {
+  it("tracks each group's bias so far, one point per day", () => {
+    const tasks = [
+      makeTask("a1", {
+        category: "Admin",
+        completed_at: "2024-01-01T12:00:00.000Z",
+        time_estimate: 10,
+        tracked_minutes: 20,
+      }),
+      makeTask("w1", {
+        category: "Work",
+        completed_at: "2024-01-02T12:00:00.000Z",
+        time_estimate: 40,
+        tracked_minutes: 20,
+      }),
+      makeTask("a2", {
+        category: "Admin",
+        completed_at: "2024-01-02T13:00:00.000Z",
+        time_estimate: 30,
+        tracked_minutes: 30,
+      }),
+      makeTask("other", { category: "Other" }),
+    ];
+
+    expect(getRunningBias(tasks, "category", ["Admin", "Work"])).toEqual([
+      { date: "2024-01-01", Admin: 1 },
+      { date: "2024-01-02", Admin: 0.25, Work: -0.5 },
+    ]);
+  });
+});
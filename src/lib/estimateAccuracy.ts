@@ -0,0 +1,129 @@
+import { Task } from "@/types";
+import { getTaskGroupKey } from "@/lib/taskOrder";
+import { format, parseISO } from "date-fns";
+
+// What estimate accuracy can be broken down by
+export type AccuracyDimension = "category" | "project" | "importance";
+
+// Groups with fewer measured tasks than this get no suggested multiplier
+export const MIN_TASKS_FOR_MULTIPLIER = 3;
+
+export interface EstimateAccuracy {
+  key: string;
+  tasks: number;
+  estimatedMinutes: number;
+  actualMinutes: number;
+  // (actual - estimated) / estimated: above 0 means underestimated
+  bias: number;
+  // Average of each task's miss, whichever way: 0.5 means tasks were off by
+  // half their estimate on average
+  averageMiss: number;
+  // What to multiply estimates by to match what tasks took, once there are
+  // enough tasks to go on
+  suggestedMultiplier: number | null;
+}
+
+// Completed tasks with both an estimate and tracked time
+export const isMeasuredTask = (task: Task) =>
+  task.completed && task.time_estimate > 0 && task.tracked_minutes > 0;
+
+export const getAccuracyKey = (task: Task, dimension: AccuracyDimension) => {
+  switch (dimension) {
+    case "category":
+      return task.category;
+    case "importance":
+      return task.importance;
+    case "project":
+      return getTaskGroupKey(task);
+  }
+};
+
+// Multipliers are rounded to the nearest 0.05 so they're easy to apply
+const roundMultiplier = (value: number) => Math.round(value * 20) / 20;
+
+const summarize = (key: string, tasks: Task[]): EstimateAccuracy => {
+  const estimatedMinutes = tasks.reduce(
+    (sum, task) => sum + task.time_estimate,
+    0
+  );
+  const actualMinutes = tasks.reduce(
+    (sum, task) => sum + task.tracked_minutes,
+    0
+  );
+  const averageMiss =
+    tasks.reduce(
+      (sum, task) =>
+        sum +
+        Math.abs(task.tracked_minutes - task.time_estimate) /
+          task.time_estimate,
+      0
+    ) / tasks.length;
+
+  return {
+    key,
+    tasks: tasks.length,
+    estimatedMinutes,
+    actualMinutes,
+    bias: (actualMinutes - estimatedMinutes) / estimatedMinutes,
+    averageMiss,
+    suggestedMultiplier:
+      tasks.length >= MIN_TASKS_FOR_MULTIPLIER
+        ? roundMultiplier(actualMinutes / estimatedMinutes)
+        : null,
+  };
+};
+
+// Accuracy of the measured tasks per group, most tasks first
+export const getEstimateAccuracy = (
+  tasks: Task[],
+  dimension: AccuracyDimension
+) => {
+  const groups = new Map<string, Task[]>();
+  tasks.filter(isMeasuredTask).forEach((task) => {
+    const key = getAccuracyKey(task, dimension);
+    groups.set(key, [...(groups.get(key) ?? []), task]);
+  });
+
+  return Array.from(groups.entries())
+    .map(([key, groupTasks]) => summarize(key, groupTasks))
+    .sort((a, b) => b.tasks - a.tasks || a.key.localeCompare(b.key));
+};
+
+// Bias of each group over time: for every day a measured task was completed,
+// the bias of all of the group's tasks completed up to then. Groups have no
+// value before their first task. Keys are limited to `keys`.
+export const getRunningBias = (
+  tasks: Task[],
+  dimension: AccuracyDimension,
+  keys: string[]
+) => {
+  const measured = tasks
+    .filter(
+      (task) =>
+        isMeasuredTask(task) &&
+        !!task.completed_at &&
+        keys.includes(getAccuracyKey(task, dimension))
+    )
+    .sort((a, b) => a.completed_at.localeCompare(b.completed_at));
+
+  const totals = new Map<string, { estimated: number; actual: number }>();
+  const days = new Map<string, Record<string, number | string>>();
+
+  measured.forEach((task) => {
+    const key = getAccuracyKey(task, dimension);
+    const total = totals.get(key) ?? { estimated: 0, actual: 0 };
+    total.estimated += task.time_estimate;
+    total.actual += task.tracked_minutes;
+    totals.set(key, total);
+
+    const date = format(parseISO(task.completed_at), "yyyy-MM-dd");
+    const point: Record<string, number | string> = { date };
+    totals.forEach(({ estimated, actual }, totalKey) => {
+      point[totalKey] = (actual - estimated) / estimated;
+    });
+    // Later tasks of the same day replace the earlier point
+    days.set(date, point);
+  });
+
+  return Array.from(days.values());
+};
@@ -0,0 +1,113 @@
+import { Task } from "@/types";
+
+// IndexedDB database that keeps the user's tasks and the outbox of changes
+// not yet saved to Supabase, so the board works offline
+const DB_NAME = "task-manager";
+const DB_VERSION = 1;
+
+export const TASKS_STORE = "tasks";
+export const OUTBOX_STORE = "outbox";
+
+export type OutboxOperation = "insert" | "update" | "delete";
+
+// A task change waiting to be sent. `queued_at` is also the updated_at the
+// change is saved with. An update also records the task's updated_at on the
+// server when it was made, which decides conflicts (see taskSync.ts).
+export interface OutboxEntry {
+  id?: number; // Auto-incremented; entries are sent in this order
+  user_id: string;
+  task_id: string;
+  op: OutboxOperation;
+  payload: Partial<Task>; // The new row for inserts, the changes for updates
+  queued_at: string;
+  base_updated_at?: string | null; // Left out when the version isn't known
+  // Set on an update made while an earlier change to the task was being
+  // sent. Its base is the version that change saved, so it is only known
+  // once that send has returned.
+  rebase_on_send?: boolean;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// Rejects where IndexedDB isn't available (e.g. some private browsing
+// modes); callers fall back to talking to Supabase directly.
+export const openLocalDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(TASKS_STORE)) {
+          const tasks = db.createObjectStore(TASKS_STORE, { keyPath: "id" });
+          tasks.createIndex("user_id", "user_id");
+        }
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          const outbox = db.createObjectStore(OUTBOX_STORE, {
+            keyPath: "id",
+            autoIncrement: true,
+          });
+          outbox.createIndex("user_id", "user_id");
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+// Run `callback` in one transaction and resolve once it has committed
+export const withStores = async <T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  callback: (transaction: IDBTransaction) => Promise<T>
+) => {
+  const db = await openLocalDb();
+  const transaction = db.transaction(storeNames, mode);
+  const done = transactionDone(transaction);
+  const result = await callback(transaction);
+  await done;
+  return result;
+};
+
+export const getAllForUser = async <T>(storeName: string, userId: string) =>
+  withStores([storeName], "readonly", (transaction) =>
+    requestToPromise<T[]>(
+      transaction
+        .objectStore(storeName)
+        .index("user_id")
+        .getAll(IDBKeyRange.only(userId))
+    )
+  );
+
+// Replace the user's saved tasks with `tasks`
+export const replaceLocalTasks = (userId: string, tasks: Task[]) =>
+  withStores([TASKS_STORE], "readwrite", async (transaction) => {
+    const store = transaction.objectStore(TASKS_STORE);
+    const keys = await requestToPromise(
+      store.index("user_id").getAllKeys(IDBKeyRange.only(userId))
+    );
+    keys.forEach((key) => store.delete(key));
+    tasks.forEach((task) => store.put(task));
+  });
@@ -0,0 +1,45 @@
+import { UserPreferences } from "@/types";
+import { toDateKey } from "@/lib/recurrence";
+import { preferencesRepository } from "@/lib/repositories";
+
+export const getBrowserTimeZone = () =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+// Load the user's preferences, creating the row with defaults on first use.
+// A new row starts with today already rolled over so tasks planned for
+// tomorrow today aren't moved straight away.
+export const fetchUserPreferences = async (userId: string) => {
+  const result = await preferencesRepository.get(userId);
+  if (result.error || result.data) return result;
+
+  return preferencesRepository.insert({
+    user_id: userId,
+    timezone: getBrowserTimeZone(),
+    last_rollover_date: toDateKey(new Date()),
+  });
+};
+
+export const updateUserPreferences = (
+  userId: string,
+  changes: Partial<
+    Pick<
+      UserPreferences,
+      "unfinished_today_action" | "timezone" | "trash_retention_days"
+    >
+  >
+) => preferencesRepository.update(userId, changes);
+
+// Record that `dateKey` has been rolled over. Only one caller - this tab,
+// another tab or the scheduled job - gets `claimed: true` for a given day.
+export const claimRolloverDate = async (userId: string, dateKey: string) => {
+  const { data, error } = await preferencesRepository.claimRolloverDate(
+    userId,
+    dateKey,
+    getBrowserTimeZone()
+  );
+  return { claimed: !error && !!data, error };
+};
+
+// The summary of a rollover the scheduled job ran, if it hasn't been shown
+export const takeRolloverSummary = (userId: string) =>
+  preferencesRepository.takeRolloverSummary(userId);
@@ -0,0 +1,48 @@
+// Project rules shared by TaskContext, the project UI and the API handlers in
+// /api. Tasks reference a project by `project_id`; `main_task` holds a copy of
+// the project name.
+import { z } from "zod";
+import { BUCKET_COLORS, DEFAULT_BUCKET_COLOR } from "./buckets.js";
+
+export const MAX_PROJECT_NAME_LENGTH = 100;
+export const MAX_PROJECT_DESCRIPTION_LENGTH = 500;
+
+// Projects use the same palette as buckets
+export const PROJECT_COLORS = BUCKET_COLORS;
+export const DEFAULT_PROJECT_COLOR = DEFAULT_BUCKET_COLOR;
+
+// Label for tasks that don't belong to a project
+export const UNGROUPED_PROJECT_LABEL = "Ungrouped";
+
+export const projectNameSchema = z
+  .string()
+  .trim()
+  .min(1, { message: "Project name is required" })
+  .max(MAX_PROJECT_NAME_LENGTH, {
+    message: `Project names can be at most ${MAX_PROJECT_NAME_LENGTH} characters`,
+  });
+
+export const projectInputSchema = z.object({
+  name: projectNameSchema,
+  color: z.enum(PROJECT_COLORS).optional(),
+  description: z
+    .string()
+    .max(MAX_PROJECT_DESCRIPTION_LENGTH, {
+      message: `Descriptions can be at most ${MAX_PROJECT_DESCRIPTION_LENGTH} characters`,
+    })
+    .nullable()
+    .optional(),
+  is_archived: z.boolean().optional(),
+});
+
+// Names match regardless of case and surrounding spaces, like the unique
+// index on the projects table
+export const findProjectByName = (projects, name) => {
+  const key = (name || "").trim().toLowerCase();
+  if (!key) return undefined;
+  return projects.find((project) => project.name.toLowerCase() === key);
+};
+
+export const getProjectName = (projectId, projects) =>
+  projects.find((project) => project.id === projectId)?.name ||
+  UNGROUPED_PROJECT_LABEL;
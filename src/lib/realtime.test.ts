@@ -0,0 +1,253 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { RowChange } from "@/lib/realtime";
+
+// The postgres_changes handlers subscribeToRowChanges registers, in order:
+// the user's inserts and updates, then deletes
+const realtime = vi.hoisted(() => ({
+  handlers: [] as ((payload: unknown) => void)[],
+}));
+
+vi.mock("@/lib/demoMode", () => ({ isDemoMode: false }));
+vi.mock("@/lib/supabase", () => {
+  const channel = {
+    on: (_type: string, _filter: unknown, handler: () => void) => {
+      realtime.handlers.push(handler);
+      return channel;
+    },
+    subscribe: () => channel,
+  };
+  return { supabase: { channel: () => channel, removeChannel: vi.fn() } };
+});
+
+// BroadcastChannel between the tabs loaded in one test, delivering right
+// away
+class FakeBroadcastChannel {
+  static open = new Set<FakeBroadcastChannel>();
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+
+  constructor(public name: string) {
+    FakeBroadcastChannel.open.add(this);
+  }
+
+  postMessage(data: unknown) {
+    FakeBroadcastChannel.open.forEach((channel) => {
+      if (channel !== this && channel.name === this.name) {
+        channel.onmessage?.({ data });
+      }
+    });
+  }
+
+  close() {
+    FakeBroadcastChannel.open.delete(this);
+  }
+}
+
+interface Row {
+  id: string;
+  sub_task: string;
+  updated_at: string;
+  deleted_at?: string | null;
+}
+
+const row = (updatedAt: string, fields: Partial<Row> = {}): Row => ({
+  id: "task-1",
+  sub_task: "Write report",
+  updated_at: updatedAt,
+  ...fields,
+});
+
+// A fresh copy of the module, like a newly opened tab
+const loadRealtime = async () => {
+  vi.resetModules();
+  return import("@/lib/realtime");
+};
+
+beforeEach(() => {
+  realtime.handlers.length = 0;
+  FakeBroadcastChannel.open.clear();
+  vi.stubGlobal("BroadcastChannel", FakeBroadcastChannel);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+describe("subscribeToRowChanges", () => {
+  const subscribe = async () => {
+    const { subscribeToRowChanges } = await loadRealtime();
+    const changes: RowChange<Row>[] = [];
+    subscribeToRowChanges<Row>("user-1", "tasks", (change) =>
+      changes.push(change)
+    );
+    const [onUserChange, onDelete] = realtime.handlers;
+    return { changes, onUserChange, onDelete };
+  };
+
+  it("passes on saved rows and the ids of deleted ones", async () => {
+    const { changes, onUserChange, onDelete } = await subscribe();
+
+    onUserChange({
+
+      eventType: "INSERT",
+
+      new: row("2024-03-01T09:00"),
+
+      old: {},
+
+    });
+    onDelete({ eventType: "DELETE", new: {}, old: { id: "task-1" } });
+
+    expect(changes).toEqual([
+      {
+        table: "tasks",
+        type: "INSERT",
+        id: "task-1",
+        row: row("2024-03-01T09:00"),
+      },
+      { table: "tasks", type: "DELETE", id: "task-1", row: null },
+    ]);
+  });
+
+  it("drops an older row that arrives after a newer one", async () => {
+    const { changes, onUserChange } = await subscribe();
+    const newer = row("2024-03-01T09:05", { sub_task: "Newer" });
+    const older = row("2024-03-01T09:00", { sub_task: "Older" });
+
+    onUserChange({ eventType: "UPDATE", new: newer, old: {} });
+    onUserChange({ eventType: "UPDATE", new: older, old: {} });
+
+    expect(changes.map((change) => change.row)).toEqual([newer]);
+  });
+
+  it("passes a soft delete on as an update with deleted_at", async () => {
+    const { changes, onUserChange } = await subscribe();
+    const trashed = row("2024-03-01T09:05", {
+      deleted_at: "2024-03-01T09:05",
+    });
+
+    onUserChange({ eventType: "UPDATE", new: trashed, old: {} });
+    // An edit saved before it was trashed doesn't bring it back
+    onUserChange({
+      eventType: "UPDATE",
+      new: row("2024-03-01T09:00"),
+      old: {},
+    });
+
+    expect(changes).toEqual([
+      { table: "tasks", type: "UPDATE", id: "task-1", row: trashed },
+    ]);
+  });
+
+  it("ignores updates that arrive after a delete", async () => {
+    const { changes, onUserChange, onDelete } = await subscribe();
+
+    onDelete({ eventType: "DELETE", new: {}, old: { id: "task-1" } });
+    onUserChange({
+      eventType: "UPDATE",
+      new: row("2024-03-01T09:05"),
+      old: {},
+    });
+    // Putting the task back inserts it again, old updated_at and all
+    onUserChange({
+      eventType: "INSERT",
+      new: row("2024-03-01T08:00"),
+      old: {},
+    });
+
+    expect(changes.map((change) => change.type)).toEqual(["DELETE", "INSERT"]);
+  });
+
+  it("keeps each row's versions apart", async () => {
+    const { changes, onUserChange } = await subscribe();
+
+    onUserChange({
+
+      eventType: "UPDATE",
+
+      new: row("2024-03-01T09:05"),
+
+      old: {},
+
+    });
+    onUserChange({
+      eventType: "UPDATE",
+      new: row("2024-03-01T09:00", { id: "task-2" }),
+      old: {},
+    });
+
+    expect(changes.map((change) => change.id)).toEqual(["task-1", "task-2"]);
+  });
+});
+
+describe("publishRowChange", () => {
+  beforeEach(() => {
+    vi.stubEnv("VITE_REALTIME_CHANNEL", "local");
+  });
+
+  it("reaches the user's other tabs over the local channel", async () => {
+    const publisher = await loadRealtime();
+    const otherTab = await loadRealtime();
+    const received: RowChange<Row>[] = [];
+    const ownTab: RowChange<Row>[] = [];
+    otherTab.subscribeToRowChanges<Row>("user-1", "tasks", (change) =>
+      received.push(change)
+    );
+    publisher.subscribeToRowChanges<Row>("user-1", "tasks", (change) =>
+      ownTab.push(change)
+    );
+
+    const saved = row("2024-03-01T09:00");
+    publisher.publishRowChange("user-1", {
+      table: "tasks",
+      type: "UPDATE",
+      id: saved.id,
+      row: saved,
+    });
+    // Other users and other tables aren't passed on
+    publisher.publishRowChange("user-2", {
+      table: "tasks",
+      type: "UPDATE",
+      id: saved.id,
+      row: saved,
+    });
+    publisher.publishRowChange("user-1", {
+      table: "notes",
+      type: "DELETE",
+      id: "note-1",
+      row: null,
+    });
+
+    expect(received).toEqual([
+      { table: "tasks", type: "UPDATE", id: "task-1", row: saved },
+    ]);
+    expect(ownTab).toEqual([]);
+  });
+
+  it("orders changes from other tabs by version too", async () => {
+    const firstTab = await loadRealtime();
+    const secondTab = await loadRealtime();
+    const thisTab = await loadRealtime();
+    const received: RowChange<Row>[] = [];
+    thisTab.subscribeToRowChanges<Row>("user-1", "tasks", (change) =>
+      received.push(change)
+    );
+
+    const newer = row("2024-03-01T09:05", { sub_task: "Newer" });
+    const older = row("2024-03-01T09:00", { sub_task: "Older" });
+    secondTab.publishRowChange("user-1", {
+      table: "tasks",
+      type: "UPDATE",
+      id: newer.id,
+      row: newer,
+    });
+    firstTab.publishRowChange("user-1", {
+      table: "tasks",
+      type: "UPDATE",
+      id: older.id,
+      row: older,
+    });
+
+    expect(received.map((change) => change.row)).toEqual([newer]);
+  });
+});
@@ -0,0 +1,138 @@
+import { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { supabase } from "@/lib/supabase";
+import { isDemoMode } from "@/lib/demoMode";
+
+// Tables whose rows are kept in sync across tabs and devices (see
+// add_realtime_sync.sql)
+export type RealtimeTable = "tasks" | "notes" | "task_goals";
+
+export type RowChangeType = "INSERT" | "UPDATE" | "DELETE";
+
+// A row saved or deleted somewhere else. Deletes only carry the id.
+export interface RowChange<T> {
+  table: RealtimeTable;
+  type: RowChangeType;
+  id: string;
+  row: T | null; // The new row; null for deletes
+}
+
+interface LocalMessage {
+  tabId: string;
+  userId: string;
+  change: RowChange<unknown>;
+}
+
+// With VITE_REALTIME_CHANNEL=local, changes travel between tabs of this
+// browser over a BroadcastChannel instead of Supabase Realtime. Each tab
+// publishes what it saves, so sync can be tried without a live backend.
+const isLocalChannel = import.meta.env.VITE_REALTIME_CHANNEL === "local";
+const LOCAL_CHANNEL_NAME = "task-manager-realtime";
+
+// Tells this tab's own messages apart from other tabs'
+const TAB_ID = crypto.randomUUID();
+
+let localChannel: BroadcastChannel | null = null;
+let channelCount = 0;
+
+const openLocalChannel = () =>
+  typeof BroadcastChannel === "undefined"
+    ? null
+    : new BroadcastChannel(LOCAL_CHANNEL_NAME);
+
+// Announce a change this tab has saved. Supabase Realtime reports changes by
+// itself, so this only does something with the local channel.
+export const publishRowChange = <T>(userId: string, change: RowChange<T>) => {
+  if (!isLocalChannel || isDemoMode) return;
+
+  localChannel = localChannel ?? openLocalChannel();
+  const message: LocalMessage = { tabId: TAB_ID, userId, change };
+  localChannel?.postMessage(message);
+};
+
+// Changes can arrive out of order, e.g. two quick saves from different tabs
+// or devices. Passes each change on unless it is older than one already
+// passed on for the same row: an update with an earlier updated_at, or one
+// that arrives after the row was deleted. Inserts always go through, since
+// a deleted task can be put back with its old row.
+const inVersionOrder = <T extends { id: string }>(
+  onChange: (change: RowChange<T>) => void
+) => {
+  const versions = new Map<string, string | null>(); // null once deleted
+
+  return (change: RowChange<T>) => {
+    const updatedAt =
+      (change.row as { updated_at?: string } | null)?.updated_at ?? "";
+    if (change.type === "UPDATE" && versions.has(change.id)) {
+      const seen = versions.get(change.id);
+      if (seen === null || updatedAt < seen) return;
+    }
+    versions.set(change.id, change.type === "DELETE" ? null : updatedAt);
+    onChange(change);
+  };
+};
+
+const toRowChange = <T extends { id: string }>(
+  table: RealtimeTable,
+  payload: RealtimePostgresChangesPayload<T>
+): RowChange<T> =>
+  payload.eventType === "DELETE"
+    ? { table, type: "DELETE", id: payload.old.id, row: null }
+    : { table, type: payload.eventType, id: payload.new.id, row: payload.new };
+
+// Listen for changes to the user's rows in `table` made in other tabs or on
+// other devices, in version order. A soft delete (moving a task or note to
+// the trash) comes through as an update whose row has deleted_at set.
+// Returns a function that stops listening.
+export const subscribeToRowChanges = <T extends { id: string }>(
+  userId: string,
+  table: RealtimeTable,
+  onRowChange: (change: RowChange<T>) => void
+) => {
+  // Each tab of the demo has its own data, so there is nothing to sync
+  if (isDemoMode) return () => undefined;
+
+  const onChange = inVersionOrder(onRowChange);
+
+  if (isLocalChannel) {
+    const channel = openLocalChannel();
+    if (!channel) return () => undefined;
+
+    channel.onmessage = (event: MessageEvent<LocalMessage>) => {
+      const { tabId, change } = event.data;
+      if (
+        tabId === TAB_ID ||
+        event.data.userId !== userId ||
+        change.table !== table
+      ) {
+        return;
+      }
+      onChange(change as RowChange<T>);
+    };
+    return () => channel.close();
+  }
+
+  channelCount += 1;
+  const handlePayload = (payload: RealtimePostgresChangesPayload<T>) => {
+    const change = toRowChange(table, payload);
+    if (change.id) onChange(change);
+  };
+  const channel = supabase
+    .channel(`${table}:${userId}:${channelCount}`)
+    .on<T>(
+      "postgres_changes",
+      { event: "*", schema: "public", table, filter: `user_id=eq.${userId}` },
+      handlePayload
+    )
+    // Deletes can't be filtered by user and only carry the id, so a delete
+    // of someone else's row is simply a row this user doesn't have
+    .on<T>(
+      "postgres_changes",
+      { event: "DELETE", schema: "public", table },
+      handlePayload
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
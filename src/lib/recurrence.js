@@ -0,0 +1,213 @@
+// Recurrence rules for repeating tasks, shared by TaskContext and the API
+// handlers in /api. Dates are handled as local "yyyy-MM-dd" keys so an
+// occurrence belongs to a calendar day rather than an instant.
+import { z } from "zod";
+
+export const RECURRENCE_FREQUENCIES = /** @type {const} */ ([
+  "daily",
+  "weekdays",
+  "weekly",
+  "monthly",
+  "interval",
+]);
+
+export const recurrenceRuleSchema = z
+  .object({
+    frequency: z.enum(RECURRENCE_FREQUENCIES),
+    // 0 = Sunday ... 6 = Saturday, used by "weekly"
+    days_of_week: z.array(z.number().int().min(0).max(6)).optional(),
+    // Used by "monthly"; months without that day use their last day
+    day_of_month: z.number().int().min(1).max(31).optional(),
+    // Used by "interval": repeat every N days
+    interval_days: z.number().int().min(1).max(365).optional(),
+  })
+  .superRefine((rule, ctx) => {
+    if (rule.frequency === "weekly" && !rule.days_of_week?.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["days_of_week"],
+        message: "Pick at least one day of the week",
+      });
+    }
+    if (rule.frequency === "interval" && !rule.interval_days) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["interval_days"],
+        message: "Enter how many days apart the task repeats",
+      });
+    }
+  });
+
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const pad = (value) => String(value).padStart(2, "0");
+
+export const toDateKey = (date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Date key of `date` as seen in an IANA time zone, for server-side code that
+// doesn't run in the user's zone
+export const toDateKeyInTimeZone = (date, timeZone) =>
+  new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+
+export const parseDateKey = (dateKey) => {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const addDays = (date, days) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const daysBetween = (from, to) =>
+  Math.round(
+    (Date.UTC(to.getFullYear(), to.getMonth(), to.getDate()) -
+      Date.UTC(from.getFullYear(), from.getMonth(), from.getDate())) /
+      86400000
+  );
+
+const matchesRule = (rule, date, anchor) => {
+  switch (rule.frequency) {
+    case "daily":
+      return true;
+    case "weekdays":
+      return date.getDay() !== 0 && date.getDay() !== 6;
+    case "weekly":
+      return (rule.days_of_week || []).includes(date.getDay());
+    case "monthly": {
+      const lastDay = new Date(
+        date.getFullYear(),
+        date.getMonth() + 1,
+        0
+      ).getDate();
+      const target = Math.min(rule.day_of_month ?? anchor.getDate(), lastDay);
+      return date.getDate() === target;
+    }
+    case "interval":
+      return daysBetween(anchor, date) % (rule.interval_days || 1) === 0;
+    default:
+      return false;
+  }
+};
+
+// First day matching `rule` strictly after `afterDateKey`. `anchorDateKey` is
+// the date the series is counted from (interval and monthly rules).
+export const getNextOccurrence = (rule, afterDateKey, anchorDateKey) => {
+  const anchor = parseDateKey(anchorDateKey || afterDateKey);
+  let candidate = addDays(parseDateKey(afterDateKey), 1);
+
+  // Every rule matches at least once within ~2 years
+  for (let i = 0; i < 800; i++) {
+    if (
+      daysBetween(anchor, candidate) >= 0 &&
+      matchesRule(rule, candidate, anchor)
+    ) {
+      return toDateKey(candidate);
+    }
+    candidate = addDays(candidate, 1);
+  }
+  return null;
+};
+
+// First day on or after `fromDateKey` that matches `rule`
+export const getFirstOccurrence = (rule, fromDateKey) =>
+  getNextOccurrence(
+    rule,
+    toDateKey(addDays(parseDateKey(fromDateKey), -1)),
+    fromDateKey
+  );
+
+// Bucket a task scheduled for `dateKey` belongs in, relative to `now`
+/** @returns {"Today" | "Tomorrow" | "On Hold"} */
+export const getBucketForDate = (dateKey, now = new Date()) => {
+  const today = toDateKey(now);
+  if (dateKey <= today) return "Today";
+  if (dateKey === toDateKey(addDays(now, 1))) return "Tomorrow";
+  return "On Hold";
+};
+
+// Recurrence fields for a new recurring task created in `bucket`. Today and
+// Tomorrow pin the first occurrence to that day; On Hold schedules it for the
+// first matching day after tomorrow. Monthly rules remember their day.
+export const startRecurrence = (rule, bucket, now = new Date()) => {
+  const today = toDateKey(now);
+  const tomorrow = toDateKey(addDays(now, 1));
+  const occurrenceDate =
+    bucket === "Today"
+      ? today
+      : bucket === "Tomorrow"
+      ? tomorrow
+      : getNextOccurrence(rule, tomorrow, today);
+
+  return {
+    recurrence_rule:
+      rule.frequency === "monthly" && !rule.day_of_month
+        ? { ...rule, day_of_month: parseDateKey(occurrenceDate).getDate() }
+        : rule,
+    occurrence_date: occurrenceDate,
+  };
+};
+
+// Fields for the occurrence that follows `task` once it is completed, or
+// null when the task does not repeat. The next date is counted from the later
+// of the task's own date and today, so late completions don't create
+// occurrences in the past.
+export const buildNextOccurrence = (task, now = new Date()) => {
+  const rule = task.recurrence_rule;
+  if (!rule) {
+    return null;
+  }
+
+  const today = toDateKey(now);
+  const occurrenceDate = task.occurrence_date || today;
+  const after = occurrenceDate > today ? occurrenceDate : today;
+  const nextDate = getNextOccurrence(rule, after, occurrenceDate);
+  if (!nextDate) {
+    return null;
+  }
+
+  return {
+    user_id: task.user_id,
+    project_id: task.project_id ?? null,
+    main_task: task.main_task,
+    sub_task: task.sub_task,
+    category: task.category,
+    importance: task.importance,
+    time_estimate: task.time_estimate,
+    recurrence_rule: rule,
+    recurrence_series_id: task.recurrence_series_id || task.id,
+    occurrence_date: nextDate,
+    bucket: getBucketForDate(nextDate, now),
+    is_archived: false,
+    completed: false,
+  };
+};
+
+export const describeRecurrence = (rule) => {
+  if (!rule) return "";
+  switch (rule.frequency) {
+    case "daily":
+      return "Every day";
+    case "weekdays":
+      return "Every weekday";
+    case "weekly":
+      return `Weekly on ${[...(rule.days_of_week || [])]
+        .sort((a, b) => a - b)
+        .map((day) => WEEKDAY_NAMES[day])
+        .join(", ")}`;
+    case "monthly":
+      return rule.day_of_month
+        ? `Monthly on day ${rule.day_of_month}`
+        : "Monthly";
+    case "interval":
+      return rule.interval_days === 1
+        ? "Every day"
+        : `Every ${rule.interval_days} days`;
+    default:
+      return "";
+  }
+};
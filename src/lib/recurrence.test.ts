@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { Task } from "@/types";
+import {
+  buildNextOccurrence,
+  getNextOccurrence,
+  recurrenceRuleSchema,
+} from "@/lib/recurrence";
+
+describe("getNextOccurrence", () => {
+  describe("monthly", () => {
+    const endOfMonth = { frequency: "monthly", day_of_month: 31 } as const;
+
+    it("falls back to the last day of a shorter month", () => {
+      expect(getNextOccurrence(endOfMonth, "2024-01-31")).toBe("2024-02-29");
+      expect(getNextOccurrence(endOfMonth, "2023-01-31")).toBe("2023-02-28");
+      expect(getNextOccurrence(endOfMonth, "2024-03-31")).toBe("2024-04-30");
+    });
+
+    it("goes back to its own day after a shorter month", () => {
+      expect(getNextOccurrence(endOfMonth, "2024-02-29")).toBe("2024-03-31");
+    });
+
+    it("counts from the anchor's day when the rule has none", () => {
+      expect(
+        getNextOccurrence({ frequency: "monthly" }, "2024-01-30", "2024-01-30")
+      ).toBe("2024-02-29");
+      expect(
+        getNextOccurrence({ frequency: "monthly" }, "2024-02-29", "2024-01-30")
+      ).toBe("2024-03-30");
+    });
+  });
+
+  describe("interval", () => {
+    const everyThreeDays = { frequency: "interval", interval_days: 3 } as const;
+
+    it("repeats every N days from the anchor", () => {
+      expect(getNextOccurrence(everyThreeDays, "2024-03-01")).toBe(
+        "2024-03-04"
+      );
+      // Across a month end
+      expect(getNextOccurrence(everyThreeDays, "2024-02-28")).toBe(
+        "2024-03-02"
+      );
+    });
+
+    it("stays in step with the anchor after a late start", () => {
+      expect(
+        getNextOccurrence(everyThreeDays, "2024-03-05", "2024-03-01")
+      ).toBe("2024-03-07");
+    });
+
+    it("never returns a day before the anchor", () => {
+      expect(
+        getNextOccurrence(everyThreeDays, "2024-02-20", "2024-03-01")
+      ).toBe("2024-03-01");
+    });
+  });
+});
+
+describe("buildNextOccurrence", () => {
+  const task = {
+    id: "task-1",
+    user_id: "user-1",
+    sub_task: "Water the plants",
+    category: "Home",
+    importance: "Low",
+    bucket: "Today",
+    is_archived: true,
+    completed: true,
+    recurrence_rule: { frequency: "interval", interval_days: 7 },
+    occurrence_date: "2024-03-01",
+    created_at: "2024-03-01T09:00:00.000Z",
+    updated_at: "2024-03-01T09:00:00.000Z",
+  } as Task;
+
+  it("keeps the interval's rhythm when completed late", () => {
+    const next = buildNextOccurrence(task, new Date(2024, 2, 10, 12));
+    expect(next).toMatchObject({
+      occurrence_date: "2024-03-15",
+      recurrence_series_id: "task-1",
+      bucket: "On Hold",
+    });
+  });
+
+  it("schedules the next one from its own date when done on time", () => {
+    const next = buildNextOccurrence(task, new Date(2024, 2, 1, 12));
+    expect(next?.occurrence_date).toBe("2024-03-08");
+  });
+});
+
+describe("recurrenceRuleSchema", () => {
+  it("needs a number of days for an interval rule", () => {
+    const isValid = (rule: object) =>
+      recurrenceRuleSchema.safeParse({ frequency: "interval", ...rule })
+        .success;
+
+    expect(isValid({})).toBe(false);
+    expect(isValid({ interval_days: 0 })).toBe(false);
+    expect(isValid({ interval_days: 2 })).toBe(true);
+  });
+});
@@ -0,0 +1,118 @@
+import { addDays } from "date-fns";
+import { BucketColor, Project, Task } from "@/types";
+import { DEMO_USER_ID } from "@/lib/demoMode";
+import { MemorySeed } from "@/lib/repositories/memory";
+
+const demoTask = (
+  fields: Pick<
+    Task,
+    "sub_task" | "main_task" | "category" | "importance" | "bucket"
+  > &
+    Partial<Task>
+): Task => {
+  const createdAt = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    user_id: DEMO_USER_ID,
+    project_id: null,
+    is_archived: false,
+    completed: false,
+    completed_at: null,
+    created_at: createdAt,
+    updated_at: createdAt,
+    ...fields,
+  };
+};
+
+const demoProject = (name: string, color: BucketColor): Project => {
+  const createdAt = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    user_id: DEMO_USER_ID,
+    name,
+    color,
+    description: null,
+    is_archived: false,
+    created_at: createdAt,
+    updated_at: createdAt,
+  };
+};
+
+// A few tasks in two projects and a note so the demo board isn't empty
+export const buildDemoSeed = (): MemorySeed => {
+  const now = new Date();
+  const website = demoProject("Website", "blue");
+  const errands = demoProject("Errands", "emerald");
+  const reviewTask = demoTask({
+    sub_task: "Review pull requests",
+    main_task: "Website",
+    project_id: website.id,
+    category: "Work",
+    importance: "Medium",
+    bucket: "Today",
+    time_estimate: 30,
+    sort_order: 2,
+  });
+
+  return {
+    tasks: [
+      demoTask({
+        sub_task: "Write release notes",
+        main_task: "Website",
+        project_id: website.id,
+        category: "Work",
+        importance: "High",
+        bucket: "Today",
+        time_estimate: 45,
+        sort_order: 1,
+      }),
+      reviewTask,
+      demoTask({
+        sub_task: "Fix signup form validation",
+        main_task: "Website",
+        project_id: website.id,
+        category: "Work",
+        importance: "High",
+        bucket: "Today",
+        time_estimate: 25,
+        sort_order: 3,
+        due_at: addDays(now, 1).toISOString(),
+        blocked_by: [reviewTask.id],
+      }),
+      demoTask({
+        sub_task: "Plan next sprint",
+        main_task: "Website",
+        project_id: website.id,
+        category: "Work",
+        importance: "Medium",
+        bucket: "Tomorrow",
+        time_estimate: 60,
+        sort_order: 1,
+      }),
+      demoTask({
+        sub_task: "Book dentist appointment",
+        main_task: "Errands",
+        project_id: errands.id,
+        category: "Personal",
+        importance: "Low",
+        bucket: "On Hold",
+        time_estimate: 10,
+        sort_order: 1,
+      }),
+    ],
+    projects: [website, errands],
+    notes: [
+      {
+        id: crypto.randomUUID(),
+        user_id: DEMO_USER_ID,
+        notes_title: "Welcome to the demo",
+        notes_text:
+          "Everything here lives in memory and is gone after a reload, so feel free to try things out.",
+        tags: [],
+        created_at: now.toISOString(),
+        updated_at: now.toISOString(),
+        deleted_at: null,
+      },
+    ],
+  };
+};
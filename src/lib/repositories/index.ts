@@ -0,0 +1,25 @@
+import { isDemoMode } from "@/lib/demoMode";
+import { buildDemoSeed } from "@/lib/repositories/demo";
+import { createMemoryRepositories } from "@/lib/repositories/memory";
+import { supabaseRepositories } from "@/lib/repositories/supabase";
+
+export * from "@/lib/repositories/types";
+export { createMemoryRepositories } from "@/lib/repositories/memory";
+
+// The backend the app reads and writes through: Supabase, or memory in the
+// demo mode
+const repositories = isDemoMode
+  ? createMemoryRepositories(buildDemoSeed())
+  : supabaseRepositories;
+
+export const taskRepository = repositories.tasks;
+export const noteRepository = repositories.notes;
+export const goalRepository = repositories.goals;
+export const apiKeyRepository = repositories.apiKeys;
+export const timeEntryRepository = repositories.timeEntries;
+export const bucketRepository = repositories.buckets;
+export const projectRepository = repositories.projects;
+export const preferencesRepository = repositories.preferences;
+export const trashRepository = repositories.trash;
+export const bulkEditRepository = repositories.bulkEdits;
+export const webhookRepository = repositories.webhooks;
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Task } from "@/types";
+import { createMemoryRepositories } from "@/lib/repositories/memory";
+
+const SEEDED_AT = "2024-03-01T09:00:00.000Z";
+
+const makeTask = (id: string, fields: Partial<Task> = {}): Task => ({
+  id,
+  user_id: "user-1",
+  sub_task: `Task ${id}`,
+  main_task: "Website",
+  project_id: "project-1",
+  category: "Work",
+  importance: "Medium",
+  bucket: "Today",
+  is_archived: false,
+  completed: false,
+  completed_at: null,
+  created_at: SEEDED_AT,
+  updated_at: SEEDED_AT,
+  ...fields,
+});
+
+describe("createMemoryRepositories tasks", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-03-02T10:00:00.000Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("moves updated_at on with every update", async () => {
+    const { tasks } = createMemoryRepositories({ tasks: [makeTask("a")] });
+
+    const first = await tasks.update("user-1", "a", { sub_task: "Renamed" });
+    expect(first.data).toMatchObject({
+      sub_task: "Renamed",
+      updated_at: "2024-03-02T10:00:00.000Z",
+    });
+
+    // Even when the change itself carries an older updated_at
+    vi.advanceTimersByTime(1000);
+    const second = await tasks.update("user-1", "a", {
+      bucket: "Tomorrow",
+      updated_at: SEEDED_AT,
+    });
+    expect(second.data?.updated_at).toBe("2024-03-02T10:00:01.000Z");
+  });
+
+  it("only updates a task still at the base version", async () => {
+    const { tasks } = createMemoryRepositories({ tasks: [makeTask("a")] });
+
+    const saved = await tasks.update(
+      "user-1",
+      "a",
+      { sub_task: "First" },
+      { baseUpdatedAt: SEEDED_AT }
+    );
+    expect(saved.data?.sub_task).toBe("First");
+
+    // A second change made to the seeded version is now out of date
+    vi.advanceTimersByTime(1000);
+    const stale = await tasks.update(
+      "user-1",
+      "a",
+      { sub_task: "Second" },
+      { baseUpdatedAt: SEEDED_AT }
+    );
+    expect(stale).toEqual({ data: null, error: null });
+    expect((await tasks.get("user-1", "a")).data?.sub_task).toBe("First");
+
+    const rebased = await tasks.update(
+      "user-1",
+      "a",
+      { sub_task: "Second" },
+      { baseUpdatedAt: saved.data?.updated_at }
+    );
+    expect(rebased.data?.sub_task).toBe("Second");
+  });
+
+  it("doesn't update another user's task", async () => {
+    const { tasks } = createMemoryRepositories({ tasks: [makeTask("a")] });
+
+    const result = await tasks.update("user-2", "a", { sub_task: "Mine" });
+    expect(result.data).toBeNull();
+    expect((await tasks.get("user-1", "a")).data?.updated_at).toBe(SEEDED_AT);
+  });
+
+  it("moves updated_at on for every task updateWhere changes", async () => {
+    const { tasks } = createMemoryRepositories({
+      tasks: [
+        makeTask("a"),
+        makeTask("b", { bucket: "Tomorrow" }),
+        makeTask("c", { user_id: "user-2" }),
+      ],
+    });
+
+    await tasks.updateWhere(
+      "user-1",
+      { bucket: "Today" },
+      { bucket: "On Hold" }
+    );
+
+    const rows = await Promise.all(
+      ["a", "b"].map(async (id) => (await tasks.get("user-1", id)).data)
+    );
+    expect(rows.map((task) => [task?.bucket, task?.updated_at])).toEqual([
+      ["On Hold", "2024-03-02T10:00:00.000Z"],
+      ["Tomorrow", SEEDED_AT],
+    ]);
+    expect((await tasks.get("user-2", "c")).data?.bucket).toBe("Today");
+  });
+});
@@ -0,0 +1,845 @@
+import {
+  BucketConfig,
+  BulkEdit,
+  Project,
+  Task,
+  TimeEntry,
+  UserPreferences,
+} from "@/types";
+import {
+  ApiKeyRecord,
+  ApiKeyRepository,
+  ApiRequestLog,
+  BucketRepository,
+  BulkEditRepository,
+  DUPLICATE_ERROR_CODE,
+  GoalRecord,
+  GoalRepository,
+  NoteRecord,
+  NoteRepository,
+  PreferencesRepository,
+  ProjectRepository,
+  Repositories,
+  RepositoryResult,
+  TaskRepository,
+  TimeEntryRepository,
+  TrashRepository,
+  WebhookDelivery,
+  WebhookRepository,
+  WebhookSubscription,
+  repositoryError,
+} from "@/lib/repositories/types";
+
+// Rows to start an in-memory backend with
+export interface MemorySeed {
+  tasks?: Task[];
+  notes?: NoteRecord[];
+  goals?: (GoalRecord & { user_id: string })[];
+  apiKeys?: (ApiKeyRecord & { user_id: string })[];
+  requestLogs?: (ApiRequestLog & { api_key_id: string })[];
+  timeEntries?: TimeEntry[];
+  buckets?: BucketConfig[];
+  projects?: Project[];
+  preferences?: UserPreferences[];
+}
+
+type GoalRow = GoalRecord & { user_id: string };
+
+// What a bulk edit changed, to put back on undo (see add_bulk_edits.sql)
+interface BulkEditRow extends BulkEdit {
+  user_id: string;
+  tasks: Partial<Task>[];
+  projects: Pick<Project, "id" | "name" | "is_archived">[];
+  goals: GoalRow[];
+  goalKeys: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ok = <T>(data: T): Promise<RepositoryResult<T>> =>
+  Promise.resolve({ data, error: null });
+
+const fail = <T>(message: string, code?: string) =>
+  Promise.resolve<RepositoryResult<T>>({
+    data: null,
+    error: repositoryError(message, code),
+  });
+
+const byNewest =
+  <T>(getTime: (row: T) => string | null | undefined) =>
+  (a: T, b: T) =>
+    (getTime(b) ?? "").localeCompare(getTime(a) ?? "");
+
+// Backends that keep everything in memory, for the demo mode and for tests.
+// Rows are copied on the way in and out, like they would be over the
+// network, and each call sees the same filters as its Supabase version.
+export const createMemoryRepositories = (
+  seed: MemorySeed = {}
+): Repositories => {
+  const taskRows = new Map<string, Task>();
+  const noteRows = new Map<string, NoteRecord>();
+  const goalRows = new Map<string, GoalRow>();
+  const apiKeyRows = new Map<string, ApiKeyRecord & { user_id: string }>();
+  const requestLogs = [...(seed.requestLogs || [])];
+  const timeEntryRows = new Map<string, TimeEntry>();
+  const bucketRows = new Map<string, BucketConfig>();
+  const projectRows = new Map<string, Project>();
+  const preferenceRows = new Map<string, UserPreferences>();
+  const bulkEditRows = new Map<string, BulkEditRow>();
+  const webhookRows = new Map<
+    string,
+    WebhookSubscription & { user_id: string }
+  >();
+  const deliveryRows = new Map<
+    string,
+    WebhookDelivery & { subscription_id: string }
+  >();
+
+  seed.tasks?.forEach((task) => taskRows.set(task.id, { ...task }));
+  seed.notes?.forEach((note) => noteRows.set(note.id, { ...note }));
+  seed.goals?.forEach((goal) => goalRows.set(goal.id, { ...goal }));
+  seed.apiKeys?.forEach((key) => apiKeyRows.set(key.id, { ...key }));
+  seed.timeEntries?.forEach((entry) =>
+    timeEntryRows.set(entry.id, { ...entry })
+  );
+  seed.buckets?.forEach((bucket) => bucketRows.set(bucket.id, { ...bucket }));
+  seed.projects?.forEach((project) =>
+    projectRows.set(project.id, { ...project })
+  );
+  seed.preferences?.forEach((row) =>
+    preferenceRows.set(row.user_id, { ...row })
+  );
+
+  const userTasks = (userId: string) =>
+    Array.from(taskRows.values()).filter((task) => task.user_id === userId);
+
+  // Writes a changed task, moving updated_at on like the tasks table's
+  // BEFORE UPDATE trigger does
+  const saveTask = (task: Task, changes: Partial<Task>) => {
+    const row = { ...task, ...changes, updated_at: new Date().toISOString() };
+    taskRows.set(row.id, row);
+    return row;
+  };
+
+  const tasks: TaskRepository = {
+    listActive: (userId) =>
+      ok(
+        userTasks(userId)
+          .filter((task) => !task.is_archived && !task.deleted_at)
+          .sort(byNewest((task) => task.created_at))
+          .map((task) => ({ ...task }))
+      ),
+
+    listCompletedSince: (userId, since) =>
+      ok(
+        userTasks(userId)
+          .filter(
+            (task) =>
+              task.is_archived &&
+              task.completed &&
+              !task.deleted_at &&
+              !!task.completed_at &&
+              task.completed_at >= since
+          )
+          .sort(byNewest((task) => task.updated_at))
+          .map((task) => ({ ...task }))
+      ),
+
+    get: (userId, id) => {
+      const task = taskRows.get(id);
+      return ok(task && task.user_id === userId ? { ...task } : null);
+    },
+
+    insert: (task) => {
+      if (taskRows.has(task.id)) {
+        return fail<Task>("This task already exists", DUPLICATE_ERROR_CODE);
+      }
+      const now = new Date().toISOString();
+      const row = {
+        created_at: now,
+        updated_at: now,
+        ...task,
+        id: task.id ?? crypto.randomUUID(),
+      };
+      taskRows.set(row.id, row);
+      return ok({ ...row });
+    },
+
+    update: (userId, id, changes, { baseUpdatedAt } = {}) => {
+      const task = taskRows.get(id);
+      if (!task || task.user_id !== userId) return ok<Task>(null);
+      if (
+        baseUpdatedAt !== undefined &&
+        (task.updated_at ?? null) !== baseUpdatedAt
+      ) {
+        return ok<Task>(null);
+      }
+      return ok({ ...saveTask(task, changes) });
+    },
+
+    delete: (userId, id) => {
+      if (taskRows.get(id)?.user_id === userId) taskRows.delete(id);
+      return ok(null);
+    },
+
+    updateWhere: (userId, match, changes) => {
+      userTasks(userId)
+        .filter((task) =>
+          Object.entries(match).every(
+            ([field, value]) => task[field as keyof Task] === value
+          )
+        )
+        .forEach((task) => saveTask(task, changes));
+      return ok(null);
+    },
+  };
+
+  const notes: NoteRepository = {
+    listActive: (userId) =>
+      ok(
+        Array.from(noteRows.values())
+          .filter((note) => note.user_id === userId && !note.deleted_at)
+          .sort(byNewest((note) => note.updated_at))
+          .map((note) => ({ ...note }))
+      ),
+
+    insert: (note) => {
+      const row = { ...note, id: crypto.randomUUID(), deleted_at: null };
+      noteRows.set(row.id, row);
+      return ok({ ...row });
+    },
+
+    update: (userId, id, changes) => {
+      const note = noteRows.get(id);
+      if (!note || note.user_id !== userId) {
+        return fail<NoteRecord>("Note not found");
+      }
+      const row = { ...note, ...changes };
+      noteRows.set(id, row);
+      return ok({ ...row });
+    },
+
+    moveToTrash: (userId, id) => {
+      const note = noteRows.get(id);
+      if (!note || note.user_id !== userId) return ok<NoteRecord>(null);
+      const row = { ...note, deleted_at: new Date().toISOString() };
+      noteRows.set(id, row);
+      return ok({ ...row });
+    },
+  };
+
+  const toGoal = ({ id, goal_type, goal_key, goal_minutes }: GoalRecord) => ({
+    id,
+    goal_type,
+    goal_key,
+    goal_minutes,
+  });
+
+  const goals: GoalRepository = {
+    list: (userId, type) =>
+      ok(
+        Array.from(goalRows.values())
+          .filter((goal) => goal.user_id === userId && goal.goal_type === type)
+          .map(toGoal)
+      ),
+
+    save: (userId, type, key, minutes) => {
+      const existing = Array.from(goalRows.values()).find(
+        (goal) =>
+          goal.user_id === userId &&
+          goal.goal_type === type &&
+          goal.goal_key === key
+      );
+      const row = {
+        id: existing?.id ?? crypto.randomUUID(),
+        user_id: userId,
+        goal_type: type,
+        goal_key: key,
+        goal_minutes: minutes,
+      };
+      goalRows.set(row.id, row);
+      return ok(toGoal(row));
+    },
+
+    remove: (userId, type, key) => {
+      const removed = Array.from(goalRows.values()).filter(
+        (goal) =>
+          goal.user_id === userId &&
+          goal.goal_type === type &&
+          (key === undefined || goal.goal_key === key)
+      );
+      removed.forEach((goal) => goalRows.delete(goal.id));
+      return ok(removed.map(({ id }) => ({ id })));
+    },
+  };
+
+  const apiKeys: ApiKeyRepository = {
+    list: () =>
+      ok(
+        Array.from(apiKeyRows.values())
+          .sort(byNewest((key) => key.created_at))
+          .map(({ user_id: _userId, ...key }) => key)
+      ),
+
+    create: (key) => {
+      const id = crypto.randomUUID();
+      apiKeyRows.set(id, {
+        id,
+        created_at: new Date().toISOString(),
+        user_id: key.user_id,
+        name: key.name,
+        token_prefix: key.token_prefix,
+        scopes: key.scopes,
+        expires_at: key.expires_at,
+        last_used_at: null,
+      });
+      return ok(null);
+    },
+
+    rename: (id, name) => {
+      const key = apiKeyRows.get(id);
+      if (key) apiKeyRows.set(id, { ...key, name });
+      return ok(null);
+    },
+
+    delete: (id) => {
+      apiKeyRows.delete(id);
+      return ok(null);
+    },
+
+    listRequestLogs: (keyId) =>
+      ok(
+        requestLogs
+          .filter((log) => log.api_key_id === keyId)
+          .sort(byNewest((log) => log.created_at))
+          .slice(0, 50)
+          .map(({ api_key_id: _keyId, ...log }) => log)
+      ),
+  };
+
+  const timeEntries: TimeEntryRepository = {
+    listForTasks: (userId, taskIds) =>
+      ok(
+        Array.from(timeEntryRows.values())
+          .filter(
+            (entry) =>
+              entry.user_id === userId && taskIds.includes(entry.task_id)
+          )
+          .sort((a, b) => a.started_at.localeCompare(b.started_at))
+          .map((entry) => ({ ...entry }))
+      ),
+
+    insert: (entry) => {
+      if (!taskRows.has(entry.task_id)) {
+        return fail<TimeEntry>("Task not found");
+      }
+      const now = new Date().toISOString();
+      const row = {
+        ...entry,
+        id: crypto.randomUUID(),
+        created_at: now,
+        updated_at: now,
+      };
+      timeEntryRows.set(row.id, row);
+      return ok({ ...row });
+    },
+
+    update: (userId, id, changes) => {
+      const entry = timeEntryRows.get(id);
+      if (!entry || entry.user_id !== userId) {
+        return fail<TimeEntry>("Time entry not found");
+      }
+      const row = {
+        ...entry,
+        ...changes,
+        updated_at: new Date().toISOString(),
+      };
+      timeEntryRows.set(id, row);
+      return ok({ ...row });
+    },
+
+    delete: (userId, id) => {
+      if (timeEntryRows.get(id)?.user_id === userId) timeEntryRows.delete(id);
+      return ok(null);
+    },
+  };
+
+  const userRows = <T extends { user_id: string }>(
+    rows: Map<string, T>,
+    userId: string
+  ) => Array.from(rows.values()).filter((row) => row.user_id === userId);
+
+  const buckets: BucketRepository = {
+    list: (userId) =>
+      ok(
+        userRows(bucketRows, userId)
+          .sort((a, b) => a.position - b.position)
+          .map((bucket) => ({ ...bucket }))
+      ),
+
+    insert: (bucket) => {
+      const isTaken = userRows(bucketRows, bucket.user_id).some(
+        (row) => row.name === bucket.name
+      );
+      if (isTaken) {
+        return fail<BucketConfig>(
+          "A bucket with this name already exists",
+          DUPLICATE_ERROR_CODE
+        );
+      }
+      const now = new Date().toISOString();
+      const row = {
+        ...bucket,
+        id: crypto.randomUUID(),
+        created_at: now,
+        updated_at: now,
+      };
+      bucketRows.set(row.id, row);
+      return ok({ ...row });
+    },
+
+    update: (userId, id, changes) => {
+      const bucket = bucketRows.get(id);
+      if (!bucket || bucket.user_id !== userId) {
+        return fail<BucketConfig>("Bucket not found");
+      }
+      const row = {
+        ...bucket,
+        ...changes,
+        updated_at: new Date().toISOString(),
+      };
+      bucketRows.set(id, row);
+      return ok({ ...row });
+    },
+
+    delete: (userId, id) => {
+      if (bucketRows.get(id)?.user_id === userId) bucketRows.delete(id);
+      return ok(null);
+    },
+  };
+
+  const projects: ProjectRepository = {
+    list: (userId) =>
+      ok(
+        userRows(projectRows, userId)
+          .sort((a, b) => a.name.localeCompare(b.name))
+          .map((project) => ({ ...project }))
+      ),
+
+    insert: (project) => {
+      const now = new Date().toISOString();
+      const row = {
+        ...project,
+        id: crypto.randomUUID(),
+        is_archived: false,
+        created_at: now,
+        updated_at: now,
+      };
+      projectRows.set(row.id, row);
+      return ok({ ...row });
+    },
+
+    update: (userId, id, changes) => {
+      const project = projectRows.get(id);
+      if (!project || project.user_id !== userId) {
+        return fail<Project>("Project not found");
+      }
+      const row = {
+        ...project,
+        ...changes,
+        updated_at: new Date().toISOString(),
+      };
+      projectRows.set(id, row);
+      return ok({ ...row });
+    },
+  };
+
+  const preferences: PreferencesRepository = {
+    get: (userId) => {
+      const row = preferenceRows.get(userId);
+      return ok(row ? { ...row } : null);
+    },
+
+    insert: (preferences) => {
+      if (preferenceRows.has(preferences.user_id)) {
+        return fail<UserPreferences>(
+          "Preferences already exist",
+          DUPLICATE_ERROR_CODE
+        );
+      }
+      const now = new Date().toISOString();
+      const row: UserPreferences = {
+        unfinished_today_action: "stay",
+        trash_retention_days: 30,
+        rollover_summary: null,
+        ...preferences,
+        created_at: now,
+        updated_at: now,
+      };
+      preferenceRows.set(row.user_id, row);
+      return ok({ ...row });
+    },
+
+    update: (userId, changes) => {
+      const existing = preferenceRows.get(userId);
+      if (!existing) return fail<UserPreferences>("Preferences not found");
+      const row = {
+        ...existing,
+        ...changes,
+        updated_at: new Date().toISOString(),
+      };
+      preferenceRows.set(userId, row);
+      return ok({ ...row });
+    },
+
+    claimRolloverDate: (userId, dateKey, timezone) => {
+      const existing = preferenceRows.get(userId);
+      const lastDate = existing?.last_rollover_date;
+      if (!existing || (lastDate && lastDate >= dateKey)) return ok(false);
+      preferenceRows.set(userId, {
+        ...existing,
+        last_rollover_date: dateKey,
+        timezone,
+        rollover_summary: null,
+      });
+      return ok(true);
+    },
+
+    takeRolloverSummary: (userId) => {
+      const existing = preferenceRows.get(userId);
+      const summary = existing?.rollover_summary ?? null;
+      if (summary) {
+        preferenceRows.set(userId, { ...existing, rollover_summary: null });
+      }
+      return ok(summary);
+    },
+  };
+
+  const trashRows = (kind: "task" | "note") =>
+    (kind === "task" ? taskRows : noteRows) as Map<
+      string,
+      { id: string; user_id: string; deleted_at?: string | null }
+    >;
+
+  const trash: TrashRepository = {
+    list: (userId) => {
+      const byDeleted = byNewest<{ deleted_at?: string | null }>(
+        (row) => row.deleted_at
+      );
+      return ok({
+        tasks: userTasks(userId)
+          .filter((task) => !!task.deleted_at)
+          .sort(byDeleted)
+          .map((task) => ({ ...task })),
+        notes: userRows(noteRows, userId)
+          .filter((note) => !!note.deleted_at)
+          .sort(byDeleted)
+          .map(({ id, notes_title, notes_text, deleted_at }) => ({
+            id,
+            notes_title,
+            notes_text,
+            deleted_at,
+          })),
+      });
+    },
+
+    restore: (userId, kind, ids) => {
+      const rows = trashRows(kind);
+      const restored = ids
+        .map((id) => rows.get(id))
+        .filter((row) => row?.user_id === userId && !!row.deleted_at)
+        .map((row) => ({ ...row, deleted_at: null }));
+      restored.forEach((row) => rows.set(row.id, row));
+      return ok(restored.map((row) => ({ ...row })) as (Task | NoteRecord)[]);
+    },
+
+    deleteForever: (userId, kind, ids) => {
+      const rows = trashRows(kind);
+      const removed = Array.from(rows.values()).filter(
+        (row) =>
+          row.user_id === userId &&
+          !!row.deleted_at &&
+          (!ids || ids.includes(row.id))
+      );
+      removed.forEach((row) => rows.delete(row.id));
+      return ok(removed.map(({ id }) => ({ id })));
+    },
+
+    purgeExpired: (userId) => {
+      const retentionDays =
+        preferenceRows.get(userId)?.trash_retention_days ?? 30;
+      const cutoff = new Date(Date.now() - retentionDays * DAY_MS);
+      (["task", "note"] as const).forEach((kind) => {
+        const rows = trashRows(kind);
+        Array.from(rows.values())
+          .filter(
+            (row) =>
+              row.user_id === userId &&
+              !!row.deleted_at &&
+              new Date(row.deleted_at) < cutoff
+          )
+          .forEach((row) => rows.delete(row.id));
+      });
+      return ok(null);
+    },
+  };
+
+  const mergeCategories = (userId: string, from: string[], to: string) => {
+    const changed = userTasks(userId).filter(
+      (task) => from.includes(task.category) && task.category !== to
+    );
+    changed.forEach((task) => saveTask(task, { category: to }));
+    return {
+      affected_tasks: changed.length,
+      tasks: changed.map(({ id, category }) => ({ id, category })),
+      projects: [],
+      goals: [],
+      goalKeys: [],
+    };
+  };
+
+  const mergeProjects = (userId: string, from: string[], to: string) => {
+    const userProjects = userRows(projectRows, userId);
+    const target =
+      userProjects.find(
+        (project) => project.name.toLowerCase() === to.toLowerCase()
+      ) ?? userProjects.find((project) => project.id === from[0]);
+    if (!target) return null;
+
+    const goalKeys = [...from, target.id];
+    const mainGoals = userRows(goalRows, userId).filter(
+      (goal) => goal.goal_type === "main" && goalKeys.includes(goal.goal_key)
+    );
+    const snapshot = {
+      projects: userProjects
+        .filter(
+          (project) => from.includes(project.id) || project.id === target.id
+        )
+        .map(({ id, name, is_archived }) => ({ id, name, is_archived })),
+      goals: mainGoals.map((goal) => ({ ...goal })),
+      goalKeys,
+    };
+
+    userProjects
+      .filter(
+        (project) => from.includes(project.id) && project.id !== target.id
+      )
+      .forEach((project) =>
+        projectRows.set(project.id, { ...project, is_archived: true })
+      );
+    projectRows.set(target.id, { ...target, name: to, is_archived: false });
+
+    const changed = userTasks(userId).filter(
+      (task) => task.project_id && goalKeys.includes(task.project_id)
+    );
+    changed.forEach((task) =>
+      saveTask(task, { project_id: target.id, main_task: to })
+    );
+
+    // Keep the target's own goal if it has one, otherwise the largest of the
+    // merged projects' goals
+    const keptGoal =
+      mainGoals.find((goal) => goal.goal_key === target.id) ??
+      [...mainGoals].sort(
+        (a, b) => (b.goal_minutes ?? 0) - (a.goal_minutes ?? 0)
+      )[0];
+    mainGoals
+      .filter((goal) => goal !== keptGoal)
+      .forEach((goal) => goalRows.delete(goal.id));
+    if (keptGoal) {
+      goalRows.set(keptGoal.id, { ...keptGoal, goal_key: target.id });
+    }
+
+    return {
+      ...snapshot,
+      affected_tasks: changed.filter(
+        (task) => task.project_id !== target.id || task.main_task !== to
+      ).length,
+      tasks: changed.map(({ id, project_id, main_task }) => ({
+        id,
+        project_id,
+        main_task,
+      })),
+      fromNames: userProjects
+        .filter((project) => from.includes(project.id))
+        .map((project) => project.name),
+    };
+  };
+
+  const bulkEdits: BulkEditRepository = {
+    listTaskGroups: (userId, kind, values) =>
+      ok(
+        userTasks(userId)
+          .filter((task) => !task.deleted_at)
+          .map((task) => ({
+            value: kind === "project" ? task.project_id : task.category,
+            sub_task: task.sub_task,
+            is_archived: task.is_archived,
+          }))
+          .filter(
+            (row) => !!row.value && (!values || values.includes(row.value))
+          )
+      ),
+
+    countProjectGoals: (userId, projectIds) =>
+      ok(
+        userRows(goalRows, userId).filter(
+          (goal) =>
+            goal.goal_type === "main" && projectIds.includes(goal.goal_key)
+        ).length
+      ),
+
+    apply: (userId, kind, from, to) => {
+      const value = to.trim();
+      if (!value) {
+        return fail<string>(
+          kind === "project"
+            ? "Project name is required"
+            : "Category is required"
+        );
+      }
+
+      const result =
+        kind === "project"
+          ? mergeProjects(userId, from, value)
+          : { ...mergeCategories(userId, from, value), fromNames: from };
+      if (!result) return fail<string>("Unknown project");
+
+      const { fromNames, ...changes } = result;
+      const row: BulkEditRow = {
+        ...changes,
+        id: crypto.randomUUID(),
+        user_id: userId,
+        kind,
+        from_values: fromNames,
+        to_value: value,
+        created_at: new Date().toISOString(),
+        undone_at: null,
+      };
+      bulkEditRows.set(row.id, row);
+      return ok(row.id);
+    },
+
+    undo: (userId, id) => {
+      const edit = bulkEditRows.get(id);
+      if (!edit || edit.user_id !== userId || edit.undone_at) {
+        return fail<null>("This change was already undone");
+      }
+
+      edit.tasks.forEach(({ id: taskId, ...fields }) => {
+        const task = taskRows.get(taskId);
+        if (task) saveTask(task, fields);
+      });
+      edit.projects.forEach(({ id: projectId, ...fields }) => {
+        const project = projectRows.get(projectId);
+        if (project) projectRows.set(projectId, { ...project, ...fields });
+      });
+      if (edit.kind === "project") {
+        userRows(goalRows, userId)
+          .filter(
+            (goal) =>
+              goal.goal_type === "main" && edit.goalKeys.includes(goal.goal_key)
+          )
+          .forEach((goal) => goalRows.delete(goal.id));
+        edit.goals.forEach((goal) => goalRows.set(goal.id, { ...goal }));
+      }
+
+      bulkEditRows.set(id, { ...edit, undone_at: new Date().toISOString() });
+      return ok(null);
+    },
+
+    listRecent: (userId, limit) =>
+      ok(
+        userRows(bulkEditRows, userId)
+          .sort(byNewest((edit) => edit.created_at))
+          .slice(0, limit)
+          .map(
+            ({
+              id,
+              kind,
+              from_values,
+              to_value,
+              affected_tasks,
+              created_at,
+              undone_at,
+            }) => ({
+              id,
+              kind,
+              from_values,
+              to_value,
+              affected_tasks,
+              created_at,
+              undone_at,
+            })
+          )
+      ),
+  };
+
+  // Nothing is sent in memory, so there are never any deliveries
+  const webhooks: WebhookRepository = {
+    list: () =>
+      ok(
+        Array.from(webhookRows.values())
+          .sort(byNewest((hook) => hook.created_at))
+          .map(({ user_id: _userId, ...hook }) => hook)
+      ),
+
+    create: (subscription) => {
+      const id = crypto.randomUUID();
+      webhookRows.set(id, {
+        ...subscription,
+        id,
+        created_at: new Date().toISOString(),
+        active: true,
+      });
+      return ok(null);
+    },
+
+    setActive: (id, active) => {
+      const hook = webhookRows.get(id);
+      if (hook) webhookRows.set(id, { ...hook, active });
+      return ok(null);
+    },
+
+    delete: (id) => {
+      webhookRows.delete(id);
+      return ok(null);
+    },
+
+    listDeliveries: (subscriptionId) =>
+      ok(
+        Array.from(deliveryRows.values())
+          .filter((delivery) => delivery.subscription_id === subscriptionId)
+          .sort(byNewest((delivery) => delivery.created_at))
+          .slice(0, 50)
+          .map(({ subscription_id: _id, ...delivery }) => delivery)
+      ),
+
+    redeliver: (id) => {
+      const delivery = deliveryRows.get(id);
+      if (delivery) {
+        deliveryRows.set(id, {
+          ...delivery,
+          status: "pending",
+          attempts: 0,
+          next_attempt_at: new Date().toISOString(),
+        });
+      }
+      return ok(null);
+    },
+  };
+
+  return {
+    tasks,
+    notes,
+    goals,
+    apiKeys,
+    timeEntries,
+    buckets,
+    projects,
+    preferences,
+    trash,
+    bulkEdits,
+    webhooks,
+  };
+};
@@ -0,0 +1,635 @@
+import { PostgrestError } from "@supabase/supabase-js";
+import { supabase } from "@/lib/supabase";
+import {
+  BucketConfig,
+  BulkEdit,
+  Project,
+  Task,
+  TimeEntry,
+  UserPreferences,
+} from "@/types";
+import {
+  ApiKeyRecord,
+  ApiKeyRepository,
+  ApiRequestLog,
+  BucketRepository,
+  BulkEditRepository,
+  GoalRecord,
+  GoalRepository,
+  NoteRecord,
+  NoteRepository,
+  OFFLINE_ERROR_CODE,
+  PreferencesRepository,
+  ProjectRepository,
+  Repositories,
+  RepositoryResult,
+  TaskGroupRecord,
+  TaskRepository,
+  TimeEntryRepository,
+  TrashKind,
+  TrashRepository,
+  TrashedNote,
+  WebhookDelivery,
+  WebhookRepository,
+  WebhookSubscription,
+  repositoryError,
+} from "@/lib/repositories/types";
+
+interface SupabaseResponse {
+  data: unknown;
+  error: PostgrestError | null;
+  status: number;
+}
+
+// Failed fetches come back with status 0 rather than a Postgres error
+const toResult = <T>({
+  data,
+  error,
+  status,
+}: SupabaseResponse): RepositoryResult<T> => {
+  if (!error) return { data: data as T, error: null };
+  return {
+    data: null,
+    error:
+      status === 0
+        ? repositoryError(error.message || "You are offline", OFFLINE_ERROR_CODE)
+        : error,
+  };
+};
+
+const withoutData = ({ error }: RepositoryResult<unknown>) => ({
+  data: null,
+  error,
+});
+
+const tasks: TaskRepository = {
+  listActive: async (userId) => {
+    const buildQuery = () =>
+      supabase
+        .from("tasks")
+        .select("*")
+        .eq("user_id", userId)
+        .eq("is_archived", false)
+        .is("deleted_at", null);
+
+    const ordered = toResult<Task[]>(
+      await buildQuery().order("created_at", { ascending: false })
+    );
+    if (!ordered.error || ordered.error.code === OFFLINE_ERROR_CODE) {
+      return ordered;
+    }
+
+    console.error("Error fetching tasks with ordering:", ordered.error);
+    return toResult<Task[]>(await buildQuery());
+  },
+
+  listCompletedSince: async (userId, since) =>
+    toResult<Task[]>(
+      await supabase
+        .from("tasks")
+        .select("*")
+        .eq("user_id", userId)
+        .eq("is_archived", true)
+        .eq("completed", true)
+        .is("deleted_at", null)
+        .gte("completed_at", since)
+        .order("updated_at", { ascending: false })
+    ),
+
+  get: async (userId, id) =>
+    toResult<Task>(
+      await supabase
+        .from("tasks")
+        .select("*")
+        .eq("id", id)
+        .eq("user_id", userId)
+        .maybeSingle()
+    ),
+
+  insert: async (task) =>
+    toResult<Task>(
+      await supabase.from("tasks").insert([task]).select().maybeSingle()
+    ),
+
+  update: async (userId, id, changes, { baseUpdatedAt } = {}) => {
+    let query = supabase
+      .from("tasks")
+      .update(changes)
+      .eq("id", id)
+      .eq("user_id", userId);
+    if (baseUpdatedAt === null) {
+      query = query.is("updated_at", null);
+    } else if (baseUpdatedAt !== undefined) {
+      query = query.eq("updated_at", baseUpdatedAt);
+    }
+
+    const { data, error } = toResult<Task[]>(await query.select());
+    return { data: data?.[0] ?? null, error };
+  },
+
+  delete: async (userId, id) =>
+    withoutData(
+      toResult(
+        await supabase
+          .from("tasks")
+          .delete()
+          .eq("id", id)
+          .eq("user_id", userId)
+      )
+    ),
+
+  updateWhere: async (userId, match, changes) =>
+    withoutData(
+      toResult(
+        await supabase
+          .from("tasks")
+          .update(changes)
+          .eq("user_id", userId)
+          .match(match)
+      )
+    ),
+};
+
+const notes: NoteRepository = {
+  listActive: async (userId) =>
+    toResult<NoteRecord[]>(
+      await supabase
+        .from("notes")
+        .select("*")
+        .eq("user_id", userId)
+        .is("deleted_at", null)
+        .order("updated_at", { ascending: false })
+    ),
+
+  insert: async (note) =>
+    toResult<NoteRecord>(
+      await supabase.from("notes").insert(note).select().single()
+    ),
+
+  update: async (userId, id, changes) =>
+    toResult<NoteRecord>(
+      await supabase
+        .from("notes")
+        .update(changes)
+        .eq("id", id)
+        .eq("user_id", userId)
+        .select()
+        .single()
+    ),
+
+  moveToTrash: async (userId, id) =>
+    toResult<NoteRecord>(
+      await supabase
+        .from("notes")
+        .update({ deleted_at: new Date().toISOString() })
+        .eq("id", id)
+        .eq("user_id", userId)
+        .select()
+        .maybeSingle()
+    ),
+};
+
+const goals: GoalRepository = {
+  list: async (userId, type) =>
+    toResult<GoalRecord[]>(
+      await supabase
+        .from("task_goals")
+        .select("id, goal_type, goal_key, goal_minutes")
+        .eq("user_id", userId)
+        .eq("goal_type", type)
+    ),
+
+  save: async (userId, type, key, minutes) =>
+    toResult<GoalRecord>(
+      await supabase
+        .from("task_goals")
+        .upsert(
+          [
+            {
+              user_id: userId,
+              goal_type: type,
+              goal_key: key,
+              goal_minutes: minutes,
+            },
+          ],
+          { onConflict: "user_id,goal_type,goal_key" }
+        )
+        .select("id, goal_type, goal_key, goal_minutes")
+        .maybeSingle()
+    ),
+
+  remove: async (userId, type, key) => {
+    let query = supabase
+      .from("task_goals")
+      .delete()
+      .eq("user_id", userId)
+      .eq("goal_type", type);
+    if (key !== undefined) {
+      query = query.eq("goal_key", key);
+    }
+    return toResult<{ id: string }[]>(await query.select("id"));
+  },
+};
+
+const apiKeys: ApiKeyRepository = {
+  list: async () =>
+    toResult<ApiKeyRecord[]>(
+      await supabase
+        .from("api_keys")
+        .select(
+          "id, created_at, name, token_prefix, scopes, expires_at, last_used_at"
+        )
+        .order("created_at", { ascending: false })
+    ),
+
+  create: async (key) =>
+    withoutData(toResult(await supabase.from("api_keys").insert(key))),
+
+  rename: async (id, name) =>
+    withoutData(
+      toResult(await supabase.from("api_keys").update({ name }).eq("id", id))
+    ),
+
+  delete: async (id) =>
+    withoutData(
+      toResult(await supabase.from("api_keys").delete().eq("id", id))
+    ),
+
+  listRequestLogs: async (keyId) =>
+    toResult<ApiRequestLog[]>(
+      await supabase
+        .from("api_request_logs")
+        .select("id, created_at, method, endpoint, status")
+        .eq("api_key_id", keyId)
+        .order("created_at", { ascending: false })
+        .limit(50)
+    ),
+};
+
+const timeEntries: TimeEntryRepository = {
+  listForTasks: async (userId, taskIds) => {
+    if (taskIds.length === 0) return { data: [], error: null };
+    return toResult<TimeEntry[]>(
+      await supabase
+        .from("time_entries")
+        .select("*")
+        .eq("user_id", userId)
+        .in("task_id", taskIds)
+        .order("started_at", { ascending: true })
+    );
+  },
+
+  insert: async (entry) =>
+    toResult<TimeEntry>(
+      await supabase.from("time_entries").insert(entry).select().single()
+    ),
+
+  update: async (userId, id, changes) =>
+    toResult<TimeEntry>(
+      await supabase
+        .from("time_entries")
+        .update(changes)
+        .eq("id", id)
+        .eq("user_id", userId)
+        .select()
+        .single()
+    ),
+
+  delete: async (userId, id) =>
+    withoutData(
+      toResult(
+        await supabase
+          .from("time_entries")
+          .delete()
+          .eq("id", id)
+          .eq("user_id", userId)
+      )
+    ),
+};
+
+const buckets: BucketRepository = {
+  list: async (userId) =>
+    toResult<BucketConfig[]>(
+      await supabase
+        .from("task_buckets")
+        .select("*")
+        .eq("user_id", userId)
+        .order("position", { ascending: true })
+    ),
+
+  insert: async (bucket) =>
+    toResult<BucketConfig>(
+      await supabase.from("task_buckets").insert([bucket]).select().single()
+    ),
+
+  update: async (userId, id, changes) =>
+    toResult<BucketConfig>(
+      await supabase
+        .from("task_buckets")
+        .update(changes)
+        .eq("id", id)
+        .eq("user_id", userId)
+        .select()
+        .single()
+    ),
+
+  delete: async (userId, id) =>
+    withoutData(
+      toResult(
+        await supabase
+          .from("task_buckets")
+          .delete()
+          .eq("id", id)
+          .eq("user_id", userId)
+      )
+    ),
+};
+
+const projects: ProjectRepository = {
+  list: async (userId) =>
+    toResult<Project[]>(
+      await supabase
+        .from("projects")
+        .select("*")
+        .eq("user_id", userId)
+        .order("name", { ascending: true })
+    ),
+
+  insert: async (project) =>
+    toResult<Project>(
+      await supabase.from("projects").insert([project]).select().single()
+    ),
+
+  update: async (userId, id, changes) =>
+    toResult<Project>(
+      await supabase
+        .from("projects")
+        .update(changes)
+        .eq("id", id)
+        .eq("user_id", userId)
+        .select()
+        .single()
+    ),
+};
+
+const preferences: PreferencesRepository = {
+  get: async (userId) =>
+    toResult<UserPreferences>(
+      await supabase
+        .from("user_preferences")
+        .select("*")
+        .eq("user_id", userId)
+        .maybeSingle()
+    ),
+
+  insert: async (row) =>
+    toResult<UserPreferences>(
+      await supabase.from("user_preferences").insert([row]).select().single()
+    ),
+
+  update: async (userId, changes) =>
+    toResult<UserPreferences>(
+      await supabase
+        .from("user_preferences")
+        .update(changes)
+        .eq("user_id", userId)
+        .select()
+        .single()
+    ),
+
+  claimRolloverDate: async (userId, dateKey, timezone) => {
+    const { data, error } = toResult<{ user_id: string }[]>(
+      await supabase
+        .from("user_preferences")
+        .update({
+          last_rollover_date: dateKey,
+          timezone,
+          rollover_summary: null,
+        })
+        .eq("user_id", userId)
+        .or(`last_rollover_date.is.null,last_rollover_date.lt.${dateKey}`)
+        .select("user_id")
+    );
+    return { data: !error && (data?.length ?? 0) > 0, error };
+  },
+
+  takeRolloverSummary: async (userId) => {
+    const { data: row, error } = toResult<
+      Pick<UserPreferences, "rollover_summary">
+    >(
+      await supabase
+        .from("user_preferences")
+        .select("rollover_summary")
+        .eq("user_id", userId)
+        .maybeSingle()
+    );
+    const summary = row?.rollover_summary;
+    if (error || !summary) return { data: null, error };
+
+    // Only clear the summary read above, so one tab shows it
+    const { data: taken, error: takeError } = toResult<{ user_id: string }[]>(
+      await supabase
+        .from("user_preferences")
+        .update({ rollover_summary: null })
+        .eq("user_id", userId)
+        .eq("rollover_summary", summary)
+        .select("user_id")
+    );
+    return { data: taken?.length ? summary : null, error: takeError };
+  },
+};
+
+const TRASH_TABLES: Record<TrashKind, string> = {
+  task: "tasks",
+  note: "notes",
+};
+
+const trash: TrashRepository = {
+  list: async (userId) => {
+    const [tasksResult, notesResult] = await Promise.all([
+      supabase
+        .from("tasks")
+        .select("*")
+        .eq("user_id", userId)
+        .not("deleted_at", "is", null)
+        .order("deleted_at", { ascending: false }),
+      supabase
+        .from("notes")
+        .select("id, notes_title, notes_text, deleted_at")
+        .eq("user_id", userId)
+        .not("deleted_at", "is", null)
+        .order("deleted_at", { ascending: false }),
+    ]);
+
+    const tasks = toResult<Task[]>(tasksResult);
+    const notes = toResult<TrashedNote[]>(notesResult);
+    return {
+      data: { tasks: tasks.data || [], notes: notes.data || [] },
+      error: tasks.error || notes.error,
+    };
+  },
+
+  restore: async (userId, kind, ids) =>
+    toResult<(Task | NoteRecord)[]>(
+      await supabase
+        .from(TRASH_TABLES[kind])
+        .update({ deleted_at: null })
+        .eq("user_id", userId)
+        .in("id", ids)
+        .not("deleted_at", "is", null)
+        .select()
+    ),
+
+  deleteForever: async (userId, kind, ids) => {
+    let query = supabase
+      .from(TRASH_TABLES[kind])
+      .delete()
+      .eq("user_id", userId)
+      .not("deleted_at", "is", null);
+    if (ids) {
+      query = query.in("id", ids);
+    }
+    return toResult<{ id: string }[]>(await query.select("id"));
+  },
+
+  // purge_expired_trash works on the signed-in user
+  purgeExpired: async () =>
+    withoutData(toResult(await supabase.rpc("purge_expired_trash"))),
+};
+
+const bulkEdits: BulkEditRepository = {
+  listTaskGroups: async (userId, kind, values) => {
+    const column = kind === "project" ? "project_id" : "category";
+    let query = supabase
+      .from("tasks")
+      .select(`${column}, sub_task, is_archived`)
+      .eq("user_id", userId)
+      .is("deleted_at", null)
+      .not(column, "is", null);
+    if (values) {
+      query = query.in(column, values);
+    }
+
+    const { data, error } = toResult<Record<string, unknown>[]>(await query);
+    return {
+      data:
+        data?.map(
+          (row): TaskGroupRecord => ({
+            value: row[column] as string,
+            sub_task: row.sub_task as string,
+            is_archived: row.is_archived as boolean,
+          })
+        ) ?? null,
+      error,
+    };
+  },
+
+  countProjectGoals: async (userId, projectIds) => {
+    const { count, error, status } = await supabase
+      .from("task_goals")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", userId)
+      .eq("goal_type", "main")
+      .in("goal_key", projectIds);
+    return toResult<number>({ data: count ?? 0, error, status });
+  },
+
+  // The merge functions work on the signed-in user
+  apply: async (_userId, kind, from, to) =>
+    toResult<string>(
+      kind === "project"
+        ? await supabase.rpc("merge_projects", { p_from: from, p_to_name: to })
+        : await supabase.rpc("merge_categories", { p_from: from, p_to: to })
+    ),
+
+  undo: async (_userId, id) =>
+    withoutData(
+      toResult(await supabase.rpc("undo_bulk_edit", { p_id: id }))
+    ),
+
+  listRecent: async (userId, limit) =>
+    toResult<BulkEdit[]>(
+      await supabase
+        .from("bulk_edits")
+        .select(
+          "id, kind, from_values, to_value, affected_tasks, created_at, undone_at"
+        )
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false })
+        .limit(limit)
+    ),
+};
+
+const webhooks: WebhookRepository = {
+  list: async () =>
+    toResult<WebhookSubscription[]>(
+      await supabase
+        .from("webhook_subscriptions")
+        .select("id, created_at, url, events, secret, active")
+        .order("created_at", { ascending: false })
+    ),
+
+  create: async (subscription) =>
+    withoutData(
+      toResult(
+        await supabase.from("webhook_subscriptions").insert(subscription)
+      )
+    ),
+
+  setActive: async (id, active) =>
+    withoutData(
+      toResult(
+        await supabase
+          .from("webhook_subscriptions")
+          .update({ active })
+          .eq("id", id)
+      )
+    ),
+
+  delete: async (id) =>
+    withoutData(
+      toResult(
+        await supabase.from("webhook_subscriptions").delete().eq("id", id)
+      )
+    ),
+
+  listDeliveries: async (subscriptionId) =>
+    toResult<WebhookDelivery[]>(
+      await supabase
+        .from("webhook_deliveries")
+        .select(
+          "id, created_at, event, status, attempts, response_status, last_error, next_attempt_at"
+        )
+        .eq("subscription_id", subscriptionId)
+        .order("created_at", { ascending: false })
+        .limit(50)
+    ),
+
+  redeliver: async (id) =>
+    withoutData(
+      toResult(
+        await supabase
+          .from("webhook_deliveries")
+          .update({
+            status: "pending",
+            attempts: 0,
+            next_attempt_at: new Date().toISOString(),
+          })
+          .eq("id", id)
+      )
+    ),
+};
+
+export const supabaseRepositories: Repositories = {
+  tasks,
+  notes,
+  goals,
+  apiKeys,
+  timeEntries,
+  buckets,
+  projects,
+  preferences,
+  trash,
+  bulkEdits,
+  webhooks,
+};
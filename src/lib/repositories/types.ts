@@ -0,0 +1,355 @@
+import { PostgrestError } from "@supabase/supabase-js";
+import {
+  BucketConfig,
+  BulkEdit,
+  BulkEditKind,
+  Project,
+  Task,
+  TimeEntry,
+  UserPreferences,
+} from "@/types";
+import { TaskEventType } from "@/lib/taskEvents";
+
+// Errors look like Supabase's, whichever backend produced them, so callers
+// can keep using handleSupabaseError
+export type RepositoryError = PostgrestError;
+
+// Set on the error when Supabase couldn't be reached at all
+export const OFFLINE_ERROR_CODE = "offline";
+// Postgres' unique_violation, e.g. inserting a task id that already exists
+export const DUPLICATE_ERROR_CODE = "23505";
+
+export const repositoryError = (message: string, code = ""): RepositoryError =>
+  new PostgrestError({ message, details: "", hint: "", code });
+
+export const isOfflineError = (error: RepositoryError | null) =>
+  error?.code === OFFLINE_ERROR_CODE;
+
+export interface RepositoryResult<T> {
+  data: T | null;
+  error: RepositoryError | null;
+}
+
+// A row of the notes table
+export interface NoteRecord {
+  id: string;
+  user_id: string;
+  notes_title: string;
+  notes_text: string;
+  tags: string[] | null; // JSON-encoded Tag objects
+  created_at: string;
+  updated_at: string;
+  deleted_at?: string | null;
+}
+
+export type GoalType = "main" | "subtask";
+
+// A row of the task_goals table: the minutes planned for a project (keyed by
+// project id) or a subtask (keyed by name)
+export interface GoalRecord {
+  id: string;
+  goal_type: GoalType;
+  goal_key: string;
+  goal_minutes: number | null;
+}
+
+// An API key as listed to its owner; the token itself is never stored
+export interface ApiKeyRecord {
+  id: string;
+  created_at: string;
+  name: string | null;
+  token_prefix: string;
+  scopes: string[];
+  expires_at: string | null;
+  last_used_at: string | null;
+}
+
+export interface NewApiKey {
+  user_id: string;
+  token_prefix: string;
+  token_salt: string;
+  token_hash: string;
+  name: string | null;
+  scopes: string[];
+  expires_at: string | null;
+}
+
+// A request made with an API key, as recorded by the API handlers
+export interface ApiRequestLog {
+  id: string;
+  created_at: string;
+  method: string;
+  endpoint: string;
+  status: number;
+}
+
+// A task's project id or category, for counting and previewing bulk edits
+export interface TaskGroupRecord {
+  value: string;
+  sub_task: string;
+  is_archived: boolean;
+}
+
+export type TrashKind = "task" | "note";
+
+export interface TrashedNote {
+  id: string;
+  notes_title: string;
+  notes_text: string;
+  deleted_at: string;
+}
+
+export interface WebhookSubscription {
+  id: string;
+  created_at: string;
+  url: string;
+  events: TaskEventType[];
+  secret: string;
+  active: boolean;
+}
+
+export interface NewWebhookSubscription {
+  user_id: string;
+  url: string;
+  events: TaskEventType[];
+  secret: string;
+}
+
+// A single attempt to deliver an event to a subscription
+export interface WebhookDelivery {
+  id: string;
+  created_at: string;
+  event: TaskEventType;
+  status: "pending" | "sending" | "succeeded" | "failed";
+  attempts: number;
+  response_status: number | null;
+  last_error: string | null;
+  next_attempt_at: string;
+}
+
+export interface TaskRepository {
+  // Tasks on the board: not completed-and-archived, not in the trash
+  listActive(userId: string): Promise<RepositoryResult<Task[]>>;
+  // Archived, completed tasks finished at or after `since`, latest first
+  listCompletedSince(
+    userId: string,
+    since: string
+  ): Promise<RepositoryResult<Task[]>>;
+  get(userId: string, id: string): Promise<RepositoryResult<Task>>;
+  insert(task: Task): Promise<RepositoryResult<Task>>;
+  // With `baseUpdatedAt`, only updates the task if its updated_at is still
+  // that, i.e. nobody has saved it since the version the change was made to.
+  // Resolves with null data when no task was updated.
+  update(
+    userId: string,
+    id: string,
+    changes: Partial<Task>,
+    options?: { baseUpdatedAt?: string | null }
+  ): Promise<RepositoryResult<Task>>;
+  delete(userId: string, id: string): Promise<RepositoryResult<null>>;
+  // Apply `changes` to every task of the user matching all of `match`
+  updateWhere(
+    userId: string,
+    match: Partial<Pick<Task, "bucket" | "project_id">>,
+    changes: Partial<Task>
+  ): Promise<RepositoryResult<null>>;
+}
+
+export interface NoteRepository {
+  // Notes not in the trash, most recently updated first
+  listActive(userId: string): Promise<RepositoryResult<NoteRecord[]>>;
+  insert(
+    note: Omit<NoteRecord, "id" | "deleted_at">
+  ): Promise<RepositoryResult<NoteRecord>>;
+  update(
+    userId: string,
+    id: string,
+    changes: Partial<
+      Pick<NoteRecord, "notes_title" | "notes_text" | "tags" | "updated_at">
+    >
+  ): Promise<RepositoryResult<NoteRecord>>;
+  // Move a note to the trash; it can be restored from the Trash page
+  moveToTrash(userId: string, id: string): Promise<RepositoryResult<NoteRecord>>;
+}
+
+export interface GoalRepository {
+  list(userId: string, type: GoalType): Promise<RepositoryResult<GoalRecord[]>>;
+  save(
+    userId: string,
+    type: GoalType,
+    key: string,
+    minutes: number
+  ): Promise<RepositoryResult<GoalRecord>>;
+  // Remove one goal, or every goal of the type without `key`. Resolves with
+  // the ids removed.
+  remove(
+    userId: string,
+    type: GoalType,
+    key?: string
+  ): Promise<RepositoryResult<{ id: string }[]>>;
+}
+
+export interface TimeEntryRepository {
+  // Entries for any of `taskIds`, oldest first
+  listForTasks(
+    userId: string,
+    taskIds: string[]
+  ): Promise<RepositoryResult<TimeEntry[]>>;
+  insert(
+    entry: Omit<TimeEntry, "id" | "created_at" | "updated_at">
+  ): Promise<RepositoryResult<TimeEntry>>;
+  update(
+    userId: string,
+    id: string,
+    changes: Partial<
+      Pick<TimeEntry, "started_at" | "ended_at" | "duration_seconds">
+    >
+  ): Promise<RepositoryResult<TimeEntry>>;
+  delete(userId: string, id: string): Promise<RepositoryResult<null>>;
+}
+
+// API keys are read and changed under the signed-in user's row level
+// security, so only creating one needs the user id
+export interface ApiKeyRepository {
+  list(): Promise<RepositoryResult<ApiKeyRecord[]>>;
+  create(key: NewApiKey): Promise<RepositoryResult<null>>;
+  rename(id: string, name: string | null): Promise<RepositoryResult<null>>;
+  delete(id: string): Promise<RepositoryResult<null>>;
+  // The last 50 requests made with a key, latest first
+  listRequestLogs(keyId: string): Promise<RepositoryResult<ApiRequestLog[]>>;
+}
+
+export interface BucketRepository {
+  // The user's custom buckets, in display order
+  list(userId: string): Promise<RepositoryResult<BucketConfig[]>>;
+  insert(
+    bucket: Pick<BucketConfig, "user_id" | "name" | "color" | "position">
+  ): Promise<RepositoryResult<BucketConfig>>;
+  update(
+    userId: string,
+    id: string,
+    changes: Partial<Pick<BucketConfig, "name" | "color" | "position">>
+  ): Promise<RepositoryResult<BucketConfig>>;
+  delete(userId: string, id: string): Promise<RepositoryResult<null>>;
+}
+
+export interface ProjectRepository {
+  // Archived projects included, by name
+  list(userId: string): Promise<RepositoryResult<Project[]>>;
+  insert(
+    project: Pick<Project, "user_id" | "name" | "color" | "description">
+  ): Promise<RepositoryResult<Project>>;
+  update(
+    userId: string,
+    id: string,
+    changes: Partial<
+      Pick<Project, "name" | "color" | "description" | "is_archived">
+    >
+  ): Promise<RepositoryResult<Project>>;
+}
+
+export interface PreferencesRepository {
+  // Resolves with null data if the user has no preferences row yet
+  get(userId: string): Promise<RepositoryResult<UserPreferences>>;
+  insert(
+    preferences: Pick<
+      UserPreferences,
+      "user_id" | "timezone" | "last_rollover_date"
+    >
+  ): Promise<RepositoryResult<UserPreferences>>;
+  update(
+    userId: string,
+    changes: Partial<Omit<UserPreferences, "user_id" | "created_at">>
+  ): Promise<RepositoryResult<UserPreferences>>;
+  // Set last_rollover_date to `dateKey` unless it is there already, clearing
+  // the summary of the day before. Resolves with whether it was set, so only
+  // one caller rolls a day over.
+  claimRolloverDate(
+    userId: string,
+    dateKey: string,
+    timezone: string
+  ): Promise<RepositoryResult<boolean>>;
+  // Clear the summary the scheduled rollover left. Resolves with it, or with
+  // null if there was none or another tab took it first.
+  takeRolloverSummary(userId: string): Promise<RepositoryResult<string>>;
+}
+
+export interface TrashRepository {
+  // Trashed tasks and notes, most recently deleted first
+  list(
+    userId: string
+  ): Promise<RepositoryResult<{ tasks: Task[]; notes: TrashedNote[] }>>;
+  // Take items out of the trash. Resolves with the rows restored.
+  restore(
+    userId: string,
+    kind: TrashKind,
+    ids: string[]
+  ): Promise<RepositoryResult<(Task | NoteRecord)[]>>;
+  // Remove trashed items for good: those in `ids`, or all of the kind.
+  // Resolves with the ids removed.
+  deleteForever(
+    userId: string,
+    kind: TrashKind,
+    ids?: string[]
+  ): Promise<RepositoryResult<{ id: string }[]>>;
+  // Remove trashed items past the user's retention period
+  purgeExpired(userId: string): Promise<RepositoryResult<null>>;
+}
+
+export interface BulkEditRepository {
+  // Tasks with a project or category, archived ones included and trashed
+  // ones left out. With `values`, only tasks in one of those groups.
+  listTaskGroups(
+    userId: string,
+    kind: BulkEditKind,
+    values?: string[]
+  ): Promise<RepositoryResult<TaskGroupRecord[]>>;
+  // How many Today progress goals are keyed by any of `projectIds`
+  countProjectGoals(
+    userId: string,
+    projectIds: string[]
+  ): Promise<RepositoryResult<number>>;
+  // Merge the groups in `from` into `to` (see add_bulk_edits.sql). Resolves
+  // with the id of the recorded edit.
+  apply(
+    userId: string,
+    kind: BulkEditKind,
+    from: string[],
+    to: string
+  ): Promise<RepositoryResult<string>>;
+  undo(userId: string, id: string): Promise<RepositoryResult<null>>;
+  listRecent(
+    userId: string,
+    limit: number
+  ): Promise<RepositoryResult<BulkEdit[]>>;
+}
+
+// Like API keys, webhooks are read and changed under row level security
+export interface WebhookRepository {
+  list(): Promise<RepositoryResult<WebhookSubscription[]>>;
+  create(
+    subscription: NewWebhookSubscription
+  ): Promise<RepositoryResult<null>>;
+  setActive(id: string, active: boolean): Promise<RepositoryResult<null>>;
+  delete(id: string): Promise<RepositoryResult<null>>;
+  // The last 50 deliveries to a subscription, latest first
+  listDeliveries(
+    subscriptionId: string
+  ): Promise<RepositoryResult<WebhookDelivery[]>>;
+  // Queue a delivery again with a fresh set of attempts
+  redeliver(id: string): Promise<RepositoryResult<null>>;
+}
+
+export interface Repositories {
+  tasks: TaskRepository;
+  notes: NoteRepository;
+  goals: GoalRepository;
+  apiKeys: ApiKeyRepository;
+  timeEntries: TimeEntryRepository;
+  buckets: BucketRepository;
+  projects: ProjectRepository;
+  preferences: PreferencesRepository;
+  trash: TrashRepository;
+  bulkEdits: BulkEditRepository;
+  webhooks: WebhookRepository;
+}
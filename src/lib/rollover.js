@@ -0,0 +1,103 @@
+// Daily rollover of the Today/Tomorrow buckets, shared by TaskContext (run on
+// the first load of a new day) and the scheduled job in /api/rollover.
+import { isTaskDueBy } from "./dueDates.js";
+
+// What happens to unfinished Today tasks when the day rolls over
+export const UNFINISHED_TODAY_ACTIONS = /** @type {const} */ ([
+  "stay",
+  "on_hold",
+]);
+
+export const DEFAULT_UNFINISHED_TODAY_ACTION = "stay";
+
+const nextSortOrder = (tasks, bucket) =>
+  tasks
+    .filter((task) => task.bucket === bucket)
+    .reduce((max, task) => Math.max(max, task.sort_order ?? 0), 0) + 1;
+
+// Bucket moves for rolling `tasks` (active tasks with normalized buckets) over
+// to the day `todayKey`:
+// - Tomorrow tasks move to Today
+// - unfinished Today tasks move to On Hold when `unfinishedToday` is "on_hold",
+//   unless they are due today or overdue
+// - unfinished tasks due today, or overdue, move to Today from any bucket
+// Moved tasks go to the bottom of their new bucket, in their current order.
+// `timeZone` is only needed off the user's machine, to read due dates.
+/**
+ * @param {any[]} tasks
+ * @param {{ todayKey: string, unfinishedToday?: string, timeZone?: string }} options
+ * @returns {{ id: string, bucket: "Today" | "On Hold", sort_order: number, previousBucket: string }[]}
+ */
+export const planRollover = (
+  tasks,
+  { todayKey, unfinishedToday = DEFAULT_UNFINISHED_TODAY_ACTION, timeZone }
+) => {
+  const ordered = [...tasks].sort(
+    (a, b) => (a.sort_order ?? 0) - (b.sort_order ?? 0)
+  );
+  const toToday = [];
+  const toOnHold = [];
+
+  ordered.forEach((task) => {
+    const isDue = isTaskDueBy(task, todayKey, timeZone);
+
+    if (
+      task.bucket === "Tomorrow" ||
+      (task.bucket !== "Today" && isDue && !task.completed)
+    ) {
+      toToday.push(task);
+    } else if (
+      task.bucket === "Today" &&
+      unfinishedToday === "on_hold" &&
+      !task.completed &&
+      !isDue
+    ) {
+      toOnHold.push(task);
+    }
+  });
+
+  const movedIds = new Set([...toToday, ...toOnHold].map((task) => task.id));
+  const remaining = tasks.filter((task) => !movedIds.has(task.id));
+  const todayStart = nextSortOrder(remaining, "Today");
+  const onHoldStart = nextSortOrder(remaining, "On Hold");
+
+  return [
+    ...toToday.map((task, index) => ({
+      id: task.id,
+      bucket: "Today",
+      sort_order: todayStart + index,
+      previousBucket: task.bucket,
+    })),
+    ...toOnHold.map((task, index) => ({
+      id: task.id,
+      bucket: "On Hold",
+      sort_order: onHoldStart + index,
+      previousBucket: task.bucket,
+    })),
+  ];
+};
+
+const pluralizeTasks = (count) => `${count} task${count === 1 ? "" : "s"}`;
+
+// Human readable summary of a rollover plan, or "" when nothing moved
+export const describeRollover = (moves) => {
+  const fromTomorrow = moves.filter(
+    (move) => move.previousBucket === "Tomorrow"
+  ).length;
+  const due = moves.filter(
+    (move) => move.bucket === "Today" && move.previousBucket !== "Tomorrow"
+  ).length;
+  const toOnHold = moves.filter((move) => move.bucket === "On Hold").length;
+
+  const parts = [];
+  if (fromTomorrow) {
+    parts.push(`${pluralizeTasks(fromTomorrow)} moved from Tomorrow to Today`);
+  }
+  if (due) {
+    parts.push(`${pluralizeTasks(due)} due or overdue moved to Today`);
+  }
+  if (toOnHold) {
+    parts.push(`${pluralizeTasks(toOnHold)} left unfinished moved to On Hold`);
+  }
+  return parts.join(", ");
+};
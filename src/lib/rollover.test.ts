@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { Task } from "@/types";
+import { toDueAt } from "@/lib/dueDates";
+import { describeRollover, planRollover } from "@/lib/rollover";
+
+const makeTask = (id: string, fields: Partial<Task> = {}): Task => ({
+  id,
+  user_id: "user-1",
+  sub_task: `Task ${id}`,
+  main_task: "Website",
+  project_id: null,
+  category: "Work",
+  importance: "Medium",
+  bucket: "On Hold",
+  is_archived: false,
+  completed: false,
+  completed_at: null,
+  created_at: "2024-03-01T09:00:00.000Z",
+  updated_at: "2024-03-01T09:00:00.000Z",
+  ...fields,
+});
+
+describe("planRollover", () => {
+  it("moves tasks due on a day nobody opened the app into Today", () => {
+    // The app was last opened on the 9th, so the 10th was never rolled over
+    const moves = planRollover(
+      [
+        makeTask("due", { due_at: toDueAt("2024-03-10") }),
+        makeTask("occurrence", { occurrence_date: "2024-03-10" }),
+        makeTask("later", { due_at: toDueAt("2024-03-12") }),
+        makeTask("done", { due_at: toDueAt("2024-03-10"), completed: true }),
+      ],
+      { todayKey: "2024-03-11" }
+    );
+
+    expect(moves.map((move) => [move.id, move.bucket])).toEqual([
+      ["due", "Today"],
+      ["occurrence", "Today"],
+    ]);
+    expect(describeRollover(moves)).toBe(
+      "2 tasks due or overdue moved to Today"
+    );
+  });
+
+  it("keeps overdue tasks in Today when unfinished ones go on hold", () => {
+    const moves = planRollover(
+      [
+        makeTask("overdue", { bucket: "Today", due_at: toDueAt("2024-03-09") }),
+        makeTask("unfinished", { bucket: "Today" }),
+      ],
+      { todayKey: "2024-03-11", unfinishedToday: "on_hold" }
+    );
+
+    expect(moves.map((move) => [move.id, move.bucket])).toEqual([
+      ["unfinished", "On Hold"],
+    ]);
+  });
+});
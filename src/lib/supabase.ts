@@ -1,12 +1,18 @@
-import { createClient } from "@supabase/supabase-js";
+import { Session, createClient } from "@supabase/supabase-js";
 import { toast } from "sonner";
+import { DEMO_SESSION, isDemoMode } from "@/lib/demoMode";
 
 // These environment variables will be replaced by the actual values
 // when the user connects their Supabase project through Lovable
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || "";
 const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY || "";
 
-export const supabase = createClient(supabaseUrl, supabaseKey);
+// The demo mode has no project to connect to, but the client still needs a
+// URL to be created
+export const supabase = createClient(
+  supabaseUrl || (isDemoMode ? "http://localhost" : ""),
+  supabaseKey || (isDemoMode ? "demo" : "")
+);
 
 // Helper function for error handling
 export const handleSupabaseError = (error: Error | null) => {
@@ -20,6 +26,11 @@ export const handleSupabaseError = (error: Error | null) => {
 
 // Initialize the database schema
 export const initializeDatabase = async () => {
+  if (isDemoMode) {
+    toast.info("Demo mode: changes are kept in memory until you reload");
+    return true;
+  }
+
   try {
     // Check authentication
     const { data: authData } = await supabase.auth.getSession();
@@ -45,11 +56,12 @@ export const initializeDatabase = async () => {
         - id: uuid (primary key, default: uuid_generate_v4())
         - user_id: uuid (references auth.users, not null)
         - sub_task: text (not null)
-        - main_task: text
+        - project_id: uuid (references projects, on delete set null)
+        - main_task: text (copy of the project name)
         - category: text (not null)
         - importance: text (not null, check: importance in ('Low', 'Medium', 'High'))
         - time_estimate: integer
-        - bucket: text (not null, check: bucket in ('Short-Term', 'Mid-Term', 'Long-Term', 'This Week', 'Today', 'Tomorrow'))
+        - bucket: text (not null; 'On Hold', 'Today', 'Tomorrow' or a custom bucket name)
         - is_archived: boolean (not null, default: false)
         - completed: boolean (not null, default: false)
         - created_at: timestamptz (not null, default: now())
@@ -77,6 +89,8 @@ export const initializeDatabase = async () => {
 
 // Function to check authentication status
 export const checkAuthStatus = async () => {
+  if (isDemoMode) return DEMO_SESSION;
+
   const { data, error } = await supabase.auth.getSession();
   if (error) {
     console.error("Auth error:", error);
@@ -85,8 +99,26 @@ export const checkAuthStatus = async () => {
   return data.session;
 };
 
+// Call `listener` with the new session whenever the user signs in or out.
+// Returns a function that stops listening.
+export const onSessionChange = (
+  listener: (session: Session | null) => void
+) => {
+  if (isDemoMode) return () => undefined;
+
+  const { data } = supabase.auth.onAuthStateChange((_event, session) =>
+    listener(session)
+  );
+  return () => data.subscription.unsubscribe();
+};
+
 // Function to sign out
 export const signOut = async () => {
+  if (isDemoMode) {
+    toast.info("The demo has no account to sign out of");
+    return false;
+  }
+
   const { error } = await supabase.auth.signOut();
   if (error) {
     console.error("Sign out error:", error);
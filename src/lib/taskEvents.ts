@@ -0,0 +1,36 @@
+import { Task, TaskBucketType } from "@/types";
+
+// Lifecycle events emitted by TaskContext after a mutation has been saved
+export type TaskEventType =
+  | "task.created"
+  | "task.moved"
+  | "task.completed"
+  | "task.restored";
+
+export interface TaskEvent {
+  type: TaskEventType;
+  task: Task;
+  previousBucket?: TaskBucketType;
+}
+
+type TaskEventListener = (event: TaskEvent) => void;
+
+const listeners = new Set<TaskEventListener>();
+
+// Subscribe to task events. Returns a function that removes the listener.
+export const onTaskEvent = (listener: TaskEventListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const emitTaskEvent = (event: TaskEvent) => {
+  listeners.forEach((listener) => {
+    try {
+      listener(event);
+    } catch (err) {
+      console.error("Task event listener failed:", err);
+    }
+  });
+};
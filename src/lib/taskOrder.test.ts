@@ -0,0 +1,370 @@
+import { describe, expect, it } from "vitest";
+import { Task } from "@/types";
+import {
+  UNGROUPED_TASK_KEY,
+  flattenGroupedTasks,
+  getGroupOrder,
+  groupTasksByMain,
+  moveTaskToBucket,
+  reorderGroups,
+  reorderWithinGroup,
+  sortTasksByOrder,
+  toOrderUpdates,
+} from "@/lib/taskOrder";
+
+const makeTask = (id: string, fields: Partial<Task> = {}): Task => ({
+  id,
+  user_id: "user-1",
+  sub_task: `Task ${id}`,
+  project_id: null,
+  category: "Work",
+  importance: "Medium",
+  bucket: "Today",
+  is_archived: false,
+  completed: false,
+  created_at: "2024-01-01T00:00:00.000Z",
+  updated_at: "2024-01-01T00:00:00.000Z",
+  ...fields,
+});
+
+const ids = (tasks: Task[]) => tasks.map((task) => task.id);
+
+const orderOf = (tasks: Task[]) =>
+  tasks.map(({ id, bucket, sort_order }) => `${id}:${bucket}:${sort_order}`);
+
+describe("sortTasksByOrder", () => {
+  it("sorts by sort_order without changing the input", () => {
+    const tasks = [
+      makeTask("b", { sort_order: 2 }),
+      makeTask("a", { sort_order: 1 }),
+      makeTask("c", { sort_order: 3 }),
+    ];
+
+    expect(ids(sortTasksByOrder(tasks))).toEqual(["a", "b", "c"]);
+    expect(ids(tasks)).toEqual(["b", "a", "c"]);
+  });
+
+  it("puts legacy rows without sort_order last, newest first", () => {
+    const tasks = [
+      makeTask("old", { created_at: "2024-01-01T00:00:00.000Z" }),
+      makeTask("ordered", { sort_order: 5 }),
+      makeTask("new", { created_at: "2024-03-01T00:00:00.000Z" }),
+    ];
+
+    expect(ids(sortTasksByOrder(tasks))).toEqual(["ordered", "new", "old"]);
+  });
+
+  it("puts legacy rows with an unreadable created_at first among them", () => {
+    const tasks = [
+      makeTask("dated", { created_at: "2024-03-01T00:00:00.000Z" }),
+      makeTask("undated", { created_at: "not a date" }),
+    ];
+
+    expect(ids(sortTasksByOrder(tasks))).toEqual(["undated", "dated"]);
+  });
+});
+
+describe("groupTasksByMain", () => {
+  it("groups by project and sorts each group", () => {
+    const groups = groupTasksByMain([
+      makeTask("a2", { project_id: "a", sort_order: 2 }),
+      makeTask("loose", { sort_order: 3 }),
+      makeTask("b1", { project_id: "b", sort_order: 4 }),
+      makeTask("a1", { project_id: "a", sort_order: 1 }),
+    ]);
+
+    expect(Array.from(groups.keys())).toEqual(["a", UNGROUPED_TASK_KEY, "b"]);
+    expect(ids(groups.get("a") ?? [])).toEqual(["a1", "a2"]);
+    expect(ids(groups.get(UNGROUPED_TASK_KEY) ?? [])).toEqual(["loose"]);
+  });
+});
+
+describe("getGroupOrder", () => {
+  it("orders groups by their first task and leaves out ungrouped tasks", () => {
+    const groups = groupTasksByMain([
+      makeTask("b1", { project_id: "b", sort_order: 1 }),
+      makeTask("a1", { project_id: "a", sort_order: 3 }),
+      makeTask("a0", { project_id: "a", sort_order: 4 }),
+      makeTask("loose", { sort_order: 2 }),
+    ]);
+
+    expect(getGroupOrder(groups)).toEqual(["b", "a"]);
+  });
+
+  it("orders legacy groups by creation time, ahead of numbered groups", () => {
+    const groups = groupTasksByMain([
+      makeTask("numbered", { project_id: "numbered", sort_order: 1 }),
+      makeTask("old", {
+        project_id: "old",
+        created_at: "2024-01-01T00:00:00.000Z",
+      }),
+      makeTask("new", {
+        project_id: "new",
+        created_at: "2024-03-01T00:00:00.000Z",
+      }),
+    ]);
+
+    expect(getGroupOrder(groups)).toEqual(["new", "old", "numbered"]);
+  });
+});
+
+describe("flattenGroupedTasks", () => {
+  it("lists ungrouped tasks first, then the groups, numbered from 1", () => {
+    const groups = groupTasksByMain([
+      makeTask("a1", { project_id: "a", sort_order: 10 }),
+      makeTask("b1", { project_id: "b", sort_order: 20 }),
+      makeTask("loose", { sort_order: 30 }),
+    ]);
+
+    expect(orderOf(flattenGroupedTasks(groups, ["b", "a"]))).toEqual([
+      "loose:Today:1",
+      "b1:Today:2",
+      "a1:Today:3",
+    ]);
+  });
+
+  it("skips groups that aren't in the map", () => {
+    const groups = groupTasksByMain([
+      makeTask("a1", { project_id: "a", sort_order: 1 }),
+    ]);
+
+    expect(ids(flattenGroupedTasks(groups, ["missing", "a"]))).toEqual([
+      "a1",
+    ]);
+  });
+});
+
+describe("toOrderUpdates", () => {
+  it("keeps only what reorderTasks saves", () => {
+    expect(
+      toOrderUpdates([
+        makeTask("a", { bucket: "Tomorrow", sort_order: 2 }),
+        makeTask("legacy"),
+      ])
+    ).toEqual([
+      { id: "a", bucket: "Tomorrow", sort_order: 2 },
+      { id: "legacy", bucket: "Today", sort_order: 0 },
+    ]);
+  });
+});
+
+describe("reorderGroups", () => {
+  const tasks = [
+    makeTask("a1", { project_id: "a", sort_order: 1 }),
+    makeTask("a2", { project_id: "a", sort_order: 2 }),
+    makeTask("b1", { project_id: "b", sort_order: 3 }),
+    makeTask("c1", { project_id: "c", sort_order: 4 }),
+    makeTask("other", { project_id: "a", bucket: "Tomorrow", sort_order: 1 }),
+  ];
+
+  it("moves a group to the position of the one it was dropped on", () => {
+    expect(orderOf(reorderGroups(tasks, "Today", "c", "a") ?? [])).toEqual([
+      "c1:Today:1",
+      "a1:Today:2",
+      "a2:Today:3",
+      "b1:Today:4",
+    ]);
+  });
+
+  it("moves a group down past the one it was dropped on", () => {
+    expect(ids(reorderGroups(tasks, "Today", "a", "b") ?? [])).toEqual([
+      "b1",
+      "a1",
+      "a2",
+      "c1",
+    ]);
+  });
+
+  it("keeps ungrouped tasks first", () => {
+    const withLoose = [...tasks, makeTask("loose", { sort_order: 9 })];
+
+    expect(ids(reorderGroups(withLoose, "Today", "c", "a") ?? [])).toEqual([
+      "loose",
+      "c1",
+      "a1",
+      "a2",
+      "b1",
+    ]);
+  });
+
+  it("returns null when a group isn't in the bucket", () => {
+    expect(reorderGroups(tasks, "Today", "a", "missing")).toBeNull();
+    expect(reorderGroups(tasks, "Today", UNGROUPED_TASK_KEY, "a")).toBeNull();
+  });
+});
+
+describe("reorderWithinGroup", () => {
+  const tasks = [
+    makeTask("a1", { project_id: "a", sort_order: 1 }),
+    makeTask("a2", { project_id: "a", sort_order: 2 }),
+    makeTask("a3", { project_id: "a", sort_order: 3 }),
+    makeTask("b1", { project_id: "b", sort_order: 4 }),
+    makeTask("other", { project_id: "a", bucket: "Tomorrow", sort_order: 1 }),
+  ];
+  const [a1, a2, a3] = tasks;
+
+  it("moves a task up to the task it was dropped on", () => {
+    expect(orderOf(reorderWithinGroup(tasks, a3, "a1") ?? [])).toEqual([
+      "a3:Today:1",
+      "a1:Today:2",
+      "a2:Today:3",
+      "b1:Today:4",
+    ]);
+  });
+
+  it("moves a task down to the task it was dropped on", () => {
+    expect(ids(reorderWithinGroup(tasks, a1, "a2") ?? [])).toEqual([
+      "a2",
+      "a1",
+      "a3",
+      "b1",
+    ]);
+  });
+
+  it("moves a task to the end of its group when dropped on the bucket", () => {
+    expect(ids(reorderWithinGroup(tasks, a1, null) ?? [])).toEqual([
+      "a2",
+      "a3",
+      "a1",
+      "b1",
+    ]);
+  });
+
+  it("returns null when dropped on itself or on another group", () => {
+    expect(reorderWithinGroup(tasks, a2, "a2")).toBeNull();
+    expect(reorderWithinGroup(tasks, a3, null)).toBeNull();
+    expect(reorderWithinGroup(tasks, a1, "b1")).toBeNull();
+  });
+
+  it("reorders ungrouped tasks", () => {
+    const loose = [
+      makeTask("x", { sort_order: 1 }),
+      makeTask("y", { sort_order: 2 }),
+      makeTask("a1", { project_id: "a", sort_order: 3 }),
+    ];
+
+    expect(orderOf(reorderWithinGroup(loose, loose[1], "x") ?? [])).toEqual([
+      "y:Today:1",
+      "x:Today:2",
+      "a1:Today:3",
+    ]);
+  });
+
+  it("numbers legacy rows without sort_order", () => {
+    const legacy = [
+      makeTask("old", { created_at: "2024-01-01T00:00:00.000Z" }),
+      makeTask("new", { created_at: "2024-03-01T00:00:00.000Z" }),
+    ];
+
+    expect(
+      orderOf(reorderWithinGroup(legacy, legacy[0], "new") ?? [])
+    ).toEqual(["old:Today:1", "new:Today:2"]);
+  });
+});
+
+describe("moveTaskToBucket", () => {
+  const tasks = [
+    makeTask("a1", { project_id: "a", sort_order: 1 }),
+    makeTask("a2", { project_id: "a", sort_order: 2 }),
+    makeTask("b1", { project_id: "b", sort_order: 3 }),
+    makeTask("ta1", { project_id: "a", bucket: "Tomorrow", sort_order: 1 }),
+    makeTask("ta2", { project_id: "a", bucket: "Tomorrow", sort_order: 2 }),
+    makeTask("tc1", { project_id: "c", bucket: "Tomorrow", sort_order: 3 }),
+  ];
+  const [a1, , b1] = tasks;
+
+  it("inserts into an existing group before the task it was dropped on", () => {
+    expect(orderOf(moveTaskToBucket(tasks, a1, "Tomorrow", "ta2"))).toEqual([
+      "a2:Today:1",
+      "b1:Today:2",
+      "ta1:Tomorrow:1",
+      "a1:Tomorrow:2",
+      "ta2:Tomorrow:3",
+      "tc1:Tomorrow:4",
+    ]);
+  });
+
+  it("appends to an existing group when dropped on the bucket", () => {
+    expect(ids(moveTaskToBucket(tasks, a1, "Tomorrow", null))).toEqual([
+      "a2",
+      "b1",
+      "ta1",
+      "ta2",
+      "a1",
+      "tc1",
+    ]);
+  });
+
+  it("appends to its group when dropped on a task of another group", () => {
+    expect(ids(moveTaskToBucket(tasks, a1, "Tomorrow", "tc1"))).toEqual([
+      "a2",
+      "b1",
+      "ta1",
+      "ta2",
+      "a1",
+      "tc1",
+    ]);
+  });
+
+  it("starts a new group at the end of the target bucket", () => {
+    expect(orderOf(moveTaskToBucket(tasks, b1, "Tomorrow", "ta1"))).toEqual([
+      "a1:Today:1",
+      "a2:Today:2",
+      "ta1:Tomorrow:1",
+      "ta2:Tomorrow:2",
+      "tc1:Tomorrow:3",
+      "b1:Tomorrow:4",
+    ]);
+  });
+
+  it("puts an ungrouped task with the target's ungrouped tasks", () => {
+    const loose = makeTask("loose", { sort_order: 4 });
+    const withLoose = [
+      ...tasks,
+      loose,
+      makeTask("tloose", { bucket: "Tomorrow", sort_order: 4 }),
+    ];
+
+    expect(ids(moveTaskToBucket(withLoose, loose, "Tomorrow", null))).toEqual([
+      "a1",
+      "a2",
+      "b1",
+      "tloose",
+      "loose",
+      "ta1",
+      "ta2",
+      "tc1",
+    ]);
+  });
+
+  it("moves the only task out of its bucket", () => {
+    const single = [makeTask("only", { project_id: "a", sort_order: 1 })];
+
+    expect(
+      orderOf(moveTaskToBucket(single, single[0], "On Hold", null))
+    ).toEqual(["only:On Hold:1"]);
+  });
+
+  it("numbers legacy rows in both buckets", () => {
+    const legacy = [
+      makeTask("moved", { project_id: "a" }),
+      makeTask("stays", { project_id: "a" }),
+      makeTask("target", { project_id: "a", bucket: "Tomorrow" }),
+    ];
+
+    expect(
+      orderOf(moveTaskToBucket(legacy, legacy[0], "Tomorrow", "target"))
+    ).toEqual(["stays:Today:1", "moved:Tomorrow:1", "target:Tomorrow:2"]);
+  });
+
+  it("leaves other buckets out", () => {
+    const withOnHold = [
+      ...tasks,
+      makeTask("held", { bucket: "On Hold", sort_order: 1 }),
+    ];
+
+    expect(
+      ids(moveTaskToBucket(withOnHold, a1, "Tomorrow", null))
+    ).not.toContain("held");
+  });
+});
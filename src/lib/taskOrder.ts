@@ -1,9 +1,11 @@
-import { Task } from "@/types";
+import { arrayMove } from "@dnd-kit/sortable";
+import { Task, TaskBucketType } from "@/types";
 
 export const UNGROUPED_TASK_KEY = "__ungrouped__";
 
+// Tasks are grouped by project id, so renaming a project keeps its group
 export const getTaskGroupKey = (task: Task) =>
-  task.main_task || UNGROUPED_TASK_KEY;
+  task.project_id || UNGROUPED_TASK_KEY;
 
 const getFallbackOrder = (task: Task) => {
   const createdAt = new Date(task.created_at).getTime();
@@ -72,3 +74,108 @@ export const flattenGroupedTasks = (
     sort_order: index + 1,
   }));
 };
+
+// What reorderTasks saves for each task of a reordered bucket
+export type TaskOrderUpdate = {
+  id: string;
+  bucket: TaskBucketType;
+  sort_order: number;
+};
+
+export const toOrderUpdates = (tasks: Task[]): TaskOrderUpdate[] =>
+  tasks.map((task) => ({
+    id: task.id,
+    bucket: task.bucket,
+    sort_order: task.sort_order ?? 0,
+  }));
+
+const getBucketTasks = (tasks: Task[], bucket: TaskBucketType) =>
+  tasks.filter((task) => task.bucket === bucket);
+
+// Move a group to where another group of the same bucket is. Returns the
+// renumbered bucket, or null when either group isn't in it.
+export const reorderGroups = (
+  tasks: Task[],
+  bucket: TaskBucketType,
+  activeGroup: string,
+  overGroup: string
+): Task[] | null => {
+  const groups = groupTasksByMain(getBucketTasks(tasks, bucket));
+  const groupOrder = getGroupOrder(groups);
+  const activeIndex = groupOrder.indexOf(activeGroup);
+  const overIndex = groupOrder.indexOf(overGroup);
+  if (activeIndex === -1 || overIndex === -1) return null;
+
+  return flattenGroupedTasks(
+    groups,
+    arrayMove(groupOrder, activeIndex, overIndex)
+  );
+};
+
+// Move a task to where another task of its group is, or to the end of the
+// group when dropped on the bucket itself. Returns the renumbered bucket, or
+// null when nothing moves.
+export const reorderWithinGroup = (
+  tasks: Task[],
+  activeTask: Task,
+  overTaskId: string | null
+): Task[] | null => {
+  const groups = groupTasksByMain(getBucketTasks(tasks, activeTask.bucket));
+  const group = getTaskGroupKey(activeTask);
+  const groupTasks = groups.get(group) ?? [];
+  const activeIndex = groupTasks.findIndex((task) => task.id === activeTask.id);
+  if (activeIndex === -1) return null;
+
+  const overIndex = overTaskId
+    ? groupTasks.findIndex((task) => task.id === overTaskId)
+    : groupTasks.length - 1;
+  if (overIndex === -1 || overIndex === activeIndex) return null;
+
+  groups.set(group, arrayMove(groupTasks, activeIndex, overIndex));
+  return flattenGroupedTasks(groups, getGroupOrder(groups));
+};
+
+// Move a task into another bucket, keeping its group. It lands before the
+// task it was dropped on when that task is in the same group, otherwise at
+// the end of the group; a group new to the bucket goes last. Returns both
+// buckets renumbered.
+export const moveTaskToBucket = (
+  tasks: Task[],
+  activeTask: Task,
+  targetBucket: TaskBucketType,
+  overTaskId: string | null
+): Task[] => {
+  const sourceGroups = groupTasksByMain(
+    getBucketTasks(tasks, activeTask.bucket).filter(
+      (task) => task.id !== activeTask.id
+    )
+  );
+  const targetGroups = groupTasksByMain(getBucketTasks(tasks, targetBucket));
+  const group = getTaskGroupKey(activeTask);
+  const targetGroupTasks = targetGroups.get(group) ?? [];
+  const isNewGroup = targetGroupTasks.length === 0;
+
+  const overIndex = overTaskId
+    ? targetGroupTasks.findIndex((task) => task.id === overTaskId)
+    : -1;
+  const updatedTargetGroup = [...targetGroupTasks];
+  updatedTargetGroup.splice(
+    overIndex === -1 ? updatedTargetGroup.length : overIndex,
+    0,
+    { ...activeTask, bucket: targetBucket }
+  );
+  targetGroups.set(group, updatedTargetGroup);
+
+  let targetGroupOrder = getGroupOrder(targetGroups);
+  if (isNewGroup && group !== UNGROUPED_TASK_KEY) {
+    targetGroupOrder = [
+      ...targetGroupOrder.filter((key) => key !== group),
+      group,
+    ];
+  }
+
+  return [
+    ...flattenGroupedTasks(sourceGroups, getGroupOrder(sourceGroups)),
+    ...flattenGroupedTasks(targetGroups, targetGroupOrder),
+  ];
+};
@@ -0,0 +1,68 @@
+// Validation rules for task input, shared by CreateTaskForm and the API
+// handlers in /api. Kept as plain JavaScript so the Node functions can import
+// it without a build step.
+import { z } from "zod";
+import { recurrenceRuleSchema } from "./recurrence.js";
+import { bucketNameSchema } from "./buckets.js";
+import { blockedBySchema } from "./dependencies.js";
+import { projectNameSchema } from "./projects.js";
+
+export const IMPORTANCE_LEVELS = /** @type {const} */ (["Low", "Medium", "High"]);
+
+// The fields of a task, each checked on its own
+export const taskFieldsSchema = z.object({
+  project_id: z
+    .string()
+    .uuid({ message: "Project must be a project id" })
+    .nullable()
+    .optional(),
+  main_task: projectNameSchema.optional(),
+  sub_task: z.string().min(1, { message: "Subtask is required" }),
+  category: z.string().min(1, { message: "Category is required" }),
+  importance: z.enum(IMPORTANCE_LEVELS),
+  // Checked against the user's configured buckets where those are known
+  bucket: bucketNameSchema,
+  // Make time_estimate truly optional with no validation errors when empty
+  time_estimate: z
+    .union([
+      z
+        .number()
+        .int({ message: "Time estimate must be a whole number of minutes" })
+        .min(0, { message: "Time estimate cannot be negative" })
+        .optional(),
+      z.literal(undefined),
+    ])
+    .optional(),
+  recurrence_rule: recurrenceRuleSchema.nullable().optional(),
+  due_at: z
+    .string()
+    .datetime({
+      offset: true,
+      message: "Due date must be an ISO 8601 date and time",
+    })
+    .nullable()
+    .optional(),
+  blocked_by: blockedBySchema.optional(),
+});
+
+// A new task names its project either by `project_id` or by name in
+// `main_task`; an unknown name creates the project
+export const taskInputSchema = taskFieldsSchema.refine(
+  (task) => !!task.project_id || !!task.main_task,
+  {
+    message: "A task needs a project: give project_id or main_task",
+    path: ["main_task"],
+  }
+);
+
+// Fields that may be changed on an existing task
+export const taskUpdateSchema = taskFieldsSchema.partial().extend({
+  sort_order: z.number().int().min(0).optional(),
+});
+
+// Flatten zod issues into { field, message } pairs for API error responses
+export const formatValidationIssues = (error) =>
+  error.issues.map((issue) => ({
+    field: issue.path.join(".") || null,
+    message: issue.message,
+  }));
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatValidationIssues,
+  taskInputSchema,
+  taskUpdateSchema,
+} from "@/lib/taskSchema";
+
+const PROJECT_ID = "5f0c1d5e-7a0b-4c8e-9a51-2f4d6b8e1c3a";
+
+const newTask = {
+  sub_task: "Write the launch post",
+  category: "Work",
+  importance: "Medium",
+  bucket: "Today",
+};
+
+describe("taskInputSchema", () => {
+  it("accepts a project given by id or by name", () => {
+    expect(
+      taskInputSchema.safeParse({ ...newTask, project_id: PROJECT_ID }).success
+    ).toBe(true);
+    expect(
+      taskInputSchema.safeParse({ ...newTask, main_task: "Website" }).success
+    ).toBe(true);
+  });
+
+  it("rejects a new task with no project", () => {
+    for (const input of [
+      newTask,
+      { ...newTask, project_id: null },
+      { ...newTask, project_id: null, main_task: undefined },
+    ]) {
+      const parsed = taskInputSchema.safeParse(input);
+      expect(parsed.success).toBe(false);
+      expect(formatValidationIssues(parsed.error)).toEqual([
+        {
+          field: "main_task",
+          message: "A task needs a project: give project_id or main_task",
+        },
+      ]);
+    }
+  });
+});
+
+describe("taskUpdateSchema", () => {
+  it("lets an update leave the project alone", () => {
+    expect(taskUpdateSchema.safeParse({ bucket: "Tomorrow" }).success).toBe(
+      true
+    );
+    expect(taskUpdateSchema.safeParse({ project_id: null }).success).toBe(
+      true
+    );
+  });
+});
@@ -0,0 +1,267 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Task } from "@/types";
+import { createMemoryRepositories } from "@/lib/repositories/memory";
+
+// Each test gets an empty task repository and outbox
+const backend = vi.hoisted(() => ({
+  tasks: null,
+  stores: new Map<string, Map<unknown, { id?: unknown; user_id: string }>>(),
+}));
+
+vi.mock("@/lib/realtime", () => ({ publishRowChange: vi.fn() }));
+
+// The task repository is the in-memory backend, which moves updated_at on
+// with every save like the tasks table's trigger
+vi.mock("@/lib/repositories", async () => ({
+  ...(await import("@/lib/repositories/types")),
+  get taskRepository() {
+    return backend.tasks;
+  },
+}));
+
+// IndexedDB stores kept in maps, behind the few calls taskSync.ts makes.
+// Requests resolve straight to their result.
+vi.mock("@/lib/localDb", () => {
+  const { stores } = backend;
+  let nextId = 1;
+
+  const objectStore = (name: string) => {
+    if (!stores.has(name)) stores.set(name, new Map());
+    const rows = stores.get(name);
+    return {
+      index: () => ({
+        getAll: (userId: string) =>
+          Array.from(rows.values())
+            .filter((row) => row.user_id === userId)
+            .map((row) => ({ ...row })),
+      }),
+      add: (row: { user_id: string }) => {
+        const id = nextId++;
+        rows.set(id, { ...row, id });
+        return id;
+      },
+      put: (row: { id: unknown; user_id: string }) => {
+        rows.set(row.id, { ...row });
+        return row.id;
+      },
+      delete: (key: unknown) => rows.delete(key),
+    };
+  };
+
+  return {
+    OUTBOX_STORE: "outbox",
+    TASKS_STORE: "tasks",
+    requestToPromise: async <T>(result: T) => result,
+    withStores: async <T>(
+      _storeNames: string[],
+      _mode: string,
+      callback: (transaction: unknown) => Promise<T>
+    ) => callback({ objectStore }),
+    getAllForUser: async (storeName: string, userId: string) =>
+      objectStore(storeName).index().getAll(userId),
+    replaceLocalTasks: async () => undefined,
+  };
+});
+
+const USER_ID = "user-1";
+const NOW = new Date("2024-03-01T09:00:00.000Z").getTime();
+
+const connection = { onLine: true };
+const windowListeners = new Map<string, () => void>();
+
+// taskSync keeps module state, so each test loads a fresh copy
+const loadSync = async () => {
+  vi.resetModules();
+  const sync = await import("@/lib/taskSync");
+  const { taskRepository } = await import("@/lib/repositories");
+  sync.startTaskSync(USER_ID);
+  return { ...sync, taskRepository };
+};
+
+type Sync = Awaited<ReturnType<typeof loadSync>>;
+
+const setOnline = async (sync: Sync, isOnline: boolean) => {
+  connection.onLine = isOnline;
+  windowListeners.get(isOnline ? "online" : "offline")?.();
+  await sync.flushOutbox(USER_ID);
+};
+
+// A task saved on the server, whose version the sync has seen
+const seedTask = async (sync: Sync, id: string) => {
+  const { data } = await sync.taskRepository.insert({
+    id,
+    user_id: USER_ID,
+    sub_task: `Task ${id}`,
+    main_task: "Website",
+    project_id: null,
+    category: "Work",
+    importance: "Medium",
+    bucket: "Today",
+    is_archived: false,
+    completed: false,
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+  });
+  sync.rememberServerVersion(data);
+  return data;
+};
+
+const getTask = async (sync: Sync, id: string) =>
+  (await sync.taskRepository.get(USER_ID, id)).data;
+
+beforeEach(() => {
+  backend.tasks = createMemoryRepositories().tasks;
+  backend.stores.clear();
+  connection.onLine = true;
+  windowListeners.clear();
+  vi.stubGlobal("navigator", connection);
+  vi.stubGlobal("window", {
+    addEventListener: (type: string, listener: () => void) =>
+      windowListeners.set(type, listener),
+    removeEventListener: vi.fn(),
+  });
+  vi.stubGlobal("IDBKeyRange", { only: (value: unknown) => value });
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("task outbox", () => {
+  it("folds offline changes to a task into one queued change", async () => {
+    const sync = await loadSync();
+    await setOnline(sync, false);
+
+    const { data: task } = await sync.queueTaskInsert(USER_ID, {
+      sub_task: "Draft",
+      category: "Work",
+      importance: "Low",
+      bucket: "Today",
+    });
+    await sync.queueTaskUpdate(USER_ID, task.id, { sub_task: "Final" });
+    await sync.queueTaskUpdate(USER_ID, task.id, { importance: "High" });
+
+    expect(sync.getSyncStatus().pending).toBe(1);
+    expect(sync.hasPendingChange(task.id)).toBe(true);
+    expect(await getTask(sync, task.id)).toBeNull();
+
+    await setOnline(sync, true);
+    expect(await getTask(sync, task.id)).toMatchObject({
+      sub_task: "Final",
+      importance: "High",
+    });
+    expect(sync.getSyncStatus().pending).toBe(0);
+  });
+
+  it("drops a queued insert that is deleted before it is sent", async () => {
+    const sync = await loadSync();
+    await setOnline(sync, false);
+
+    const { data: task } = await sync.queueTaskInsert(USER_ID, {
+      sub_task: "Scratch",
+    });
+    await sync.queueTaskDelete(USER_ID, task.id);
+
+    expect(sync.getSyncStatus().pending).toBe(0);
+    expect(sync.hasPendingChange(task.id)).toBe(false);
+  });
+
+  it("sends queued changes in the order they were made", async () => {
+    const sync = await loadSync();
+    await seedTask(sync, "a");
+    await seedTask(sync, "b");
+    await setOnline(sync, false);
+
+    const calls: string[] = [];
+    const { taskRepository } = sync;
+    const { insert, update, delete: remove } = taskRepository;
+    vi.spyOn(taskRepository, "insert").mockImplementation((task) => {
+      calls.push(`insert ${task.id}`);
+      return insert(task);
+    });
+    vi.spyOn(taskRepository, "update").mockImplementation((...args) => {
+      calls.push(`update ${args[1]}`);
+      return update(...args);
+    });
+    vi.spyOn(taskRepository, "delete").mockImplementation((...args) => {
+      calls.push(`delete ${args[1]}`);
+      return remove(...args);
+    });
+
+    await sync.queueTaskUpdate(USER_ID, "b", { bucket: "Tomorrow" });
+    await sync.queueTaskInsert(USER_ID, { id: "c", sub_task: "New" });
+    await sync.queueTaskDelete(USER_ID, "a");
+    // Folded into the first change, so it goes out with it
+    await sync.queueTaskUpdate(USER_ID, "b", { importance: "High" });
+    await setOnline(sync, true);
+
+    expect(calls).toEqual(["update b", "insert c", "delete a"]);
+    expect(await getTask(sync, "b")).toMatchObject({
+      bucket: "Tomorrow",
+      importance: "High",
+    });
+  });
+
+  it("drops a change when the task was saved elsewhere since", async () => {
+    const sync = await loadSync();
+    await seedTask(sync, "a");
+    const conflicts: Task[] = [];
+    sync.onSyncEvent((event) => {
+      if (event.type === "conflict") conflicts.push(event.task);
+    });
+
+    await setOnline(sync, false);
+    await sync.queueTaskUpdate(USER_ID, "a", { sub_task: "Mine" });
+
+    // Another device saves the task while this one is offline
+    vi.setSystemTime(NOW + 1000);
+    await sync.taskRepository.update(USER_ID, "a", { sub_task: "Theirs" });
+
+    await setOnline(sync, true);
+    expect(conflicts.map((task) => task.sub_task)).toEqual(["Theirs"]);
+    expect((await getTask(sync, "a")).sub_task).toBe("Theirs");
+    expect(sync.getSyncStatus().pending).toBe(0);
+  });
+
+  it("saves a change made while an earlier one was being sent", async () => {
+    const sync = await loadSync();
+    await seedTask(sync, "a");
+    const conflicts: Task[] = [];
+    sync.onSyncEvent((event) => {
+      if (event.type === "conflict") conflicts.push(event.task);
+    });
+
+    // Hold the first update until the second one has been queued
+    let releaseFirst: () => void;
+    const firstHeld = new Promise<void>((resolve) => {
+      releaseFirst = resolve;
+    });
+    const { taskRepository } = sync;
+    const { update } = taskRepository;
+    vi.spyOn(taskRepository, "update").mockImplementationOnce(
+      async (...args) => {
+        await firstHeld;
+        return update(...args);
+      }
+    );
+
+    const first = sync.queueTaskUpdate(USER_ID, "a", { sub_task: "First" });
+    await vi.waitFor(() => expect(taskRepository.update).toHaveBeenCalled());
+    const second = sync.queueTaskUpdate(USER_ID, "a", { bucket: "Tomorrow" });
+    await vi.waitFor(() => expect(sync.getSyncStatus().pending).toBe(2));
+
+    // The server stamps the first update with its own clock
+    vi.setSystemTime(NOW + 1000);
+    releaseFirst();
+    await Promise.all([first, second]);
+
+    expect(conflicts).toEqual([]);
+    expect(await getTask(sync, "a")).toMatchObject({
+      sub_task: "First",
+      bucket: "Tomorrow",
+    });
+  });
+});
@@ -0,0 +1,475 @@
+import { publishRowChange } from "@/lib/realtime";
+import {
+  DUPLICATE_ERROR_CODE,
+  OFFLINE_ERROR_CODE,
+  RepositoryError,
+  isOfflineError,
+  repositoryError,
+  taskRepository,
+} from "@/lib/repositories";
+import { Task } from "@/types";
+import {
+  OUTBOX_STORE,
+  OutboxEntry,
+  TASKS_STORE,
+  getAllForUser,
+  replaceLocalTasks,
+  requestToPromise,
+  withStores,
+} from "@/lib/localDb";
+
+// Task writes from TaskContext go through an outbox in IndexedDB: a change
+// is queued, then sent right away when online or once the connection comes
+// back. Conflicts are settled with updated_at as a version: an update
+// records the task's updated_at on the server when it was made, and is
+// dropped in favour of the server's version if the task has been saved
+// elsewhere since. Device clocks don't come into it.
+
+export interface SyncStatus {
+  isOnline: boolean;
+  isSyncing: boolean;
+  pending: number; // Changes waiting in the outbox
+  lastSyncedAt: string | null;
+}
+
+export type SyncEvent =
+  | { type: "status"; status: SyncStatus }
+  // A queued change lost to a newer server version, which is passed along
+  | { type: "conflict"; task: Task }
+  // Supabase refused a change that was sent in the background
+  | { type: "rejected"; entry: OutboxEntry; error: RepositoryError };
+
+type SendResult =
+  | { kind: "saved"; data: Task | null }
+  | { kind: "conflict"; task: Task }
+  | { kind: "rejected"; error: RepositoryError }
+  | { kind: "offline" };
+
+type SyncEventListener = (event: SyncEvent) => void;
+
+const listeners = new Set<SyncEventListener>();
+
+let status: SyncStatus = {
+  isOnline: typeof navigator === "undefined" ? true : navigator.onLine,
+  isSyncing: false,
+  pending: 0,
+  lastSyncedAt: null,
+};
+
+// Outbox entries a caller is waiting on, so their errors aren't reported
+// twice
+const awaitedEntries = new Set<number>();
+// The entry being sent, which later changes must not be folded into
+let sendingEntryId: number | null = null;
+// Tasks with changes in the outbox, including the one being sent
+let pendingTaskIds = new Set<string>();
+let flushChain: Promise<unknown> = Promise.resolve();
+// Each task's updated_at as last seen on the server
+const serverVersions = new Map<string, string | null>();
+
+const emit = (event: SyncEvent) => {
+  listeners.forEach((listener) => {
+    try {
+      listener(event);
+    } catch (err) {
+      console.error("Sync listener failed:", err);
+    }
+  });
+};
+
+const setStatus = (changes: Partial<SyncStatus>) => {
+  status = { ...status, ...changes };
+  emit({ type: "status", status });
+};
+
+// Subscribe to sync events. Returns a function that removes the listener.
+export const onSyncEvent = (listener: SyncEventListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getSyncStatus = () => status;
+
+// Whether a task has changes that haven't reached Supabase yet, so a copy
+// of it from elsewhere would be out of date
+export const hasPendingChange = (taskId: string) => pendingTaskIds.has(taskId);
+
+// Note the version of a task read from the server. Updates queued from now
+// on are only saved if the server still has it.
+export const rememberServerVersion = (
+  task: Pick<Task, "id" | "updated_at">
+) => {
+  serverVersions.set(task.id, task.updated_at ?? null);
+};
+
+const isNetworkFailure = ({ error }: { error: RepositoryError | null }) =>
+  isOfflineError(error) ||
+  (typeof navigator !== "undefined" && !navigator.onLine);
+
+const getOutbox = async (userId: string) => {
+  const entries = await getAllForUser<OutboxEntry>(OUTBOX_STORE, userId);
+  return entries.sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+};
+
+const refreshPendingCount = async (userId: string) => {
+  try {
+    const entries = await getOutbox(userId);
+    pendingTaskIds = new Set(entries.map((entry) => entry.task_id));
+    setStatus({ pending: entries.length });
+  } catch (err) {
+    console.error("Error reading the outbox:", err);
+  }
+};
+
+// Add a change to the outbox, folding it into a change to the same task
+// that hasn't been sent yet, which keeps that change's base version. Returns
+// the id of the entry that now holds the change, or null if it cancelled a
+// queued insert out.
+const addToOutbox = (entry: OutboxEntry) =>
+  withStores([OUTBOX_STORE], "readwrite", async (transaction) => {
+    const store = transaction.objectStore(OUTBOX_STORE);
+    const queued = (
+      await requestToPromise<OutboxEntry[]>(
+        store.index("user_id").getAll(IDBKeyRange.only(entry.user_id))
+      )
+    )
+      .filter((other) => other.task_id === entry.task_id)
+      .sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+    const sending = queued.find((other) => other.id === sendingEntryId);
+    if (sending) queued.splice(queued.indexOf(sending), 1);
+    const last = queued[queued.length - 1];
+
+    if (entry.op === "update" && last && last.op !== "delete") {
+      const merged = {
+        ...last,
+        payload: { ...last.payload, ...entry.payload },
+        queued_at: entry.queued_at,
+      };
+      await requestToPromise(store.put(merged));
+      return last.id ?? null;
+    }
+
+    if (entry.op === "delete" && queued.length > 0) {
+      queued.forEach((other) => store.delete(other.id));
+      if (queued[0].op === "insert") return null;
+    }
+
+    // An update made on top of the change being sent builds on the version
+    // that change saves. The server sets updated_at when it saves, so that
+    // version is only known once the send returns.
+    const rebase =
+      entry.op === "update" && sending && sending.op !== "delete"
+        ? { rebase_on_send: true }
+        : {};
+    return (await requestToPromise(
+      store.add({ ...entry, ...rebase })
+    )) as number;
+  });
+
+const removeFromOutbox = (id: number) =>
+  withStores([OUTBOX_STORE], "readwrite", async (transaction) => {
+    await requestToPromise(transaction.objectStore(OUTBOX_STORE).delete(id));
+  });
+
+const sendEntry = async (entry: OutboxEntry): Promise<SendResult> => {
+  if (entry.op === "insert") {
+    const result = await taskRepository.insert(entry.payload as Task);
+    if (isNetworkFailure(result)) return { kind: "offline" };
+    // Already inserted by an earlier attempt whose response was lost
+    if (result.error?.code === DUPLICATE_ERROR_CODE) {
+      return { kind: "saved", data: null };
+    }
+    if (result.error) return { kind: "rejected", error: result.error };
+    rememberServerVersion(result.data ?? (entry.payload as Task));
+    return { kind: "saved", data: result.data };
+  }
+
+  if (entry.op === "delete") {
+    const result = await taskRepository.delete(entry.user_id, entry.task_id);
+    if (isNetworkFailure(result)) return { kind: "offline" };
+    if (result.error) return { kind: "rejected", error: result.error };
+    return { kind: "saved", data: null };
+  }
+
+  // Only overwrite a task nobody has saved since this change was made. For
+  // a change made while an earlier one was being sent, that's the version
+  // the earlier send returned.
+  const baseUpdatedAt = entry.rebase_on_send
+    ? serverVersions.get(entry.task_id)
+    : entry.base_updated_at;
+  const result = await taskRepository.update(
+    entry.user_id,
+    entry.task_id,
+    entry.payload,
+    { baseUpdatedAt }
+  );
+  if (isNetworkFailure(result)) return { kind: "offline" };
+  if (result.error) return { kind: "rejected", error: result.error };
+  if (result.data) {
+    rememberServerVersion(result.data);
+    return { kind: "saved", data: result.data };
+  }
+
+  const current = await taskRepository.get(entry.user_id, entry.task_id);
+  if (isNetworkFailure(current)) return { kind: "offline" };
+  if (current.error) return { kind: "rejected", error: current.error };
+  if (!current.data) {
+    return {
+      kind: "rejected",
+      error: repositoryError("This task no longer exists"),
+    };
+  }
+  rememberServerVersion(current.data);
+  return { kind: "conflict", task: current.data };
+};
+
+// Let other tabs know about a change that has been saved
+const publishSavedEntry = (entry: OutboxEntry, data: Task | null) => {
+  if (entry.op === "delete") {
+    publishRowChange(entry.user_id, {
+      table: "tasks",
+      type: "DELETE",
+      id: entry.task_id,
+      row: null,
+    });
+    return;
+  }
+  publishRowChange(entry.user_id, {
+    table: "tasks",
+    type: entry.op === "insert" ? "INSERT" : "UPDATE",
+    id: entry.task_id,
+    row: data ?? (entry.op === "insert" ? (entry.payload as Task) : null),
+  });
+};
+
+const runFlush = async (userId: string) => {
+  const results = new Map<number, SendResult>();
+  if (!status.isOnline) return results;
+
+  setStatus({ isSyncing: true });
+  try {
+    const entries = await getOutbox(userId);
+    let isComplete = true;
+
+    for (const entry of entries) {
+      sendingEntryId = entry.id;
+      const result = await sendEntry(entry);
+      if (result.kind === "offline") {
+        isComplete = false;
+        break;
+      }
+
+      await removeFromOutbox(entry.id);
+      sendingEntryId = null;
+      results.set(entry.id, result);
+
+      if (result.kind === "saved") {
+        publishSavedEntry(entry, result.data);
+      } else if (result.kind === "conflict") {
+        emit({ type: "conflict", task: result.task });
+      } else if (result.kind === "rejected" && !awaitedEntries.has(entry.id)) {
+        emit({ type: "rejected", entry, error: result.error });
+      }
+    }
+
+    if (isComplete) {
+      setStatus({ lastSyncedAt: new Date().toISOString() });
+    }
+  } catch (err) {
+    console.error("Error syncing changes:", err);
+  } finally {
+    sendingEntryId = null;
+    setStatus({ isSyncing: false });
+    await refreshPendingCount(userId);
+  }
+  return results;
+};
+
+// Send the user's queued changes in order, stopping at the first one that
+// can't reach Supabase. Runs one flush at a time.
+export const flushOutbox = (userId: string) => {
+  const run = flushChain.then(() => runFlush(userId));
+  flushChain = run.catch(() => undefined);
+  return run;
+};
+
+// Queue a change and try to send it. Resolves like a Supabase call: with
+// the saved row, or with the error if Supabase refused it. While offline it
+// resolves with no error and the change stays queued.
+const queueChange = async (
+  entry: Omit<OutboxEntry, "queued_at">,
+  queuedAt = new Date().toISOString()
+) => {
+  const queuedEntry = { ...entry, queued_at: queuedAt };
+
+  let entryId: number | null;
+  try {
+    pendingTaskIds.add(entry.task_id);
+    entryId = await addToOutbox(queuedEntry);
+  } catch (err) {
+    // No IndexedDB: send it straight away, without offline support
+    console.error("Error queueing change, sending it directly:", err);
+    pendingTaskIds.delete(entry.task_id);
+    const result = await sendEntry(queuedEntry);
+    if (result.kind === "offline") {
+      return { data: null, error: repositoryError("You are offline", OFFLINE_ERROR_CODE) };
+    }
+    if (result.kind === "rejected") return { data: null, error: result.error };
+    if (result.kind === "conflict") return { data: null, error: null };
+    publishSavedEntry(queuedEntry, result.data);
+    return { data: result.data, error: null };
+  }
+
+  if (entryId === null) {
+    await refreshPendingCount(entry.user_id);
+    return { data: null, error: null };
+  }
+
+  awaitedEntries.add(entryId);
+  try {
+    await refreshPendingCount(entry.user_id);
+    const results = await flushOutbox(entry.user_id);
+    const result = results.get(entryId);
+    if (result?.kind === "rejected") {
+      return { data: null, error: result.error };
+    }
+    return {
+      data: result?.kind === "saved" ? result.data : null,
+      error: null,
+    };
+  } finally {
+    awaitedEntries.delete(entryId);
+  }
+};
+
+// Insert a task, generating its id locally so it can be used before it
+// reaches Supabase. Resolves with the saved row, or the local one while
+// offline.
+export const queueTaskInsert = async (
+  userId: string,
+  row: Partial<Task>
+) => {
+  const now = new Date().toISOString();
+  const task = {
+    created_at: now,
+    updated_at: now,
+    ...row,
+    id: row.id ?? crypto.randomUUID(),
+    user_id: userId,
+  } as Task;
+
+  const { data, error } = await queueChange(
+    { user_id: userId, task_id: task.id, op: "insert", payload: task },
+    now
+  );
+  return { data: error ? null : data ?? task, error };
+};
+
+export const queueTaskUpdate = (
+  userId: string,
+  taskId: string,
+  changes: Partial<Task>
+) => {
+  const queuedAt = new Date().toISOString();
+  return queueChange(
+    {
+      user_id: userId,
+      task_id: taskId,
+      op: "update",
+      payload: { ...changes, updated_at: queuedAt },
+      ...(serverVersions.has(taskId)
+        ? { base_updated_at: serverVersions.get(taskId) }
+        : {}),
+    },
+    queuedAt
+  );
+};
+
+export const queueTaskDelete = (userId: string, taskId: string) =>
+  queueChange({ user_id: userId, task_id: taskId, op: "delete", payload: {} });
+
+// The user's tasks as last saved on this device. Their updated_at is the
+// server version, so changes made before the server is reached (e.g. when
+// the app is opened offline) still have one to be checked against.
+export const loadLocalTasks = async (userId: string) => {
+  try {
+    const tasks = await getAllForUser<Task>(TASKS_STORE, userId);
+    tasks
+      .filter((task) => !serverVersions.has(task.id))
+      .forEach(rememberServerVersion);
+    return tasks;
+  } catch (err) {
+    console.error("Error loading saved tasks:", err);
+    return [];
+  }
+};
+
+export const saveLocalTasks = async (userId: string, tasks: Task[]) => {
+  try {
+    await replaceLocalTasks(
+      userId,
+      tasks.map((task) =>
+        serverVersions.has(task.id)
+          ? { ...task, updated_at: serverVersions.get(task.id) }
+          : task
+      )
+    );
+  } catch (err) {
+    console.error("Error saving tasks locally:", err);
+  }
+};
+
+// Combine tasks fetched from Supabase with the local copies of tasks that
+// still have changes queued, so unsent edits aren't overwritten
+export const mergePendingTasks = async (
+  userId: string,
+  serverTasks: Task[],
+  localTasks: Task[]
+) => {
+  serverTasks.forEach(rememberServerVersion);
+
+  let pendingIds: Set<string>;
+  try {
+    pendingIds = new Set(
+      (await getOutbox(userId)).map((entry) => entry.task_id)
+    );
+  } catch {
+    return serverTasks;
+  }
+  if (pendingIds.size === 0) return serverTasks;
+
+  const localById = new Map(localTasks.map((task) => [task.id, task]));
+  const merged = serverTasks.flatMap((task) => {
+    if (!pendingIds.has(task.id)) return [task];
+    const local = localById.get(task.id);
+    return local ? [local] : [];
+  });
+  const unsent = localTasks.filter(
+    (task) =>
+      pendingIds.has(task.id) && !serverTasks.some((t) => t.id === task.id)
+  );
+  return [...merged, ...unsent];
+};
+
+// Track the connection and send queued changes whenever it comes back.
+// Returns a function that stops it.
+export const startTaskSync = (userId: string) => {
+  const handleOnline = () => {
+    setStatus({ isOnline: true });
+    flushOutbox(userId);
+  };
+  const handleOffline = () => setStatus({ isOnline: false });
+
+  window.addEventListener("online", handleOnline);
+  window.addEventListener("offline", handleOffline);
+  setStatus({ isOnline: navigator.onLine });
+  refreshPendingCount(userId);
+  flushOutbox(userId);
+
+  return () => {
+    window.removeEventListener("online", handleOnline);
+    window.removeEventListener("offline", handleOffline);
+  };
+};
@@ -0,0 +1,42 @@
+import { Task, TimeEntry } from "@/types";
+
+// Entries shorter than this are dropped, e.g. starting and pausing the
+// countdown straight away
+export const MIN_ENTRY_SECONDS = 5;
+
+export const getTrackedSeconds = (entries: TimeEntry[], taskId: string) =>
+  entries
+    .filter((entry) => entry.task_id === taskId)
+    .reduce((total, entry) => total + entry.duration_seconds, 0);
+
+// Pomodoro cycles completed on a task, counted from the entries that ended
+// a focus phase
+export const getCompletedCycles = (entries: TimeEntry[], taskId: string) =>
+  entries.filter(
+    (entry) => entry.task_id === taskId && entry.completes_cycle
+  ).length;
+
+export const toTrackedMinutes = (seconds: number) => Math.round(seconds / 60);
+
+// Fields of an entry running from `startedAt` for `durationSeconds`
+export const buildEntryTimes = (startedAt: Date, durationSeconds: number) => ({
+  started_at: startedAt.toISOString(),
+  ended_at: new Date(
+    startedAt.getTime() + durationSeconds * 1000
+  ).toISOString(),
+  duration_seconds: Math.max(0, Math.round(durationSeconds)),
+});
+
+// Minutes tracked on a task: from its entries while on the board, from the
+// total saved on completion afterwards
+export const getActualMinutes = (task: Task, entries: TimeEntry[]) =>
+  task.is_archived
+    ? task.tracked_minutes ?? 0
+    : toTrackedMinutes(getTrackedSeconds(entries, task.id));
+
+// "1h 05m" style label for a number of minutes
+export const formatMinutes = (minutes: number) => {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  return `${hours}h ${(minutes % 60).toString().padStart(2, "0")}m`;
+};
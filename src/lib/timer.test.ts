@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("sonner", () => ({ toast: { error: vi.fn() } }));
+vi.mock("@/lib/repositories", () => ({
+  timeEntryRepository: {
+    insert: vi.fn(async (entry) => ({
+      data: { id: "entry-1", ...entry },
+      error: null,
+    })),
+  },
+}));
+
+import { timeEntryRepository } from "@/lib/repositories";
+
+const STATE_KEY = "task-manager-timer";
+const NOW = new Date("2024-01-01T12:00:00.000Z").getTime();
+const MINUTE = 60 * 1000;
+
+// The timer keeps module state, so each test loads a fresh copy
+const loadTimer = async () => {
+  vi.resetModules();
+  return import("@/lib/timer");
+};
+
+// A pomodoro focus phase that started 25 minutes before `endsAt`
+const saveRunningTimer = (endsAt: number) => {
+  localStorage.setItem(
+    STATE_KEY,
+    JSON.stringify({
+      userId: "user-1",
+      taskId: "task-1",
+      taskName: "Write report",
+      mode: "pomodoro",
+      phase: "work",
+      phaseSeconds: 25 * 60,
+      secondsLeft: 25 * 60,
+      endsAt,
+      runStartedAt: endsAt - 25 * MINUTE,
+      completedCycles: 0,
+      isComplete: false,
+    })
+  );
+};
+
+beforeEach(() => {
+  const storage = new Map<string, string>();
+  vi.stubGlobal("localStorage", {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key),
+  });
+  vi.stubGlobal("window", {
+    addEventListener: vi.fn(),
+    removeEventListener: vi.fn(),
+  });
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW);
+  vi.mocked(timeEntryRepository.insert).mockClear();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("restoreTimer", () => {
+  it("catches up once on a timer reloaded hours after it ended", async () => {
+    const timer = await loadTimer();
+    const phaseEnds = vi.fn();
+    timer.onTimerEvent((event) => {
+      if (event.type === "phase-ended") phaseEnds(event);
+    });
+    saveRunningTimer(NOW - 3 * 60 * MINUTE);
+
+    const stop = timer.restoreTimer();
+
+    // Only the focus phase that was running is logged, in full, as a cycle
+    expect(timeEntryRepository.insert).toHaveBeenCalledTimes(1);
+    expect(
+      vi.mocked(timeEntryRepository.insert).mock.calls[0][0]
+    ).toMatchObject({
+      task_id: "task-1",
+      duration_seconds: 25 * 60,
+      completes_cycle: true,
+    });
+    // The break after it waits to be started
+    expect(timer.getTimerState()).toMatchObject({
+      phase: "shortBreak",
+      secondsLeft: 5 * 60,
+      endsAt: null,
+      runStartedAt: null,
+      completedCycles: 1,
+    });
+    expect(phaseEnds).toHaveBeenCalledTimes(1);
+
+    // Nothing more happens while it waits
+    vi.advanceTimersByTime(60 * MINUTE);
+    expect(timeEntryRepository.insert).toHaveBeenCalledTimes(1);
+    expect(phaseEnds).toHaveBeenCalledTimes(1);
+    stop();
+  });
+
+  it("runs on into the next phase when it ended moments ago", async () => {
+    const timer = await loadTimer();
+    saveRunningTimer(NOW - 2 * MINUTE);
+
+    const stop = timer.restoreTimer();
+
+    expect(timeEntryRepository.insert).toHaveBeenCalledTimes(1);
+    expect(timer.getTimerState()).toMatchObject({
+      phase: "shortBreak",
+      secondsLeft: 3 * 60,
+      endsAt: NOW + 3 * MINUTE,
+    });
+    stop();
+    timer.stopTimer();
+  });
+});
+
+describe("skipPhase", () => {
+  it("logs a skipped focus phase without counting a cycle", async () => {
+    const timer = await loadTimer();
+    timer.startTimer({
+      userId: "user-1",
+      taskId: "task-1",
+      taskName: "Write report",
+      mode: "pomodoro",
+      minutes: 25,
+    });
+
+    vi.advanceTimersByTime(10 * MINUTE);
+    timer.skipPhase();
+
+    expect(timeEntryRepository.insert).toHaveBeenCalledTimes(1);
+    expect(
+      vi.mocked(timeEntryRepository.insert).mock.calls[0][0]
+    ).toMatchObject({ duration_seconds: 10 * 60, completes_cycle: false });
+    expect(timer.getTimerState()).toMatchObject({
+      phase: "shortBreak",
+      completedCycles: 0,
+    });
+    timer.stopTimer();
+  });
+});
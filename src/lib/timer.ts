@@ -0,0 +1,420 @@
+import { toast } from "sonner";
+import { TimeEntry } from "@/types";
+import { timeEntryRepository } from "@/lib/repositories";
+import { MIN_ENTRY_SECONDS, buildEntryTimes } from "@/lib/timeEntries";
+
+// The task timer lives here rather than in the countdown dialog, so it keeps
+// running when the dialog is closed and can be shown in the navigation bar.
+// Only one task is timed at a time. Its state is saved in localStorage and
+// time left is worked out from timestamps, so it carries on across reloads
+// and is shared by open tabs.
+
+export type TimerMode = "countdown" | "pomodoro";
+export type TimerPhase = "work" | "shortBreak" | "longBreak";
+
+export interface PomodoroSettings {
+  workMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  longBreakEvery: number; // Work cycles before a long break
+  autoAdvance: boolean; // Start the next phase without waiting
+}
+
+export const DEFAULT_POMODORO_SETTINGS: PomodoroSettings = {
+  workMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  longBreakEvery: 4,
+  autoAdvance: true,
+};
+
+export interface TimerState {
+  userId: string;
+  taskId: string;
+  taskName: string;
+  mode: TimerMode;
+  phase: TimerPhase; // Always "work" in countdown mode
+  phaseSeconds: number; // Length of the current phase
+  secondsLeft: number;
+  endsAt: number | null; // When the phase ends, while running
+  runStartedAt: number | null; // Start of the stretch not yet logged
+  // Work phases finished since the timer was started, for spacing long
+  // breaks. A task's total is kept on its time entries (completes_cycle).
+  completedCycles: number;
+  isComplete: boolean; // The countdown has run out
+}
+
+export type TimerEvent =
+  | { type: "state"; state: TimerState | null }
+  | { type: "entry-logged"; entry: TimeEntry }
+  | { type: "phase-ended"; phase: TimerPhase; state: TimerState }
+  | { type: "countdown-ended"; state: TimerState };
+
+type TimerListener = (event: TimerEvent) => void;
+
+const SETTINGS_KEY = "task-manager-pomodoro-settings";
+const STATE_KEY = "task-manager-timer";
+
+const listeners = new Set<TimerListener>();
+let state: TimerState | null = null;
+let ticker: ReturnType<typeof setInterval> | null = null;
+
+const emit = (event: TimerEvent) => {
+  listeners.forEach((listener) => {
+    try {
+      listener(event);
+    } catch (err) {
+      console.error("Error in timer listener:", err);
+    }
+  });
+};
+
+// Subscribe to timer changes. Returns a function that removes the listener.
+export const onTimerEvent = (listener: TimerListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getTimerState = () => state;
+
+export const isTimerRunning = (timer: TimerState | null) =>
+  !!timer && timer.endsAt !== null;
+
+// Format seconds as MM:SS
+export const formatTimer = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins.toString().padStart(2, "0")}:${secs
+    .toString()
+    .padStart(2, "0")}`;
+};
+
+export const getPhaseLabel = (phase: TimerPhase) => {
+  switch (phase) {
+    case "work":
+      return "Focus";
+    case "shortBreak":
+      return "Short break";
+    case "longBreak":
+      return "Long break";
+  }
+};
+
+// Pomodoro lengths are kept per device
+export const loadPomodoroSettings = (): PomodoroSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || "{}");
+    return { ...DEFAULT_POMODORO_SETTINGS, ...saved };
+  } catch {
+    return DEFAULT_POMODORO_SETTINGS;
+  }
+};
+
+export const savePomodoroSettings = (settings: PomodoroSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const getPhaseMinutes = (phase: TimerPhase, settings: PomodoroSettings) => {
+  switch (phase) {
+    case "work":
+      return settings.workMinutes;
+    case "shortBreak":
+      return settings.shortBreakMinutes;
+    case "longBreak":
+      return settings.longBreakMinutes;
+  }
+};
+
+const readSavedState = (): TimerState | null => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STATE_KEY) || "null");
+    return saved && typeof saved.taskId === "string" ? saved : null;
+  } catch {
+    return null;
+  }
+};
+
+const saveState = (timer: TimerState | null) => {
+  if (timer) {
+    localStorage.setItem(STATE_KEY, JSON.stringify(timer));
+  } else {
+    localStorage.removeItem(STATE_KEY);
+  }
+};
+
+// Whether two states are the same stretch of the same phase, i.e. nothing has
+// happened to the timer in between but the clock running
+const isSameRun = (a: TimerState | null, b: TimerState | null) =>
+  a?.taskId === b?.taskId &&
+  a?.phase === b?.phase &&
+  a?.completedCycles === b?.completedCycles &&
+  a?.endsAt === b?.endsAt &&
+  a?.runStartedAt === b?.runStartedAt;
+
+// Update the timer without saving it, for changes that came from storage or
+// only move the seconds left on
+const applyState = (next: TimerState | null) => {
+  state = next;
+
+  if (isTimerRunning(state) && !ticker) {
+    ticker = setInterval(tick, 1000);
+  } else if (!isTimerRunning(state) && ticker) {
+    clearInterval(ticker);
+    ticker = null;
+  }
+
+  emit({ type: "state", state });
+};
+
+const setState = (next: TimerState | null) => {
+  saveState(next);
+  applyState(next);
+};
+
+// Save the work done since the timer last started as a time entry, marked
+// with `completesCycle` if it ends a pomodoro focus phase that ran to the
+// end. Breaks aren't logged. Resolves with the entry, or null if nothing was
+// saved.
+const logStretch = async (
+  timer: TimerState | null,
+  endedAt = Date.now(),
+  completesCycle = false
+) => {
+  if (!timer?.runStartedAt || timer.phase !== "work") return null;
+
+  const durationSeconds = (endedAt - timer.runStartedAt) / 1000;
+  if (durationSeconds < MIN_ENTRY_SECONDS) return null;
+
+  const { data, error } = await timeEntryRepository.insert({
+    user_id: timer.userId,
+    task_id: timer.taskId,
+    ...buildEntryTimes(new Date(timer.runStartedAt), durationSeconds),
+    completes_cycle: completesCycle,
+  });
+
+  if (error) {
+    console.error("Error saving tracked time:", error);
+    toast.error("Failed to save the time tracked");
+    return null;
+  }
+  emit({ type: "entry-logged", entry: data });
+  return data;
+};
+
+// Move on from a phase that ended at `endedAt`: count the cycle, pick the
+// next phase and, with auto-advance, start it from `endedAt`. If that phase
+// would be over by `now` as well, e.g. after the page was closed for a while,
+// it is left paused instead, so no time is logged for phases nobody ran.
+const endPhase = (
+  timer: TimerState,
+  endedAt: number,
+  {
+    isSkipped = false,
+    now = endedAt,
+  }: { isSkipped?: boolean; now?: number } = {}
+) => {
+  const completesCycle =
+    timer.mode === "pomodoro" && timer.phase === "work" && !isSkipped;
+  logStretch(timer, endedAt, completesCycle);
+
+  if (timer.mode === "countdown") {
+    const ended = {
+      ...timer,
+      secondsLeft: 0,
+      endsAt: null,
+      runStartedAt: null,
+      isComplete: true,
+    };
+    setState(ended);
+    emit({ type: "countdown-ended", state: ended });
+    return;
+  }
+
+  const settings = loadPomodoroSettings();
+  const completedCycles = completesCycle
+    ? timer.completedCycles + 1
+    : timer.completedCycles;
+  // Only completing every nth cycle earns the long break, not skipping
+  const phase: TimerPhase =
+    timer.phase !== "work"
+      ? "work"
+      : completesCycle && completedCycles % settings.longBreakEvery === 0
+      ? "longBreak"
+      : "shortBreak";
+  const phaseSeconds = getPhaseMinutes(phase, settings) * 60;
+  // A phase skipped while paused leaves the next one paused too
+  const startNext =
+    (isSkipped ? isTimerRunning(timer) : settings.autoAdvance) &&
+    endedAt + phaseSeconds * 1000 > now;
+
+  const next = {
+    ...timer,
+    phase,
+    phaseSeconds,
+    secondsLeft: phaseSeconds,
+    endsAt: startNext ? endedAt + phaseSeconds * 1000 : null,
+    runStartedAt: startNext ? endedAt : null,
+    completedCycles,
+  };
+  setState(next);
+  emit({ type: "phase-ended", phase: timer.phase, state: next });
+};
+
+const getSecondsLeft = (timer: TimerState, now = Date.now()) =>
+  timer.endsAt === null
+    ? timer.secondsLeft
+    : Math.max(0, Math.ceil((timer.endsAt - now) / 1000));
+
+function tick() {
+  if (!state?.endsAt) return;
+
+  const now = Date.now();
+  if (state.endsAt > now) {
+    const secondsLeft = getSecondsLeft(state, now);
+    if (secondsLeft !== state.secondsLeft) {
+      applyState({ ...state, secondsLeft });
+    }
+    return;
+  }
+
+  // Another tab may have ended the phase already; take its state rather than
+  // logging the same stretch twice
+  const saved = readSavedState();
+  if (!isSameRun(saved, state)) {
+    applyState(saved && { ...saved, secondsLeft: getSecondsLeft(saved, now) });
+    return;
+  }
+
+  endPhase(state, state.endsAt, { now });
+  if (state?.endsAt) {
+    applyState({ ...state, secondsLeft: getSecondsLeft(state, now) });
+  }
+}
+
+// Start timing a task, replacing whatever was being timed before
+export const startTimer = ({
+  userId,
+  taskId,
+  taskName,
+  mode,
+  minutes,
+}: {
+  userId: string;
+  taskId: string;
+  taskName: string;
+  mode: TimerMode;
+  minutes: number; // Countdown length; pomodoro mode uses its settings
+}) => {
+  logStretch(state);
+
+  const phaseSeconds =
+    (mode === "pomodoro" ? loadPomodoroSettings().workMinutes : minutes) * 60;
+  const now = Date.now();
+  setState({
+    userId,
+    taskId,
+    taskName,
+    mode,
+    phase: "work",
+    phaseSeconds,
+    secondsLeft: phaseSeconds,
+    endsAt: now + phaseSeconds * 1000,
+    runStartedAt: now,
+    completedCycles: 0,
+    isComplete: false,
+  });
+};
+
+export const pauseTimer = () => {
+  if (!state?.endsAt) return;
+
+  const now = Date.now();
+  logStretch(state, now);
+  setState({
+    ...state,
+    secondsLeft: getSecondsLeft(state, now),
+    endsAt: null,
+    runStartedAt: null,
+  });
+};
+
+export const resumeTimer = () => {
+  if (!state || state.endsAt || state.isComplete) return;
+
+  const now = Date.now();
+  setState({
+    ...state,
+    endsAt: now + state.secondsLeft * 1000,
+    runStartedAt: now,
+  });
+};
+
+// Add time to the current phase. A countdown that has run out starts again.
+export const extendTimer = (minutes: number) => {
+  if (!state || minutes <= 0) return;
+
+  const extraSeconds = minutes * 60;
+  const now = Date.now();
+  const isRestarting = state.isComplete;
+  setState({
+    ...state,
+    phaseSeconds: state.phaseSeconds + extraSeconds,
+    secondsLeft: state.secondsLeft + extraSeconds,
+    endsAt: isRestarting
+      ? now + extraSeconds * 1000
+      : state.endsAt && state.endsAt + extraSeconds * 1000,
+    runStartedAt: isRestarting ? now : state.runStartedAt,
+    isComplete: false,
+  });
+};
+
+// Start the current phase over, paused
+export const resetTimer = () => {
+  if (!state) return;
+
+  logStretch(state);
+  setState({
+    ...state,
+    secondsLeft: state.phaseSeconds,
+    endsAt: null,
+    runStartedAt: null,
+    isComplete: false,
+  });
+};
+
+// Go straight to the next pomodoro phase. A skipped work phase doesn't count
+// as a cycle, but the time spent in it is still logged.
+export const skipPhase = () => {
+  if (!state || state.mode !== "pomodoro") return;
+  endPhase(state, Date.now(), { isSkipped: true });
+};
+
+// Stop timing. Resolves with the entry logged for the time since the timer
+// last started, if any.
+export const stopTimer = () => {
+  const timer = state;
+  setState(null);
+  return logStretch(timer);
+};
+
+// Pick up a timer saved by an earlier page load or by another tab, and follow
+// changes other tabs make to it. Returns a function that stops following.
+export const restoreTimer = () => {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== STATE_KEY) return;
+    const saved = readSavedState();
+    applyState(saved && { ...saved, secondsLeft: getSecondsLeft(saved) });
+  };
+
+  window.addEventListener("storage", handleStorage);
+  if (!state) {
+    applyState(readSavedState());
+    tick();
+  }
+
+  return () => {
+    window.removeEventListener("storage", handleStorage);
+  };
+};
@@ -0,0 +1,160 @@
+// How the end of a countdown or pomodoro phase is announced when the page
+// may not be in view: a sound, a browser notification and a flashing tab
+// title. Settings are kept per device, like the pomodoro lengths.
+
+export type TimerSound = "none" | "chime" | "bell" | "beep";
+
+export interface TimerAlertSettings {
+  notifications: boolean;
+  sound: TimerSound;
+  flashTitle: boolean;
+}
+
+export const DEFAULT_TIMER_ALERT_SETTINGS: TimerAlertSettings = {
+  notifications: false,
+  sound: "chime",
+  flashTitle: true,
+};
+
+export const TIMER_SOUNDS: { value: TimerSound; label: string }[] = [
+  { value: "none", label: "No sound" },
+  { value: "chime", label: "Chime" },
+  { value: "bell", label: "Bell" },
+  { value: "beep", label: "Beep" },
+];
+
+// Notes of each sound: frequency in Hz, start and length in seconds
+const SOUND_NOTES: Record<
+  Exclude<TimerSound, "none">,
+  { type: OscillatorType; notes: [number, number, number][] }
+> = {
+  chime: {
+    type: "sine",
+    notes: [
+      [880, 0, 0.4],
+      [1318.5, 0.2, 0.6],
+    ],
+  },
+  bell: {
+    type: "triangle",
+    notes: [
+      [659.3, 0, 1.2],
+      [659.3, 0.6, 1.2],
+    ],
+  },
+  beep: {
+    type: "square",
+    notes: [
+      [1000, 0, 0.12],
+      [1000, 0.25, 0.12],
+      [1000, 0.5, 0.12],
+    ],
+  },
+};
+
+const SETTINGS_KEY = "task-manager-timer-alerts";
+const FLASH_INTERVAL_MS = 1000;
+
+let stopFlashing: (() => void) | null = null;
+
+export const loadTimerAlertSettings = (): TimerAlertSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || "{}");
+    return { ...DEFAULT_TIMER_ALERT_SETTINGS, ...saved };
+  } catch {
+    return DEFAULT_TIMER_ALERT_SETTINGS;
+  }
+};
+
+export const saveTimerAlertSettings = (settings: TimerAlertSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const getNotificationPermission = () =>
+  "Notification" in window ? Notification.permission : "unsupported";
+
+// Ask the browser for permission to notify. Resolves with the outcome,
+// without asking again if the user has already answered.
+export const requestNotificationPermission = async () => {
+  if (!("Notification" in window)) return "unsupported";
+  if (Notification.permission !== "default") return Notification.permission;
+  return Notification.requestPermission();
+};
+
+// Synthesized rather than loaded from files, so the sounds work offline
+export const playTimerSound = (sound: TimerSound) => {
+  if (sound === "none" || !("AudioContext" in window)) return;
+
+  const { type, notes } = SOUND_NOTES[sound];
+  const context = new AudioContext();
+  let endsAt = 0;
+
+  notes.forEach(([frequency, start, length]) => {
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    const startAt = context.currentTime + start;
+
+    oscillator.type = type;
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.2, startAt);
+    gain.gain.exponentialRampToValueAtTime(0.001, startAt + length);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start(startAt);
+    oscillator.stop(startAt + length);
+    endsAt = Math.max(endsAt, start + length);
+  });
+
+  setTimeout(() => context.close(), endsAt * 1000 + 100);
+};
+
+// Alternate the tab title with `message` until the page is looked at again
+const flashTitle = (message: string) => {
+  stopFlashing?.();
+
+  const title = document.title;
+  const interval = setInterval(() => {
+    document.title = document.title === title ? message : title;
+  }, FLASH_INTERVAL_MS);
+
+  const stop = () => {
+    clearInterval(interval);
+    document.title = title;
+    window.removeEventListener("focus", stop);
+    document.removeEventListener("visibilitychange", handleVisibility);
+    stopFlashing = null;
+  };
+  const handleVisibility = () => {
+    if (document.visibilityState === "visible") stop();
+  };
+
+  window.addEventListener("focus", stop);
+  document.addEventListener("visibilitychange", handleVisibility);
+  stopFlashing = stop;
+};
+
+const showNotification = (title: string, body: string) => {
+  const notification = new Notification(title, { body, tag: "task-timer" });
+  notification.onclick = () => {
+    window.focus();
+    notification.close();
+  };
+};
+
+// Announce the end of a timer phase the ways the user has chosen. The
+// notification and title only matter when the page isn't being looked at.
+export const alertTimer = (title: string, body: string) => {
+  const settings = loadTimerAlertSettings();
+  const isAway = document.hidden || !document.hasFocus();
+
+  playTimerSound(settings.sound);
+
+  if (
+    isAway &&
+    settings.notifications &&
+    getNotificationPermission() === "granted"
+  ) {
+    showNotification(title, body);
+  }
+
+  if (isAway && settings.flashTitle) flashTitle(title);
+};
@@ -0,0 +1,84 @@
+import { RealtimeTable, publishRowChange } from "@/lib/realtime";
+import { TrashKind, trashRepository } from "@/lib/repositories";
+
+export type { TrashKind, TrashedNote } from "@/lib/repositories";
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const TRASH_RETENTION_OPTIONS = [7, 14, 30, 60, 90];
+
+const TRASH_TABLES: Record<TrashKind, RealtimeTable> = {
+  task: "tasks",
+  note: "notes",
+};
+
+// Tell other tabs that trashed items were removed for good
+const publishRemoved = (
+  userId: string,
+  kind: TrashKind,
+  rows: { id: string }[] | null
+) =>
+  (rows || []).forEach((row) =>
+    publishRowChange(userId, {
+      table: TRASH_TABLES[kind],
+      type: "DELETE",
+      id: row.id,
+      row: null,
+    })
+  );
+
+// Everything in the user's trash, most recently deleted first
+export const fetchTrash = async (userId: string) => {
+  const { data, error } = await trashRepository.list(userId);
+  return { tasks: data?.tasks || [], notes: data?.notes || [], error };
+};
+
+// Take items out of the trash. `restored` is how many were still there.
+export const restoreFromTrash = async (
+  userId: string,
+  kind: TrashKind,
+  ids: string[]
+) => {
+  const { data, error } = await trashRepository.restore(userId, kind, ids);
+
+  (data || []).forEach((row) =>
+    publishRowChange(userId, {
+      table: TRASH_TABLES[kind],
+      type: "UPDATE",
+      id: row.id,
+      row,
+    })
+  );
+  return { restored: data?.length ?? 0, error };
+};
+
+export const deleteForever = async (
+  userId: string,
+  kind: TrashKind,
+  ids: string[]
+) => {
+  const { data, error } = await trashRepository.deleteForever(
+    userId,
+    kind,
+    ids
+  );
+  publishRemoved(userId, kind, data);
+  return { error };
+};
+
+export const emptyTrash = async (userId: string) => {
+  const results = await Promise.all(
+    (Object.keys(TRASH_TABLES) as TrashKind[]).map(async (kind) => {
+      const result = await trashRepository.deleteForever(userId, kind);
+      publishRemoved(userId, kind, result.data);
+      return result;
+    })
+  );
+
+  return { error: results.find((result) => result.error)?.error ?? null };
+};
+
+// Remove the user's trashed items that are past their retention period (see
+// add_trash.sql). The scheduled job in /api/trash does the same for every
+// user.
+export const purgeExpiredTrash = (userId: string) =>
+  trashRepository.purgeExpired(userId);
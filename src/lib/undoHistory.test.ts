@@ -0,0 +1,153 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("sonner", () => ({ toast: { success: vi.fn(), info: vi.fn() } }));
+
+import { toast } from "sonner";
+import {
+  HistoryEntry,
+  createUndoHistory,
+  getHistoryShortcut,
+} from "@/lib/undoHistory";
+
+// Entries that note each undo and redo in `log`
+const createLog = () => {
+  const log: string[] = [];
+  const makeEntry = (label: string, saves = true): HistoryEntry => ({
+    label,
+    undo: vi.fn(async () => {
+      log.push(`undo ${label}`);
+      return saves;
+    }),
+    redo: vi.fn(async () => {
+      log.push(`redo ${label}`);
+      return saves;
+    }),
+  });
+  return { log, makeEntry };
+};
+
+beforeEach(() => {
+  vi.mocked(toast.success).mockClear();
+  vi.mocked(toast.info).mockClear();
+});
+
+describe("createUndoHistory", () => {
+  it("undoes the latest change first and redoes in reverse", async () => {
+    const history = createUndoHistory();
+    const { log, makeEntry } = createLog();
+    history.record(makeEntry("a"), "Added a");
+    history.record(makeEntry("b"), "Added b");
+
+    await history.undo();
+    await history.undo();
+    await history.redo();
+    await history.redo();
+
+    expect(log).toEqual(["undo b", "undo a", "redo a", "redo b"]);
+  });
+
+  it("clears the redo stack when a new change is recorded", async () => {
+    const history = createUndoHistory();
+    const { log, makeEntry } = createLog();
+    history.record(makeEntry("a"), "Added a");
+    await history.undo();
+
+    history.record(makeEntry("b"), "Added b");
+    await history.redo();
+
+    expect(log).toEqual(["undo a"]);
+    expect(toast.info).toHaveBeenCalledWith("Nothing to redo");
+  });
+
+  it("keeps only the latest 50 changes", async () => {
+    const history = createUndoHistory();
+    const { log, makeEntry } = createLog();
+    for (let i = 1; i <= 51; i++) {
+      history.record(makeEntry(`${i}`), `Change ${i}`);
+    }
+
+    for (let i = 0; i < 51; i++) {
+      await history.undo();
+    }
+
+    expect(log).toHaveLength(50);
+    expect(log[0]).toBe("undo 51");
+    expect(log[49]).toBe("undo 2");
+    expect(toast.info).toHaveBeenCalledWith("Nothing to undo");
+  });
+
+  it("drops a change whose undo couldn't be saved", async () => {
+    const history = createUndoHistory();
+    const { log, makeEntry } = createLog();
+    history.record(makeEntry("a", false), "Added a");
+
+    await history.undo();
+    await history.undo();
+    await history.redo();
+
+    expect(log).toEqual(["undo a"]);
+    expect(toast.info).toHaveBeenCalledWith("Nothing to undo");
+    expect(toast.info).toHaveBeenCalledWith("Nothing to redo");
+  });
+
+  it("undoes the change a toast's Undo button belongs to", async () => {
+    const history = createUndoHistory();
+    const { log, makeEntry } = createLog();
+    history.record(makeEntry("a"), "Added a");
+    history.record(makeEntry("b"), "Added b");
+
+    const [, { action }] = vi.mocked(toast.success).mock.calls[0];
+    await (action as unknown as { onClick: () => Promise<void> }).onClick();
+
+    expect(log).toEqual(["undo a"]);
+    // b is still the next change to undo
+    await history.undo();
+    expect(log).toEqual(["undo a", "undo b"]);
+  });
+
+  it("forgets everything when cleared", async () => {
+    const history = createUndoHistory();
+    const { log, makeEntry } = createLog();
+    history.record(makeEntry("a"), "Added a");
+    history.clear();
+
+    await history.undo();
+    expect(log).toEqual([]);
+  });
+});
+
+describe("getHistoryShortcut", () => {
+  const keyDown = (
+    key: string,
+    modifiers: Partial<KeyboardEvent> = {},
+    tagName = "BODY"
+  ) =>
+    ({
+      key,
+      ctrlKey: false,
+      metaKey: false,
+      shiftKey: false,
+      altKey: false,
+      target: { tagName, isContentEditable: false },
+      ...modifiers,
+    }) as unknown as KeyboardEvent;
+
+  it("maps Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z and Ctrl+Y", () => {
+    expect(getHistoryShortcut(keyDown("z", { ctrlKey: true }))).toBe("undo");
+    expect(getHistoryShortcut(keyDown("z", { metaKey: true }))).toBe("undo");
+    expect(
+      getHistoryShortcut(keyDown("Z", { metaKey: true, shiftKey: true }))
+    ).toBe("redo");
+    expect(getHistoryShortcut(keyDown("y", { ctrlKey: true }))).toBe("redo");
+    expect(getHistoryShortcut(keyDown("z"))).toBeNull();
+  });
+
+  it("leaves text fields their own undo", () => {
+    expect(
+      getHistoryShortcut(keyDown("z", { ctrlKey: true }, "INPUT"))
+    ).toBeNull();
+    expect(
+      getHistoryShortcut(keyDown("z", { ctrlKey: true }, "TEXTAREA"))
+    ).toBeNull();
+  });
+});
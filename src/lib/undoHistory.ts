@@ -0,0 +1,111 @@
+import { toast } from "sonner";
+
+const MAX_HISTORY_ENTRIES = 50;
+
+// A reversible task mutation. `undo` and `redo` resolve to false when the
+// change couldn't be saved; they report the error themselves.
+export interface HistoryEntry {
+  label: string; // e.g. 'Delete "Write report"'
+  undo: () => Promise<boolean>;
+  redo: () => Promise<boolean>;
+}
+
+type Direction = "undo" | "redo";
+
+// Undo/redo stacks for TaskContext. Recording an entry shows a toast with an
+// Undo button; undoing shows one with Redo, and so on.
+export const createUndoHistory = () => {
+  const past: HistoryEntry[] = [];
+  const future: HistoryEntry[] = [];
+  let isRunning = false;
+
+  const remove = (entry: HistoryEntry) => {
+    [past, future].forEach((stack) => {
+      const index = stack.indexOf(entry);
+      if (index !== -1) stack.splice(index, 1);
+    });
+  };
+
+  // Undo or redo a specific entry, wherever it is in its stack
+  const run = async (entry: HistoryEntry, direction: Direction) => {
+    const stack = direction === "undo" ? past : future;
+    if (isRunning || !stack.includes(entry)) return;
+
+    isRunning = true;
+    try {
+      remove(entry);
+      const saved = await entry[direction]();
+      if (!saved) return;
+
+      (direction === "undo" ? future : past).push(entry);
+      const opposite = direction === "undo" ? "redo" : "undo";
+      toast.success(
+        `${direction === "undo" ? "Undone" : "Redone"}: ${entry.label}`,
+        {
+          action: {
+            label: direction === "undo" ? "Redo" : "Undo",
+            onClick: () => run(entry, opposite),
+          },
+        }
+      );
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  const record = (entry: HistoryEntry, message: string) => {
+    past.push(entry);
+    if (past.length > MAX_HISTORY_ENTRIES) past.shift();
+    future.length = 0;
+
+    toast.success(message, {
+      action: { label: "Undo", onClick: () => run(entry, "undo") },
+    });
+  };
+
+  const undo = () => {
+    const entry = past[past.length - 1];
+    if (!entry) {
+      toast.info("Nothing to undo");
+      return;
+    }
+    return run(entry, "undo");
+  };
+
+  const redo = () => {
+    const entry = future[future.length - 1];
+    if (!entry) {
+      toast.info("Nothing to redo");
+      return;
+    }
+    return run(entry, "redo");
+  };
+
+  const clear = () => {
+    past.length = 0;
+    future.length = 0;
+  };
+
+  return { record, undo, redo, clear };
+};
+
+export type UndoHistory = ReturnType<typeof createUndoHistory>;
+
+// Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z and Ctrl+Y redo. Text fields keep their
+// own undo.
+export const getHistoryShortcut = (event: KeyboardEvent): Direction | null => {
+  const target = event.target as HTMLElement | null;
+  if (
+    target &&
+    (target.isContentEditable ||
+      ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+  ) {
+    return null;
+  }
+  if (!(event.ctrlKey || event.metaKey) || event.altKey) return null;
+
+  const key = event.key.toLowerCase();
+  if (key === "z") return event.shiftKey ? "redo" : "undo";
+  if (key === "y" && !event.shiftKey) return "redo";
+  return null;
+};
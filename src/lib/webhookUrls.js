@@ -0,0 +1,104 @@
+// Webhook endpoint checks, shared by the Webhooks page (when a subscription
+// is saved) and the dispatcher in /api (before each delivery). Only https
+// URLs on public hosts are allowed, so a webhook can't be aimed at services
+// on the server's own network.
+
+export const PRIVATE_ADDRESS_ERROR =
+  "Webhook URLs can't point to a private, loopback or link-local address";
+
+/** @returns {number[] | null} The four bytes of a dotted IPv4 address */
+const parseIPv4 = (text) => {
+  const parts = text.split(".");
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part))) {
+    return null;
+  }
+  const bytes = parts.map(Number);
+  return bytes.every((byte) => byte <= 255) ? bytes : null;
+};
+
+/** @returns {number[] | null} The eight 16-bit groups of an IPv6 address */
+const parseIPv6 = (text) => {
+  let address = text.replace(/^\[|\]$/g, "").toLowerCase();
+
+  // Write a trailing dotted IPv4 part (::ffff:127.0.0.1) as two groups
+  const dotted = address.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const bytes = parseIPv4(dotted[1]);
+    if (!bytes) return null;
+    address =
+      address.slice(0, -dotted[1].length) +
+      `${((bytes[0] << 8) | bytes[1]).toString(16)}:` +
+      ((bytes[2] << 8) | bytes[3]).toString(16);
+  }
+
+  const halves = address.split("::");
+  if (halves.length > 2) return null;
+  const toGroups = (half) => (half ? half.split(":") : []);
+  const head = toGroups(halves[0]);
+  const tail = toGroups(halves[1]);
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...head, ...Array(missing).fill("0"), ...tail];
+  if (!groups.every((group) => /^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map((group) => parseInt(group, 16));
+};
+
+const isPrivateIPv4 = ([a, b]) =>
+  a === 0 || // "This" network
+  a === 10 ||
+  a === 127 || // Loopback
+  (a === 100 && b >= 64 && b <= 127) || // Carrier-grade NAT
+  (a === 169 && b === 254) || // Link-local, cloud metadata services
+  (a === 172 && b >= 16 && b <= 31) ||
+  (a === 192 && b === 168) ||
+  a >= 224; // Multicast and reserved
+
+const isPrivateIPv6 = (groups) => {
+  const isZero = (from, to) =>
+    groups.slice(from, to).every((group) => group === 0);
+
+  if (isZero(0, 7) && groups[7] <= 1) return true; // Unspecified and loopback
+  if (isZero(0, 5) && groups[5] === 0xffff) {
+    // IPv4-mapped
+    return isPrivateIPv4([groups[6] >> 8, groups[6] & 0xff]);
+  }
+  return (
+    (groups[0] & 0xfe00) === 0xfc00 || // Unique local
+    (groups[0] & 0xffc0) === 0xfe80 || // Link-local
+    groups[0] >= 0xff00 // Multicast
+  );
+};
+
+// Whether `address` is an IP address outside the public internet. Host names
+// aren't resolved here, so they return false.
+export const isPrivateAddress = (address) => {
+  const ipv4 = parseIPv4(address);
+  if (ipv4) return isPrivateIPv4(ipv4);
+  const ipv6 = address.includes(":") ? parseIPv6(address) : null;
+  return !!ipv6 && isPrivateIPv6(ipv6);
+};
+
+// Why `value` can't be used as a webhook URL, or null if it can
+/** @returns {string | null} */
+export const getWebhookUrlError = (value) => {
+  let url;
+  try {
+    url = new URL(value);
+  } catch {
+    return "Enter a valid URL";
+  }
+
+  if (url.protocol !== "https:") {
+    return "Webhook URLs must use https";
+  }
+  const host = url.hostname.toLowerCase().replace(/\.$/, "");
+  if (
+    host === "localhost" ||
+    host.endsWith(".localhost") ||
+    isPrivateAddress(host)
+  ) {
+    return PRIVATE_ADDRESS_ERROR;
+  }
+  return null;
+};
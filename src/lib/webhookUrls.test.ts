@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import {
+  PRIVATE_ADDRESS_ERROR,
+  getWebhookUrlError,
+  isPrivateAddress,
+} from "@/lib/webhookUrls";
+
+describe("getWebhookUrlError", () => {
+  it("accepts https URLs on public hosts", () => {
+    expect(getWebhookUrlError("https://example.com/hooks/tasks")).toBeNull();
+    expect(getWebhookUrlError("https://93.184.216.34/hook")).toBeNull();
+  });
+
+  it("rejects anything but https", () => {
+    expect(getWebhookUrlError("http://example.com/hook")).toBe(
+      "Webhook URLs must use https"
+    );
+    expect(getWebhookUrlError("example.com")).toBe("Enter a valid URL");
+  });
+
+  it("rejects private, loopback and link-local hosts", () => {
+    [
+      "https://localhost/hook",
+      "https://api.localhost/hook",
+      "https://127.0.0.1/hook",
+      "https://127.1/hook",
+      "https://0x7f000001/hook",
+      "https://10.0.0.5/hook",
+      "https://172.20.1.1/hook",
+      "https://192.168.1.10/hook",
+      "https://169.254.169.254/latest/meta-data",
+      "https://[::1]/hook",
+      "https://[fe80::1]/hook",
+      "https://[fd12:3456::1]/hook",
+      "https://[::ffff:127.0.0.1]/hook",
+    ].forEach((url) =>
+      expect(getWebhookUrlError(url), url).toBe(PRIVATE_ADDRESS_ERROR)
+    );
+  });
+});
+
+describe("isPrivateAddress", () => {
+  it("checks resolved addresses", () => {
+    expect(isPrivateAddress("10.1.2.3")).toBe(true);
+    expect(isPrivateAddress("::ffff:192.168.0.1")).toBe(true);
+    expect(isPrivateAddress("8.8.8.8")).toBe(false);
+    expect(isPrivateAddress("2606:4700::1111")).toBe(false);
+  });
+});
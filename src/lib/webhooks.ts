@@ -0,0 +1,42 @@
+import { supabase } from "@/lib/supabase";
+import { TaskEventType } from "@/lib/taskEvents";
+
+export const WEBHOOK_EVENTS: { value: TaskEventType; label: string }[] = [
+  { value: "task.created", label: "Task created" },
+  { value: "task.moved", label: "Task moved to another bucket" },
+  { value: "task.completed", label: "Task completed" },
+  { value: "task.restored", label: "Task restored" },
+];
+
+export const generateWebhookSecret = () =>
+  `whsec_${Array.from(self.crypto.getRandomValues(new Uint8Array(24)), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("")}`;
+
+const DISPATCH_DELAY_MS = 1000;
+let dispatchTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Deliveries are queued by a database trigger on the tasks table. Ask the
+// dispatcher to send this user's queued deliveries now instead of waiting
+// for the scheduled run. Calls made in quick succession are batched.
+export const requestWebhookDispatch = () => {
+  if (dispatchTimer) {
+    clearTimeout(dispatchTimer);
+  }
+
+  dispatchTimer = setTimeout(async () => {
+    dispatchTimer = null;
+    try {
+      const { data } = await supabase.auth.getSession();
+      if (!data.session) return;
+
+      await fetch("/api/webhooks/dispatch", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${data.session.access_token}` },
+      });
+    } catch (err) {
+      // The scheduled dispatcher will pick the deliveries up later
+      console.warn("Could not trigger webhook dispatch:", err);
+    }
+  }, DISPATCH_DELAY_MS);
+};
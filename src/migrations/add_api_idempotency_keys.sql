@@ -0,0 +1,17 @@
+-- Store responses of API requests sent with an Idempotency-Key header so that
+-- retried requests replay the original result instead of inserting again
+CREATE TABLE IF NOT EXISTS api_idempotency_keys (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  idempotency_key TEXT NOT NULL,
+  endpoint TEXT NOT NULL,
+  response_status INTEGER,
+  response_body JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, endpoint, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_idempotency_keys_created_at ON api_idempotency_keys(created_at);
+
+-- Only the service role (used by the API handlers) touches this table
+ALTER TABLE api_idempotency_keys ENABLE ROW LEVEL SECURITY;
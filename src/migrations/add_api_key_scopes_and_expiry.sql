@@ -0,0 +1,35 @@
+-- Add scopes, optional expiry and last-used tracking to API keys
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM information_schema.columns
+        WHERE table_name = 'api_keys'
+        AND column_name = 'scopes'
+    ) THEN
+        -- Keys created before scopes existed had full access; keep it that
+        -- way until their owners replace them
+        ALTER TABLE api_keys
+        ADD COLUMN scopes TEXT[] NOT NULL DEFAULT ARRAY[
+            'tasks:read',
+            'tasks:create',
+            'tasks:write',
+            'tasks:delete',
+            'notes:read',
+            'notes:write'
+        ];
+
+        ALTER TABLE api_keys
+        ALTER COLUMN scopes SET DEFAULT ARRAY['tasks:read', 'tasks:create'];
+    END IF;
+END $$;
+
+ALTER TABLE api_keys
+ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ;
+
+ALTER TABLE api_keys
+ADD COLUMN IF NOT EXISTS last_used_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN api_keys.scopes IS 'Permissions granted to the key, e.g. tasks:create';
+COMMENT ON COLUMN api_keys.expires_at IS 'Requests with the key are rejected after this time; NULL never expires';
+COMMENT ON COLUMN api_keys.last_used_at IS 'Time of the last successfully authenticated request';
@@ -0,0 +1,56 @@
+-- Per-key request counters for API rate limiting (fixed windows)
+CREATE TABLE IF NOT EXISTS api_rate_limits (
+  api_key_id UUID REFERENCES api_keys ON DELETE CASCADE NOT NULL,
+  window_start TIMESTAMPTZ NOT NULL,
+  request_count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (api_key_id, window_start)
+);
+
+-- Only the service role (used by the API handlers) touches this table
+ALTER TABLE api_rate_limits ENABLE ROW LEVEL SECURITY;
+
+-- Atomically count a request and return the total for the window
+CREATE OR REPLACE FUNCTION increment_api_rate_limit(
+  p_api_key_id UUID,
+  p_window_start TIMESTAMPTZ
+)
+RETURNS INTEGER AS $$
+DECLARE
+  new_count INTEGER;
+BEGIN
+  INSERT INTO api_rate_limits (api_key_id, window_start, request_count)
+  VALUES (p_api_key_id, p_window_start, 1)
+  ON CONFLICT (api_key_id, window_start)
+  DO UPDATE SET request_count = api_rate_limits.request_count + 1
+  RETURNING request_count INTO new_count;
+
+  -- Drop counters from earlier windows of this key
+  DELETE FROM api_rate_limits
+  WHERE api_key_id = p_api_key_id
+  AND window_start < p_window_start;
+
+  RETURN new_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Log of requests made with each API key
+CREATE TABLE IF NOT EXISTS api_request_logs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  api_key_id UUID REFERENCES api_keys ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  method TEXT NOT NULL,
+  endpoint TEXT NOT NULL,
+  status INTEGER NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_request_logs_key_created_at ON api_request_logs(api_key_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_api_request_logs_user_id ON api_request_logs(user_id);
+
+-- RLS policies: users can read the logs of their own keys
+ALTER TABLE api_request_logs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their own API request logs" ON api_request_logs;
+
+CREATE POLICY "Users can read their own API request logs"
+ON api_request_logs FOR SELECT USING (auth.uid() = user_id);
@@ -0,0 +1,241 @@
+-- Bulk rename/merge of projects and categories. Each operation runs in one
+-- function call and records what it changed in bulk_edits so it can be
+-- undone with undo_bulk_edit.
+CREATE TABLE IF NOT EXISTS bulk_edits (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('project', 'category')),
+  from_values TEXT[] NOT NULL, -- Project names or categories that were merged
+  to_value TEXT NOT NULL,
+  affected_tasks INTEGER NOT NULL DEFAULT 0,
+  snapshot JSONB NOT NULL, -- Previous values of every changed row
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  undone_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_bulk_edits_user_id ON bulk_edits(user_id, created_at DESC);
+
+-- Rename the categories in p_from to p_to on every task, active or archived
+CREATE OR REPLACE FUNCTION merge_categories(p_from TEXT[], p_to TEXT)
+RETURNS UUID AS $$
+DECLARE
+  v_user UUID := auth.uid();
+  v_tasks JSONB;
+  v_edit_id UUID;
+BEGIN
+  IF v_user IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in';
+  END IF;
+  p_to := trim(p_to);
+  IF p_to = '' THEN
+    RAISE EXCEPTION 'Category is required';
+  END IF;
+
+  WITH changed AS (
+    UPDATE tasks
+    SET category = p_to
+    FROM tasks AS previous
+    WHERE previous.id = tasks.id
+      AND tasks.user_id = v_user
+      AND tasks.category = ANY(p_from)
+      AND tasks.category <> p_to
+    RETURNING previous.id, previous.category
+  )
+  SELECT coalesce(jsonb_agg(to_jsonb(changed)), '[]'::jsonb)
+  INTO v_tasks
+  FROM changed;
+
+  INSERT INTO bulk_edits (user_id, kind, from_values, to_value, affected_tasks, snapshot)
+  VALUES (
+    v_user,
+    'category',
+    p_from,
+    p_to,
+    jsonb_array_length(v_tasks),
+    jsonb_build_object('tasks', v_tasks)
+  )
+  RETURNING id INTO v_edit_id;
+
+  RETURN v_edit_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Merge the projects in p_from into the project named p_to_name. An existing
+-- project with that name (in any case) is the target; otherwise the first
+-- project in p_from is renamed. Tasks and Today progress goals move to the
+-- target and the other projects are archived.
+CREATE OR REPLACE FUNCTION merge_projects(p_from UUID[], p_to_name TEXT)
+RETURNS UUID AS $$
+DECLARE
+  v_user UUID := auth.uid();
+  v_target projects%ROWTYPE;
+  v_keys TEXT[];
+  v_projects JSONB;
+  v_tasks JSONB;
+  v_goals JSONB;
+  v_from_names TEXT[];
+  v_edit_id UUID;
+BEGIN
+  IF v_user IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in';
+  END IF;
+  p_to_name := trim(p_to_name);
+  IF p_to_name = '' THEN
+    RAISE EXCEPTION 'Project name is required';
+  END IF;
+
+  SELECT * INTO v_target
+  FROM projects
+  WHERE user_id = v_user AND lower(name) = lower(p_to_name);
+
+  IF NOT FOUND THEN
+    SELECT * INTO v_target
+    FROM projects
+    WHERE user_id = v_user AND id = p_from[1];
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Unknown project';
+    END IF;
+  END IF;
+
+  v_keys := ARRAY(SELECT unnest(p_from)::text) || v_target.id::text;
+
+  SELECT
+    coalesce(jsonb_agg(jsonb_build_object('id', id, 'name', name, 'is_archived', is_archived)), '[]'::jsonb),
+    array_agg(name) FILTER (WHERE id = ANY(p_from))
+  INTO v_projects, v_from_names
+  FROM projects
+  WHERE user_id = v_user AND (id = ANY(p_from) OR id = v_target.id);
+
+  SELECT coalesce(jsonb_agg(to_jsonb(task_goals)), '[]'::jsonb)
+  INTO v_goals
+  FROM task_goals
+  WHERE user_id = v_user AND goal_type = 'main' AND goal_key = ANY(v_keys);
+
+  UPDATE projects
+  SET is_archived = true
+  WHERE user_id = v_user AND id = ANY(p_from) AND id <> v_target.id;
+
+  UPDATE projects
+  SET name = p_to_name, is_archived = false
+  WHERE id = v_target.id;
+
+  WITH changed AS (
+    UPDATE tasks
+    SET project_id = v_target.id, main_task = p_to_name
+    FROM tasks AS previous
+    WHERE previous.id = tasks.id
+      AND tasks.user_id = v_user
+      AND (tasks.project_id = ANY(p_from) OR tasks.project_id = v_target.id)
+    RETURNING previous.id, previous.project_id, previous.main_task
+  )
+  SELECT coalesce(jsonb_agg(to_jsonb(changed)), '[]'::jsonb)
+  INTO v_tasks
+  FROM changed;
+
+  -- Keep the target's own goal if it has one, otherwise the largest of the
+  -- merged projects' goals
+  IF NOT EXISTS (
+    SELECT 1 FROM task_goals
+    WHERE user_id = v_user AND goal_type = 'main' AND goal_key = v_target.id::text
+  ) THEN
+    UPDATE task_goals
+    SET goal_key = v_target.id::text
+    WHERE id = (
+      SELECT id FROM task_goals
+      WHERE user_id = v_user AND goal_type = 'main' AND goal_key = ANY(v_keys)
+      ORDER BY goal_minutes DESC
+      LIMIT 1
+    );
+  END IF;
+
+  DELETE FROM task_goals
+  WHERE user_id = v_user
+    AND goal_type = 'main'
+    AND goal_key = ANY(v_keys)
+    AND goal_key <> v_target.id::text;
+
+  INSERT INTO bulk_edits (user_id, kind, from_values, to_value, affected_tasks, snapshot)
+  VALUES (
+    v_user,
+    'project',
+    coalesce(v_from_names, '{}'),
+    p_to_name,
+    (SELECT count(*) FROM jsonb_array_elements(v_tasks) AS task
+     WHERE (task->>'project_id') <> v_target.id::text
+        OR (task->>'main_task') IS DISTINCT FROM p_to_name),
+    jsonb_build_object(
+      'tasks', v_tasks,
+      'projects', v_projects,
+      'goals', v_goals,
+      'goal_keys', to_jsonb(v_keys)
+    )
+  )
+  RETURNING id INTO v_edit_id;
+
+  RETURN v_edit_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Put back everything a merge_categories or merge_projects call changed
+CREATE OR REPLACE FUNCTION undo_bulk_edit(p_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_user UUID := auth.uid();
+  v_edit bulk_edits%ROWTYPE;
+BEGIN
+  SELECT * INTO v_edit
+  FROM bulk_edits
+  WHERE id = p_id AND user_id = v_user AND undone_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This change was already undone';
+  END IF;
+
+  IF v_edit.kind = 'category' THEN
+    UPDATE tasks
+    SET category = previous.category
+    FROM jsonb_to_recordset(v_edit.snapshot->'tasks') AS previous(id UUID, category TEXT)
+    WHERE tasks.id = previous.id AND tasks.user_id = v_user;
+  ELSE
+    UPDATE projects
+    SET name = previous.name, is_archived = previous.is_archived
+    FROM jsonb_to_recordset(v_edit.snapshot->'projects')
+      AS previous(id UUID, name TEXT, is_archived BOOLEAN)
+    WHERE projects.id = previous.id AND projects.user_id = v_user;
+
+    UPDATE tasks
+    SET project_id = previous.project_id, main_task = previous.main_task
+    FROM jsonb_to_recordset(v_edit.snapshot->'tasks')
+      AS previous(id UUID, project_id UUID, main_task TEXT)
+    WHERE tasks.id = previous.id AND tasks.user_id = v_user;
+
+    DELETE FROM task_goals
+    WHERE user_id = v_user
+      AND goal_type = 'main'
+      AND goal_key IN (SELECT jsonb_array_elements_text(v_edit.snapshot->'goal_keys'));
+
+    INSERT INTO task_goals
+    SELECT * FROM jsonb_populate_recordset(NULL::task_goals, v_edit.snapshot->'goals');
+  END IF;
+
+  UPDATE bulk_edits SET undone_at = NOW() WHERE id = p_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- RLS policies
+ALTER TABLE bulk_edits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their own bulk edits" ON bulk_edits;
+DROP POLICY IF EXISTS "Users can insert their own bulk edits" ON bulk_edits;
+DROP POLICY IF EXISTS "Users can update their own bulk edits" ON bulk_edits;
+
+CREATE POLICY "Users can read their own bulk edits"
+ON bulk_edits FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own bulk edits"
+ON bulk_edits FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own bulk edits"
+ON bulk_edits FOR UPDATE USING (auth.uid() = user_id);
@@ -0,0 +1,51 @@
+-- User-defined buckets, shown alongside the built-in On Hold, Today and
+-- Tomorrow buckets. Tasks reference a bucket by name.
+CREATE TABLE IF NOT EXISTS task_buckets (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 50),
+  color TEXT NOT NULL DEFAULT 'slate',
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, name)
+);
+
+DROP TRIGGER IF EXISTS update_task_buckets_updated_at ON task_buckets;
+CREATE TRIGGER update_task_buckets_updated_at
+BEFORE UPDATE ON task_buckets
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_task_buckets_user_id ON task_buckets(user_id, position);
+
+-- Store "On Hold" under its own name instead of the legacy values, and allow
+-- any bucket name on tasks
+ALTER TABLE tasks DROP CONSTRAINT IF EXISTS tasks_bucket_check;
+
+UPDATE tasks
+SET bucket = 'On Hold'
+WHERE bucket IN ('Short-Term', 'Mid-Term', 'Long-Term', 'This Week');
+
+ALTER TABLE tasks
+ADD CONSTRAINT tasks_bucket_check CHECK (char_length(bucket) BETWEEN 1 AND 50);
+
+-- RLS policies
+ALTER TABLE task_buckets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their own buckets" ON task_buckets;
+DROP POLICY IF EXISTS "Users can insert their own buckets" ON task_buckets;
+DROP POLICY IF EXISTS "Users can update their own buckets" ON task_buckets;
+DROP POLICY IF EXISTS "Users can delete their own buckets" ON task_buckets;
+
+CREATE POLICY "Users can read their own buckets"
+ON task_buckets FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own buckets"
+ON task_buckets FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own buckets"
+ON task_buckets FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own buckets"
+ON task_buckets FOR DELETE USING (auth.uid() = user_id);
@@ -0,0 +1,8 @@
+-- When the request holding an Idempotency-Key claimed it. A key with no
+-- stored response a minute after its claim belongs to a request that died,
+-- and the next retry takes it over instead of getting 409 forever. Run after
+-- add_api_idempotency_keys.sql.
+ALTER TABLE api_idempotency_keys
+ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+COMMENT ON COLUMN api_idempotency_keys.claimed_at IS 'When the request processing this key claimed it; reclaimable after a minute without a response';
@@ -0,0 +1,9 @@
+-- A SHA-256 of the request body an Idempotency-Key was first used with. A
+-- later request with the same key and a different body is rejected with 422
+-- instead of replaying a response meant for another request. Keys claimed
+-- before this column existed have no hash and aren't checked. Run after
+-- add_idempotency_key_leases.sql.
+ALTER TABLE api_idempotency_keys
+ADD COLUMN IF NOT EXISTS request_hash TEXT;
+
+COMMENT ON COLUMN api_idempotency_keys.request_hash IS 'SHA-256 of the request body the key was claimed for';
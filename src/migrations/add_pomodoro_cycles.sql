@@ -0,0 +1,9 @@
+-- Completed pomodoro cycles are kept with the task's time entries rather
+-- than in the browser: the entry that ends a focus phase which ran to the
+-- end is marked, and a task's cycle count is the number of marked entries.
+-- Skipped focus phases and entries added by hand are not marked. Run after
+-- add_time_entries.sql.
+ALTER TABLE time_entries
+ADD COLUMN IF NOT EXISTS completes_cycle BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN time_entries.completes_cycle IS 'The entry ends a pomodoro focus phase that was completed, not skipped';
@@ -0,0 +1,88 @@
+-- Projects replace the free-text main_task as the way tasks are grouped.
+-- Tasks reference a project by id; tasks.main_task is kept as a copy of the
+-- project name for API clients and is rewritten when a project is renamed.
+CREATE TABLE IF NOT EXISTS projects (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  color TEXT NOT NULL DEFAULT 'slate',
+  description TEXT,
+  is_archived BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Names are unique per user regardless of case, so "Website" and "website"
+-- can't become two projects again
+CREATE UNIQUE INDEX IF NOT EXISTS idx_projects_user_name
+ON projects(user_id, lower(name));
+
+DROP TRIGGER IF EXISTS update_projects_updated_at ON projects;
+CREATE TRIGGER update_projects_updated_at
+BEFORE UPDATE ON projects
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS project_id UUID REFERENCES projects(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_project_id ON tasks(project_id);
+
+-- One project per distinct main_task, ignoring case and surrounding spaces.
+-- The spelling of the oldest task wins.
+INSERT INTO projects (user_id, name, created_at)
+SELECT DISTINCT ON (user_id, lower(left(trim(main_task), 100)))
+  user_id,
+  left(trim(main_task), 100),
+  created_at
+FROM tasks
+WHERE trim(coalesce(main_task, '')) <> ''
+ORDER BY user_id, lower(left(trim(main_task), 100)), created_at
+ON CONFLICT DO NOTHING;
+
+UPDATE tasks
+SET project_id = projects.id,
+    main_task = projects.name
+FROM projects
+WHERE tasks.project_id IS NULL
+  AND projects.user_id = tasks.user_id
+  AND lower(projects.name) = lower(left(trim(tasks.main_task), 100));
+
+-- Project goals on the Today progress chart are keyed by project id now
+UPDATE task_goals
+SET goal_key = projects.id::text
+FROM projects
+WHERE task_goals.goal_type = 'main'
+  AND projects.user_id = task_goals.user_id
+  AND lower(projects.name) = lower(trim(task_goals.goal_key))
+  AND NOT EXISTS (
+    SELECT 1 FROM task_goals existing
+    WHERE existing.user_id = task_goals.user_id
+      AND existing.goal_type = 'main'
+      AND existing.goal_key = projects.id::text
+  );
+
+UPDATE task_goals
+SET goal_key = '__ungrouped__'
+WHERE goal_type = 'main' AND goal_key = 'Ungrouped';
+
+-- RLS policies
+ALTER TABLE projects ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their own projects" ON projects;
+DROP POLICY IF EXISTS "Users can insert their own projects" ON projects;
+DROP POLICY IF EXISTS "Users can update their own projects" ON projects;
+DROP POLICY IF EXISTS "Users can delete their own projects" ON projects;
+
+CREATE POLICY "Users can read their own projects"
+ON projects FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own projects"
+ON projects FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own projects"
+ON projects FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own projects"
+ON projects FOR DELETE USING (auth.uid() = user_id);
+
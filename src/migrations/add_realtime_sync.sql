@@ -0,0 +1,19 @@
+-- Broadcast row changes on tasks, notes and task_goals through Supabase
+-- Realtime, so other tabs and devices pick them up (see src/lib/realtime.ts).
+-- Realtime applies the tables' RLS policies, so users only receive changes
+-- to their own rows. Safe to run more than once.
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['tasks', 'notes', 'task_goals'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = v_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', v_table);
+    END IF;
+  END LOOP;
+END $$;
@@ -0,0 +1,8 @@
+-- What the scheduled rollover moved, kept until the app has shown it. The
+-- job writes it after rolling a day over; the app clears it when it shows
+-- the summary, and claiming a new day clears any summary left from before.
+-- Run after add_user_preferences.sql.
+ALTER TABLE user_preferences
+ADD COLUMN IF NOT EXISTS rollover_summary TEXT;
+
+COMMENT ON COLUMN user_preferences.rollover_summary IS 'Summary of the last rollover the scheduled job ran, until the app shows it; NULL once shown or when nothing moved';
@@ -0,0 +1,8 @@
+-- Let a task list the tasks that block it. Cycles are rejected by the app and
+-- the API; completed or deleted blockers are removed from the list.
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS blocked_by UUID[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_tasks_blocked_by ON tasks USING GIN (blocked_by);
+
+COMMENT ON COLUMN tasks.blocked_by IS 'Ids of the tasks that must be completed before this one can start';
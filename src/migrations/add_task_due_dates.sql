@@ -0,0 +1,7 @@
+-- Add an optional deadline to tasks
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS due_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_due_at ON tasks(due_at) WHERE due_at IS NOT NULL;
+
+COMMENT ON COLUMN tasks.due_at IS 'When the task is due; the form sets it to the end of the chosen day';
@@ -0,0 +1,16 @@
+-- Add recurrence support: a rule on the task, the series it belongs to and
+-- the day this occurrence is scheduled for
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS recurrence_rule JSONB;
+
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS recurrence_series_id UUID;
+
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS occurrence_date DATE;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_recurrence_series_id ON tasks(recurrence_series_id);
+
+COMMENT ON COLUMN tasks.recurrence_rule IS 'Repeat rule, e.g. {"frequency": "weekly", "days_of_week": [1, 3]}';
+COMMENT ON COLUMN tasks.recurrence_series_id IS 'Id of the first task in the series; NULL on the first occurrence itself';
+COMMENT ON COLUMN tasks.occurrence_date IS 'Calendar day this occurrence of a recurring task is scheduled for';
@@ -0,0 +1,8 @@
+-- Deleted tasks are kept for a short undo window before being removed for
+-- good. Rows with deleted_at set are hidden everywhere.
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_deleted_at ON tasks(user_id, deleted_at) WHERE deleted_at IS NOT NULL;
+
+COMMENT ON COLUMN tasks.deleted_at IS 'When the task was deleted; NULL for tasks that are not deleted';
@@ -0,0 +1,51 @@
+-- Time actually spent on tasks: one entry per stretch the countdown ran, or
+-- added by hand. duration_seconds is kept so paused time isn't counted twice.
+CREATE TABLE IF NOT EXISTS time_entries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  task_id UUID REFERENCES tasks ON DELETE CASCADE NOT NULL,
+  started_at TIMESTAMPTZ NOT NULL,
+  ended_at TIMESTAMPTZ NOT NULL,
+  duration_seconds INTEGER NOT NULL CHECK (duration_seconds >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (ended_at >= started_at)
+);
+
+-- Keep updated_at current
+DROP TRIGGER IF EXISTS update_time_entries_updated_at ON time_entries;
+CREATE TRIGGER update_time_entries_updated_at
+BEFORE UPDATE ON time_entries
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- Indexes for query performance
+CREATE INDEX IF NOT EXISTS idx_time_entries_user_id ON time_entries(user_id);
+CREATE INDEX IF NOT EXISTS idx_time_entries_task_id ON time_entries(task_id);
+
+-- RLS policies
+ALTER TABLE time_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their own time entries" ON time_entries;
+DROP POLICY IF EXISTS "Users can insert their own time entries" ON time_entries;
+DROP POLICY IF EXISTS "Users can update their own time entries" ON time_entries;
+DROP POLICY IF EXISTS "Users can delete their own time entries" ON time_entries;
+
+CREATE POLICY "Users can read their own time entries"
+ON time_entries FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own time entries"
+ON time_entries FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own time entries"
+ON time_entries FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own time entries"
+ON time_entries FOR DELETE USING (auth.uid() = user_id);
+
+-- The total tracked time is copied onto a task when it is completed, so
+-- completed tasks can be compared with their estimate without the entries
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS tracked_minutes INTEGER;
+
+COMMENT ON COLUMN tasks.tracked_minutes IS 'Minutes tracked against the task, saved when it is completed';
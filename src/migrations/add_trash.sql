@@ -0,0 +1,49 @@
+-- Trash for deleted tasks and notes. Deleting sets deleted_at; the rows stay
+-- restorable until they are older than the user's trash_retention_days and
+-- purge_expired_trash removes them. Run after add_task_soft_delete.sql and
+-- add_user_preferences.sql.
+ALTER TABLE notes
+ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_notes_deleted_at ON notes(user_id, deleted_at) WHERE deleted_at IS NOT NULL;
+
+COMMENT ON COLUMN notes.deleted_at IS 'When the note was moved to the trash; NULL for notes that are not deleted';
+
+ALTER TABLE user_preferences
+ADD COLUMN IF NOT EXISTS trash_retention_days INTEGER NOT NULL DEFAULT 30 CHECK (trash_retention_days BETWEEN 1 AND 365);
+
+-- Delete trashed tasks and notes past their owner's retention period (30
+-- days without a preferences row), for p_user or every user. Runs with the
+-- caller's RLS, so signed-in users can only purge their own rows.
+CREATE OR REPLACE FUNCTION purge_expired_trash(p_user UUID DEFAULT NULL)
+RETURNS TABLE (purged_tasks INTEGER, purged_notes INTEGER) AS $$
+BEGIN
+  WITH purged AS (
+    DELETE FROM tasks
+    WHERE deleted_at IS NOT NULL
+      AND (p_user IS NULL OR tasks.user_id = p_user)
+      AND deleted_at < NOW() - make_interval(days => coalesce(
+        (SELECT trash_retention_days FROM user_preferences
+         WHERE user_preferences.user_id = tasks.user_id),
+        30
+      ))
+    RETURNING 1
+  )
+  SELECT count(*)::INTEGER INTO purged_tasks FROM purged;
+
+  WITH purged AS (
+    DELETE FROM notes
+    WHERE deleted_at IS NOT NULL
+      AND (p_user IS NULL OR notes.user_id = p_user)
+      AND deleted_at < NOW() - make_interval(days => coalesce(
+        (SELECT trash_retention_days FROM user_preferences
+         WHERE user_preferences.user_id = notes.user_id),
+        30
+      ))
+    RETURNING 1
+  )
+  SELECT count(*)::INTEGER INTO purged_notes FROM purged;
+
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql;
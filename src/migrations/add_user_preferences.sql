@@ -0,0 +1,33 @@
+-- Per-user preferences. The daily rollover reads unfinished_today_action and
+-- timezone, and records the last day it ran in last_rollover_date so the app
+-- and the scheduled job never roll the same day over twice.
+CREATE TABLE IF NOT EXISTS user_preferences (
+  user_id UUID PRIMARY KEY REFERENCES auth.users ON DELETE CASCADE,
+  unfinished_today_action TEXT NOT NULL DEFAULT 'stay' CHECK (unfinished_today_action IN ('stay', 'on_hold')),
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  last_rollover_date DATE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_user_preferences_updated_at ON user_preferences;
+CREATE TRIGGER update_user_preferences_updated_at
+BEFORE UPDATE ON user_preferences
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS policies
+ALTER TABLE user_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their own preferences" ON user_preferences;
+DROP POLICY IF EXISTS "Users can insert their own preferences" ON user_preferences;
+DROP POLICY IF EXISTS "Users can update their own preferences" ON user_preferences;
+
+CREATE POLICY "Users can read their own preferences"
+ON user_preferences FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own preferences"
+ON user_preferences FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own preferences"
+ON user_preferences FOR UPDATE USING (auth.uid() = user_id);
@@ -0,0 +1,46 @@
+-- Safer webhook dispatch. Deliveries are claimed (status 'sending') before
+-- they are sent, so overlapping dispatcher runs never send one twice, and
+-- new subscriptions must use https. Run after add_webhooks.sql.
+ALTER TABLE webhook_deliveries DROP CONSTRAINT IF EXISTS webhook_deliveries_status_check;
+ALTER TABLE webhook_deliveries
+ADD CONSTRAINT webhook_deliveries_status_check CHECK (status IN ('pending', 'sending', 'succeeded', 'failed'));
+
+ALTER TABLE webhook_deliveries
+ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN webhook_deliveries.claimed_at IS 'When a dispatcher run claimed the delivery for sending';
+
+-- Existing http subscriptions are left for the dispatcher to fail; the
+-- private address checks happen in the app and the dispatcher
+ALTER TABLE webhook_subscriptions DROP CONSTRAINT IF EXISTS webhook_subscriptions_url_https;
+ALTER TABLE webhook_subscriptions
+ADD CONSTRAINT webhook_subscriptions_url_https CHECK (url ~* '^https://') NOT VALID;
+
+-- Mark up to p_limit due deliveries, for p_user or every user, as sending and
+-- return them. Rows locked by another run are skipped rather than waited
+-- for. A claim older than five minutes belongs to a run that died and is
+-- taken over.
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(
+  p_user UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS SETOF webhook_deliveries AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE webhook_deliveries d
+  SET status = 'sending', claimed_at = NOW()
+  WHERE d.id IN (
+    SELECT id
+    FROM webhook_deliveries
+    WHERE (
+      (status = 'pending' AND next_attempt_at <= NOW())
+      OR (status = 'sending' AND claimed_at < NOW() - INTERVAL '5 minutes')
+    )
+    AND (p_user IS NULL OR user_id = p_user)
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING d.*;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,111 @@
+-- Outgoing webhook subscriptions per user
+CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  url TEXT NOT NULL,
+  events TEXT[] NOT NULL,
+  secret TEXT NOT NULL,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_webhook_subscriptions_updated_at ON webhook_subscriptions;
+CREATE TRIGGER update_webhook_subscriptions_updated_at
+BEFORE UPDATE ON webhook_subscriptions
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_webhook_subscriptions_user_id ON webhook_subscriptions(user_id);
+
+-- One row per event and subscription; retried until it succeeds or runs out
+-- of attempts
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  subscription_id UUID REFERENCES webhook_subscriptions ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  event TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  response_status INTEGER,
+  last_error TEXT,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_subscription ON webhook_deliveries(subscription_id, created_at DESC);
+
+-- Queue a delivery for every matching subscription when a task is created,
+-- moved to another bucket, completed or restored
+CREATE OR REPLACE FUNCTION enqueue_task_webhooks()
+RETURNS TRIGGER AS $$
+DECLARE
+  event_name TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    event_name := 'task.created';
+  ELSIF NEW.is_archived AND NOT OLD.is_archived THEN
+    event_name := 'task.completed';
+  ELSIF OLD.is_archived AND NOT NEW.is_archived THEN
+    event_name := 'task.restored';
+  ELSIF NEW.bucket IS DISTINCT FROM OLD.bucket THEN
+    event_name := 'task.moved';
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO webhook_deliveries (subscription_id, user_id, event, payload)
+  SELECT s.id,
+         s.user_id,
+         event_name,
+         jsonb_build_object(
+           'task', to_jsonb(NEW),
+           'previous_bucket', CASE WHEN TG_OP = 'UPDATE' THEN OLD.bucket END
+         )
+  FROM webhook_subscriptions s
+  WHERE s.user_id = NEW.user_id
+  AND s.active
+  AND event_name = ANY(s.events);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS enqueue_task_webhooks ON tasks;
+CREATE TRIGGER enqueue_task_webhooks
+AFTER INSERT OR UPDATE ON tasks
+FOR EACH ROW
+EXECUTE FUNCTION enqueue_task_webhooks();
+
+-- RLS policies
+ALTER TABLE webhook_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their own webhooks" ON webhook_subscriptions;
+DROP POLICY IF EXISTS "Users can insert their own webhooks" ON webhook_subscriptions;
+DROP POLICY IF EXISTS "Users can update their own webhooks" ON webhook_subscriptions;
+DROP POLICY IF EXISTS "Users can delete their own webhooks" ON webhook_subscriptions;
+DROP POLICY IF EXISTS "Users can read their own webhook deliveries" ON webhook_deliveries;
+DROP POLICY IF EXISTS "Users can update their own webhook deliveries" ON webhook_deliveries;
+
+CREATE POLICY "Users can read their own webhooks"
+ON webhook_subscriptions FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own webhooks"
+ON webhook_subscriptions FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own webhooks"
+ON webhook_subscriptions FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own webhooks"
+ON webhook_subscriptions FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can read their own webhook deliveries"
+ON webhook_deliveries FOR SELECT USING (auth.uid() = user_id);
+
+-- Allows requeueing a failed delivery from the Webhooks page
+CREATE POLICY "Users can update their own webhook deliveries"
+ON webhook_deliveries FOR UPDATE USING (auth.uid() = user_id);
@@ -0,0 +1,44 @@
+-- Replace plaintext API key tokens with a salted hash and a visible prefix.
+-- Hash format: sha256(token_salt || ':' || token) as hex, matching
+-- src/lib/apiKeys.ts and api/_lib/auth.mjs.
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+ALTER TABLE api_keys
+ADD COLUMN IF NOT EXISTS token_prefix TEXT;
+
+ALTER TABLE api_keys
+ADD COLUMN IF NOT EXISTS token_salt TEXT;
+
+ALTER TABLE api_keys
+ADD COLUMN IF NOT EXISTS token_hash TEXT;
+
+-- Backfill existing keys from their plaintext token, then drop the token
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1
+        FROM information_schema.columns
+        WHERE table_name = 'api_keys'
+        AND column_name = 'token'
+    ) THEN
+        UPDATE api_keys
+        SET token_salt = encode(gen_random_bytes(16), 'hex')
+        WHERE token_hash IS NULL;
+
+        UPDATE api_keys
+        SET token_prefix = LEFT(token, 12),
+            token_hash = encode(digest(token_salt || ':' || token, 'sha256'), 'hex')
+        WHERE token_hash IS NULL;
+
+        ALTER TABLE api_keys DROP COLUMN token;
+    END IF;
+END $$;
+
+ALTER TABLE api_keys ALTER COLUMN token_prefix SET NOT NULL;
+ALTER TABLE api_keys ALTER COLUMN token_salt SET NOT NULL;
+ALTER TABLE api_keys ALTER COLUMN token_hash SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_token_prefix ON api_keys(token_prefix);
+
+COMMENT ON COLUMN api_keys.token_prefix IS 'First 12 characters of the key, used for lookup and display';
+COMMENT ON COLUMN api_keys.token_hash IS 'Hex SHA-256 of token_salt || '':'' || token';
@@ -1,5 +1,10 @@
 import { useState, useEffect, useCallback } from "react";
-import { supabase } from "@/lib/supabase";
+import { checkAuthStatus } from "@/lib/supabase";
+import {
+  ApiKeyRecord,
+  ApiRequestLog,
+  apiKeyRepository,
+} from "@/lib/repositories";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -26,6 +31,7 @@ import {
   PencilIcon,
   CheckIcon,
   XIcon,
+  History,
 } from "lucide-react";
 import { format } from "date-fns";
 import { Navbar } from "@/components/layout/Navbar";
@@ -40,12 +46,17 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { generateApiKey } from "@/lib/apiKeys";
+import {
+  API_SCOPES,
+  DEFAULT_API_SCOPES,
+  isApiKeyExpired,
+} from "@/lib/apiScopes";
 
 // Define the structure of an API key object
-interface ApiKey {
-  id: string;
-  created_at: string;
-  name: string | null;
+interface ApiKey extends ApiKeyRecord {
   token_hint: string;
 }
 
@@ -58,18 +69,21 @@ export default function ApiKeysPage() {
   const [editName, setEditName] = useState<string>("");
   const [newApiKey, setNewApiKey] = useState<string | null>(null);
   const [newKeyName, setNewKeyName] = useState<string>("");
+  const [newKeyScopes, setNewKeyScopes] =
+    useState<string[]>(DEFAULT_API_SCOPES);
+  const [newKeyExpiry, setNewKeyExpiry] = useState<string>("");
   const [error, setError] = useState<string | null>(null);
   const [copySuccess, setCopySuccess] = useState(false);
   const [showGenerateDialog, setShowGenerateDialog] = useState(false);
+  const [logKey, setLogKey] = useState<ApiKey | null>(null);
+  const [requestLogs, setRequestLogs] = useState<ApiRequestLog[]>([]);
+  const [isLoadingLogs, setIsLoadingLogs] = useState(false);
 
   const fetchApiKeys = useCallback(async () => {
     setIsLoading(true);
     setError(null);
 
-    const { data, error: fetchError } = await supabase
-      .from("api_keys")
-      .select("id, created_at, name")
-      .order("created_at", { ascending: false });
+    const { data, error: fetchError } = await apiKeyRepository.list();
 
     if (fetchError) {
       console.error("Error fetching API keys:", fetchError);
@@ -89,30 +103,39 @@ export default function ApiKeysPage() {
     fetchApiKeys();
   }, [fetchApiKeys]);
 
-  // Generate API key directly using supabase client
+  // Generate an API key in the browser; only its hash is stored
   const handleGenerateKey = async () => {
     setIsGenerating(true);
     setError(null);
     setCopySuccess(false);
 
     try {
-      // Generate a random UUID for the token
-      const token = self.crypto.randomUUID();
+      // Keys stay valid until the end of the chosen day
+      const expiresAt = newKeyExpiry
+        ? new Date(`${newKeyExpiry}T23:59:59`).toISOString()
+        : null;
+
+      // Generate the token; only its prefix and salted hash are stored
+      const { token, token_prefix, token_salt, token_hash } =
+        await generateApiKey();
 
       // Insert the new API key with the user_id from the authenticated session
-      const { data: sessionData, error: sessionError } =
-        await supabase.auth.getSession();
+      const session = await checkAuthStatus();
 
-      if (sessionError || !sessionData.session) {
+      if (!session) {
         throw new Error("You must be logged in to generate API keys");
       }
 
-      const userId = sessionData.session.user.id;
+      const userId = session.user.id;
 
-      const { error: insertError } = await supabase.from("api_keys").insert({
+      const { error: insertError } = await apiKeyRepository.create({
         user_id: userId,
-        token: token,
+        token_prefix,
+        token_salt,
+        token_hash,
         name: newKeyName.trim() || null,
+        scopes: newKeyScopes,
+        expires_at: expiresAt,
       });
 
       if (insertError) {
@@ -134,10 +157,7 @@ export default function ApiKeysPage() {
     setIsDeleting(keyId);
     setError(null);
     try {
-      const { error: deleteError } = await supabase
-        .from("api_keys")
-        .delete()
-        .eq("id", keyId);
+      const { error: deleteError } = await apiKeyRepository.delete(keyId);
 
       if (deleteError) {
         throw deleteError;
@@ -158,10 +178,10 @@ export default function ApiKeysPage() {
 
   const saveKeyName = async (keyId: string) => {
     try {
-      const { error: updateError } = await supabase
-        .from("api_keys")
-        .update({ name: editName.trim() || null })
-        .eq("id", keyId);
+      const { error: updateError } = await apiKeyRepository.rename(
+        keyId,
+        editName.trim() || null
+      );
 
       if (updateError) {
         throw updateError;
@@ -186,6 +206,25 @@ export default function ApiKeysPage() {
     setEditName("");
   };
 
+  const showRequestLog = async (key: ApiKey) => {
+    setLogKey(key);
+    setRequestLogs([]);
+    setIsLoadingLogs(true);
+
+    const { data, error: fetchError } = await apiKeyRepository.listRequestLogs(
+      key.id
+    );
+
+    if (fetchError) {
+      console.error("Error fetching API request log:", fetchError);
+      setError(`Failed to load request log: ${fetchError.message}`);
+      setLogKey(null);
+    } else {
+      setRequestLogs(data || []);
+    }
+    setIsLoadingLogs(false);
+  };
+
   const copyToClipboard = () => {
     if (!newApiKey) return;
     navigator.clipboard.writeText(newApiKey).then(
@@ -200,8 +239,16 @@ export default function ApiKeysPage() {
     );
   };
 
+  const toggleNewKeyScope = (scope: string, checked: boolean) => {
+    setNewKeyScopes((scopes) =>
+      checked ? [...scopes, scope] : scopes.filter((s) => s !== scope)
+    );
+  };
+
   const handleShowGenerateDialog = () => {
     setNewKeyName("");
+    setNewKeyScopes(DEFAULT_API_SCOPES);
+    setNewKeyExpiry("");
     setNewApiKey(null);
     setError(null);
     setShowGenerateDialog(true);
@@ -275,7 +322,10 @@ export default function ApiKeysPage() {
                       <TableRow>
                         <TableHead>Name</TableHead>
                         <TableHead>Identifier</TableHead>
+                        <TableHead>Scopes</TableHead>
                         <TableHead>Created At</TableHead>
+                        <TableHead>Expires</TableHead>
+                        <TableHead>Last Used</TableHead>
                         <TableHead className="text-right">Actions</TableHead>
                       </TableRow>
                     </TableHeader>
@@ -329,12 +379,54 @@ export default function ApiKeysPage() {
                             )}
                           </TableCell>
                           <TableCell className="font-mono text-xs">
-                            {key.id.substring(0, 8)}...
+                            {key.token_prefix}...
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1">
+                              {(key.scopes || []).map((scope) => (
+                                <Badge
+                                  key={scope}
+                                  variant="secondary"
+                                  className="font-mono text-[10px] font-normal"
+                                >
+                                  {scope}
+                                </Badge>
+                              ))}
+                            </div>
                           </TableCell>
                           <TableCell>
                             {format(new Date(key.created_at), "PPp")}
                           </TableCell>
-                          <TableCell className="text-right">
+                          <TableCell>
+                            {!key.expires_at ? (
+                              <span className="text-muted-foreground">
+                                Never
+                              </span>
+                            ) : isApiKeyExpired(key.expires_at) ? (
+                              <Badge variant="destructive">Expired</Badge>
+                            ) : (
+                              format(new Date(key.expires_at), "PP")
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {key.last_used_at ? (
+                              format(new Date(key.last_used_at), "PPp")
+                            ) : (
+                              <span className="text-muted-foreground">
+                                Never
+                              </span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => showRequestLog(key)}
+                              aria-label="View request log"
+                              title="View request log"
+                            >
+                              <History className="h-4 w-4" />
+                            </Button>
                             <Button
                               variant="ghost"
                               size="icon"
@@ -381,6 +473,43 @@ export default function ApiKeysPage() {
                 onChange={(e) => setNewKeyName(e.target.value)}
               />
             </div>
+            <div className="space-y-2">
+              <Label>Scopes</Label>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {API_SCOPES.map((scope) => (
+                  <div key={scope.value} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`scope-${scope.value}`}
+                      checked={newKeyScopes.includes(scope.value)}
+                      onCheckedChange={(checked) =>
+                        toggleNewKeyScope(scope.value, checked === true)
+                      }
+                    />
+                    <Label
+                      htmlFor={`scope-${scope.value}`}
+                      className="text-sm font-normal"
+                    >
+                      {scope.label}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="keyExpiry">
+                Expires On{" "}
+                <span className="text-muted-foreground text-xs">
+                  (Optional)
+                </span>
+              </Label>
+              <Input
+                id="keyExpiry"
+                type="date"
+                min={format(new Date(), "yyyy-MM-dd")}
+                value={newKeyExpiry}
+                onChange={(e) => setNewKeyExpiry(e.target.value)}
+              />
+            </div>
           </div>
 
           <DialogFooter>
@@ -389,7 +518,7 @@ export default function ApiKeysPage() {
             </DialogClose>
             <Button
               onClick={handleGenerateKey}
-              disabled={isGenerating}
+              disabled={isGenerating || newKeyScopes.length === 0}
               className="min-w-[120px]"
             >
               {isGenerating ? (
@@ -404,6 +533,66 @@ export default function ApiKeysPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Dialog showing the recent requests made with a key */}
+      <Dialog
+        open={logKey !== null}
+        onOpenChange={(open) => !open && setLogKey(null)}
+      >
+        <DialogContent className="sm:max-w-[640px]">
+          <DialogHeader>
+            <DialogTitle>Request Log</DialogTitle>
+            <DialogDescription>
+              The 50 most recent requests made with{" "}
+              {logKey?.name || "this key"}.
+            </DialogDescription>
+          </DialogHeader>
+
+          {isLoadingLogs ? (
+            <div className="flex justify-center items-center py-4">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              <span className="ml-2">Loading requests...</span>
+            </div>
+          ) : requestLogs.length === 0 ? (
+            <p className="text-muted-foreground text-sm py-4">
+              No requests have been made with this key yet.
+            </p>
+          ) : (
+            <div className="border rounded-md max-h-[400px] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Endpoint</TableHead>
+                    <TableHead className="text-right">Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {requestLogs.map((log) => (
+                    <TableRow key={log.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(log.created_at), "PPp")}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {log.method} {log.endpoint}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Badge
+                          variant={
+                            log.status >= 400 ? "destructive" : "secondary"
+                          }
+                        >
+                          {log.status}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
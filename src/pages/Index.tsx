@@ -1,7 +1,8 @@
 import { useState, useCallback } from "react";
 import { useTaskContext } from "@/context/TaskContext";
-import { Task, TaskBucketType } from "@/types";
+import { TaskBucketType } from "@/types";
 import TaskBucket from "@/components/buckets/TaskBucket";
+import OverdueBucket from "@/components/buckets/OverdueBucket";
 import CreateTaskForm from "@/components/forms/CreateTaskForm";
 import TimeVisualization from "@/components/charts/TimeVisualization";
 import TodayProgressVisualization from "@/components/charts/TodayProgressVisualization";
@@ -19,14 +20,15 @@ import {
   DragEndEvent,
   closestCenter,
 } from "@dnd-kit/core";
-import { arrayMove } from "@dnd-kit/sortable";
 import {
-  flattenGroupedTasks,
-  getGroupOrder,
-  getTaskGroupKey,
-  groupTasksByMain,
-  UNGROUPED_TASK_KEY,
+  moveTaskToBucket,
+  reorderGroups,
+  reorderWithinGroup,
+  toOrderUpdates,
 } from "@/lib/taskOrder";
+import { isTaskOverdue } from "@/lib/dueDates";
+import { getBlockers } from "@/lib/dependencies";
+import { toast } from "sonner";
 
 // Helper function to format dates
 const formatDate = (date: Date): string => {
@@ -56,14 +58,23 @@ const Index = () => {
     updateTaskImportance,
     updateSubTask,
     reorderTasks,
+    customBuckets,
     userId,
   } = useTaskContext();
 
+  const orderedCustomBuckets = [...customBuckets].sort(
+    (a, b) => a.position - b.position
+  );
+
   // Calculate dates
   const today = new Date();
   const tomorrow = new Date(today);
   tomorrow.setDate(tomorrow.getDate() + 1);
 
+  // Overdue tasks get their own section instead of showing in their bucket
+  const overdueTasks = tasks.filter((task) => isTaskOverdue(task));
+  const bucketTasks = tasks.filter((task) => !isTaskOverdue(task));
+
   const todayTitle = `${formatDate(today)}`;
   const tomorrowTitle = `${formatDate(tomorrow)}`;
 
@@ -105,13 +116,6 @@ const Index = () => {
     return closestCenter(args);
   }, []);
 
-  const buildUpdates = (bucketTasks: Task[]) =>
-    bucketTasks.map((task) => ({
-      id: task.id,
-      bucket: task.bucket,
-      sort_order: task.sort_order ?? 0,
-    }));
-
   const handleDndDragEnd = async (event: DragEndEvent) => {
     const { active, over } = event;
     if (!over) return;
@@ -123,122 +127,51 @@ const Index = () => {
       if (active.id === over.id || !activeData.bucket) return;
       if (activeData.bucket !== overData.bucket) return;
 
-      const bucketTasks = tasks.filter(
-        (task) => task.bucket === activeData.bucket
+      const updatedBucket = reorderGroups(
+        tasks,
+        activeData.bucket,
+        activeData.group ?? "",
+        overData.group ?? ""
       );
-      const groups = groupTasksByMain(bucketTasks);
-      const groupOrder = getGroupOrder(groups);
-      const activeIndex = groupOrder.indexOf(activeData.group ?? "");
-      const overIndex = groupOrder.indexOf(overData.group ?? "");
-
-      if (activeIndex === -1 || overIndex === -1) return;
-
-      const updatedBucket = flattenGroupedTasks(
-        groups,
-        arrayMove(groupOrder, activeIndex, overIndex)
-      );
-
-      await reorderTasks(buildUpdates(updatedBucket));
+      if (updatedBucket) {
+        await reorderTasks(toOrderUpdates(updatedBucket));
+      }
       return;
     }
 
     if (activeData?.type !== "task") return;
+    if (overData?.type !== "task" && overData?.type !== "bucket") return;
 
     const activeTask = tasks.find((task) => task.id === active.id);
     if (!activeTask) return;
 
-    const sourceBucket = (activeData.bucket ??
-      activeTask.bucket) as TaskBucketType;
-    const sourceGroup = activeData.group ?? getTaskGroupKey(activeTask);
-
-    let targetBucket = sourceBucket;
-    if (overData?.type === "task" || overData?.type === "bucket") {
-      targetBucket = (overData.bucket ?? sourceBucket) as TaskBucketType;
-    } else {
-      return;
-    }
+    const targetBucket = overData.bucket ?? activeTask.bucket;
+    const overTaskId = overData.type === "task" ? String(over.id) : null;
 
-    if (sourceBucket === targetBucket) {
-      if (overData?.type === "task" && overData.group !== sourceGroup) {
-        return;
+    if (targetBucket === activeTask.bucket) {
+      const updatedBucket = reorderWithinGroup(tasks, activeTask, overTaskId);
+      if (updatedBucket) {
+        await reorderTasks(toOrderUpdates(updatedBucket));
       }
-
-      const bucketTasks = tasks.filter(
-        (task) => task.bucket === sourceBucket
-      );
-      const groups = groupTasksByMain(bucketTasks);
-      const groupTasks = groups.get(sourceGroup) ?? [];
-      const activeIndex = groupTasks.findIndex(
-        (task) => task.id === activeTask.id
-      );
-      if (activeIndex === -1) return;
-
-      const overIndex =
-        overData?.type === "task"
-          ? groupTasks.findIndex((task) => task.id === over.id)
-          : groupTasks.length - 1;
-
-      if (overIndex === -1 || overIndex === activeIndex) return;
-
-      const updatedGroup = arrayMove(groupTasks, activeIndex, overIndex);
-      groups.set(sourceGroup, updatedGroup);
-
-      const updatedBucket = flattenGroupedTasks(
-        groups,
-        getGroupOrder(groups)
-      );
-
-      await reorderTasks(buildUpdates(updatedBucket));
       return;
     }
 
-    const sourceBucketTasks = tasks.filter(
-      (task) => task.bucket === sourceBucket && task.id !== activeTask.id
-    );
-    const targetBucketTasks = tasks.filter(
-      (task) => task.bucket === targetBucket
-    );
-
-    const sourceGroups = groupTasksByMain(sourceBucketTasks);
-    const targetGroups = groupTasksByMain(targetBucketTasks);
-    const targetGroup = sourceGroup;
-    const targetGroupTasks = targetGroups.get(targetGroup) ?? [];
-    const isNewGroup = targetGroupTasks.length === 0;
-
-    const insertIndex =
-      overData?.type === "task" &&
-      overData.bucket === targetBucket &&
-      overData.group === targetGroup
-        ? targetGroupTasks.findIndex((task) => task.id === over.id)
-        : targetGroupTasks.length;
-
-    const updatedTargetGroup = [...targetGroupTasks];
-    updatedTargetGroup.splice(
-      insertIndex === -1 ? updatedTargetGroup.length : insertIndex,
-      0,
-      { ...activeTask, bucket: targetBucket }
-    );
-    targetGroups.set(targetGroup, updatedTargetGroup);
-
-    let targetGroupOrder = getGroupOrder(targetGroups);
-    if (isNewGroup && targetGroup !== UNGROUPED_TASK_KEY) {
-      targetGroupOrder = [
-        ...targetGroupOrder.filter((key) => key !== targetGroup),
-        targetGroup,
-      ];
+    // Blocked tasks can still be planned for today, but say what's in the way
+    if (targetBucket === "Today") {
+      const blockers = getBlockers(activeTask, tasks);
+      if (blockers.length > 0) {
+        toast.warning(`"${activeTask.sub_task}" is still blocked`, {
+          description: `Waiting on ${blockers
+            .map((blocker) => blocker.sub_task)
+            .join(", ")}`,
+        });
+      }
     }
 
-    const updatedSourceBucket = flattenGroupedTasks(
-      sourceGroups,
-      getGroupOrder(sourceGroups)
-    );
-    const updatedTargetBucket = flattenGroupedTasks(
-      targetGroups,
-      targetGroupOrder
-    );
-
     await reorderTasks(
-      buildUpdates([...updatedSourceBucket, ...updatedTargetBucket])
+      toOrderUpdates(
+        moveTaskToBucket(tasks, activeTask, targetBucket, overTaskId)
+      )
     );
   };
 
@@ -292,13 +225,27 @@ const Index = () => {
             onToggleCompletion={toggleTaskCompletion}
           />
 
+          {overdueTasks.length > 0 && (
+            <section className="mb-8">
+              <OverdueBucket
+                tasks={overdueTasks}
+                onDelete={deleteTask}
+                onArchive={archiveTask}
+                onUpdateTimeEstimate={updateTimeEstimate}
+                onToggleCompletion={toggleTaskCompletion}
+                onUpdateImportance={updateTaskImportance}
+                onUpdateSubTask={updateSubTask}
+              />
+            </section>
+          )}
+
           <section className="mb-8">
             <h2 className="text-xl font-medium mb-4">Task Category Buckets</h2>
             <div className="grid grid-cols-1 gap-3">
               <TaskBucket
                 title="On Hold Tasks"
                 type="On Hold"
-                tasks={tasks}
+                tasks={bucketTasks}
                 onDelete={deleteTask}
                 onArchive={archiveTask}
                 onUpdateTimeEstimate={updateTimeEstimate}
@@ -307,6 +254,25 @@ const Index = () => {
                 onUpdateSubTask={updateSubTask}
               />
             </div>
+            {orderedCustomBuckets.length > 0 && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mt-3">
+                {orderedCustomBuckets.map((bucket) => (
+                  <TaskBucket
+                    key={bucket.id}
+                    title={bucket.name}
+                    type={bucket.name}
+                    color={bucket.color}
+                    tasks={bucketTasks}
+                    onDelete={deleteTask}
+                    onArchive={archiveTask}
+                    onUpdateTimeEstimate={updateTimeEstimate}
+                    onToggleCompletion={toggleTaskCompletion}
+                    onUpdateImportance={updateTaskImportance}
+                    onUpdateSubTask={updateSubTask}
+                  />
+                ))}
+              </div>
+            )}
           </section>
 
           <section className="mb-8">
@@ -340,7 +306,7 @@ const Index = () => {
               <TaskBucket
                 title={todayTitle}
                 type="Today"
-                tasks={tasks}
+                tasks={bucketTasks}
                 onDelete={deleteTask}
                 onArchive={archiveTask}
                 onUpdateTimeEstimate={updateTimeEstimate}
@@ -353,7 +319,7 @@ const Index = () => {
               <TaskBucket
                 title={tomorrowTitle}
                 type="Tomorrow"
-                tasks={tasks}
+                tasks={bucketTasks}
                 onDelete={deleteTask}
                 onArchive={archiveTask}
                 onUpdateTimeEstimate={updateTimeEstimate}
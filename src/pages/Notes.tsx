@@ -6,13 +6,50 @@ import NoteCard from "@/components/notes/NoteCard";
 import NoteModal from "@/components/notes/NoteModal";
 import SearchBar from "@/components/notes/SearchBar";
 import { toast } from "@/hooks/use-toast";
-import { supabase, handleSupabaseError } from "@/lib/supabase";
+import {
+  checkAuthStatus,
+  handleSupabaseError,
+  onSessionChange,
+} from "@/lib/supabase";
+import { NoteRecord, noteRepository } from "@/lib/repositories";
+import { publishRowChange, subscribeToRowChanges } from "@/lib/realtime";
 import { Loader2, Plus, Search, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 
 // Initial empty state
 const INITIAL_TAGS: Tag[] = [];
 
+// Parse tags from database (converting string array to Tag objects)
+const parseTagsFromDb = (tagsArray: string[]): Tag[] => {
+  return tagsArray.map((tagStr) => {
+    try {
+      // Attempt to parse if it's a JSON string
+      const parsedTag = JSON.parse(tagStr);
+      return {
+        id: parsedTag.id || tagStr,
+        name: parsedTag.name || tagStr,
+        color: parsedTag.color || "blue",
+      };
+    } catch (e) {
+      // If parsing fails, use the string as both id and name
+      return {
+        id: tagStr,
+        name: tagStr,
+        color: "blue",
+      };
+    }
+  });
+};
+
+const toNote = (row: NoteRecord): Note => ({
+  id: row.id,
+  title: row.notes_title,
+  content: row.notes_text,
+  tags: parseTagsFromDb(row.tags || []),
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
 export default function Notes() {
   const [notes, setNotes] = useState<Note[]>([]);
   const [tags, setTags] = useState<Tag[]>(INITIAL_TAGS);
@@ -28,11 +65,7 @@ export default function Notes() {
   const fetchNotes = async (currentUserId: string) => {
     setIsLoading(true);
     try {
-      const { data, error } = await supabase
-        .from("notes")
-        .select("*")
-        .eq("user_id", currentUserId)
-        .order("updated_at", { ascending: false });
+      const { data, error } = await noteRepository.listActive(currentUserId);
 
       if (handleSupabaseError(error)) {
         setIsLoading(false);
@@ -41,14 +74,7 @@ export default function Notes() {
 
       if (data) {
         // Transform Supabase data to our Note format
-        const formattedNotes: Note[] = data.map((note) => ({
-          id: note.id,
-          title: note.notes_title,
-          content: note.notes_text,
-          tags: note.tags ? parseTagsFromDb(note.tags) : [],
-          createdAt: note.created_at,
-          updatedAt: note.updated_at,
-        }));
+        const formattedNotes: Note[] = data.map(toNote);
 
         setNotes(formattedNotes);
         setFilteredNotes(formattedNotes);
@@ -69,28 +95,6 @@ export default function Notes() {
     }
   };
 
-  // Parse tags from database (converting string array to Tag objects)
-  const parseTagsFromDb = (tagsArray: string[]): Tag[] => {
-    return tagsArray.map((tagStr) => {
-      try {
-        // Attempt to parse if it's a JSON string
-        const parsedTag = JSON.parse(tagStr);
-        return {
-          id: parsedTag.id || tagStr,
-          name: parsedTag.name || tagStr,
-          color: parsedTag.color || "blue",
-        };
-      } catch (e) {
-        // If parsing fails, use the string as both id and name
-        return {
-          id: tagStr,
-          name: tagStr,
-          color: "blue",
-        };
-      }
-    });
-  };
-
   // Extract all unique tags from a list of notes
   const extractTagsFromNotes = (notesList: Note[]): Tag[] => {
     const tagMap = new Map<string, Tag>();
@@ -109,11 +113,11 @@ export default function Notes() {
   // Check for authentication and fetch notes on component mount
   useEffect(() => {
     const checkAuthAndFetchNotes = async () => {
-      const { data } = await supabase.auth.getSession();
+      const session = await checkAuthStatus();
 
-      if (data.session) {
-        setUserId(data.session.user.id);
-        fetchNotes(data.session.user.id);
+      if (session) {
+        setUserId(session.user.id);
+        fetchNotes(session.user.id);
       } else {
         setIsLoading(false);
       }
@@ -122,7 +126,7 @@ export default function Notes() {
     checkAuthAndFetchNotes();
 
     // Set up listener for auth changes
-    const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+    return onSessionChange((session) => {
       const newUserId = session?.user.id || null;
       setUserId(newUserId);
 
@@ -134,12 +138,45 @@ export default function Notes() {
         setIsLoading(false);
       }
     });
-
-    return () => {
-      data.subscription.unsubscribe();
-    };
   }, []);
 
+  // Pick up notes saved or deleted in other tabs and on other devices
+  useEffect(() => {
+    if (!userId) return;
+
+    return subscribeToRowChanges<NoteRecord>(userId, "notes", (change) => {
+      const withoutNote = (list: Note[]) =>
+        list.filter((note) => note.id !== change.id);
+
+      if (change.type === "DELETE" || change.row?.deleted_at) {
+        setNotes(withoutNote);
+        setFilteredNotes(withoutNote);
+        return;
+      }
+      if (!change.row) return;
+
+      // Keep whichever copy was saved last
+      const changedNote = toNote(change.row);
+      const withChangedNote = (list: Note[]) =>
+        list.some((note) => note.id === changedNote.id)
+          ? list.map((note) =>
+              note.id === changedNote.id &&
+              note.updatedAt <= changedNote.updatedAt
+                ? changedNote
+                : note
+            )
+          : [changedNote, ...list];
+      setNotes(withChangedNote);
+      setFilteredNotes(withChangedNote);
+      setTags((prev) => [
+        ...prev,
+        ...changedNote.tags.filter(
+          (tag) => !prev.some((existingTag) => existingTag.id === tag.id)
+        ),
+      ]);
+    });
+  }, [userId]);
+
   // Save note to Supabase
   const handleSaveNote = async (
     newNote: Omit<Note, "id" | "createdAt" | "updatedAt">
@@ -168,24 +205,20 @@ export default function Notes() {
 
     try {
       // Insert into Supabase
-      const { data, error } = await supabase
-        .from("notes")
-        .insert(noteRecord)
-        .select()
-        .single();
+      const { data, error } = await noteRepository.insert(noteRecord);
 
       if (handleSupabaseError(error)) return;
 
       if (data) {
-        // Format the returned data to our Note format
-        const savedNote: Note = {
+        publishRowChange(userId, {
+          table: "notes",
+          type: "INSERT",
           id: data.id,
-          title: data.notes_title,
-          content: data.notes_text,
-          tags: parseTagsFromDb(data.tags || []),
-          createdAt: data.created_at,
-          updatedAt: data.updated_at,
-        };
+          row: data,
+        });
+
+        // Format the returned data to our Note format
+        const savedNote = toNote(data);
 
         // Update local state
         setNotes([savedNote, ...notes]);
@@ -242,26 +275,24 @@ export default function Notes() {
 
     try {
       // Update in Supabase
-      const { data, error } = await supabase
-        .from("notes")
-        .update(noteRecord)
-        .eq("id", updatedNote.id)
-        .eq("user_id", userId) // Security check
-        .select()
-        .single();
+      const { data, error } = await noteRepository.update(
+        userId,
+        updatedNote.id,
+        noteRecord
+      );
 
       if (handleSupabaseError(error)) return;
 
       if (data) {
-        // Format the returned data to our Note format
-        const savedNote: Note = {
+        publishRowChange(userId, {
+          table: "notes",
+          type: "UPDATE",
           id: data.id,
-          title: data.notes_title,
-          content: data.notes_text,
-          tags: parseTagsFromDb(data.tags || []),
-          createdAt: data.created_at,
-          updatedAt: data.updated_at,
-        };
+          row: data,
+        });
+
+        // Format the returned data to our Note format
+        const savedNote = toNote(data);
 
         // Update local state
         const updatedNotes = notes.map((note) =>
@@ -301,7 +332,7 @@ export default function Notes() {
     }
   };
 
-  // Delete note from Supabase
+  // Move a note to the trash; it can be restored from the Trash page
   const handleDeleteNote = async (noteId: string) => {
     if (!userId) {
       toast({
@@ -313,13 +344,17 @@ export default function Notes() {
     }
 
     try {
-      const { error } = await supabase
-        .from("notes")
-        .delete()
-        .eq("id", noteId)
-        .eq("user_id", userId); // Security check
+      const { data, error } = await noteRepository.moveToTrash(userId, noteId);
 
       if (handleSupabaseError(error)) return;
+      if (data) {
+        publishRowChange(userId, {
+          table: "notes",
+          type: "UPDATE",
+          id: noteId,
+          row: data,
+        });
+      }
 
       // Update local state
       const updatedNotes = notes.filter((note) => note.id !== noteId);
@@ -331,8 +366,8 @@ export default function Notes() {
       setFilteredNotes(updatedFilteredNotes);
 
       toast({
-        title: "Note deleted",
-        description: "Your note has been deleted successfully",
+        title: "Note moved to trash",
+        description: "You can restore it from the Trash page",
       });
     } catch (err) {
       console.error("Error deleting note:", err);
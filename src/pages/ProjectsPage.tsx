@@ -0,0 +1,246 @@
+import { useState } from "react";
+import { useTaskContext } from "@/context/TaskContext";
+import { BucketColor, Project } from "@/types";
+import { Navbar } from "@/components/layout/Navbar";
+import ColorSelect from "@/components/forms/ColorSelect";
+import RenameMergeCard from "@/components/projects/RenameMergeCard";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "@/components/ui/card";
+import { Archive, ArchiveRestore, Loader2, Plus } from "lucide-react";
+import {
+  DEFAULT_PROJECT_COLOR,
+  projectInputSchema,
+} from "@/lib/projects";
+
+interface ProjectRowProps {
+  project: Project;
+  activeCount: number;
+  completedCount: number;
+  onUpdate: (
+    id: string,
+    changes: Partial<
+      Pick<Project, "name" | "color" | "description" | "is_archived">
+    >
+  ) => Promise<void>;
+}
+
+const ProjectRow = ({
+  project,
+  activeCount,
+  completedCount,
+  onUpdate,
+}: ProjectRowProps) => {
+  const [name, setName] = useState(project.name);
+  const [description, setDescription] = useState(project.description ?? "");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRename = async () => {
+    if (name.trim() === project.name) return;
+
+    const parsed = projectInputSchema.shape.name.safeParse(name);
+    if (!parsed.success) {
+      setError(parsed.error.issues[0].message);
+      setName(project.name);
+      return;
+    }
+    setError(null);
+    await onUpdate(project.id, { name: parsed.data });
+  };
+
+  const handleDescriptionSave = async () => {
+    if (description.trim() === (project.description ?? "")) return;
+
+    const parsed = projectInputSchema.shape.description.safeParse(
+      description.trim()
+    );
+    if (!parsed.success) {
+      setError(parsed.error.issues[0].message);
+      return;
+    }
+    setError(null);
+    await onUpdate(project.id, { description: description.trim() || null });
+  };
+
+  return (
+    <div className="space-y-2 rounded-lg border p-3">
+      <div className="flex items-center gap-2">
+        <Input
+          className="h-9 flex-1 font-medium"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={handleRename}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.currentTarget.blur();
+            }
+          }}
+          disabled={project.is_archived}
+        />
+        <ColorSelect
+          value={project.color}
+          onChange={(color) => onUpdate(project.id, { color })}
+        />
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() =>
+            onUpdate(project.id, { is_archived: !project.is_archived })
+          }
+          title={project.is_archived ? "Restore project" : "Archive project"}
+        >
+          {project.is_archived ? (
+            <ArchiveRestore className="h-4 w-4" />
+          ) : (
+            <Archive className="h-4 w-4" />
+          )}
+        </Button>
+      </div>
+      <Textarea
+        className="min-h-[60px] text-sm"
+        placeholder="Description"
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        onBlur={handleDescriptionSave}
+        disabled={project.is_archived}
+      />
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Badge variant="outline">{activeCount} active</Badge>
+        <Badge variant="outline">{completedCount} completed</Badge>
+      </div>
+      {error && (
+        <p className="text-sm font-medium text-destructive">{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default function ProjectsPage() {
+  const {
+    projects,
+    tasks,
+    completedTasks,
+    isLoading,
+    addProject,
+    updateProject,
+  } = useTaskContext();
+  const [newName, setNewName] = useState("");
+  const [newColor, setNewColor] = useState<BucketColor>(DEFAULT_PROJECT_COLOR);
+  const [nameError, setNameError] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+
+  const activeProjects = projects.filter((project) => !project.is_archived);
+  const archivedProjects = projects.filter((project) => project.is_archived);
+
+  const countTasks = (list: typeof tasks, projectId: string) =>
+    list.filter((task) => task.project_id === projectId).length;
+
+  const handleAdd = async () => {
+    const parsed = projectInputSchema.shape.name.safeParse(newName);
+    if (!parsed.success) {
+      setNameError(parsed.error.issues[0].message);
+      return;
+    }
+    setNameError(null);
+
+    const project = await addProject({ name: parsed.data, color: newColor });
+    if (project) {
+      setNewName("");
+      setNewColor(DEFAULT_PROJECT_COLOR);
+    }
+  };
+
+  const renderRow = (project: Project) => (
+    <ProjectRow
+      key={`${project.id}:${project.updated_at}`}
+      project={project}
+      activeCount={countTasks(tasks, project.id)}
+      completedCount={countTasks(completedTasks, project.id)}
+      onUpdate={updateProject}
+    />
+  );
+
+  return (
+    <div>
+      <Navbar />
+      <div className="container mx-auto px-4 py-8 max-w-3xl space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Projects</CardTitle>
+            <CardDescription>
+              Tasks are grouped by project on the board, in the explorer and in
+              the charts. Renaming a project updates all of its tasks;
+              archiving one hides it from the task form but keeps its tasks.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex items-center gap-2">
+              <Input
+                className="h-9 flex-1"
+                placeholder="New project"
+                value={newName}
+                onChange={(e) => {
+                  setNewName(e.target.value);
+                  setNameError(null);
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    handleAdd();
+                  }
+                }}
+              />
+              <ColorSelect value={newColor} onChange={setNewColor} />
+              <Button onClick={handleAdd} disabled={!newName.trim()}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add
+              </Button>
+            </div>
+            {nameError && (
+              <p className="text-sm font-medium text-destructive">
+                {nameError}
+              </p>
+            )}
+
+            {isLoading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : activeProjects.length === 0 ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">
+                No projects yet. Add one here or while creating a task.
+              </p>
+            ) : (
+              <div className="space-y-3 pt-3 border-t">
+                {activeProjects.map(renderRow)}
+              </div>
+            )}
+
+            {archivedProjects.length > 0 && (
+              <div className="pt-3 border-t space-y-3">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setShowArchived((prev) => !prev)}
+                >
+                  {showArchived ? "Hide" : "Show"} archived projects (
+                  {archivedProjects.length})
+                </Button>
+                {showArchived && archivedProjects.map(renderRow)}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <RenameMergeCard />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+import { useState, useEffect, useCallback } from "react";
+import { checkAuthStatus } from "@/lib/supabase";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { Navbar } from "@/components/layout/Navbar";
+import BucketSettings from "@/components/buckets/BucketSettings";
+import TimerAlertSettings from "@/components/task/TimerAlertSettings";
+import { UnfinishedTodayAction, UserPreferences } from "@/types";
+import {
+  fetchUserPreferences,
+  getBrowserTimeZone,
+  updateUserPreferences,
+} from "@/lib/preferences";
+import { parseDateKey } from "@/lib/recurrence";
+import { TRASH_RETENTION_OPTIONS } from "@/lib/trash";
+
+export default function SettingsPage() {
+  const [preferences, setPreferences] = useState<UserPreferences | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPreferences = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const session = await checkAuthStatus();
+    if (!session) {
+      setError("You must be logged in to change settings");
+      setIsLoading(false);
+      return;
+    }
+
+    const { data, error: fetchError } = await fetchUserPreferences(
+      session.user.id
+    );
+    if (fetchError) {
+      console.error("Error fetching preferences:", fetchError);
+      setError(`Failed to load settings: ${fetchError.message}`);
+    } else {
+      setPreferences(data);
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchPreferences();
+  }, [fetchPreferences]);
+
+  const savePreferences = async (
+    changes: Parameters<typeof updateUserPreferences>[1]
+  ) => {
+    if (!preferences) return;
+    setIsSaving(true);
+
+    const { data, error: updateError } = await updateUserPreferences(
+      preferences.user_id,
+      changes
+    );
+
+    if (updateError) {
+      console.error("Error updating preferences:", updateError);
+      toast.error(updateError.message || "Failed to save settings");
+    } else {
+      setPreferences(data);
+      toast.success("Settings saved");
+    }
+    setIsSaving(false);
+  };
+
+  const handleUnfinishedTodayChange = (value: UnfinishedTodayAction) =>
+    savePreferences({
+      unfinished_today_action: value,
+      timezone: getBrowserTimeZone(),
+    });
+
+  return (
+    <div>
+      <Navbar />
+      <div className="container mx-auto px-4 py-8 max-w-3xl space-y-6">
+        <BucketSettings />
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Day Rollover</CardTitle>
+            <CardDescription>
+              At the start of each day, Tomorrow's tasks and tasks due that day
+              move into Today.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {error && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Error</AlertTitle>
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            {isLoading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              preferences && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="unfinished-today">
+                      Unfinished Today tasks
+                    </Label>
+                    <Select
+                      value={preferences.unfinished_today_action}
+                      onValueChange={(value) =>
+                        handleUnfinishedTodayChange(
+                          value as UnfinishedTodayAction
+                        )
+                      }
+                      disabled={isSaving}
+                    >
+                      <SelectTrigger id="unfinished-today" className="w-64">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="stay">Stay in Today</SelectItem>
+                        <SelectItem value="on_hold">Move to On Hold</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <p className="text-sm text-muted-foreground">
+                    Time zone: {preferences.timezone}
+                    {preferences.last_rollover_date && (
+                      <>
+                        {" · "}Last rollover:{" "}
+                        {format(
+                          parseDateKey(preferences.last_rollover_date),
+                          "PPP"
+                        )}
+                      </>
+                    )}
+                  </p>
+                </>
+              )
+            )}
+          </CardContent>
+        </Card>
+
+        {preferences && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Trash</CardTitle>
+              <CardDescription>
+                Deleted tasks and notes can be restored from the Trash page
+                until they are removed for good.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <Label htmlFor="trash-retention">Keep deleted items for</Label>
+              <Select
+                value={String(preferences.trash_retention_days)}
+                onValueChange={(value) =>
+                  savePreferences({ trash_retention_days: Number(value) })
+                }
+                disabled={isSaving}
+              >
+                <SelectTrigger id="trash-retention" className="w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(TRASH_RETENTION_OPTIONS.includes(
+                    preferences.trash_retention_days
+                  )
+                    ? TRASH_RETENTION_OPTIONS
+                    : [
+                        ...TRASH_RETENTION_OPTIONS,
+                        preferences.trash_retention_days,
+                      ].sort((a, b) => a - b)
+                  ).map((days) => (
+                    <SelectItem key={days} value={String(days)}>
+                      {days} days
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </CardContent>
+          </Card>
+        )}
+
+        <TimerAlertSettings />
+      </div>
+    </div>
+  );
+}
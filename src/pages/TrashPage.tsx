@@ -0,0 +1,275 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useTaskContext } from "@/context/TaskContext";
+import { Task } from "@/types";
+import { Navbar } from "@/components/layout/Navbar";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Loader2, RotateCcw, Trash2 } from "lucide-react";
+import { addDays, differenceInCalendarDays, formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { fetchUserPreferences } from "@/lib/preferences";
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  TrashKind,
+  TrashedNote,
+  deleteForever,
+  emptyTrash,
+  fetchTrash,
+  restoreFromTrash,
+} from "@/lib/trash";
+
+interface TrashRowProps {
+  title: string;
+  detail?: string;
+  deletedAt: string;
+  retentionDays: number;
+  onRestore: () => void;
+  onDelete: () => void;
+}
+
+const TrashRow = ({
+  title,
+  detail,
+  deletedAt,
+  retentionDays,
+  onRestore,
+  onDelete,
+}: TrashRowProps) => {
+  const daysLeft = Math.max(
+    differenceInCalendarDays(
+      addDays(new Date(deletedAt), retentionDays),
+      new Date()
+    ),
+    0
+  );
+
+  return (
+    <div className="flex items-center gap-3 rounded-lg border p-3">
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium truncate">{title}</p>
+        <p className="text-xs text-muted-foreground truncate">
+          {detail && `${detail} · `}Deleted{" "}
+          {formatDistanceToNow(new Date(deletedAt), { addSuffix: true })}
+        </p>
+      </div>
+      <Badge variant="outline" className="whitespace-nowrap">
+        {daysLeft === 0 ? "Purged today" : `${daysLeft}d left`}
+      </Badge>
+      <Button variant="ghost" size="icon" onClick={onRestore} title="Restore">
+        <RotateCcw className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={onDelete}
+        title="Delete forever"
+      >
+        <Trash2 className="h-4 w-4 text-destructive" />
+      </Button>
+    </div>
+  );
+};
+
+export default function TrashPage() {
+  const { userId } = useTaskContext();
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [notes, setNotes] = useState<TrashedNote[]>([]);
+  const [retentionDays, setRetentionDays] = useState(
+    DEFAULT_TRASH_RETENTION_DAYS
+  );
+  const [isLoading, setIsLoading] = useState(true);
+  const [showEmptyConfirm, setShowEmptyConfirm] = useState(false);
+
+  const loadTrash = useCallback(async () => {
+    if (!userId) return;
+
+    const [trash, { data: preferences }] = await Promise.all([
+      fetchTrash(userId),
+      fetchUserPreferences(userId),
+    ]);
+    if (trash.error) {
+      console.error("Error loading trash:", trash.error);
+      toast.error(trash.error.message || "Failed to load the trash");
+    }
+    setTasks(trash.tasks);
+    setNotes(trash.notes);
+    if (preferences) {
+      setRetentionDays(preferences.trash_retention_days);
+    }
+    setIsLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const removeFromList = (kind: TrashKind, id: string) => {
+    if (kind === "task") {
+      setTasks((prev) => prev.filter((task) => task.id !== id));
+    } else {
+      setNotes((prev) => prev.filter((note) => note.id !== id));
+    }
+  };
+
+  const handleRestore = async (kind: TrashKind, id: string) => {
+    if (!userId) return;
+
+    const { error } = await restoreFromTrash(userId, kind, [id]);
+    if (error) {
+      console.error("Error restoring from trash:", error);
+      toast.error(error.message || "Failed to restore");
+      return;
+    }
+    removeFromList(kind, id);
+    toast.success(kind === "task" ? "Task restored" : "Note restored");
+  };
+
+  const handleDeleteForever = async (kind: TrashKind, id: string) => {
+    if (!userId) return;
+
+    const { error } = await deleteForever(userId, kind, [id]);
+    if (error) {
+      console.error("Error deleting from trash:", error);
+      toast.error(error.message || "Failed to delete");
+      return;
+    }
+    removeFromList(kind, id);
+    toast.success("Deleted forever");
+  };
+
+  const handleEmptyTrash = async () => {
+    if (!userId) return;
+
+    const { error } = await emptyTrash(userId);
+    if (error) {
+      console.error("Error emptying trash:", error);
+      toast.error(error.message || "Failed to empty the trash");
+      loadTrash();
+      return;
+    }
+    setTasks([]);
+    setNotes([]);
+    toast.success("Trash emptied");
+  };
+
+  const isEmpty = tasks.length === 0 && notes.length === 0;
+
+  return (
+    <div>
+      <Navbar />
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle>Trash</CardTitle>
+              <CardDescription>
+                Deleted tasks and notes are kept here for {retentionDays} days
+                before they are removed for good. You can change this in{" "}
+                <Link to="/settings" className="underline">
+                  Settings
+                </Link>
+                .
+              </CardDescription>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => setShowEmptyConfirm(true)}
+              disabled={isEmpty}
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Empty trash
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <Tabs defaultValue="tasks">
+                <TabsList>
+                  <TabsTrigger value="tasks">Tasks ({tasks.length})</TabsTrigger>
+                  <TabsTrigger value="notes">Notes ({notes.length})</TabsTrigger>
+                </TabsList>
+                <TabsContent value="tasks" className="space-y-2">
+                  {tasks.length === 0 ? (
+                    <p className="py-6 text-center text-sm text-muted-foreground">
+                      No deleted tasks.
+                    </p>
+                  ) : (
+                    tasks.map((task) => (
+                      <TrashRow
+                        key={task.id}
+                        title={task.sub_task}
+                        detail={task.main_task}
+                        deletedAt={task.deleted_at}
+                        retentionDays={retentionDays}
+                        onRestore={() => handleRestore("task", task.id)}
+                        onDelete={() => handleDeleteForever("task", task.id)}
+                      />
+                    ))
+                  )}
+                </TabsContent>
+                <TabsContent value="notes" className="space-y-2">
+                  {notes.length === 0 ? (
+                    <p className="py-6 text-center text-sm text-muted-foreground">
+                      No deleted notes.
+                    </p>
+                  ) : (
+                    notes.map((note) => (
+                      <TrashRow
+                        key={note.id}
+                        title={note.notes_title || "Untitled note"}
+                        deletedAt={note.deleted_at}
+                        retentionDays={retentionDays}
+                        onRestore={() => handleRestore("note", note.id)}
+                        onDelete={() => handleDeleteForever("note", note.id)}
+                      />
+                    ))
+                  )}
+                </TabsContent>
+              </Tabs>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <AlertDialog open={showEmptyConfirm} onOpenChange={setShowEmptyConfirm}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Empty the trash?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {tasks.length} task(s) and {notes.length} note(s) will be deleted
+              for good. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleEmptyTrash}>
+              Empty trash
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,559 @@
+import { useState, useEffect, useCallback } from "react";
+import { checkAuthStatus } from "@/lib/supabase";
+import {
+  WebhookDelivery,
+  WebhookSubscription,
+  webhookRepository,
+} from "@/lib/repositories";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Loader2,
+  Webhook,
+  Copy,
+  Trash2,
+  AlertTriangle,
+  History,
+  RotateCcw,
+} from "lucide-react";
+import { format } from "date-fns";
+import { Navbar } from "@/components/layout/Navbar";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogClose,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { TaskEventType } from "@/lib/taskEvents";
+import {
+  WEBHOOK_EVENTS,
+  generateWebhookSecret,
+  requestWebhookDispatch,
+} from "@/lib/webhooks";
+import { getWebhookUrlError } from "@/lib/webhookUrls";
+
+const deliveryStatusVariant = {
+  pending: "outline",
+  sending: "outline",
+  succeeded: "secondary",
+  failed: "destructive",
+} as const;
+
+export default function WebhooksPage() {
+  const [webhooks, setWebhooks] = useState<WebhookSubscription[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [isDeleting, setIsDeleting] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [newUrl, setNewUrl] = useState("");
+  const [newEvents, setNewEvents] = useState<TaskEventType[]>(
+    WEBHOOK_EVENTS.map((event) => event.value)
+  );
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [historyWebhook, setHistoryWebhook] =
+    useState<WebhookSubscription | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [isLoadingDeliveries, setIsLoadingDeliveries] = useState(false);
+
+  const fetchWebhooks = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const { data, error: fetchError } = await webhookRepository.list();
+
+    if (fetchError) {
+      console.error("Error fetching webhooks:", fetchError);
+      setError(`Failed to load webhooks: ${fetchError.message}`);
+      setWebhooks([]);
+    } else if (data) {
+      setWebhooks(data);
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchWebhooks();
+  }, [fetchWebhooks]);
+
+  // Only https URLs on public hosts; the dispatcher checks again on sending
+  const newUrlError = getWebhookUrlError(newUrl.trim());
+
+  const handleCreateWebhook = async () => {
+    setIsCreating(true);
+    setError(null);
+
+    try {
+      const session = await checkAuthStatus();
+
+      if (!session) {
+        throw new Error("You must be logged in to add webhooks");
+      }
+
+      const secret = generateWebhookSecret();
+      const { error: insertError } = await webhookRepository.create({
+        user_id: session.user.id,
+        url: newUrl.trim(),
+        events: newEvents,
+        secret,
+      });
+
+      if (insertError) {
+        throw new Error(insertError.message);
+      }
+
+      setNewSecret(secret);
+      fetchWebhooks();
+      setShowCreateDialog(false);
+    } catch (err: unknown) {
+      console.error("Error creating webhook:", err);
+      setError(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleDeleteWebhook = async (webhookId: string) => {
+    setIsDeleting(webhookId);
+    setError(null);
+
+    const { error: deleteError } = await webhookRepository.delete(webhookId);
+
+    if (deleteError) {
+      console.error("Error deleting webhook:", deleteError);
+      setError(`Failed to delete webhook: ${deleteError.message}`);
+    } else {
+      setWebhooks((prev) => prev.filter((hook) => hook.id !== webhookId));
+    }
+    setIsDeleting(null);
+  };
+
+  const handleToggleActive = async (webhookId: string, active: boolean) => {
+    setWebhooks((prev) =>
+      prev.map((hook) => (hook.id === webhookId ? { ...hook, active } : hook))
+    );
+
+    const { error: updateError } = await webhookRepository.setActive(
+      webhookId,
+      active
+    );
+
+    if (updateError) {
+      console.error("Error updating webhook:", updateError);
+      setError(`Failed to update webhook: ${updateError.message}`);
+      // Rollback UI changes on error
+      setWebhooks((prev) =>
+        prev.map((hook) =>
+          hook.id === webhookId ? { ...hook, active: !active } : hook
+        )
+      );
+    }
+  };
+
+  const copySecret = (id: string, secret: string) => {
+    navigator.clipboard.writeText(secret).then(
+      () => {
+        setCopiedId(id);
+        setTimeout(() => setCopiedId(null), 2000);
+      },
+      (err) => {
+        console.error("Failed to copy: ", err);
+        setError("Failed to copy signing secret to clipboard.");
+      }
+    );
+  };
+
+  const fetchDeliveries = async (webhookId: string) => {
+    setIsLoadingDeliveries(true);
+
+    const { data, error: fetchError } =
+      await webhookRepository.listDeliveries(webhookId);
+
+    if (fetchError) {
+      console.error("Error fetching webhook deliveries:", fetchError);
+      setError(`Failed to load deliveries: ${fetchError.message}`);
+      setHistoryWebhook(null);
+    } else {
+      setDeliveries(data || []);
+    }
+    setIsLoadingDeliveries(false);
+  };
+
+  const showDeliveries = (webhook: WebhookSubscription) => {
+    setHistoryWebhook(webhook);
+    setDeliveries([]);
+    fetchDeliveries(webhook.id);
+  };
+
+  // Queue a failed delivery again with a fresh set of attempts
+  const handleRedeliver = async (deliveryId: string) => {
+    const { error: updateError } = await webhookRepository.redeliver(
+      deliveryId
+    );
+
+    if (updateError) {
+      console.error("Error requeueing delivery:", updateError);
+      setError(`Failed to requeue delivery: ${updateError.message}`);
+      return;
+    }
+
+    requestWebhookDispatch();
+    if (historyWebhook) {
+      fetchDeliveries(historyWebhook.id);
+    }
+  };
+
+  const toggleNewEvent = (event: TaskEventType, checked: boolean) => {
+    setNewEvents((events) =>
+      checked ? [...events, event] : events.filter((e) => e !== event)
+    );
+  };
+
+  const handleShowCreateDialog = () => {
+    setNewUrl("");
+    setNewEvents(WEBHOOK_EVENTS.map((event) => event.value));
+    setNewSecret(null);
+    setError(null);
+    setShowCreateDialog(true);
+  };
+
+  return (
+    <div>
+      <Navbar />
+      <div className="container mx-auto px-4 py-8">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <div>
+              <CardTitle>Webhooks</CardTitle>
+              <CardDescription>
+                Notify other systems when tasks are created, moved, completed
+                or restored.
+              </CardDescription>
+            </div>
+            <Button onClick={handleShowCreateDialog} disabled={isLoading}>
+              <Webhook className="mr-2 h-4 w-4" />
+              Add Webhook
+            </Button>
+          </CardHeader>
+          <CardContent className="space-y-6 pt-6">
+            {error && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Error</AlertTitle>
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            {newSecret && (
+              <Alert>
+                <Webhook className="h-4 w-4" />
+                <AlertTitle>Webhook Added!</AlertTitle>
+                <AlertDescription>
+                  Use this signing secret to verify the{" "}
+                  <code>X-Webhook-Signature</code> header of each request.
+                  <div className="flex items-center space-x-2 mt-2 bg-muted p-2 rounded">
+                    <input
+                      type="text"
+                      readOnly
+                      value={newSecret}
+                      className="flex-grow p-1 bg-transparent outline-none font-mono text-sm"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => copySecret("new", newSecret)}
+                    >
+                      <Copy className="h-4 w-4 mr-1" />{" "}
+                      {copiedId === "new" ? "Copied!" : "Copy"}
+                    </Button>
+                  </div>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div>
+              <h3 className="text-lg font-medium mb-2">Your Webhooks</h3>
+              {isLoading ? (
+                <div className="flex justify-center items-center py-4">
+                  <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                  <span className="ml-2">Loading webhooks...</span>
+                </div>
+              ) : webhooks.length === 0 ? (
+                <p className="text-muted-foreground text-sm">
+                  You haven't added any webhooks yet.
+                </p>
+              ) : (
+                <div className="border rounded-md">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>URL</TableHead>
+                        <TableHead>Events</TableHead>
+                        <TableHead>Created At</TableHead>
+                        <TableHead>Active</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {webhooks.map((hook) => (
+                        <TableRow key={hook.id}>
+                          <TableCell className="font-mono text-xs break-all">
+                            {hook.url}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1">
+                              {hook.events.map((event) => (
+                                <Badge
+                                  key={event}
+                                  variant="secondary"
+                                  className="font-mono text-[10px] font-normal"
+                                >
+                                  {event}
+                                </Badge>
+                              ))}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            {format(new Date(hook.created_at), "PPp")}
+                          </TableCell>
+                          <TableCell>
+                            <Switch
+                              checked={hook.active}
+                              onCheckedChange={(checked) =>
+                                handleToggleActive(hook.id, checked)
+                              }
+                              aria-label="Toggle webhook"
+                            />
+                          </TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => showDeliveries(hook)}
+                              aria-label="View deliveries"
+                              title="View deliveries"
+                            >
+                              <History className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => copySecret(hook.id, hook.secret)}
+                              aria-label="Copy signing secret"
+                              title={
+                                copiedId === hook.id
+                                  ? "Copied!"
+                                  : "Copy signing secret"
+                              }
+                            >
+                              <Copy className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleDeleteWebhook(hook.id)}
+                              disabled={isDeleting === hook.id}
+                              aria-label="Delete webhook"
+                            >
+                              {isDeleting === hook.id ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                              )}
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Dialog for adding a webhook */}
+      <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Webhook</DialogTitle>
+            <DialogDescription>
+              We'll send a signed JSON POST request to this URL for each
+              selected event.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="webhookUrl">Endpoint URL</Label>
+              <Input
+                id="webhookUrl"
+                placeholder="https://example.com/hooks/tasks"
+                value={newUrl}
+                onChange={(e) => setNewUrl(e.target.value)}
+              />
+              {newUrl.trim() && newUrlError && (
+                <p className="text-sm text-destructive">{newUrlError}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Events</Label>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {WEBHOOK_EVENTS.map((event) => (
+                  <div key={event.value} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`event-${event.value}`}
+                      checked={newEvents.includes(event.value)}
+                      onCheckedChange={(checked) =>
+                        toggleNewEvent(event.value, checked === true)
+                      }
+                    />
+                    <Label
+                      htmlFor={`event-${event.value}`}
+                      className="text-sm font-normal"
+                    >
+                      {event.label}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button variant="outline">Cancel</Button>
+            </DialogClose>
+            <Button
+              onClick={handleCreateWebhook}
+              disabled={
+                isCreating || newEvents.length === 0 || !!newUrlError
+              }
+              className="min-w-[120px]"
+            >
+              {isCreating ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Adding...
+                </>
+              ) : (
+                <>Add Webhook</>
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Dialog showing the delivery history of a webhook */}
+      <Dialog
+        open={historyWebhook !== null}
+        onOpenChange={(open) => !open && setHistoryWebhook(null)}
+      >
+        <DialogContent className="sm:max-w-[720px]">
+          <DialogHeader>
+            <DialogTitle>Delivery History</DialogTitle>
+            <DialogDescription className="break-all">
+              The 50 most recent deliveries to {historyWebhook?.url}.
+            </DialogDescription>
+          </DialogHeader>
+
+          {isLoadingDeliveries ? (
+            <div className="flex justify-center items-center py-4">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              <span className="ml-2">Loading deliveries...</span>
+            </div>
+          ) : deliveries.length === 0 ? (
+            <p className="text-muted-foreground text-sm py-4">
+              No events have been sent to this webhook yet.
+            </p>
+          ) : (
+            <div className="border rounded-md max-h-[400px] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Event</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Details</TableHead>
+                    <TableHead className="text-right"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {deliveries.map((delivery) => (
+                    <TableRow key={delivery.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(delivery.created_at), "PPp")}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {delivery.event}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={deliveryStatusVariant[delivery.status]}>
+                          {delivery.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {delivery.attempts} attempt
+                        {delivery.attempts === 1 ? "" : "s"}
+                        {delivery.response_status &&
+                          ` · HTTP ${delivery.response_status}`}
+                        {delivery.status === "pending" &&
+                          delivery.attempts > 0 &&
+                          ` · retry ${format(
+                            new Date(delivery.next_attempt_at),
+                            "p"
+                          )}`}
+                        {delivery.last_error && (
+                          <div className="text-destructive break-all">
+                            {delivery.last_error}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {delivery.status === "failed" && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleRedeliver(delivery.id)}
+                            aria-label="Redeliver"
+                            title="Redeliver"
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
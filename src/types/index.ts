@@ -1,38 +1,123 @@
 // Task importance levels
 export type ImportanceLevel = "Low" | "Medium" | "High";
 
-// Bucket types
-export type TaskBucketType =
-  | "On Hold"
-  | "Today"
-  | "Tomorrow";
+// Built-in buckets every user has
+export type BuiltInBucket = "On Hold" | "Today" | "Tomorrow";
+
+// Bucket name: a built-in bucket or one of the user's custom buckets
+export type TaskBucketType = BuiltInBucket | (string & {});
+
+export type BucketColor =
+  | "slate"
+  | "blue"
+  | "violet"
+  | "emerald"
+  | "amber"
+  | "rose";
+
+// User-defined bucket stored in the task_buckets table
+export interface BucketConfig {
+  id: string;
+  user_id: string;
+  name: string;
+  color: BucketColor;
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// How often a recurring task repeats
+export type RecurrenceFrequency =
+  | "daily"
+  | "weekdays"
+  | "weekly"
+  | "monthly"
+  | "interval";
+
+// Recurrence rule stored on a repeating task
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  days_of_week?: number[]; // 0 = Sunday ... 6 = Saturday, for "weekly"
+  day_of_month?: number; // For "monthly"
+  interval_days?: number; // For "interval": every N days
+}
 
 // Task object structure
 export interface Task {
   id: string;
   user_id: string;
   sub_task: string;
-  main_task?: string;
+  project_id?: string | null; // The project the task belongs to
+  main_task?: string; // Copy of the project name
   category: string;
   importance: ImportanceLevel;
   time_estimate?: number; // Optional, in minutes
+  tracked_minutes?: number | null; // Time tracked, saved when completed
   sort_order?: number;
   bucket: TaskBucketType;
   is_archived: boolean;
   completed: boolean; // Whether the sub-task is completed
   completed_at?: string | null;
+  recurrence_rule?: RecurrenceRule | null;
+  recurrence_series_id?: string | null; // Id of the first occurrence
+  occurrence_date?: string | null; // yyyy-MM-dd this occurrence is for
+  due_at?: string | null; // Deadline timestamp
+  blocked_by?: string[]; // Ids of the tasks that block this one
+  deleted_at?: string | null; // Set while a deleted task can still be restored
+  created_at: string;
+  updated_at: string;
+}
+
+// A project groups related tasks; stored in the projects table
+export interface Project {
+  id: string;
+  user_id: string;
+  name: string;
+  color: BucketColor;
+  description: string | null;
+  is_archived: boolean;
   created_at: string;
   updated_at: string;
 }
 
+// Time spent on a task, stored in the time_entries table. Recorded while
+// the countdown runs or added by hand.
+export interface TimeEntry {
+  id: string;
+  user_id: string;
+  task_id: string;
+  started_at: string;
+  ended_at: string;
+  duration_seconds: number;
+  completes_cycle?: boolean; // Ends a pomodoro focus phase that was completed
+  created_at: string;
+  updated_at: string;
+}
+
+// What a bulk rename/merge applies to
+export type BulkEditKind = "project" | "category";
+
+// A recorded bulk rename/merge, stored in the bulk_edits table
+export interface BulkEdit {
+  id: string;
+  kind: BulkEditKind;
+  from_values: string[];
+  to_value: string;
+  affected_tasks: number;
+  created_at: string;
+  undone_at: string | null;
+}
+
 // Form input for creating a new task
 export interface TaskFormInput {
-  main_task: string;
+  main_task: string; // Project name; a new project is created if needed
   sub_task: string;
   category: string;
   importance: ImportanceLevel;
   bucket: TaskBucketType;
   time_estimate?: number; // Add time_estimate as an optional number
+  recurrence_rule?: RecurrenceRule | null;
+  due_at?: string | null;
 }
 
 // Props for the TaskCard component
@@ -57,6 +142,21 @@ export interface TaskBucketProps {
   allowTimeEstimate?: boolean;
 }
 
+// What the daily rollover does with unfinished Today tasks
+export type UnfinishedTodayAction = "stay" | "on_hold";
+
+// Per-user settings stored in the user_preferences table
+export interface UserPreferences {
+  user_id: string;
+  unfinished_today_action: UnfinishedTodayAction;
+  timezone: string; // IANA zone the scheduled rollover uses
+  last_rollover_date: string | null; // yyyy-MM-dd
+  rollover_summary: string | null; // Left by the scheduled rollover until shown
+  trash_retention_days: number; // Deleted tasks and notes are purged after this
+  created_at: string;
+  updated_at: string;
+}
+
 // Chart data for visual summary
 export interface ChartData {
   labels: string[];